@@ -0,0 +1,42 @@
+/**
+ * Copies the question banks the edge functions score answers against from src/config into
+ * supabase/functions/_shared (edge functions only bundle files under supabase/functions).
+ *
+ * Usage:
+ *   node scripts/sync-content-banks.js          write the server copies
+ *   node scripts/sync-content-banks.js --check  fail if any copy differs from src/config
+ *
+ * Edit the banks in src/config only, then run `npm run sync:banks`.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE_DIR = join(root, 'src/config');
+const SHARED_DIR = join(root, 'supabase/functions/_shared');
+
+// Banks manage-game-rooms checks multiplayer answers against
+const BANKS = ['riddles.json', 'crosswords.json', 'word-scramble.json', 'emoji-guess.json'];
+
+const check = process.argv.includes('--check');
+const stale = [];
+
+for (const bank of BANKS) {
+  const source = readFileSync(join(SOURCE_DIR, bank));
+  const target = join(SHARED_DIR, bank);
+  if (existsSync(target) && readFileSync(target).equals(source)) continue;
+
+  if (check) {
+    stale.push(relative(root, target));
+  } else {
+    writeFileSync(target, source);
+    console.log(`Updated ${relative(root, target)}`);
+  }
+}
+
+if (stale.length > 0) {
+  console.error(`Server question banks are out of date:\n  ${stale.join('\n  ')}\nRun \`npm run sync:banks\` and commit the result.`);
+  process.exit(1);
+}
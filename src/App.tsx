@@ -5,12 +5,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ProgressProvider } from "@/contexts/ProgressContext";
 import { Auth0ProviderWrapper } from "@/contexts/Auth0Context";
+import { ParentControlProvider } from "@/contexts/ParentControlContext";
+import { PresenceProvider } from "@/contexts/PresenceContext";
+import BadgeUnlockCelebration from "@/components/BadgeUnlockCelebration";
+import ScreenTimeLock from "@/components/ScreenTimeLock";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { AuthPage } from "./pages/Auth/AuthPage";
 import Landing from "./pages/Landing";
 import Index from "./pages/Index";
 import Profile from "./pages/Profile";
 import ParentSetup from "./pages/ParentSetup";
+import ParentDashboard from "./pages/ParentDashboard";
 import ModeSelector from "./pages/ModeSelector";
 import GameDashboard from "./pages/GameDashboard";
 import StoryDashboard from "./pages/StoryDashboard";
@@ -28,9 +33,13 @@ const App = () => (
     <TooltipProvider>
       <Auth0ProviderWrapper>
         <ProgressProvider>
+        <ParentControlProvider>
+        <PresenceProvider>
           <Toaster />
           <Sonner />
+          <BadgeUnlockCelebration />
           <BrowserRouter>
+            <ScreenTimeLock />
             <Routes>
              {/* Public Landing */}
              <Route path="/welcome" element={<Landing />} />
@@ -41,6 +50,7 @@ const App = () => (
              {/* Protected App routes */}
              <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
              <Route path="/parent-setup" element={<ProtectedRoute><ParentSetup /></ProtectedRoute>} />
+             <Route path="/parent" element={<ProtectedRoute><ParentDashboard /></ProtectedRoute>} />
              <Route path="/modes" element={<ProtectedRoute><ModeSelector /></ProtectedRoute>} />
              <Route path="/games" element={<ProtectedRoute><GameDashboard /></ProtectedRoute>} />
              <Route path="/stories" element={<ProtectedRoute><StoryDashboard /></ProtectedRoute>} />
@@ -57,6 +67,8 @@ const App = () => (
              <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
+        </PresenceProvider>
+        </ParentControlProvider>
       </ProgressProvider>
       </Auth0ProviderWrapper>
     </TooltipProvider>
@@ -0,0 +1,33 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useProgress } from '@/contexts/ProgressContext';
+
+// Shows newly unlocked badges one at a time, wherever the child is in the app
+const BadgeUnlockCelebration = () => {
+  const { unlockedBadges, acknowledgeBadge } = useProgress();
+  const badge = unlockedBadges[0];
+
+  if (!badge) return null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && acknowledgeBadge(badge.id)}>
+      <DialogContent className="max-w-sm text-center">
+        <DialogHeader>
+          <div className="text-7xl mb-2 animate-bounce">{badge.icon}</div>
+          <DialogTitle className="text-2xl font-fredoka text-primary text-center">
+            New Badge Unlocked!
+          </DialogTitle>
+          <DialogDescription className="text-center text-base">
+            <span className="block font-semibold text-foreground">{badge.title}</span>
+            {badge.description}
+          </DialogDescription>
+        </DialogHeader>
+        <Button onClick={() => acknowledgeBadge(badge.id)} className="w-full">
+          Awesome! 🎉
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BadgeUnlockCelebration;
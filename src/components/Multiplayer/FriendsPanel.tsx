@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,16 +8,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAppContext } from "@/contexts/Auth0Context";
+import { usePresence } from "@/hooks/use-presence";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Search, Users, UserPlus, UserMinus } from "lucide-react";
+import type { FriendStatus } from "@/types/multiplayer";
 
 interface Friend {
   id: string;
   name: string;
   avatar: string;
-  status: 'online' | 'offline' | 'in-game';
+  status: FriendStatus;
   child_id: string;
+  room_id?: string | null;
 }
 
 interface FriendRequest {
@@ -40,10 +43,16 @@ interface OnlineUser {
   id: string;
   name: string;
   avatar: string;
-  status: 'online' | 'in-game' | 'offline';
+  status: FriendStatus;
+  room_id?: string | null;
   last_seen?: string;
 }
 
+// Online first, then in a game, then offline; alphabetical within each
+const STATUS_ORDER: Record<FriendStatus, number> = { online: 0, 'in-game': 1, offline: 2 };
+const byStatusThenName = <T extends { status: FriendStatus; name: string }>(a: T, b: T) =>
+  STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || (a.name || '').localeCompare(b.name || '');
+
 interface RoomInvitation {
   id: string;
   room_code: string;
@@ -58,6 +67,7 @@ interface FriendsPanelProps {
 
 const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
   const { selectedChild } = useAppContext();
+  const { getStatus } = usePresence();
   const { toast } = useToast();
   const [friends, setFriends] = useState<Friend[]>([]);
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
@@ -71,6 +81,14 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [isLoadingOnlineUsers, setIsLoadingOnlineUsers] = useState(false);
 
+  // Statuses from the server are a snapshot; presence keeps them live while the panel is open
+  const liveFriends = useMemo(() => friends
+    .map(f => ({ ...f, status: getStatus(f.child_id, f.room_id, f.status) }))
+    .sort(byStatusThenName), [friends, getStatus]);
+  const liveUsers = useMemo(() => onlineUsers
+    .map(u => ({ ...u, status: getStatus(u.id, u.room_id, u.status) }))
+    .sort(byStatusThenName), [onlineUsers, getStatus]);
+
 
   useEffect(() => {
     if (selectedChild) {
@@ -149,24 +167,14 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
 
       const apiFriends: any[] = data.data || [];
 
-      // Merge online status from current onlineUsers state (override edge fn status if we have fresher data)
-      const merged = apiFriends.map((f) => {
-        const online = onlineUsers.find(u => u.id === f.child_id)?.status;
-        return {
-          id: f.id,
-          child_id: f.child_id,
-          name: f.name,
-          avatar: f.avatar || '👤',
-          status: (online || f.status || 'offline') as Friend['status']
-        } as Friend;
-      })
-      // Sort: online first, then by name
-      .sort((a, b) => {
-        if (a.status === b.status) return (a.name || '').localeCompare(b.name || '');
-        return a.status === 'online' ? -1 : 1;
-      });
-
-      setFriends(merged);
+      setFriends(apiFriends.map((f) => ({
+        id: f.id,
+        child_id: f.child_id,
+        name: f.name,
+        avatar: f.avatar || '👤',
+        status: (f.status || 'offline') as FriendStatus,
+        room_id: f.room_id ?? null
+      })));
     } catch (error) {
       console.error('Error loading friends:', error);
       toast({
@@ -194,37 +202,14 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
 
       if (!data?.success) throw new Error(data?.error || 'Failed to load');
 
-      const now = new Date();
-      const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
-      const thirtyMinutesAgo = new Date(now.getTime() - 30 * 60 * 1000);
-
-      const onlineUsersList: OnlineUser[] = (data.data || []).map((child: any) => {
-        // Use database online status if available, otherwise fall back to time-based status
-        let status: 'online' | 'in-game' | 'offline' = 'offline';
-        
-        if (child.is_online) {
-          status = 'online';
-        } else {
-          // Fallback to time-based status
-          const lastSeen = new Date(child.last_seen_at || child.updated_at);
-          if (lastSeen > fiveMinutesAgo) {
-            status = 'online';
-          }
-        }
-
-        return {
-          id: child.id,
-          name: child.name,
-          avatar: child.avatar || '👤',
-          status,
-          last_seen: child.last_seen_at || child.updated_at
-        };
-      })
-      // Sort: online first, then by name
-      .sort((a: OnlineUser, b: OnlineUser) => {
-        if (a.status === b.status) return a.name.localeCompare(b.name);
-        return a.status === 'online' ? -1 : 1;
-      });
+      const onlineUsersList: OnlineUser[] = (data.data || []).map((child: any) => ({
+        id: child.id,
+        name: child.name,
+        avatar: child.avatar || '👤',
+        status: (child.status || 'offline') as FriendStatus,
+        room_id: child.room_id ?? null,
+        last_seen: child.last_seen_at || child.updated_at
+      }));
 
       setOnlineUsers(onlineUsersList);
     } catch (error) {
@@ -283,7 +268,7 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
   const handleInvitation = async (requestId: string, approve: boolean) => {
     try {
       const { data } = await supabase.functions.invoke('manage-game-rooms', {
-        body: { action: 'handle_join_request', request_id: requestId, approve },
+        body: { action: 'handle_join_request', request_id: requestId, child_id: selectedChild?.id, approve },
       });
       if (data?.success) {
         if (approve && data?.room) {
@@ -535,7 +520,7 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
             
             <ScrollArea className="h-60">
               <div className="space-y-2">
-                {friends.map((friend) => (
+                {liveFriends.map((friend) => (
                   <div
                     key={friend.id}
                     className="flex items-center justify-between p-3 bg-secondary/20 rounded-lg"
@@ -757,7 +742,7 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
                     </div>
                   )}
                   
-                  {!isLoadingOnlineUsers && onlineUsers.map((user) => {
+                  {!isLoadingOnlineUsers && liveUsers.map((user) => {
                     const isOnline = user.status === 'online';
                     const bgClass = isOnline ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-secondary/20 border-border';
                     
@@ -785,7 +770,7 @@ const FriendsPanel = ({ onInviteFriend }: FriendsPanelProps) => {
                           <div>
                             <p className="font-medium text-sm">{user.name}</p>
                             <p className="text-xs text-muted-foreground capitalize">
-                              {user.status === 'online' ? 'Online' : 'Offline'}
+                              {user.status === 'online' ? 'Online' : user.status === 'in-game' ? 'In a game' : 'Offline'}
                             </p>
                           </div>
                         </div>
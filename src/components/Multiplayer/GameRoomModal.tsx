@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Search, Users, UserPlus } from "lucide-react";
 import { useAppContext } from "@/contexts/Auth0Context";
+import { usePresence } from "@/hooks/use-presence";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
@@ -27,6 +28,7 @@ interface Friend {
   avatar: string;
   status: 'online' | 'offline' | 'in-game';
   child_id: string;
+  room_id?: string | null;
   in_room?: boolean;
 }
 
@@ -34,8 +36,8 @@ interface OnlineUser {
   id: string;
   name: string;
   avatar: string;
-  is_online: boolean;
   status: 'online' | 'offline' | 'in-game';
+  room_id?: string | null;
   in_room?: boolean;
 }
 
@@ -67,6 +69,12 @@ const GameRoomModal = ({ isOpen, onClose, gameId, difficulty, onStartGame, invit
   const [invitedFriends, setInvitedFriends] = useState<Friend[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoadingFriends, setIsLoadingFriends] = useState(false);
+  const { getStatus } = usePresence();
+
+  // Keep the server's statuses live with presence while the modal is open
+  const liveFriends = useMemo(() => friends.map(f => ({ ...f, status: getStatus(f.child_id, f.room_id, f.status) })), [friends, getStatus]);
+  const liveInvitedFriends = useMemo(() => invitedFriends.map(f => ({ ...f, status: getStatus(f.child_id, f.room_id, f.status) })), [invitedFriends, getStatus]);
+  const liveOnlineUsers = useMemo(() => onlineUsers.map(u => ({ ...u, status: getStatus(u.id, u.room_id, u.status) })), [onlineUsers, getStatus]);
 
   useEffect(() => {
     if (!isOpen) return;
@@ -561,7 +569,7 @@ const GameRoomModal = ({ isOpen, onClose, gameId, difficulty, onStartGame, invit
                         <span className="text-sm font-medium">Invited Friends ({invitedFriends.length})</span>
                       </div>
                       <div className="space-y-2">
-                        {invitedFriends.map((friend) => (
+                        {liveInvitedFriends.map((friend) => (
                           <div key={friend.id} className="flex items-center gap-2 text-sm">
                             <Avatar className="w-6 h-6">
                               <AvatarImage src={friend.avatar} />
@@ -606,7 +614,7 @@ const GameRoomModal = ({ isOpen, onClose, gameId, difficulty, onStartGame, invit
                     </div>
 
                     <div className="max-h-32 overflow-y-auto space-y-1">
-                      {friends.filter(friend => 
+                      {liveFriends.filter(friend => 
                         friend.name && friend.name.toLowerCase().includes(searchQuery.toLowerCase())
                       ).map((friend) => (
                         <div key={friend.id} className="flex items-center space-x-2">
@@ -635,7 +643,7 @@ const GameRoomModal = ({ isOpen, onClose, gameId, difficulty, onStartGame, invit
                       ))}
 
                       {/* Online Users */}
-                      {onlineUsers.filter(user => 
+                      {liveOnlineUsers.filter(user => 
                         user.name && user.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
                         !friends.some(f => f.child_id === user.id) &&
                         user.id !== selectedChild?.id
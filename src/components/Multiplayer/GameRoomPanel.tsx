@@ -22,6 +22,7 @@ interface JoinRequest {
   player_name: string;
   player_avatar: string;
   child_id: string;
+  room_id?: string | null; // set on invitations sent by the host, which the invitee answers
 }
 
 interface GameRoomPanelProps {
@@ -61,13 +62,16 @@ const GameRoomPanel = ({ roomCode, gameId, onPlayerJoin, players: externalPlayer
     if (gameMode === 'multiplayer' && roomCode) {
       loadRoomData();
       
-      // Set up real-time subscription for join requests
+      // Only the host answers join requests; if the host changes, the new one picks this up
+      if (!isHost) return;
+
       const channel = supabase
-        .channel('game-room-updates')
+        .channel(`join-requests-${roomCode}`)
         .on('postgres_changes', 
-          { event: 'INSERT', schema: 'public', table: 'join_requests' },
+          { event: 'INSERT', schema: 'public', table: 'join_requests', filter: `room_code=eq.${roomCode}` },
           (payload) => {
             const newRequest = payload.new as JoinRequest;
+            if (newRequest.room_id) return;
             setJoinRequests(prev => {
               const updated = [...prev, newRequest];
               onJoinRequestUpdate?.(updated.length);
@@ -88,7 +92,7 @@ const GameRoomPanel = ({ roomCode, gameId, onPlayerJoin, players: externalPlayer
         supabase.removeChannel(channel);
       };
     }
-  }, [roomCode, externalPlayers, gameMode]);
+  }, [roomCode, externalPlayers, gameMode, isHost]);
 
   const loadRoomData = async () => {
     if (!roomCode) return;
@@ -146,8 +150,11 @@ const GameRoomPanel = ({ roomCode, gameId, onPlayerJoin, players: externalPlayer
           .not('child_id', 'in', `(${participantChildIds.join(',')})`);
 
         if (requests) {
-          setJoinRequests(requests as unknown as JoinRequest[]);
-          onJoinRequestUpdate?.(requests.length);
+          const pending = isHost
+            ? (requests as unknown as JoinRequest[]).filter(r => !r.room_id)
+            : [];
+          setJoinRequests(pending);
+          onJoinRequestUpdate?.(pending.length);
         }
       }
     } catch (error) {
@@ -161,6 +168,7 @@ const GameRoomPanel = ({ roomCode, gameId, onPlayerJoin, players: externalPlayer
         body: {
           action: 'handle_join_request',
           request_id: requestId,
+          child_id: selectedChildId,
           approve
         }
       });
@@ -252,7 +260,8 @@ const GameRoomPanel = ({ roomCode, gameId, onPlayerJoin, players: externalPlayer
         const { data } = await supabase.functions.invoke('manage-game-rooms', {
           body: {
             action: 'close_room',
-            room_id: room.id
+            room_id: room.id,
+            child_id: selectedChildId
           }
         });
         
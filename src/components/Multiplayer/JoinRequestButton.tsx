@@ -119,6 +119,7 @@ const JoinRequestButton = ({ className }: JoinRequestButtonProps) => {
         body: {
           action: 'handle_join_request',
           request_id: request.id,
+          child_id: selectedChild?.id,
           approve: true
         }
       });
@@ -158,6 +159,7 @@ const JoinRequestButton = ({ className }: JoinRequestButtonProps) => {
         body: {
           action: 'handle_join_request',
           request_id: request.id,
+          child_id: selectedChild?.id,
           approve: false
         }
       });
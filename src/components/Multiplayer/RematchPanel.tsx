@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRematch } from "@/hooks/use-rematch";
+import { useToast } from "@/hooks/use-toast";
+import { GameRoomService } from "@/services/GameRoomService";
+
+interface RematchPlayer {
+  id: string;
+  name: string;
+  avatar: string;
+  isAI?: boolean;
+}
+
+interface RematchPanelProps {
+  roomId: string;
+  childId: string;
+  isHost: boolean;
+  players: RematchPlayer[];
+  /** Empty for games without themes; only the difficulty can change then */
+  themes: string[];
+  difficulties: string[];
+  /** Called after this child declines; the server has already taken them out of the room */
+  onDeclined: () => void;
+}
+
+/**
+ * End-of-game rematch in a room: anyone can ask, everyone else accepts or declines, and the
+ * server starts the next round (same room code) once every remaining player has accepted.
+ * The host can switch the theme or difficulty first.
+ */
+const RematchPanel = ({ roomId, childId, isHost, players, themes, difficulties, onDeclined }: RematchPanelProps) => {
+  const { toast } = useToast();
+  const { request, isOpen, settings, applyRequest } = useRematch(roomId);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast({ title: failure, description: error instanceof Error ? error.message : undefined, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const askForRematch = () => run(async () => {
+    applyRequest(await GameRoomService.requestRematch(roomId, childId));
+  }, "Couldn't ask for a rematch");
+
+  const respond = (accept: boolean) => run(async () => {
+    if (!request) return;
+    applyRequest(await GameRoomService.respondToRematch(roomId, childId, request.id, accept));
+    if (!accept) onDeclined();
+  }, "Couldn't answer the rematch");
+
+  const changeSettings = (next: { theme?: string; difficulty?: string }) => run(async () => {
+    await GameRoomService.updateSettings(roomId, childId, next);
+  }, "Couldn't change the game");
+
+  const humans = players.filter(p => !p.isAI);
+  const myResponse = isOpen ? request?.responses[childId] : undefined;
+
+  return (
+    <div className="space-y-3 rounded-xl border p-4">
+      {isHost && (
+        <div className={`grid gap-2 ${themes.length ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {themes.length > 0 && (
+            <Select
+              value={settings.theme ?? undefined}
+              onValueChange={(theme) => changeSettings({ theme })}
+              disabled={isBusy}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Theme" />
+              </SelectTrigger>
+              <SelectContent>
+                {themes.map(theme => (
+                  <SelectItem key={theme} value={theme}>{theme}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={settings.difficulty ?? undefined}
+            onValueChange={(difficulty) => changeSettings({ difficulty })}
+            disabled={isBusy}
+          >
+            <SelectTrigger className="capitalize">
+              <SelectValue placeholder="Difficulty" />
+            </SelectTrigger>
+            <SelectContent>
+              {difficulties.map(level => (
+                <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {!isHost && (settings.theme || settings.difficulty) && (
+        <p className="text-sm text-muted-foreground text-center">
+          Next round: {settings.theme && themes.length > 0 && <>{settings.theme} · </>}
+          <span className="capitalize">{settings.difficulty}</span>
+        </p>
+      )}
+
+      {isOpen && request ? (
+        <>
+          <p className="font-bold text-center">
+            {request.requestedBy === childId ? 'You asked for a rematch!' : `${request.requestedByName} wants a rematch!`}
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {humans.map(player => {
+              const response = request.responses[player.id];
+              return (
+                <Badge key={player.id} variant={response === 'accepted' ? 'default' : 'outline'}>
+                  {player.avatar} {player.name} {response === 'accepted' ? '✅' : response === 'declined' ? '❌' : '⏳'}
+                </Badge>
+              );
+            })}
+          </div>
+          {myResponse ? (
+            <p className="text-sm text-muted-foreground text-center">Waiting for everyone else...</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={() => respond(true)} disabled={isBusy}>👍 Let's play!</Button>
+              <Button onClick={() => respond(false)} disabled={isBusy} variant="outline">👋 No thanks</Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {request?.status === 'cancelled' && (
+            <p className="text-sm text-muted-foreground text-center">Nobody else wanted a rematch this time.</p>
+          )}
+          <Button onClick={askForRematch} disabled={isBusy} className="w-full bg-primary hover:bg-primary/90" size="lg">
+            🔄 Rematch
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RematchPanel;
@@ -0,0 +1,21 @@
+import { Card, CardContent } from "@/components/ui/card";
+
+interface RoomCountdownProps {
+  title: string;
+  seconds: number;
+}
+
+/** The shared "get ready" screen before a round's first question opens */
+const RoomCountdown = ({ title, seconds }: RoomCountdownProps) => (
+  <div className="min-h-screen bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4 flex items-center justify-center">
+    <Card className="max-w-md mx-auto bg-white/90 shadow-xl">
+      <CardContent className="text-center py-16">
+        <h2 className="text-2xl font-fredoka text-primary mb-4">{title}</h2>
+        <p className="text-lg text-muted-foreground mb-4">Get ready! Starting in...</p>
+        <div className="text-6xl font-bold text-primary">{seconds > 0 ? seconds : "GO!"}</div>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default RoomCountdown;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Search, Users, UserPlus, Home } from "lucide-react";
 import { useAppContext } from "@/contexts/Auth0Context";
+import { usePresence } from "@/hooks/use-presence";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { GameRoom } from "@/types/multiplayer";
@@ -57,6 +58,9 @@ const RoomManagementModal = ({ isOpen, onClose }: RoomManagementModalProps) => {
   
   // Friend management states
   const [friends, setFriends] = useState<Friend[]>([]);
+  const { getStatus } = usePresence();
+  // Keep the server's statuses live with presence while the modal is open
+  const liveFriends = useMemo(() => friends.map(f => ({ ...f, status: getStatus(f.child_id, f.room_id, f.status) })), [friends, getStatus]);
   const [selectedFriendIds, setSelectedFriendIds] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoadingFriends, setIsLoadingFriends] = useState(false);
@@ -583,7 +587,7 @@ const RoomManagementModal = ({ isOpen, onClose }: RoomManagementModalProps) => {
                     </div>
 
                     <div className="max-h-32 overflow-y-auto space-y-1">
-                      {friends.filter(friend => 
+                      {liveFriends.filter(friend => 
                         friend.name && friend.name.toLowerCase().includes(searchQuery.toLowerCase())
                       ).map((friend) => (
                         <div key={friend.id} className="flex items-center space-x-2">
@@ -0,0 +1,86 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import RematchPanel from "@/components/Multiplayer/RematchPanel";
+import RoomStandings from "@/components/Multiplayer/RoomStandings";
+import type { RoomPlayer } from "@/types/multiplayer";
+
+interface RoomResultsProps {
+  roomId: string;
+  childId: string;
+  childName: string;
+  isHost: boolean;
+  players: RoomPlayer[];
+  totalQuestions: number;
+  starsEarned: number;
+  themes: string[];
+  difficulties: string[];
+  /** Replaces the winner/runner-up line, e.g. for co-op rounds where the team wins together */
+  feedback?: string;
+}
+
+/** End-of-round screen for room games: final standings, stars, and a rematch or the way out */
+const RoomResults = ({
+  roomId,
+  childId,
+  childName,
+  isHost,
+  players,
+  totalQuestions,
+  starsEarned,
+  themes,
+  difficulties,
+  feedback: feedbackOverride,
+}: RoomResultsProps) => {
+  const navigate = useNavigate();
+  const topScore = Math.max(0, ...players.map(p => p.score));
+  const winners = players.filter(p => p.score === topScore);
+  const myScore = players.find(p => p.id === childId)?.score ?? 0;
+
+  let feedback = 'Nice job, keep going to climb to the top!';
+  if (myScore === topScore) {
+    feedback = winners.length === 1 ? 'You are the Winner! 🎉' : 'You tied for 1st place! 🥳';
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
+      <Card className="max-w-lg w-full mx-auto bg-white/90 shadow-xl">
+        <CardHeader className="text-center">
+          <div className="text-6xl mb-4">🎉</div>
+          <CardTitle className="text-2xl font-fredoka text-primary">Great Job, {childName}!</CardTitle>
+          <div className="mt-2">
+            <div className="inline-block px-3 py-1 rounded-full text-sm bg-blue-50 text-blue-800">{feedbackOverride ?? feedback}</div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6 text-center">
+          <div className="space-y-4">
+            <p className="text-lg text-muted-foreground">Final Scoreboard:</p>
+            <RoomStandings players={players} childId={childId} totalQuestions={totalQuestions} />
+            <div className="flex justify-center mt-4">
+              {Array.from({ length: 3 }, (_, i) => (
+                <span key={i} className={`text-2xl ${i < starsEarned ? 'text-yellow-500' : 'text-gray-300'}`}>⭐</span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <RematchPanel
+              roomId={roomId}
+              childId={childId}
+              isHost={isHost}
+              players={players}
+              themes={themes}
+              difficulties={difficulties}
+              onDeclined={() => navigate('/games')}
+            />
+            <Button onClick={() => navigate('/games')} variant="outline" className="w-full" size="lg">
+              Back to Games
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RoomResults;
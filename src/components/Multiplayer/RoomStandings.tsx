@@ -0,0 +1,56 @@
+import type { ReactNode } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { RoomPlayer } from "@/types/multiplayer";
+
+interface RoomStandingsProps {
+  players: RoomPlayer[];
+  childId: string | null;
+  /** Shows "answered / total" under each name when set */
+  totalQuestions?: number;
+  compact?: boolean;
+  /** Drawn before each avatar, e.g. a co-op player's colour */
+  marker?: (player: RoomPlayer) => ReactNode;
+}
+
+/** Room players by score, leader crowned and this child highlighted */
+const RoomStandings = ({ players, childId, totalQuestions, compact = false, marker }: RoomStandingsProps) => {
+  const sorted = [...players].sort((a, b) => b.score - a.score);
+  const topScore = sorted[0]?.score ?? 0;
+
+  return (
+    <div className={compact ? "space-y-2" : "space-y-3"}>
+      {sorted.map((player, index) => (
+        <div
+          key={player.id}
+          className={`flex items-center justify-between rounded-lg ${compact ? "p-1" : "p-3"} ${
+            player.id === childId ? "bg-primary/10 border border-primary/30" : "bg-secondary/10"
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <div className={compact ? "text-sm w-5" : "text-xl w-7"}>
+              {player.score === topScore && topScore > 0 ? "👑" : `${index + 1}.`}
+            </div>
+            {marker?.(player)}
+            <Avatar className={compact ? "w-6 h-6" : "w-8 h-8"}>
+              <AvatarFallback className={compact ? "text-sm" : "text-lg"}>{player.avatar}</AvatarFallback>
+            </Avatar>
+            <div className="text-left">
+              <div className={`font-medium text-primary ${compact ? "text-sm" : ""}`}>
+                {player.name}
+                {player.streak > 1 && <span className="ml-2 text-xs text-orange-600">🔥 {player.streak}</span>}
+              </div>
+              {totalQuestions !== undefined && (
+                <div className="text-xs text-muted-foreground">
+                  {Math.min(player.answered, totalQuestions)}/{totalQuestions} answered
+                </div>
+              )}
+            </div>
+          </div>
+          <span className={`font-bold text-primary ${compact ? "text-sm" : "text-xl"}`}>{player.score} pts</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RoomStandings;
@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState, type FormEvent, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AppHeader } from "@/components/Navigation/AppHeader";
+import GameRoomPanel from "@/components/Multiplayer/GameRoomPanel";
+import RoomCountdown from "@/components/Multiplayer/RoomCountdown";
+import RoomResults from "@/components/Multiplayer/RoomResults";
+import RoomStandings from "@/components/Multiplayer/RoomStandings";
+import { useAppContext } from "@/contexts/Auth0Context";
+import { useProgress } from "@/contexts/ProgressContext";
+import { useParentControls } from "@/hooks/use-parent-controls";
+import { useMultiplayerRoom } from "@/hooks/use-multiplayer-room";
+import { useToast } from "@/hooks/use-toast";
+import { AIOpponent } from "@/lib/aiPlayers";
+import { GameRegistry } from "@/games";
+
+interface TypedAnswerPuzzle {
+  id: string;
+  answer: string;
+  hint: string;
+}
+
+interface TypedAnswerRaceProps<T extends TypedAnswerPuzzle> {
+  gameId: string;
+  title: string;
+  roomCode: string;
+  /** The game's whole bank; the session picks the questions and their order */
+  puzzles: T[] | null;
+  renderPrompt: (puzzle: T) => ReactNode;
+  placeholder: string;
+}
+
+/**
+ * Head-to-head race for games where you type the answer (Word Scramble, Emoji Guess):
+ * everyone gets the same prompt at the same time, one answer each, and the fastest
+ * right answers climb the standings. The room lifecycle comes from useMultiplayerRoom.
+ */
+function TypedAnswerRace<T extends TypedAnswerPuzzle>({
+  gameId,
+  title,
+  roomCode,
+  puzzles,
+  renderPrompt,
+  placeholder,
+}: TypedAnswerRaceProps<T>) {
+  const navigate = useNavigate();
+  const { selectedChild } = useAppContext();
+  const { updateGameResult } = useProgress();
+  const { controls } = useParentControls();
+  const { toast } = useToast();
+  const childId = selectedChild?.id ?? null;
+  const { room, status, players, isHost, session, snapshot, answers, start, submitAnswer } =
+    useMultiplayerRoom(roomCode, childId);
+
+  const [input, setInput] = useState("");
+  const [showHint, setShowHint] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  // Only rounds this child saw being played are recorded, not ones that ended before a refresh
+  const playedSessionRef = useRef<string | null>(null);
+  const recordedSessionRef = useRef<string | null>(null);
+
+  const phase = snapshot?.phase ?? null;
+  const questionIds = session?.data.questionIds ?? [];
+  const puzzle = snapshot?.questionId ? puzzles?.find(p => p.id === snapshot.questionId) : undefined;
+  const myAnswer = puzzle ? answers[puzzle.id] : undefined;
+  const difficulties = GameRegistry.get(gameId)?.difficulties ?? [];
+
+  useEffect(() => {
+    if (status !== "not-found") return;
+    toast({ title: "Room not found", description: "Invalid room code", variant: "destructive" });
+    navigate("/games");
+  }, [status, navigate, toast]);
+
+  useEffect(() => {
+    setInput("");
+    setShowHint(false);
+  }, [puzzle?.id]);
+
+  useEffect(() => {
+    if (session && (phase === "question" || phase === "paused")) playedSessionRef.current = session.id;
+  }, [session, phase]);
+
+  // AI players answer on the host's device only, so each AI answer is scored once
+  useEffect(() => {
+    if (!isHost || phase !== "question" || !puzzle || !session || !snapshot) return;
+
+    const skill = AIOpponent.resolveSkill(controls?.aiOpponent?.skill, session.data.difficulty);
+    const maxDelayMs = Math.max(1000, snapshot.secondsRemaining * 1000 - 1500);
+    const timers = players
+      .filter(p => p.isAI)
+      .map(ai => {
+        const plan = AIOpponent.planAnswer(AIOpponent.getPersonality(ai.name), skill, { streak: ai.streak, maxDelayMs });
+        return window.setTimeout(() => {
+          submitAnswer(puzzle.id, plan.correct ? puzzle.answer : "?", ai.name).catch(error =>
+            console.error("AI answer failed:", error)
+          );
+        }, plan.delayMs);
+      });
+
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+    // Once per question (and again after a pause); the server ignores a second answer anyway
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHost, phase, puzzle?.id]);
+
+  const myCorrect = Object.values(answers).filter(a => a.correct).length;
+
+  // Record the finished round in the child's progress once
+  useEffect(() => {
+    if (!session || phase !== "finished" || !selectedChild) return;
+    if (playedSessionRef.current !== session.id || recordedSessionRef.current === session.id) return;
+    recordedSessionRef.current = session.id;
+
+    const total = session.data.questionIds.length;
+    updateGameResult({
+      gameId,
+      profileId: selectedChild.id,
+      difficulty: session.data.difficulty,
+      correct: myCorrect,
+      total,
+      starsEarned: GameRegistry.calculateStars(gameId, myCorrect, total),
+      durationSeconds: Math.round((Date.now() - Date.parse(session.data.startsAt) - session.data.pausedMs) / 1000),
+      endedAt: new Date().toISOString(),
+    });
+  }, [session, phase, selectedChild, myCorrect, gameId, updateGameResult]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      await start();
+    } catch (error) {
+      console.error("Failed to start the race", error);
+      toast({ title: "Couldn't start the game", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!puzzle || myAnswer || !input.trim()) return;
+    try {
+      const result = await submitAnswer(puzzle.id, input.trim());
+      if (!result.accepted) return;
+      toast(result.correct
+        ? { title: "✅ Correct!", description: `+${GameRegistry.get(gameId)?.scoring.correct ?? 1} points` }
+        : { title: "❌ Not quite", description: `It was "${puzzle.answer}"` });
+    } catch (error) {
+      console.error("Failed to submit answer", error);
+      toast({ title: "Couldn't send your answer", variant: "destructive" });
+    }
+  };
+
+  if (status === "loading" || !puzzles || !room) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-2xl font-fredoka">Loading... 🎮</div>
+      </div>
+    );
+  }
+
+  if (phase === "finished" && session && childId) {
+    return (
+      <RoomResults
+        roomId={room.id}
+        childId={childId}
+        childName={selectedChild?.name || "Player"}
+        isHost={isHost}
+        players={players}
+        totalQuestions={questionIds.length}
+        starsEarned={GameRegistry.calculateStars(gameId, myCorrect, questionIds.length)}
+        themes={[]}
+        difficulties={difficulties}
+      />
+    );
+  }
+
+  if (phase === "countdown" && snapshot) {
+    return <RoomCountdown title={title} seconds={snapshot.countdownRemaining} />;
+  }
+
+  // Lobby: nothing has been played in this room yet
+  if (!session || !snapshot) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/20 to-secondary/20">
+        <AppHeader title={title} showBackButton />
+        <div className="container mx-auto px-4 py-6">
+          <Card className="max-w-lg mx-auto">
+            <CardHeader>
+              <CardTitle className="text-center text-2xl font-fredoka text-primary">Race your friends!</CardTitle>
+              <div className="flex justify-center gap-2">
+                <Badge variant="secondary">Room {room.code}</Badge>
+                <Badge variant="outline" className="capitalize">{room.difficulty}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RoomStandings players={players} childId={childId} compact />
+              {isHost ? (
+                <Button onClick={handleStart} disabled={isStarting || players.length < 2} className="w-full" size="lg">
+                  {players.length < 2 ? "Waiting for friends to join…" : "Start Game ▶"}
+                </Button>
+              ) : (
+                <p className="text-center text-sm text-muted-foreground">Waiting for the host to start the game…</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+        <GameRoomPanel
+          roomCode={room.code}
+          gameId={gameId}
+          players={players}
+          gameMode="multiplayer"
+          isHost={isHost}
+          selectedChildId={childId ?? undefined}
+        />
+      </div>
+    );
+  }
+
+  const secondsPerQuestion = session.data.secondsPerQuestion;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
+      <div className="container mx-auto max-w-4xl grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="md:col-span-2 bg-white/90 shadow-xl">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="font-fredoka text-primary">{title}</CardTitle>
+              <Badge variant="secondary">
+                {snapshot.questionIndex + 1}/{questionIds.length}
+              </Badge>
+            </div>
+            <Progress value={(snapshot.secondsRemaining / secondsPerQuestion) * 100} />
+            <p className={`text-sm text-right ${snapshot.secondsRemaining <= 5 ? "text-red-500" : "text-muted-foreground"}`}>
+              {phase === "paused" ? "⏸️ Paused" : `⏱️ ${snapshot.secondsRemaining}s`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            {puzzle ? (
+              <>
+                <div className="py-4">{renderPrompt(puzzle)}</div>
+                {myAnswer ? (
+                  <p className={`text-lg font-semibold ${myAnswer.correct ? "text-green-600" : "text-red-600"}`}>
+                    {myAnswer.correct ? `✅ "${myAnswer.answer}" is right!` : `❌ It was "${puzzle.answer}"`}
+                    <span className="block text-sm font-normal text-muted-foreground">Next one is coming up…</span>
+                  </p>
+                ) : (
+                  <form onSubmit={handleSubmit} className="flex gap-2">
+                    <Input
+                      value={input}
+                      onChange={e => setInput(e.target.value)}
+                      placeholder={placeholder}
+                      disabled={phase !== "question"}
+                      autoFocus
+                    />
+                    <Button type="submit" disabled={phase !== "question" || !input.trim()}>Submit</Button>
+                  </form>
+                )}
+                {!myAnswer && (
+                  <Button variant="ghost" size="sm" onClick={() => setShowHint(h => !h)}>💡 Hint</Button>
+                )}
+                {showHint && !myAnswer && <p className="text-sm text-muted-foreground">{puzzle.hint}</p>}
+              </>
+            ) : (
+              <p className="text-muted-foreground">Loading the next question…</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/90 shadow-xl">
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm">Players</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RoomStandings players={players} childId={childId} totalQuestions={questionIds.length} compact />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default TypedAnswerRace;
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { StoryService } from '@/services/StoryService';
+import { SavedStory } from '@/types';
+
+interface ChildStoriesProps {
+  auth0UserId: string;
+  childId: string;
+}
+
+// Everything on the child's "My Stories" shelf, readable in full
+const ChildStories = ({ auth0UserId, childId }: ChildStoriesProps) => {
+  const [stories, setStories] = useState<SavedStory[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    StoryService.list(auth0UserId, childId)
+      .then(list => {
+        if (!cancelled) setStories(list);
+      })
+      .catch(err => {
+        console.error('Error loading stories:', err);
+        if (!cancelled) setError('Could not load stories.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth0UserId, childId]);
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="font-fredoka">Stories</CardTitle>
+        <CardDescription>Stories your child wrote or dictated</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-muted-foreground text-center">{error}</p>
+        ) : !stories ? (
+          <p className="text-muted-foreground text-center">Loading stories...</p>
+        ) : stories.length === 0 ? (
+          <p className="text-muted-foreground text-center">No stories yet.</p>
+        ) : (
+          <Accordion type="single" collapsible>
+            {stories.map(story => (
+              <AccordionItem key={story.id} value={story.id}>
+                <AccordionTrigger>
+                  <span className="flex-1 text-left">{story.title}</span>
+                  <span className="text-sm text-muted-foreground font-normal mr-2">
+                    {format(parseISO(story.createdAt), 'MMM d, yyyy')}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <p className="whitespace-pre-wrap leading-relaxed">{story.content}</p>
+                  {story.updatedAt !== story.createdAt && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Edited {format(parseISO(story.updatedAt), 'MMM d, yyyy')}
+                    </p>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChildStories;
@@ -0,0 +1,213 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BadgeEngine } from '@/lib/badges';
+import { ReportExporter } from '@/lib/reports';
+import { StreakCalculator } from '@/lib/streak';
+import { GameRegistry } from '@/games';
+import { ChildActivityReport } from '@/types';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+
+interface WeeklyReportProps {
+  report: ChildActivityReport;
+  freezeDays?: number[];
+  onBack: () => void;
+}
+
+// Fixed chart sizes so the charts lay out the same on screen and on paper
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+
+const gameTitle = (gameId: string) => GameRegistry.get(gameId)?.title ?? gameId;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+// Printable one-week summary. "Print" uses the browser dialog, which can also save as PDF.
+const WeeklyReport = ({ report, freezeDays = [], onBack }: WeeklyReportProps) => {
+  const since = parseISO(report.since);
+  const until = parseISO(report.until);
+  const progress = report.progress;
+  const badges = (progress?.badges ?? []).map(id => BadgeEngine.get(id)).filter(Boolean);
+  const answered = report.byGame.reduce((sum, row) => sum + row.total, 0);
+  const accuracy = answered > 0
+    ? report.byGame.reduce((sum, row) => sum + row.correct, 0) / answered
+    : null;
+
+  // Accuracy per game across all difficulties
+  const accuracyByGame = Object.values(
+    report.byGame.reduce<Record<string, { game: string; correct: number; total: number }>>((acc, row) => {
+      const entry = acc[row.gameId] ?? { game: gameTitle(row.gameId), correct: 0, total: 0 };
+      entry.correct += row.correct;
+      entry.total += row.total;
+      acc[row.gameId] = entry;
+      return acc;
+    }, {})
+  ).map(entry => ({
+    game: entry.game,
+    accuracy: entry.total > 0 ? Math.round((entry.correct / entry.total) * 100) : 0
+  }));
+
+  const daily = eachDayOfInterval({ start: since, end: until }).map(day => {
+    const key = format(day, 'yyyy-MM-dd');
+    const results = report.results.filter(r => format(parseISO(r.endedAt), 'yyyy-MM-dd') === key);
+    return {
+      day: format(day, 'EEE'),
+      games: results.length,
+      stars: results.reduce((sum, r) => sum + r.starsEarned, 0)
+    };
+  });
+
+  return (
+    <div className="space-y-6 bg-white p-6 rounded-lg print:p-0">
+      <div className="flex flex-wrap gap-2 justify-between print:hidden">
+        <Button variant="ghost" onClick={onBack} className="flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => ReportExporter.downloadCsv(report, gameTitle)} className="flex items-center gap-2">
+            <Download className="w-4 h-4" />
+            Download CSV
+          </Button>
+          <Button onClick={() => window.print()} className="flex items-center gap-2">
+            <Printer className="w-4 h-4" />
+            Print / Save PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="text-center">
+        <h2 className="text-3xl font-fredoka font-bold text-primary">{report.childName}'s Weekly Report</h2>
+        <p className="text-muted-foreground">
+          {format(since, 'MMM d')} – {format(until, 'MMM d, yyyy')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-primary">{report.starsEarned}</div>
+          <p className="text-sm text-muted-foreground">Stars this week ({progress?.stars ?? 0} total)</p>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-primary">{report.gamesPlayed}</div>
+          <p className="text-sm text-muted-foreground">Games played ({report.minutesPlayed} min of screen time)</p>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-primary">{formatPercent(accuracy)}</div>
+          <p className="text-sm text-muted-foreground">Accuracy</p>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-primary">
+            {progress ? StreakCalculator.getCurrentStreak(progress.streak, freezeDays) : 0} days
+          </div>
+          <p className="text-sm text-muted-foreground">Current streak (best {progress?.streak.longest ?? 0})</p>
+        </div>
+      </div>
+
+      <Card className="break-inside-avoid">
+        <CardHeader>
+          <CardTitle className="font-fredoka text-lg">Games and Stars per Day</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <BarChart width={CHART_WIDTH} height={CHART_HEIGHT} data={daily}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="day" />
+            <YAxis allowDecimals={false} />
+            <Bar dataKey="games" name="Games" fill="hsl(var(--primary))" isAnimationActive={false} />
+            <Bar dataKey="stars" name="Stars" fill="hsl(var(--secondary))" isAnimationActive={false} />
+          </BarChart>
+        </CardContent>
+      </Card>
+
+      <Card className="break-inside-avoid">
+        <CardHeader>
+          <CardTitle className="font-fredoka text-lg">Accuracy by Game</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {accuracyByGame.length === 0 ? (
+            <p className="text-muted-foreground">No games played this week.</p>
+          ) : (
+            <BarChart width={CHART_WIDTH} height={CHART_HEIGHT} data={accuracyByGame}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="game" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Bar dataKey="accuracy" name="Accuracy" fill="hsl(var(--primary))" isAnimationActive={false} />
+            </BarChart>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card className="break-inside-avoid">
+          <CardHeader>
+            <CardTitle className="font-fredoka text-lg">Badges ({badges.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {badges.length === 0 ? (
+              <p className="text-muted-foreground">No badges yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {badges.map(badge => (
+                  <li key={badge.id} className="text-sm">
+                    <span className="mr-2">{badge.icon}</span>
+                    {badge.title}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="break-inside-avoid">
+          <CardHeader>
+            <CardTitle className="font-fredoka text-lg">Stories Created ({report.stories.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {report.stories.length === 0 ? (
+              <p className="text-muted-foreground">No stories this week.</p>
+            ) : (
+              <ul className="space-y-1">
+                {report.stories.map(story => (
+                  <li key={story.id} className="flex justify-between text-sm">
+                    <span>{story.title}</span>
+                    <span className="text-muted-foreground">{format(parseISO(story.createdAt), 'EEE')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="break-inside-avoid">
+        <CardHeader>
+          <CardTitle className="font-fredoka text-lg">Stories Read ({report.storiesRead.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.storiesRead.length === 0 ? (
+            <p className="text-muted-foreground">No stories read this week.</p>
+          ) : (
+            <ul className="space-y-1">
+              {report.storiesRead.map(story => (
+                <li key={story.storyId} className="flex justify-between text-sm">
+                  <span>
+                    {story.title}
+                    {story.completedAt && <span className="text-muted-foreground"> · finished, {story.endingsFound} ending{story.endingsFound === 1 ? '' : 's'} found</span>}
+                  </span>
+                  <span className="text-muted-foreground">{format(parseISO(story.lastReadAt), 'EEE')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Generated {format(parseISO(report.generatedAt), 'MMM d, yyyy HH:mm')}
+      </p>
+    </div>
+  );
+};
+
+export default WeeklyReport;
@@ -0,0 +1,107 @@
+import { ReactNode, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useParentControls } from '@/hooks/use-parent-controls';
+import { Shield } from 'lucide-react';
+
+interface ParentPinGateProps {
+  children: ReactNode;
+}
+
+// Asks for the parent PIN every time a grown-ups-only page is opened
+const ParentPinGate = ({ children }: ParentPinGateProps) => {
+  const { hasPin, pinStatusError, retryPinStatus, verifyPin } = useParentControls();
+  const navigate = useNavigate();
+  const [pin, setPin] = useState('');
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  if (verified) return <>{children}</>;
+
+  const handleSubmit = async () => {
+    if (!pin) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const result = await verifyPin(pin);
+      if (result.valid) {
+        setVerified(true);
+      } else {
+        setError(result.reason === 'locked'
+          ? 'Too many attempts. Please wait a few minutes.'
+          : 'Incorrect PIN.');
+      }
+    } catch (err) {
+      console.error('Error verifying parent PIN:', err);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setPin('');
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 to-secondary/20 p-4">
+      <Card className="max-w-md w-full shadow-soft text-center">
+        <CardHeader>
+          <div className="w-16 h-16 mx-auto bg-gradient-primary rounded-full flex items-center justify-center mb-2">
+            <Shield className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="font-fredoka text-2xl">Grown-ups Only</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {hasPin === null && !pinStatusError && (
+            <p className="text-muted-foreground">Loading...</p>
+          )}
+          {hasPin === null && pinStatusError && (
+            <>
+              <p className="text-sm text-destructive">{pinStatusError}</p>
+              <Button onClick={retryPinStatus} className="w-full">
+                Try again
+              </Button>
+            </>
+          )}
+          {hasPin === false && (
+            <>
+              <p className="text-muted-foreground">
+                Create a parent PIN in Parent Controls to open the parent dashboard.
+              </p>
+              <Button onClick={() => navigate('/parent-setup')} className="w-full">
+                Go to Parent Controls
+              </Button>
+            </>
+          )}
+          {hasPin && (
+            <>
+              <p className="text-muted-foreground">Enter your parent PIN to continue</p>
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                placeholder="Parent PIN"
+                maxLength={8}
+                className="h-12 text-lg text-center tracking-widest rounded-xl"
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button onClick={handleSubmit} disabled={!pin || isChecking} className="w-full">
+                {isChecking ? 'Checking...' : 'Continue'}
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" onClick={() => navigate('/modes')} className="w-full">
+            Back
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ParentPinGate;
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { format, parseISO, startOfWeek, subWeeks } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Legend, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProgress } from "@/contexts/ProgressContext";
+import { GameRegistry } from "@/games";
+
+// How far back the chart goes
+const WEEKS = 8;
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+
+const DIFFICULTY_COLORS: Record<string, string> = {
+  easy: "hsl(var(--secondary))",
+  medium: "hsl(var(--primary))",
+  hard: "hsl(var(--accent))",
+};
+
+const gameTitle = (gameId: string) => GameRegistry.get(gameId)?.title ?? gameId;
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+/** Weekly accuracy per difficulty for one game, with its totals and latest games */
+const GameTrends = () => {
+  const { queryHistory, getTrends } = useProgress();
+  const since = startOfWeek(subWeeks(new Date(), WEEKS - 1), { weekStartsOn: 1 }).toISOString();
+
+  const recent = queryHistory({ since });
+  const playedGames = Array.from(new Set(recent.map(result => result.gameId)));
+  const [chosenGame, setChosenGame] = useState<string | null>(null);
+  const gameId = chosenGame && playedGames.includes(chosenGame) ? chosenGame : playedGames[0];
+
+  if (!gameId) {
+    return (
+      <Card className="bg-white/90 shadow-lg mb-8">
+        <CardHeader>
+          <CardTitle className="text-xl font-fredoka text-primary text-center">📈 How You're Improving</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-center text-muted-foreground">Play a few games and your progress will show up here!</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const trends = getTrends({ gameId, since }, "week");
+  const difficulties = Array.from(new Set(trends.map(point => point.difficulty)));
+  const weeks = Array.from(new Set(trends.map(point => point.period)));
+
+  const chartData = weeks.map(week => {
+    const row: Record<string, string | number> = { week: format(parseISO(week), "MMM d") };
+    trends
+      .filter(point => point.period === week)
+      .forEach(point => {
+        row[point.difficulty] = Math.round(point.accuracy * 100);
+      });
+    return row;
+  });
+
+  const totals = difficulties.map(difficulty => {
+    const points = trends.filter(point => point.difficulty === difficulty);
+    const correct = points.reduce((sum, p) => sum + p.correct, 0);
+    const total = points.reduce((sum, p) => sum + p.total, 0);
+    return {
+      difficulty,
+      plays: points.reduce((sum, p) => sum + p.plays, 0),
+      accuracy: total > 0 ? correct / total : null,
+      stars: points.reduce((sum, p) => sum + p.stars, 0),
+    };
+  });
+
+  const latest = queryHistory({ gameId, limit: 5 });
+
+  return (
+    <Card className="bg-white/90 shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl font-fredoka text-primary text-center">📈 How You're Improving</CardTitle>
+        <CardDescription className="text-center">Right answers each week for the last {WEEKS} weeks</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex justify-center">
+          <Select value={gameId} onValueChange={setChosenGame}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {playedGames.map(id => (
+                <SelectItem key={id} value={id}>
+                  {gameTitle(id)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto flex justify-center">
+          <BarChart width={CHART_WIDTH} height={CHART_HEIGHT} data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="week" />
+            <YAxis domain={[0, 100]} unit="%" />
+            <Tooltip formatter={(value: number) => `${value}%`} />
+            <Legend />
+            {difficulties.map(difficulty => (
+              <Bar
+                key={difficulty}
+                dataKey={difficulty}
+                name={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                fill={DIFFICULTY_COLORS[difficulty] ?? "hsl(var(--muted-foreground))"}
+              />
+            ))}
+          </BarChart>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h3 className="font-semibold text-primary">By difficulty</h3>
+            {totals.map(({ difficulty, plays, accuracy, stars }) => (
+              <div key={difficulty} className="flex justify-between text-sm">
+                <span className="capitalize">{difficulty}</span>
+                <span className="text-muted-foreground">
+                  {plays} games • {formatPercent(accuracy)} right • {stars} ⭐
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <h3 className="font-semibold text-primary">Latest games</h3>
+            {latest.map(result => (
+              <div key={result.id} className="flex justify-between text-sm">
+                <span>
+                  {format(parseISO(result.endedAt), "MMM d")} <span className="capitalize">({result.difficulty})</span>
+                </span>
+                <span className="text-muted-foreground">
+                  {result.correct}/{result.total} • {result.starsEarned} ⭐
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GameTrends;
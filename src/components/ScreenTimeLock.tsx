@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useParentControls } from '@/hooks/use-parent-controls';
+import { ScreenTimeLockReason } from '@/types';
+
+const LOCK_MESSAGES: Record<ScreenTimeLockReason, { icon: string; title: string; description: string }> = {
+  bedtime: {
+    icon: '🌙',
+    title: "It's bedtime!",
+    description: 'Time to rest. See you tomorrow for more fun!'
+  },
+  daily_limit: {
+    icon: '⏰',
+    title: 'All done for today!',
+    description: "You've used all your play time today. Great job!"
+  },
+  outside_hours: {
+    icon: '🌤️',
+    title: 'Not play time right now',
+    description: 'Come back during your play hours.'
+  }
+};
+
+// Grown-ups' pages stay reachable while locked, so a parent can change the limits or create a PIN
+const PARENT_ROUTES = ['/parent', '/parent-setup'];
+
+// Full-screen lock shown over the whole app while a parent control applies
+const ScreenTimeLock = () => {
+  const { lockReason, hasPin, overrideLock } = useParentControls();
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  if (!lockReason || PARENT_ROUTES.includes(pathname)) return null;
+
+  const message = LOCK_MESSAGES[lockReason];
+
+  const handleUnlock = async () => {
+    if (!pin) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const result = await overrideLock(pin);
+      if (!result.valid) {
+        setError(result.reason === 'locked'
+          ? 'Too many tries. Please wait a few minutes.'
+          : 'That PIN is not right.');
+      }
+    } catch (err) {
+      console.error('Error verifying parent PIN:', err);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setPin('');
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-gradient-to-br from-primary/90 to-secondary/90 p-4">
+      <Card className="max-w-md w-full shadow-lg text-center">
+        <CardHeader>
+          <div className="text-7xl mb-2">{message.icon}</div>
+          <CardTitle className="text-3xl font-fredoka text-primary">{message.title}</CardTitle>
+          <p className="text-muted-foreground font-comic">{message.description}</p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {hasPin ? (
+            <>
+              <p className="text-sm text-muted-foreground">Grown-ups can enter their PIN for 30 more minutes</p>
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                placeholder="Parent PIN"
+                maxLength={8}
+                className="h-12 text-lg text-center tracking-widest rounded-xl"
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button onClick={handleUnlock} disabled={!pin || isChecking} className="w-full">
+                {isChecking ? 'Checking...' : 'Unlock'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Grown-ups can set a parent PIN in Parent Controls to allow extra time.
+              </p>
+              <Button onClick={() => navigate('/parent-setup')} variant="outline" className="w-full">
+                Go to Parent Controls
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ScreenTimeLock;
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { StoryService } from "@/services/StoryService";
+import type { SavedStory } from "@/types";
+
+interface MyStoriesShelfProps {
+  auth0UserId: string;
+  childId: string;
+}
+
+/** The stories this child made: read one again, edit or rename it, or throw it away */
+const MyStoriesShelf = ({ auth0UserId, childId }: MyStoriesShelfProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [stories, setStories] = useState<SavedStory[] | null>(null);
+  const [editing, setEditing] = useState<SavedStory | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftContent, setDraftContent] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleting, setDeleting] = useState<SavedStory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStories(null);
+    StoryService.list(auth0UserId, childId)
+      .then(list => {
+        if (!cancelled) setStories(list);
+      })
+      .catch(error => {
+        console.error("Failed to load saved stories:", error);
+        if (!cancelled) setStories([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth0UserId, childId]);
+
+  const openEditor = (story: SavedStory) => {
+    setEditing(story);
+    setDraftTitle(story.title);
+    setDraftContent(story.content);
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !draftContent.trim()) return;
+    setIsSaving(true);
+    try {
+      const saved = await StoryService.save(auth0UserId, childId, {
+        id: editing.id,
+        title: draftTitle.trim() || StoryService.suggestTitle(draftContent),
+        content: draftContent.trim(),
+      });
+      setStories(prev => [saved, ...(prev ?? []).filter(story => story.id !== saved.id)]);
+      setEditing(null);
+      toast({ title: "Story saved", description: `"${saved.title}" is on your shelf` });
+    } catch (error) {
+      console.error("Failed to save story:", error);
+      toast({ title: "Couldn't save your story", description: "Please try again", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const story = deleting;
+    setDeleting(null);
+    try {
+      await StoryService.remove(auth0UserId, childId, story.id);
+      setStories(prev => (prev ?? []).filter(s => s.id !== story.id));
+      toast({ title: "Story deleted", description: `"${story.title}" was removed` });
+    } catch (error) {
+      console.error("Failed to delete story:", error);
+      toast({ title: "Couldn't delete the story", description: "Please try again", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="mb-10">
+      <h2 className="text-3xl font-fredoka font-bold text-primary text-center mb-8 flex items-center justify-center gap-3">
+        🗂️ My Stories
+      </h2>
+
+      {!stories ? (
+        <p className="text-center text-muted-foreground">Loading your stories...</p>
+      ) : stories.length === 0 ? (
+        <p className="text-center text-muted-foreground">
+          Stories you create are saved here, so you can read them again any time.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {stories.map(story => (
+            <Card key={story.id} className="bg-gradient-to-br from-white/95 to-primary/5 shadow-lg border-2 border-primary/20">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-xl font-fredoka text-primary">{story.title}</CardTitle>
+                <CardDescription>Last changed {format(parseISO(story.updatedAt), "MMM d, yyyy")}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground line-clamp-3">{story.content}</p>
+                <div className="flex gap-2 flex-wrap">
+                  <Button
+                    onClick={() => navigate(`/story-viewer?saved=${story.id}`)}
+                    className="bg-primary hover:bg-primary/90 text-white"
+                    size="sm"
+                  >
+                    📖 Read
+                  </Button>
+                  <Button onClick={() => openEditor(story)} variant="outline" size="sm">
+                    ✏️ Edit
+                  </Button>
+                  <Button
+                    onClick={() => setDeleting(story)}
+                    variant="outline"
+                    size="sm"
+                    className="text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+                  >
+                    🗑️ Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-fredoka text-primary">Edit your story</DialogTitle>
+            <DialogDescription>Give it a new name or change what happens</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={draftTitle}
+              onChange={e => setDraftTitle(e.target.value)}
+              placeholder="Story title"
+              maxLength={120}
+            />
+            <Textarea
+              value={draftContent}
+              onChange={e => setDraftContent(e.target.value)}
+              className="min-h-[240px] text-base"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveEdit} disabled={isSaving || !draftContent.trim()}>
+              {isSaving ? "Saving..." : "💾 Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>This story will be gone for good.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep it</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MyStoriesShelf;
@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import type { NarrationProvider, NarrationStatus } from "@/services/NarrationService";
+
+interface NarrationControlsProps {
+  narrator: NarrationProvider;
+  status: NarrationStatus;
+  /** Starts reading from the page on screen */
+  onPlay: () => void;
+}
+
+/** Reading speed, and pitch where the voice allows it */
+export const NarrationSettings = ({ narrator, status }: Omit<NarrationControlsProps, "onPlay">) => (
+  <div className="flex flex-wrap justify-center gap-6 pt-4 text-sm text-muted-foreground">
+    <label className="flex items-center gap-3">
+      🐢
+      <Slider
+        className="w-32"
+        min={0.5}
+        max={1.5}
+        step={0.1}
+        value={[status.rate]}
+        onValueChange={([rate]) => narrator.setRate(rate)}
+        aria-label="Reading speed"
+      />
+      🐇
+    </label>
+    {narrator.supportsPitch && (
+      <label className="flex items-center gap-3">
+        🐻
+        <Slider
+          className="w-32"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={[status.pitch]}
+          onValueChange={([pitch]) => narrator.setPitch(pitch)}
+          aria-label="Voice pitch"
+        />
+        🐭
+      </label>
+    )}
+  </div>
+);
+
+/** Read aloud, pause, resume and stop */
+const NarrationControls = ({ narrator, status, onPlay }: NarrationControlsProps) => {
+  const { state } = status;
+
+  return (
+    <>
+      {state === "idle" && (
+        <Button onClick={onPlay} className="bg-primary hover:bg-primary/90 text-white" size="lg">
+          🔊 Read Aloud
+        </Button>
+      )}
+      {state === "paused" && (
+        <Button onClick={() => narrator.play()} className="bg-primary hover:bg-primary/90 text-white" size="lg">
+          ▶️ Keep Reading
+        </Button>
+      )}
+      {(state === "playing" || state === "loading") && (
+        <Button onClick={() => narrator.pause()} variant="outline" size="lg" disabled={state === "loading"}>
+          {state === "loading" ? "⏳ Getting ready..." : "⏸️ Pause"}
+        </Button>
+      )}
+      {state !== "idle" && (
+        <Button
+          onClick={() => narrator.stop()}
+          className="bg-red-500 hover:bg-red-600 text-white animate-pulse"
+          size="lg"
+        >
+          ⏹️ Stop Reading
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default NarrationControls;
@@ -8,11 +8,10 @@ import { useToast } from "@/components/ui/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { SILENT_VOICE_ID } from "@/services/NarrationService";
+import type { NarrationVoice } from "@/types";
 
-type Voice = {
-  id: string;
-  name: string;
-  type: "default" | "cloned";
+type Voice = NarrationVoice & {
   preview?: string;
 };
 
@@ -26,6 +25,7 @@ const defaultVoices: Voice[] = [
   { id: "v2", name: "Adult Female", type: "default" },
   { id: "v3", name: "Child", type: "default" },
   { id: "v4", name: "Elderly", type: "default" },
+  { id: SILENT_VOICE_ID, name: "Read Along (no voice)", type: "default" },
 ];
 
 export const VoiceSelectionPanel = ({ onSelectVoice, selectedVoice }: VoiceSelectionPanelProps) => {
@@ -19,6 +19,7 @@ interface ChildProfile {
   avatar?: string;
   voice_clone_enabled: boolean;
   voice_clone_url?: string;
+  streak_freeze_days?: number[];
   created_at: string;
   updated_at: string;
 }
@@ -86,20 +87,6 @@ export const AppContextProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const updateChildOnlineStatus = async (childId: string, isOnline: boolean) => {
-    try {
-      await supabase.functions.invoke('manage-profiles', {
-        body: {
-          action: 'set_child_online_status',
-          child_id: childId,
-          profile_data: { is_online: isOnline }
-        }
-      });
-    } catch (error) {
-      console.error('Error updating child online status:', error);
-    }
-  };
-
   const refreshProfiles = async () => {
     if (!isAuthenticated || !user?.sub) return;
     
@@ -139,12 +126,8 @@ export const AppContextProvider = ({ children }: { children: ReactNode }) => {
         } else {
           const childrenData = (childrenResp?.data || []) as ChildProfile[];
           setChildrenProfiles(childrenData);
-          
-          // Set all children as online when parent logs in
-          for (const child of childrenData) {
-            updateChildOnlineStatus(child.id, true);
-          }
-          
+
+          // Online status is tracked per open tab by PresenceProvider
           // Auto-select the first child if none is selected and we have children
           if (childrenData.length > 0 && !selectedChild) {
             setSelectedChild(childrenData[0]);
@@ -194,16 +177,6 @@ export const AppContextProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  // Handle logout - set all children offline
-  useEffect(() => {
-    if (!isLoading && !isAuthenticated && childrenProfiles.length > 0) {
-      // Set all children offline when parent logs out
-      childrenProfiles.forEach(child => {
-        updateChildOnlineStatus(child.id, false);
-      });
-    }
-  }, [isAuthenticated, isLoading, childrenProfiles]);
-
   useEffect(() => {
     if (!isLoading && isAuthenticated && user?.sub) {
       refreshProfiles();
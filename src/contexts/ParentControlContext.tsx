@@ -0,0 +1,178 @@
+import React, { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { ParentControl, PinVerification } from '@/types';
+import { ParentControlService } from '@/services/ParentControlService';
+import { ScreenTimeCalculator } from '@/lib/screentime';
+import { useAppAuth, useAppContext } from '@/contexts/Auth0Context';
+import { useToast } from '@/hooks/use-toast';
+import { ParentControlContext } from '@/hooks/use-parent-controls';
+
+// How often the session tracker ticks, how often usage is reported to the server, and how
+// long a PIN override unlocks the app
+const TRACKER_INTERVAL_MS = 15 * 1000;
+const USAGE_SYNC_INTERVAL_MS = 60 * 1000;
+const OVERRIDE_MINUTES = 30;
+
+export function ParentControlProvider({ children }: { children: ReactNode }) {
+  const { user } = useAppAuth();
+  const { selectedChild } = useAppContext();
+  const { toast } = useToast();
+  const [controls, setControls] = React.useState<ParentControl | null>(null);
+  const [usedSeconds, setUsedSeconds] = React.useState(0);
+  const [hasPin, setHasPin] = React.useState<boolean | null>(null);
+  const [pinStatusError, setPinStatusError] = React.useState<string | null>(null);
+  const [pinStatusKey, setPinStatusKey] = React.useState(0);
+  const [overrideUntil, setOverrideUntil] = React.useState<number | null>(null);
+  const [now, setNow] = React.useState(() => new Date());
+  const bedtimeWarnedRef = React.useRef<string | null>(null);
+  const childId = selectedChild?.id;
+  const auth0UserId = user?.sub;
+
+  React.useEffect(() => {
+    setOverrideUntil(null);
+    if (!childId || !auth0UserId) {
+      setControls(null);
+      setUsedSeconds(0);
+      return;
+    }
+
+    // Enforce the cached settings straight away, then refresh from the server
+    setControls(ParentControlService.getCached(childId));
+    setUsedSeconds(ParentControlService.getUsageSeconds(childId));
+
+    let cancelled = false;
+    ParentControlService.fetch(auth0UserId, childId).then(control => {
+      if (!cancelled) setControls(control);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, auth0UserId]);
+
+  // The daily allowance is per child, so time used on other devices counts here too
+  React.useEffect(() => {
+    if (!childId || !auth0UserId) return;
+
+    let cancelled = false;
+    const syncUsage = () => {
+      ParentControlService.syncUsage(auth0UserId, childId).then(seconds => {
+        if (!cancelled) setUsedSeconds(seconds);
+      });
+    };
+
+    syncUsage();
+    const id = window.setInterval(syncUsage, USAGE_SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncUsage);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+      window.removeEventListener('online', syncUsage);
+    };
+  }, [childId, auth0UserId]);
+
+  React.useEffect(() => {
+    setHasPin(null);
+    setPinStatusError(null);
+    if (!auth0UserId) return;
+
+    let cancelled = false;
+    ParentControlService.hasPin(auth0UserId)
+      .then(result => {
+        if (!cancelled) setHasPin(result);
+      })
+      .catch(error => {
+        console.error('Failed to check parent PIN:', error);
+        if (!cancelled) setPinStatusError('Could not check for a parent PIN.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth0UserId, pinStatusKey]);
+
+  const overrideActive = overrideUntil !== null && overrideUntil > now.getTime();
+  const lockReason = overrideActive
+    ? null
+    : ScreenTimeCalculator.getLockReason(controls, Math.floor(usedSeconds / 60), now);
+
+  // Session tracker: counts time only while the app is visible and unlocked
+  React.useEffect(() => {
+    if (!childId) return;
+
+    let lastTick = Date.now();
+    const id = window.setInterval(() => {
+      const tick = Date.now();
+      const elapsedSeconds = Math.round((tick - lastTick) / 1000);
+      lastTick = tick;
+
+      setNow(new Date(tick));
+      if (document.visibilityState === 'visible' && !lockReason) {
+        setUsedSeconds(ParentControlService.addUsage(childId, elapsedSeconds));
+      }
+    }, TRACKER_INTERVAL_MS);
+
+    return () => window.clearInterval(id);
+  }, [childId, lockReason]);
+
+  // Warn once a day, warningMinutes before bedtime
+  React.useEffect(() => {
+    if (!controls || !childId) return;
+
+    const minutesLeft = ScreenTimeCalculator.minutesUntilBedtime(controls, now);
+    const warningKey = `${childId}:${format(now, 'yyyy-MM-dd')}`;
+    if (minutesLeft === null || minutesLeft > controls.bedTime.warningMinutes) return;
+    if (bedtimeWarnedRef.current === warningKey) return;
+
+    bedtimeWarnedRef.current = warningKey;
+    toast({
+      title: 'Bedtime soon 🌙',
+      description: `${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} left to play today.`
+    });
+  }, [controls, childId, now, toast]);
+
+  const saveControls = async (control: ParentControl, pin?: string) => {
+    if (!auth0UserId) throw new Error('Not signed in');
+    const saved = await ParentControlService.save(auth0UserId, control, pin);
+    if (saved.childProfileId === childId) setControls(saved);
+    return saved;
+  };
+
+  const setPin = async (pin: string, currentPin?: string) => {
+    if (!auth0UserId) throw new Error('Not signed in');
+    await ParentControlService.setPin(auth0UserId, pin, currentPin);
+    setHasPin(true);
+  };
+
+  const verifyPin = (pin: string) => {
+    if (!auth0UserId) return Promise.resolve<PinVerification>({ valid: false, reason: 'no_pin' });
+    return ParentControlService.verifyPin(auth0UserId, pin);
+  };
+
+  const overrideLock = async (pin: string) => {
+    const result = await verifyPin(pin);
+    if (result.valid) {
+      setOverrideUntil(Date.now() + OVERRIDE_MINUTES * 60 * 1000);
+      setNow(new Date());
+    }
+    return result;
+  };
+
+  return (
+    <ParentControlContext.Provider value={{
+      controls,
+      usedMinutesToday: Math.floor(usedSeconds / 60),
+      lockReason,
+      hasPin,
+      pinStatusError,
+      retryPinStatus: () => setPinStatusKey(key => key + 1),
+      saveControls,
+      setPin,
+      verifyPin,
+      overrideLock
+    }}>
+      {children}
+    </ParentControlContext.Provider>
+  );
+}
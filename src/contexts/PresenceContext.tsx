@@ -0,0 +1,61 @@
+import React, { ReactNode } from 'react';
+import type { FriendStatus } from '@/types/multiplayer';
+import { PresenceService, PresenceMeta, PRESENCE_CHANNEL, HEARTBEAT_INTERVAL_MS } from '@/services/PresenceService';
+import { supabase } from '@/integrations/supabase/client';
+import { useAppContext } from '@/contexts/Auth0Context';
+import { PresenceContext } from '@/hooks/use-presence';
+
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { selectedChild } = useAppContext();
+  const [onlineChildIds, setOnlineChildIds] = React.useState<Set<string>>(() => new Set());
+  const [isSynced, setIsSynced] = React.useState(false);
+  const childId = selectedChild?.id;
+
+  React.useEffect(() => {
+    if (!childId) {
+      setOnlineChildIds(new Set());
+      setIsSynced(false);
+      return;
+    }
+
+    // One presence entry per tab; closing the tab drops it without any cleanup call
+    const channel = supabase.channel(PRESENCE_CHANNEL, {
+      config: { presence: { key: crypto.randomUUID() } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineChildIds(PresenceService.getOnlineChildIds(channel.presenceState<PresenceMeta>()));
+        setIsSynced(true);
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        const meta: PresenceMeta = { child_id: childId, online_at: new Date().toISOString() };
+        await channel.track(meta);
+      });
+
+    const beat = () => {
+      PresenceService.heartbeat(childId).catch(error => console.error('Presence heartbeat failed:', error));
+    };
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      channel.untrack();
+      supabase.removeChannel(channel);
+      setIsSynced(false);
+    };
+  }, [childId]);
+
+  const getStatus = React.useCallback((id: string, roomId?: string | null, fallback: FriendStatus = 'offline') => {
+    if (!isSynced) return fallback;
+    return PresenceService.deriveStatus(onlineChildIds.has(id), roomId);
+  }, [isSynced, onlineChildIds]);
+
+  return (
+    <PresenceContext.Provider value={{ onlineChildIds, isSynced, getStatus }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
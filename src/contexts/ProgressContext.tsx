@@ -1,114 +1,157 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { Progress, GameResult, Badge } from '@/types';
-import { StorageService } from '@/lib/storage';
+import { parseISO } from 'date-fns';
+import { Progress, GameResult, GameHistoryFilters, GameTrendPoint, Badge, BadgeProgress } from '@/types';
+import { ProgressService } from '@/services/ProgressService';
+import { GameHistoryService } from '@/services/GameHistoryService';
 import { StreakCalculator } from '@/lib/streak';
+import { BadgeEngine } from '@/lib/badges';
 import { useAppContext } from '@/contexts/Auth0Context';
+import { GameRegistry } from '@/games';
 
 interface ProgressContextType {
   progress: Progress | null;
+  gameHistory: GameResult[];
   updateGameResult: (result: GameResult) => void;
   getBadges: () => Badge[];
+  getBadgeProgress: () => BadgeProgress[];
+  /** Badges unlocked this session that the UI hasn't celebrated yet, oldest first */
+  unlockedBadges: Badge[];
+  acknowledgeBadge: (badgeId: string) => void;
+  queryHistory: (filters?: GameHistoryFilters) => GameResult[];
+  getTrends: (filters?: GameHistoryFilters, groupBy?: 'day' | 'week') => GameTrendPoint[];
 }
 
 const ProgressContext = createContext<ProgressContextType | undefined>(undefined);
 
-const AVAILABLE_BADGES: Badge[] = [
-  {
-    id: 'riddle_master',
-    title: 'Riddle Master 🧠',
-    description: 'Answer 20 riddles correctly',
-    icon: '🧠',
-    requirement: { type: 'total_correct', gameId: 'riddle', value: 20 }
-  },
-  {
-    id: 'word_wizard',
-    title: 'Word Wizard 📚',
-    description: 'Coming soon...',
-    icon: '📚',
-    requirement: { type: 'total_correct', gameId: 'vocabulary', value: 15 }
-  }
-];
-
 export function ProgressProvider({ children }: { children: ReactNode }) {
   const { selectedChild } = useAppContext();
   const [progress, setProgress] = React.useState<Progress | null>(null);
+  const [gameHistory, setGameHistory] = React.useState<GameResult[]>([]);
+  const [unlockedBadges, setUnlockedBadges] = React.useState<Badge[]>([]);
+  const childId = selectedChild?.id;
 
   React.useEffect(() => {
-    if (selectedChild) {
-      loadProgress();
+    if (!childId) {
+      setProgress(null);
+      setGameHistory([]);
+      setUnlockedBadges([]);
+      return;
     }
-  }, [selectedChild]);
 
-  const loadProgress = () => {
-    if (!selectedChild) return;
-    
-    const saved = StorageService.getItem('PROGRESS') as Progress | null;
-    if (saved && saved.profileId === selectedChild.id) {
-      setProgress(saved);
-    } else {
-      const newProgress: Progress = {
-        profileId: selectedChild.id,
-        stars: 0,
-        badges: [],
-        streak: { current: 0, longest: 0, lastPlayedISO: null },
-        perGame: {}
-      };
-      setProgress(newProgress);
-      StorageService.setItem('PROGRESS', newProgress);
-    }
-  };
+    setUnlockedBadges([]);
+
+    // Show the cached copy straight away, then reconcile with the server
+    setProgress(ProgressService.getCached(childId) ?? ProgressService.createEmpty(childId));
+    setGameHistory(GameHistoryService.getCached(childId));
+
+    let cancelled = false;
+    const syncProgress = () => {
+      ProgressService.sync(childId).then(synced => {
+        if (cancelled) return;
+        setProgress(prev => (prev && prev.profileId === childId ? ProgressService.merge(prev, synced) : synced));
+      });
+      GameHistoryService.load(childId).then(history => {
+        if (!cancelled) setGameHistory(history);
+      });
+    };
+
+    syncProgress();
+    // Retry when the tablet comes back online so offline stars reach the server
+    window.addEventListener('online', syncProgress);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', syncProgress);
+    };
+  }, [childId]);
 
   const updateGameResult = (result: GameResult) => {
     if (!progress) return;
+    if (!GameRegistry.has(result.gameId)) {
+      console.warn(`Ignoring result for unregistered game "${result.gameId}"`);
+      return;
+    }
 
-    const updatedProgress = { ...progress };
-    
-    // Update stars
-    updatedProgress.stars += result.starsEarned;
+    const recorded = GameHistoryService.record(result);
+    setGameHistory(prev => [recorded, ...prev]);
+
+    // Stars and per-game stats are counted against this device, so merging with another tablet keeps both
+    const counted = ProgressService.addResult(progress, result);
+    const updatedProgress: Progress = {
+      ...counted,
+      badges: [...counted.badges]
+    };
     
     // Update streak
-    updatedProgress.streak = StreakCalculator.updateStreak(updatedProgress.streak);
-    
-    // Update per-game stats
-    if (!updatedProgress.perGame[result.gameId]) {
-      updatedProgress.perGame[result.gameId] = {
-        played: 0,
-        correct: 0,
-        stars: 0,
-        lastPlayedISO: null
-      };
-    }
-    
-    const gameStats = updatedProgress.perGame[result.gameId];
-    gameStats.played += 1;
-    gameStats.correct += result.correct;
-    gameStats.stars += result.starsEarned;
-    gameStats.lastPlayedISO = result.endedAt;
+    updatedProgress.streak = StreakCalculator.updateStreak(updatedProgress.streak, {
+      playedAt: parseISO(result.endedAt),
+      freezeDays: selectedChild?.streak_freeze_days ?? []
+    });
 
     // Check for new badges
-    AVAILABLE_BADGES.forEach(badge => {
-      if (updatedProgress.badges.includes(badge.id)) return;
-      
-      if (badge.requirement.type === 'total_correct' && badge.requirement.gameId) {
-        const stats = updatedProgress.perGame[badge.requirement.gameId];
-        if (stats && stats.correct >= badge.requirement.value) {
-          updatedProgress.badges.push(badge.id);
-        }
-      }
+    const newBadges = BadgeEngine.findNewlyUnlocked({
+      progress: updatedProgress,
+      history: [recorded, ...gameHistory]
     });
+    if (newBadges.length > 0) {
+      updatedProgress.badges.push(...newBadges.map(badge => badge.id));
+      setUnlockedBadges(prev => [...prev, ...newBadges]);
+    }
+
+    updatedProgress.updatedAt = new Date().toISOString();
 
     setProgress(updatedProgress);
-    StorageService.setItem('PROGRESS', updatedProgress);
+    ProgressService.cache(updatedProgress);
+
+    // Push in the background; if we're offline the next sync picks it up from the cache
+    ProgressService.pushRemote(updatedProgress)
+      .then(saved => {
+        if (!saved) return;
+        setProgress(prev => {
+          if (!prev || prev.profileId !== saved.profileId) return prev;
+          const merged = ProgressService.merge(prev, saved);
+          ProgressService.cache(merged);
+          return merged;
+        });
+      })
+      .catch(error => console.error('Failed to save progress to server:', error));
   };
 
   const getBadges = () => {
-    return AVAILABLE_BADGES.filter(badge => 
+    return BadgeEngine.list().filter(badge => 
       progress?.badges.includes(badge.id)
     );
   };
 
+  const getBadgeProgress = () => {
+    if (!progress) return [];
+    return BadgeEngine.getProgress({ progress, history: gameHistory });
+  };
+
+  const acknowledgeBadge = (badgeId: string) => {
+    setUnlockedBadges(prev => prev.filter(badge => badge.id !== badgeId));
+  };
+
+  const queryHistory = (filters?: GameHistoryFilters) => {
+    return GameHistoryService.filter(gameHistory, filters);
+  };
+
+  const getTrends = (filters?: GameHistoryFilters, groupBy: 'day' | 'week' = 'day') => {
+    return GameHistoryService.getTrends(GameHistoryService.filter(gameHistory, filters), groupBy);
+  };
+
   return (
-    <ProgressContext.Provider value={{ progress, updateGameResult, getBadges }}>
+    <ProgressContext.Provider value={{
+      progress,
+      gameHistory,
+      updateGameResult,
+      getBadges,
+      getBadgeProgress,
+      unlockedBadges,
+      acknowledgeBadge,
+      queryHistory,
+      getTrends
+    }}>
       {children}
     </ProgressContext.Provider>
   );
@@ -0,0 +1,29 @@
+import { lazy } from 'react';
+import type { CrosswordBank } from '@/types';
+import type { GameModule } from './registry';
+
+export const crosswordGame: GameModule<CrosswordBank> = {
+  id: 'crossword',
+  title: 'Crossword Puzzle 🧩',
+  icon: '🔤',
+  enabled: true,
+  difficulties: ['easy', 'medium', 'hard'],
+  scoring: {
+    correct: 2,
+    streakBonus: 1
+  },
+  adaptive: {
+    targetSecondsPerQuestion: 45
+  },
+  defaultDifficulty: {
+    elementary: 'easy',
+    tween: 'medium'
+  },
+  description: 'Solve the crossword puzzle! Fill in words using the clues provided.',
+  theme: 'Christmas',
+  component: lazy(() => import('@/pages/games/CrosswordGame')),
+  loadContent: async () => (await import('@/config/crosswords.json')).default as CrosswordBank,
+  describeContent: (bank) => Object.values(bank)
+    .flatMap(byDifficulty => Object.entries(byDifficulty))
+    .map(([difficulty, puzzle]) => ({ difficulty, ages: puzzle.ages }))
+};
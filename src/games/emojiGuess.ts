@@ -0,0 +1,26 @@
+import { lazy } from 'react';
+import type { EmojiGuessPuzzle } from '@/types';
+import type { GameModule } from './registry';
+
+export const emojiGuessGame: GameModule<EmojiGuessPuzzle[]> = {
+  id: 'emoji-guess',
+  title: 'Emoji Guess 😃',
+  icon: '🎉',
+  enabled: true,
+  difficulties: ['easy', 'medium', 'hard'],
+  scoring: {
+    correct: 2,
+    streakBonus: 1
+  },
+  defaultDifficulty: {
+    toddler: 'easy',
+    preschool: 'easy',
+    elementary: 'medium',
+    tween: 'hard'
+  },
+  description: 'Guess the word or phrase from the emojis! Fun for all ages.',
+  theme: 'Emoji Puzzles',
+  component: lazy(() => import('@/pages/EmojiGuessGame')),
+  loadContent: async () => (await import('@/config/emoji-guess.json')).default as EmojiGuessPuzzle[],
+  describeContent: (puzzles) => puzzles.map(({ difficulty, ages }) => ({ difficulty, ages }))
+};
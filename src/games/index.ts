@@ -0,0 +1,15 @@
+// Registers every game module. Adding a game = one new module + one line here.
+
+import { GameRegistry } from './registry';
+import { riddleGame } from './riddle';
+import { crosswordGame } from './crossword';
+import { wordScrambleGame } from './wordScramble';
+import { emojiGuessGame } from './emojiGuess';
+
+GameRegistry.register(riddleGame);
+GameRegistry.register(crosswordGame);
+GameRegistry.register(wordScrambleGame);
+GameRegistry.register(emojiGuessGame);
+
+export { GameRegistry };
+export type { GameModule, GameScoring, GameAdaptiveSettings, GameContentTag } from './registry';
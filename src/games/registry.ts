@@ -0,0 +1,93 @@
+// Game registry - every playable game registers a self-contained module here
+
+import type { ComponentType, LazyExoticComponent } from 'react';
+import type { AgeGroup, AgeRange, GameConfig } from '@/types';
+import { AgeGroupFilter } from '@/lib/ageGroups';
+
+export interface GameScoring {
+  correct: number;
+  streakBonus?: number;
+  /** Minimum accuracy (0-1) needed for three and two stars. Anything below earns one star. */
+  starThresholds?: {
+    three: number;
+    two: number;
+  };
+}
+
+/** Tuning for adaptive difficulty */
+export interface GameAdaptiveSettings {
+  /** A child answering faster than this (with high accuracy) is ready for a harder level */
+  targetSecondsPerQuestion: number;
+}
+
+/** One riddle, puzzle or other item in a game's content bank */
+export interface GameContentTag {
+  difficulty: string;
+  ages?: AgeRange;
+}
+
+export interface GameModule<TContent = unknown> extends Omit<GameConfig, 'scoring'> {
+  scoring: GameScoring;
+  adaptive?: GameAdaptiveSettings;
+  /** Starting difficulty per age group, used until the child has play history */
+  defaultDifficulty?: Partial<Record<AgeGroup, string>>;
+  component: LazyExoticComponent<ComponentType>;
+  loadContent: () => Promise<TContent>;
+  /** Flattens the content bank so it can be filtered by age group */
+  describeContent: (content: TContent) => GameContentTag[];
+}
+
+const DEFAULT_STAR_THRESHOLDS = { three: 0.8, two: 0.6 };
+
+export class GameRegistry {
+  private static games = new Map<string, GameModule>();
+
+  static register<TContent>(game: GameModule<TContent>): void {
+    if (this.games.has(game.id)) {
+      console.warn(`Game "${game.id}" is already registered, replacing it`);
+    }
+    this.games.set(game.id, game);
+  }
+
+  static get<TContent = unknown>(gameId: string): GameModule<TContent> | undefined {
+    return this.games.get(gameId) as GameModule<TContent> | undefined;
+  }
+
+  static has(gameId: string): boolean {
+    return this.games.has(gameId);
+  }
+
+  static list(options: { enabledOnly?: boolean } = {}): GameModule[] {
+    const games = Array.from(this.games.values());
+    return options.enabledOnly ? games.filter(game => game.enabled) : games;
+  }
+
+  /** Starting difficulty for a child's age group, or the game's easiest level */
+  static getDefaultDifficulty(gameId: string, ageGroup: string | null | undefined): string | undefined {
+    const game = this.games.get(gameId);
+    if (!game) return undefined;
+    const mapped = AgeGroupFilter.isAgeGroup(ageGroup) ? game.defaultDifficulty?.[ageGroup] : undefined;
+    return mapped && game.difficulties.includes(mapped) ? mapped : game.difficulties[0];
+  }
+
+  /** Difficulties with at least one item suitable for the age group, in the game's order */
+  static async getSuitableDifficulties(gameId: string, ageGroup: string | null | undefined): Promise<string[]> {
+    const game = this.games.get(gameId);
+    if (!game) return [];
+    const tags = AgeGroupFilter.filter(game.describeContent(await game.loadContent()), ageGroup);
+    return game.difficulties.filter(difficulty => tags.some(tag => tag.difficulty === difficulty));
+  }
+
+  /**
+   * Stars earned for a finished game, using the game's scoring thresholds
+   * Unknown games fall back to the default 80% / 60% thresholds
+   */
+  static calculateStars(gameId: string, correct: number, total: number): number {
+    const thresholds = this.games.get(gameId)?.scoring.starThresholds ?? DEFAULT_STAR_THRESHOLDS;
+    const accuracy = total > 0 ? correct / total : 0;
+
+    if (accuracy >= thresholds.three) return 3;
+    if (accuracy >= thresholds.two) return 2;
+    return 1;
+  }
+}
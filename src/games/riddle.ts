@@ -0,0 +1,30 @@
+import { lazy } from 'react';
+import type { RiddleBank } from '@/types';
+import type { GameModule } from './registry';
+
+export const riddleGame: GameModule<RiddleBank> = {
+  id: 'riddle',
+  title: 'Riddle Time! 🤔',
+  icon: '❓',
+  enabled: true,
+  difficulties: ['easy', 'medium', 'hard'],
+  scoring: {
+    correct: 1,
+    streakBonus: 1
+  },
+  adaptive: {
+    targetSecondsPerQuestion: 15
+  },
+  defaultDifficulty: {
+    preschool: 'easy',
+    elementary: 'medium',
+    tween: 'hard'
+  },
+  description: 'Solve fun riddles and brain teasers!! Pick your favorite theme and test your thinking skills.',
+  theme: 'Zoo Animals',
+  component: lazy(() => import('@/pages/games/RiddleGame')),
+  loadContent: async () => (await import('@/config/riddles.json')).default as RiddleBank,
+  describeContent: (bank) => Object.values(bank)
+    .flatMap(byDifficulty => Object.values(byDifficulty).flat())
+    .map(({ difficulty, ages }) => ({ difficulty, ages }))
+};
@@ -0,0 +1,25 @@
+import { lazy } from 'react';
+import type { WordScramblePuzzle } from '@/types';
+import type { GameModule } from './registry';
+
+export const wordScrambleGame: GameModule<WordScramblePuzzle[]> = {
+  id: 'word-scramble',
+  title: 'Word Scramble 🌀',
+  icon: '🔀',
+  enabled: true,
+  difficulties: ['easy', 'medium', 'hard'],
+  scoring: {
+    correct: 2,
+    streakBonus: 1
+  },
+  defaultDifficulty: {
+    preschool: 'easy',
+    elementary: 'easy',
+    tween: 'medium'
+  },
+  description: 'Unscramble the letters to find the hidden word! Challenge your friends or play solo.',
+  theme: 'Mixed Words',
+  component: lazy(() => import('@/pages/WordScrambleGame')),
+  loadContent: async () => (await import('@/config/word-scramble.json')).default as WordScramblePuzzle[],
+  describeContent: (puzzles) => puzzles.map(({ difficulty, ages }) => ({ difficulty, ages }))
+};
@@ -0,0 +1,84 @@
+import * as React from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { CoopCellEdit, CoopCursor } from "@/types/multiplayer";
+
+interface CoopGridHandlers {
+  onEdit: (edit: CoopCellEdit) => void;
+  onSolved: (wordId: number, childId: string) => void;
+  /** Every edit this device knows about, sent to players who join or refresh mid-round */
+  getEdits: () => CoopCellEdit[];
+}
+
+/**
+ * Realtime side of a co-op crossword: cell edits and finished words go out over broadcast,
+ * cursors over presence (so a player who drops off disappears by themselves). On joining,
+ * the other players send over their edits so the grid catches up.
+ * Pass a null session id to stay disconnected.
+ */
+export function useCoopGrid(
+  sessionId: string | null,
+  player: { id: string; name: string; avatar: string } | null,
+  handlers: CoopGridHandlers
+) {
+  const [cursors, setCursors] = React.useState<CoopCursor[]>([]);
+  const channelRef = React.useRef<RealtimeChannel | null>(null);
+  const handlersRef = React.useRef(handlers);
+  handlersRef.current = handlers;
+  const playerRef = React.useRef(player);
+  playerRef.current = player;
+  const playerId = player?.id ?? null;
+
+  React.useEffect(() => {
+    setCursors([]);
+    if (!sessionId || !playerId) return;
+
+    const channel = supabase.channel(`crossword-coop-${sessionId}`, {
+      config: { broadcast: { self: false }, presence: { key: playerId } },
+    });
+
+    channel
+      .on("broadcast", { event: "cell" }, ({ payload }) => handlersRef.current.onEdit(payload as CoopCellEdit))
+      .on("broadcast", { event: "solved" }, ({ payload }) => handlersRef.current.onSolved(payload.wordId, payload.childId))
+      .on("broadcast", { event: "sync-request" }, () => {
+        const edits = handlersRef.current.getEdits();
+        if (edits.length) channel.send({ type: "broadcast", event: "sync", payload: { edits } });
+      })
+      .on("broadcast", { event: "sync" }, ({ payload }) => {
+        (payload.edits as CoopCellEdit[]).forEach((edit) => handlersRef.current.onEdit(edit));
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<CoopCursor>();
+        setCursors(
+          Object.values(state)
+            .map((entries) => entries[0])
+            .filter((cursor) => cursor && cursor.childId !== playerId)
+        );
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") channel.send({ type: "broadcast", event: "sync-request", payload: {} });
+      });
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, playerId]);
+
+  const sendEdit = React.useCallback((edit: CoopCellEdit) => {
+    channelRef.current?.send({ type: "broadcast", event: "cell", payload: edit });
+  }, []);
+
+  const sendSolved = React.useCallback((wordId: number, childId: string) => {
+    channelRef.current?.send({ type: "broadcast", event: "solved", payload: { wordId, childId } });
+  }, []);
+
+  const sendCursor = React.useCallback((cell: { row: number; col: number }, direction: "across" | "down") => {
+    const me = playerRef.current;
+    if (!me) return;
+    channelRef.current?.track({ childId: me.id, name: me.name, avatar: me.avatar, ...cell, direction });
+  }, []);
+
+  return { cursors, sendEdit, sendSolved, sendCursor };
+}
@@ -0,0 +1,33 @@
+import * as React from "react";
+import { GameRegistry } from "@/games";
+
+/**
+ * Loads a registered game's content bank through its module's content loader.
+ * Returns null until the content has loaded (or if the game is unknown).
+ */
+export function useGameContent<TContent>(gameId: string) {
+  const [content, setContent] = React.useState<TContent | null>(null);
+
+  React.useEffect(() => {
+    const game = GameRegistry.get<TContent>(gameId);
+    if (!game) {
+      console.error(`useGameContent: unknown game "${gameId}"`);
+      return;
+    }
+
+    let cancelled = false;
+    game.loadContent()
+      .then((loaded) => {
+        if (!cancelled) setContent(loaded);
+      })
+      .catch((error) => {
+        console.error(`Failed to load content for game "${gameId}":`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  return content;
+}
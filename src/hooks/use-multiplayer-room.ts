@@ -0,0 +1,236 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { RoomInfo, RoomPlayer } from "@/types/multiplayer";
+import { GameRoomService } from "@/services/GameRoomService";
+import { MultiplayerScoreService } from "@/services/MultiplayerScoreService";
+import { MultiplayerSessionService } from "@/services/MultiplayerSessionService";
+import { useMultiplayerSession } from "@/hooks/use-multiplayer-session";
+import { useRoomHost } from "@/hooks/use-room-host";
+
+export interface RoomAnswer {
+  answer: string;
+  correct: boolean;
+}
+
+/**
+ * The room lifecycle every multiplayer game shares: looks the room up by its code, keeps the
+ * participants and their scores live, follows the host and the server-owned session, and
+ * remembers what this child already answered this round, so a refresh carries on where it left off.
+ * Games only render the phases; starting, answering and finishing go through what this returns.
+ */
+export function useMultiplayerRoom(roomCode: string | null, childId: string | null) {
+  const [room, setRoom] = React.useState<RoomInfo | null>(null);
+  const [status, setStatus] = React.useState<"loading" | "ready" | "not-found">("loading");
+  const [players, setPlayers] = React.useState<RoomPlayer[]>([]);
+  // question id -> this child's answer in the current round
+  const [answers, setAnswers] = React.useState<Record<string, RoomAnswer>>({});
+  // Co-op: question id -> the child who finished it, as of the last restore
+  const [claims, setClaims] = React.useState<Record<string, string>>({});
+
+  const roomId = room?.id ?? null;
+  const { hostChildId } = useRoomHost(roomId, childId);
+  const { session, snapshot, applyResponse, getServerTime } = useMultiplayerSession(roomId, childId);
+  const isHost = !!childId && (hostChildId ?? room?.hostChildId) === childId;
+  // Children who joined while a round was running; they sit it out unless the host starts over
+  const [latecomers, setLatecomers] = React.useState<RoomPlayer[]>([]);
+  const knownPlayerIdsRef = React.useRef<Set<string> | null>(null);
+
+  React.useEffect(() => {
+    setRoom(null);
+    setPlayers([]);
+    knownPlayerIdsRef.current = null;
+    if (!roomCode) {
+      setStatus("not-found");
+      return;
+    }
+
+    setStatus("loading");
+    let cancelled = false;
+    GameRoomService.getByCode(roomCode)
+      .then((info) => {
+        if (cancelled) return;
+        setRoom(info);
+        setStatus(info ? "ready" : "not-found");
+      })
+      .catch((error) => {
+        console.error("Failed to load room:", error);
+        if (!cancelled) setStatus("not-found");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomCode]);
+
+  const refreshPlayers = React.useCallback(async () => {
+    if (!roomId) return;
+    const [participants, standings] = await Promise.all([
+      GameRoomService.getParticipants(roomId),
+      MultiplayerScoreService.getStandings(roomId),
+    ]);
+    setPlayers(MultiplayerScoreService.applyStandings(participants, standings));
+  }, [roomId]);
+
+  // Players joining or leaving, scores changing and the host changing the room's settings
+  React.useEffect(() => {
+    if (!roomId) return;
+
+    const refresh = () => refreshPlayers().catch((error) => console.error("Failed to load players:", error));
+    refresh();
+
+    const channel = supabase
+      .channel(`multiplayer-room-${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "room_participants", filter: `room_id=eq.${roomId}` },
+        refresh
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "multiplayer_game_scores", filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return; // a new round deletes then inserts
+          const row = payload.new as Tables<"multiplayer_game_scores">;
+          setPlayers((prev) => MultiplayerScoreService.applyStandings(prev, [row]));
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "game_rooms", filter: `id=eq.${roomId}` },
+        (payload) => setRoom(GameRoomService.toRoomInfo(payload.new as Tables<"game_rooms">))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, refreshPlayers]);
+
+  const midRound = snapshot?.phase === "question" || snapshot?.phase === "paused";
+  React.useEffect(() => {
+    if (!players.length) return;
+    const known = knownPlayerIdsRef.current;
+    knownPlayerIdsRef.current = new Set(players.map((p) => p.id));
+    if (!known || !midRound) return;
+    const joined = players.filter((p) => !p.isAI && !known.has(p.id));
+    if (joined.length) setLatecomers((prev) => [...prev, ...joined]);
+  }, [players, midRound]);
+
+  const dismissLatecomers = React.useCallback(() => setLatecomers([]), []);
+
+  // A new round starts with no answers; the same round after a refresh gets them back
+  const sessionId = session?.id ?? null;
+  React.useEffect(() => {
+    setAnswers({});
+    setClaims({});
+    setLatecomers([]);
+    if (!roomId || !childId || !sessionId) return;
+
+    let cancelled = false;
+    MultiplayerScoreService.getPlayerState(roomId, childId)
+      .then((state) => {
+        if (cancelled) return;
+        setAnswers(
+          Object.fromEntries(state.answers.map((a) => [a.question_id, { answer: a.answer, correct: a.is_correct }]))
+        );
+        setClaims(
+          Object.fromEntries((state.claims ?? []).filter((c) => c.child_id).map((c) => [c.question_id, c.child_id as string]))
+        );
+        if (state.standings.length) {
+          setPlayers((prev) => MultiplayerScoreService.applyStandings(prev, state.standings));
+        }
+      })
+      .catch((error) => console.error("Failed to restore player state:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, childId, sessionId]);
+
+  // The clock ran out: record that on the server so the room moves on (once per round)
+  const finishRequestedRef = React.useRef<string | null>(null);
+  const clockFinished = snapshot?.phase === "finished";
+  React.useEffect(() => {
+    if (!session || !childId || !clockFinished || session.state === "finished") return;
+    if (finishRequestedRef.current === session.id) return;
+    finishRequestedRef.current = session.id;
+    MultiplayerSessionService.finish(session.roomId, childId)
+      .then(applyResponse)
+      .catch((error) => console.error("Failed to finish session:", error));
+  }, [session, childId, clockFinished, applyResponse]);
+
+  /** Host only: fresh scores and a new round after the countdown. restart abandons a running round. */
+  const start = React.useCallback(
+    async (options: { restart?: boolean } = {}) => {
+      if (!roomId || !childId) return;
+      const response = await MultiplayerSessionService.start(roomId, childId, options);
+      setPlayers((prev) => MultiplayerScoreService.applyStandings(prev, response.standings));
+      applyResponse(response);
+    },
+    [roomId, childId, applyResponse]
+  );
+
+  /** Host only: stops everyone's clock until resume */
+  const pause = React.useCallback(async () => {
+    if (!roomId || !childId) return;
+    applyResponse(await MultiplayerSessionService.pause(roomId, childId));
+  }, [roomId, childId, applyResponse]);
+
+  const resume = React.useCallback(async () => {
+    if (!roomId || !childId) return;
+    applyResponse(await MultiplayerSessionService.resume(roomId, childId));
+  }, [roomId, childId, applyResponse]);
+
+  /**
+   * For games played at each player's own pace (crossword races): this child is done.
+   * Once everyone is, the server ends the round and the session moves on by itself.
+   */
+  const markFinished = React.useCallback(
+    async (totalQuestions: number) => {
+      if (!roomId || !childId) return;
+      await MultiplayerSessionService.markPlayerFinished(roomId, childId, totalQuestions);
+    },
+    [roomId, childId]
+  );
+
+  /** Sends an answer for the open question; pass aiPlayerName (host only) to answer for an AI player */
+  const submitAnswer = React.useCallback(
+    async (questionId: string, answer: string, aiPlayerName?: string) => {
+      if (!roomId || !childId) throw new Error("Not in a room");
+      const result = await MultiplayerScoreService.submitAnswer({
+        roomId,
+        childId,
+        questionId,
+        answer,
+        aiPlayerName,
+      });
+      if (result.accepted && !aiPlayerName) {
+        setAnswers((prev) => ({ ...prev, [questionId]: { answer, correct: result.correct } }));
+      }
+      setPlayers((prev) => MultiplayerScoreService.applyStandings(prev, result.standings));
+      return result;
+    },
+    [roomId, childId]
+  );
+
+  return {
+    room,
+    status,
+    players,
+    isHost,
+    session,
+    snapshot,
+    answers,
+    claims,
+    latecomers,
+    dismissLatecomers,
+    getServerTime,
+    start,
+    pause,
+    resume,
+    markFinished,
+    submitAnswer,
+    refreshPlayers,
+  };
+}
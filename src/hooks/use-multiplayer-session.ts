@@ -0,0 +1,79 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { MultiplayerSession, MultiplayerSessionSnapshot } from "@/types";
+import { MultiplayerSessionService, SessionResponse } from "@/services/MultiplayerSessionService";
+import { SessionClock } from "@/lib/multiplayerSession";
+
+const TICK_MS = 250;
+
+/**
+ * Follows a room's server-owned session: loads it, listens for realtime changes
+ * and re-derives the snapshot (phase, question, seconds left) on a short tick.
+ * Pass null ids for solo play; the snapshot then stays null.
+ */
+export function useMultiplayerSession(roomId: string | null, childId: string | null) {
+  const [session, setSession] = React.useState<MultiplayerSession | null>(null);
+  const [snapshot, setSnapshot] = React.useState<MultiplayerSessionSnapshot | null>(null);
+  // serverTime - Date.now(), so every device counts down from the same moment
+  const clockOffsetRef = React.useRef(0);
+
+  /** Applies a response from one of the session actions */
+  const applyResponse = React.useCallback((response: SessionResponse) => {
+    clockOffsetRef.current = Date.parse(response.serverTime) - Date.now();
+    setSession(response.session);
+  }, []);
+
+  React.useEffect(() => {
+    setSession(null);
+    if (!roomId || !childId) return;
+
+    let cancelled = false;
+    MultiplayerSessionService.get(roomId, childId)
+      .then((response) => {
+        if (!cancelled) applyResponse(response);
+      })
+      .catch((error) => console.error("Failed to load multiplayer session:", error));
+
+    const channel = supabase
+      .channel(`multiplayer-session-${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "multiplayer_game_sessions", filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return; // a restart deletes then inserts
+          const row = payload.new as Tables<"multiplayer_game_sessions">;
+          setSession((prev) =>
+            prev && prev.id === row.id && prev.updatedAt > row.updated_at
+              ? prev
+              : MultiplayerSessionService.fromRow(row)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, childId, applyResponse]);
+
+  React.useEffect(() => {
+    if (!session) {
+      setSnapshot(null);
+      return;
+    }
+
+    const update = () => setSnapshot(SessionClock.getSnapshot(session, Date.now() + clockOffsetRef.current));
+    update();
+    if (session.state === "finished") return;
+
+    const interval = setInterval(update, TICK_MS);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  /** The server's clock, for ordering events between devices */
+  const getServerTime = React.useCallback(() => Date.now() + clockOffsetRef.current, []);
+
+  return { session, snapshot, applyResponse, getServerTime };
+}
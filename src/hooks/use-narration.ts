@@ -0,0 +1,30 @@
+import * as React from "react";
+import type { NarrationVoice } from "@/types";
+import { NarrationService, type NarrationProvider, type NarrationStatus } from "@/services/NarrationService";
+
+/**
+ * One narrator for the chosen voice, whichever kind it is. A new one is made when the voice
+ * changes; the old one is stopped. The status re-renders on every play, pause and page turn.
+ */
+export function useNarration(voice: NarrationVoice | null, auth0UserId: string | null) {
+  const narrator = React.useMemo<NarrationProvider>(
+    () => NarrationService.create(voice, auth0UserId),
+    [voice, auth0UserId]
+  );
+  const [status, setStatus] = React.useState<NarrationStatus>(() => narrator.getStatus());
+
+  React.useEffect(() => {
+    setStatus(narrator.getStatus());
+    const unsubscribe = narrator.subscribe(setStatus);
+    return () => {
+      unsubscribe();
+      narrator.dispose();
+    };
+  }, [narrator]);
+
+  return {
+    narrator,
+    status,
+    isReading: status.state === "playing" || status.state === "loading",
+  };
+}
@@ -0,0 +1,27 @@
+import * as React from "react";
+import type { ParentControl, PinVerification, ScreenTimeLockReason } from "@/types";
+
+export interface ParentControlContextType {
+  controls: ParentControl | null;
+  usedMinutesToday: number;
+  lockReason: ScreenTimeLockReason | null;
+  /** Whether the parent has set a PIN; null until known */
+  hasPin: boolean | null;
+  /** Set when checking for a PIN failed; retryPinStatus asks again */
+  pinStatusError: string | null;
+  retryPinStatus: () => void;
+  saveControls: (control: ParentControl, pin?: string) => Promise<ParentControl>;
+  setPin: (pin: string, currentPin?: string) => Promise<void>;
+  verifyPin: (pin: string) => Promise<PinVerification>;
+  /** Verifies the PIN and, if correct, unlocks the app for a while */
+  overrideLock: (pin: string) => Promise<PinVerification>;
+}
+
+export const ParentControlContext = React.createContext<ParentControlContextType | undefined>(undefined);
+
+/** Screen time, bedtime and PIN state for the selected child; provided by ParentControlProvider */
+export function useParentControls() {
+  const context = React.useContext(ParentControlContext);
+  if (!context) throw new Error("useParentControls must be used within ParentControlProvider");
+  return context;
+}
@@ -0,0 +1,23 @@
+import * as React from "react";
+import type { FriendStatus } from "@/types/multiplayer";
+
+export interface PresenceContextType {
+  /** Children with at least one open tab right now */
+  onlineChildIds: Set<string>;
+  /** False until the first presence sync; statuses fall back to the server's until then */
+  isSynced: boolean;
+  /**
+   * Live status for a child. roomId is the child's current room from the server;
+   * fallback is the server-derived status, used before presence has synced.
+   */
+  getStatus: (childId: string, roomId?: string | null, fallback?: FriendStatus) => FriendStatus;
+}
+
+export const PresenceContext = React.createContext<PresenceContextType | undefined>(undefined);
+
+/** Who is online right now and their live status; provided by PresenceProvider */
+export function usePresence() {
+  const context = React.useContext(PresenceContext);
+  if (!context) throw new Error("usePresence must be used within PresenceProvider");
+  return context;
+}
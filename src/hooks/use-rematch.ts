@@ -0,0 +1,62 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { RematchRequest } from "@/types/multiplayer";
+
+/**
+ * Follows a room's rematch offer and its current theme and difficulty in real time.
+ * `isOpen` turns false by itself when the offer expires.
+ */
+export function useRematch(roomId: string | null) {
+  const [request, setRequest] = React.useState<RematchRequest | null>(null);
+  const [settings, setSettings] = React.useState<{ theme: string | null; difficulty: string | null }>({
+    theme: null,
+    difficulty: null,
+  });
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    setRequest(null);
+    if (!roomId) return;
+
+    const apply = (row: { play_again_request?: unknown; selected_category?: string | null; difficulty?: string }) => {
+      setRequest((row.play_again_request as RematchRequest | null) ?? null);
+      setSettings({ theme: row.selected_category ?? null, difficulty: row.difficulty ?? null });
+    };
+
+    let cancelled = false;
+    supabase
+      .from("game_rooms")
+      .select("*")
+      .eq("id", roomId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!cancelled && data) apply(data);
+      });
+
+    const channel = supabase
+      .channel(`room-rematch-${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "game_rooms", filter: `id=eq.${roomId}` },
+        (payload) => apply(payload.new)
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  // Re-render when a pending offer runs out
+  const expiresAt = request?.status === "pending" ? Date.parse(request.expiresAt) : null;
+  React.useEffect(() => {
+    if (!expiresAt) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, expiresAt - Date.now()) + 50);
+    return () => clearTimeout(timeout);
+  }, [expiresAt]);
+
+  const isOpen = !!request && request.status === "pending" && expiresAt !== null && expiresAt > now;
+
+  return { request, isOpen, settings, applyRequest: setRequest };
+}
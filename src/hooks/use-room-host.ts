@@ -0,0 +1,79 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePresence } from "@/hooks/use-presence";
+import { GameRoomService } from "@/services/GameRoomService";
+import { useToast } from "@/hooks/use-toast";
+
+// How long the host may be missing from presence before asking the server to hand off.
+// The server also waits for the host's heartbeat to lapse, so retries are expected.
+const HOST_CLAIM_DELAY_MS = 20 * 1000;
+
+/**
+ * Tracks who hosts a room. Follows host changes in real time and, while this child
+ * is in the room, asks for a hand-off when the host has disappeared from presence.
+ */
+export function useRoomHost(roomId: string | null, childId: string | null) {
+  const [hostChildId, setHostChildId] = React.useState<string | null>(null);
+  const { isSynced, onlineChildIds } = usePresence();
+  const { toast } = useToast();
+  const previousHostRef = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    setHostChildId(null);
+    previousHostRef.current = null;
+    if (!roomId) return;
+
+    let cancelled = false;
+    supabase
+      .from("game_rooms")
+      .select("host_child_id")
+      .eq("id", roomId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!cancelled && data) setHostChildId(data.host_child_id);
+      });
+
+    const channel = supabase
+      .channel(`room-host-${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "game_rooms", filter: `id=eq.${roomId}` },
+        (payload) => {
+          const rec = payload.new as { host_child_id?: string };
+          if (rec?.host_child_id) setHostChildId(rec.host_child_id);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  // Let the new host know the room is theirs
+  React.useEffect(() => {
+    if (!hostChildId) return;
+    const previous = previousHostRef.current;
+    previousHostRef.current = hostChildId;
+    if (previous && previous !== hostChildId && hostChildId === childId) {
+      toast({ title: "You're the host now 👑", description: "The host left, so you're in charge of the room" });
+    }
+  }, [hostChildId, childId, toast]);
+
+  const hostMissing = !!hostChildId && isSynced && !onlineChildIds.has(hostChildId);
+
+  React.useEffect(() => {
+    if (!roomId || !childId || !hostMissing || hostChildId === childId) return;
+
+    const claim = () => {
+      GameRoomService.claimHost(roomId, childId)
+        .then((result) => setHostChildId(result.host_child_id))
+        .catch((error) => console.error("Failed to claim host:", error));
+    };
+    const interval = setInterval(claim, HOST_CLAIM_DELAY_MS);
+    return () => clearInterval(interval);
+  }, [roomId, childId, hostChildId, hostMissing]);
+
+  return { hostChildId, isHost: !!childId && hostChildId === childId };
+}
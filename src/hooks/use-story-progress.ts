@@ -0,0 +1,70 @@
+import * as React from "react";
+import type { InteractiveStory, StoryPath, StoryReadingProgress } from "@/types";
+import { StoryProgressService } from "@/services/StoryProgressService";
+
+/**
+ * A child's reading progress in the ready-made stories, keyed by story id.
+ * Shows the cached copy straight away, syncs with the server, and saves every change
+ * to the cache first so reading offline still counts.
+ */
+export function useStoryProgress(childId: string | null) {
+  const [stories, setStories] = React.useState<Record<string, StoryReadingProgress>>(() =>
+    childId ? StoryProgressService.getCached(childId) : {}
+  );
+  const childIdRef = React.useRef(childId);
+  childIdRef.current = childId;
+
+  React.useEffect(() => {
+    if (!childId) {
+      setStories({});
+      return;
+    }
+
+    setStories(StoryProgressService.getCached(childId));
+    let cancelled = false;
+    StoryProgressService.sync(childId).then((synced) => {
+      if (!cancelled) setStories(synced);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId]);
+
+  const update = React.useCallback(
+    (storyId: string, change: (progress: StoryReadingProgress) => StoryReadingProgress) => {
+      if (!childId) return;
+      const cached = StoryProgressService.getCached(childId);
+      const next = change(cached[storyId] ?? StoryProgressService.createEmpty(storyId));
+      const all = { ...cached, [storyId]: next };
+      StoryProgressService.cache(childId, all);
+      setStories(all);
+
+      // Push in the background; if we're offline the next sync picks it up from the cache
+      StoryProgressService.pushRemote(childId, [next])
+        .then((saved) => {
+          const merged = StoryProgressService.mergeAll(
+            StoryProgressService.getCached(childId),
+            Object.fromEntries(saved.map((p) => [p.storyId, p]))
+          );
+          StoryProgressService.cache(childId, merged);
+          if (childIdRef.current === childId) setStories(merged);
+        })
+        .catch((error) => console.error("Failed to save story progress:", error));
+    },
+    [childId]
+  );
+
+  const recordPath = React.useCallback(
+    (story: InteractiveStory, path: StoryPath) =>
+      update(story.id, (progress) => StoryProgressService.recordPath(progress, story, path)),
+    [update]
+  );
+
+  const toggleBookmark = React.useCallback(
+    (path: StoryPath) => update(path.storyId, (progress) => StoryProgressService.toggleBookmark(progress, path)),
+    [update]
+  );
+
+  return { stories, recordPath, toggleBookmark };
+}
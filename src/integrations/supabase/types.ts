@@ -14,17 +14,58 @@ export type Database = {
   }
   public: {
     Tables: {
+      child_progress: {
+        Row: {
+          badges: string[]
+          child_id: string
+          created_at: string
+          device_counters: Json
+          per_game: Json
+          stars: number
+          streak: Json
+          updated_at: string
+        }
+        Insert: {
+          badges?: string[]
+          child_id: string
+          created_at?: string
+          device_counters?: Json
+          per_game?: Json
+          stars?: number
+          streak?: Json
+          updated_at?: string
+        }
+        Update: {
+          badges?: string[]
+          child_id?: string
+          created_at?: string
+          device_counters?: Json
+          per_game?: Json
+          stars?: number
+          streak?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "child_progress_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: true
+            referencedRelation: "children_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       children_profiles: {
         Row: {
           age_group: string
           avatar: string | null
           created_at: string
           id: string
-          is_online: boolean | null
           last_seen_at: string | null
           name: string
           parent_id: string
           room_id: string | null
+          streak_freeze_days: number[]
           updated_at: string
           voice_clone_enabled: boolean | null
           voice_clone_url: string | null
@@ -34,11 +75,11 @@ export type Database = {
           avatar?: string | null
           created_at?: string
           id?: string
-          is_online?: boolean | null
           last_seen_at?: string | null
           name: string
           parent_id: string
           room_id?: string | null
+          streak_freeze_days?: number[]
           updated_at?: string
           voice_clone_enabled?: boolean | null
           voice_clone_url?: string | null
@@ -48,11 +89,11 @@ export type Database = {
           avatar?: string | null
           created_at?: string
           id?: string
-          is_online?: boolean | null
           last_seen_at?: string | null
           name?: string
           parent_id?: string
           room_id?: string | null
+          streak_freeze_days?: number[]
           updated_at?: string
           voice_clone_enabled?: boolean | null
           voice_clone_url?: string | null
@@ -74,6 +115,38 @@ export type Database = {
           },
         ]
       }
+      coop_word_claims: {
+        Row: {
+          child_id: string | null
+          created_at: string
+          question_id: string
+          room_id: string
+          score_id: string
+        }
+        Insert: {
+          child_id?: string | null
+          created_at?: string
+          question_id: string
+          room_id: string
+          score_id: string
+        }
+        Update: {
+          child_id?: string | null
+          created_at?: string
+          question_id?: string
+          room_id?: string
+          score_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coop_word_claims_score_id_fkey"
+            columns: ["score_id"]
+            isOneToOne: false
+            referencedRelation: "multiplayer_game_scores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       friends: {
         Row: {
           addressee_id: string
@@ -116,6 +189,56 @@ export type Database = {
           },
         ]
       }
+      game_results: {
+        Row: {
+          child_id: string
+          correct: number
+          created_at: string
+          difficulty: string
+          duration_seconds: number | null
+          ended_at: string
+          game_id: string
+          id: string
+          stars_earned: number
+          theme: string | null
+          total: number
+        }
+        Insert: {
+          child_id: string
+          correct?: number
+          created_at?: string
+          difficulty: string
+          duration_seconds?: number | null
+          ended_at: string
+          game_id: string
+          id: string
+          stars_earned?: number
+          theme?: string | null
+          total?: number
+        }
+        Update: {
+          child_id?: string
+          correct?: number
+          created_at?: string
+          difficulty?: string
+          duration_seconds?: number | null
+          ended_at?: string
+          game_id?: string
+          id?: string
+          stars_earned?: number
+          theme?: string | null
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_results_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       game_rooms: {
         Row: {
           ai_player_avatar: string | null
@@ -123,12 +246,17 @@ export type Database = {
           created_at: string
           current_players: number
           difficulty: string
+          expires_at: string
           game_id: string
+          game_mode: string
           has_ai_player: boolean
           host_child_id: string
           id: string
+          last_activity_at: string
           max_players: number
+          play_again_request: Json | null
           room_code: string
+          selected_category: string | null
           status: string
           updated_at: string
         }
@@ -138,12 +266,17 @@ export type Database = {
           created_at?: string
           current_players?: number
           difficulty: string
+          expires_at?: string
           game_id: string
+          game_mode?: string
           has_ai_player?: boolean
           host_child_id: string
           id?: string
+          last_activity_at?: string
           max_players?: number
+          play_again_request?: Json | null
           room_code: string
+          selected_category?: string | null
           status?: string
           updated_at?: string
         }
@@ -153,12 +286,17 @@ export type Database = {
           created_at?: string
           current_players?: number
           difficulty?: string
+          expires_at?: string
           game_id?: string
+          game_mode?: string
           has_ai_player?: boolean
           host_child_id?: string
           id?: string
+          last_activity_at?: string
           max_players?: number
+          play_again_request?: Json | null
           room_code?: string
+          selected_category?: string | null
           status?: string
           updated_at?: string
         }
@@ -180,6 +318,7 @@ export type Database = {
           created_at: string
           id: string
           title: string
+          updated_at: string
         }
         Insert: {
           audio_url?: string | null
@@ -188,6 +327,7 @@ export type Database = {
           created_at?: string
           id?: string
           title: string
+          updated_at?: string
         }
         Update: {
           audio_url?: string | null
@@ -196,6 +336,7 @@ export type Database = {
           created_at?: string
           id?: string
           title?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -240,6 +381,44 @@ export type Database = {
         }
         Relationships: []
       }
+      multiplayer_answers: {
+        Row: {
+          answer: string
+          created_at: string
+          id: string
+          is_correct: boolean
+          question_id: string
+          room_id: string
+          score_id: string
+        }
+        Insert: {
+          answer: string
+          created_at?: string
+          id?: string
+          is_correct: boolean
+          question_id: string
+          room_id: string
+          score_id: string
+        }
+        Update: {
+          answer?: string
+          created_at?: string
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          room_id?: string
+          score_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "multiplayer_answers_score_id_fkey"
+            columns: ["score_id"]
+            isOneToOne: false
+            referencedRelation: "multiplayer_game_scores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       multiplayer_game_scores: {
         Row: {
           child_id: string | null
@@ -250,6 +429,7 @@ export type Database = {
           player_name: string
           room_id: string
           score: number
+          streak: number
           total_questions: number
           updated_at: string
         }
@@ -262,6 +442,7 @@ export type Database = {
           player_name: string
           room_id: string
           score?: number
+          streak?: number
           total_questions?: number
           updated_at?: string
         }
@@ -274,6 +455,7 @@ export type Database = {
           player_name?: string
           room_id?: string
           score?: number
+          streak?: number
           total_questions?: number
           updated_at?: string
         }
@@ -317,6 +499,100 @@ export type Database = {
           },
         ]
       }
+      parent_controls: {
+        Row: {
+          adaptive_difficulty: boolean
+          ai_skill: string
+          bedtime: string
+          bedtime_enabled: boolean
+          child_id: string
+          created_at: string
+          daily_limit_minutes: number
+          difficulty_pins: Json
+          end_time: string
+          id: string
+          screen_time_enabled: boolean
+          start_time: string
+          updated_at: string
+          warning_minutes: number
+        }
+        Insert: {
+          adaptive_difficulty?: boolean
+          ai_skill?: string
+          bedtime?: string
+          bedtime_enabled?: boolean
+          child_id: string
+          created_at?: string
+          daily_limit_minutes?: number
+          difficulty_pins?: Json
+          end_time?: string
+          id?: string
+          screen_time_enabled?: boolean
+          start_time?: string
+          updated_at?: string
+          warning_minutes?: number
+        }
+        Update: {
+          adaptive_difficulty?: boolean
+          ai_skill?: string
+          bedtime?: string
+          bedtime_enabled?: boolean
+          child_id?: string
+          created_at?: string
+          daily_limit_minutes?: number
+          difficulty_pins?: Json
+          end_time?: string
+          id?: string
+          screen_time_enabled?: boolean
+          start_time?: string
+          updated_at?: string
+          warning_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parent_controls_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: true
+            referencedRelation: "children_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parent_pins: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          parent_id: string
+          pin_hash: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          parent_id: string
+          pin_hash: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          parent_id?: string
+          pin_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parent_pins_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: true
+            referencedRelation: "parent_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       parent_profiles: {
         Row: {
           auth0_user_id: string
@@ -389,6 +665,82 @@ export type Database = {
           },
         ]
       }
+      screen_time_usage: {
+        Row: {
+          child_id: string
+          created_at: string
+          seconds: number
+          updated_at: string
+          usage_date: string
+        }
+        Insert: {
+          child_id: string
+          created_at?: string
+          seconds?: number
+          updated_at?: string
+          usage_date: string
+        }
+        Update: {
+          child_id?: string
+          created_at?: string
+          seconds?: number
+          updated_at?: string
+          usage_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screen_time_usage_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_progress: {
+        Row: {
+          bookmarks: Json
+          child_id: string
+          completed_at: string | null
+          created_at: string
+          endings_found: string[]
+          last_path: string[]
+          last_read_at: string
+          story_id: string
+          updated_at: string
+        }
+        Insert: {
+          bookmarks?: Json
+          child_id: string
+          completed_at?: string | null
+          created_at?: string
+          endings_found?: string[]
+          last_path?: string[]
+          last_read_at?: string
+          story_id: string
+          updated_at?: string
+        }
+        Update: {
+          bookmarks?: Json
+          child_id?: string
+          completed_at?: string | null
+          created_at?: string
+          endings_found?: string[]
+          last_path?: string[]
+          last_read_at?: string
+          story_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_progress_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       voice_subscriptions: {
         Row: {
           created_at: string
@@ -435,10 +787,50 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_screen_time_usage: {
+        Args: { p_child_id: string; p_seconds: number; p_usage_date: string }
+        Returns: number
+      }
+      claim_coop_word: {
+        Args: {
+          p_answer: string
+          p_points: number
+          p_question_id: string
+          p_score_id: string
+        }
+        Returns: Database["public"]["Tables"]["multiplayer_game_scores"]["Row"][]
+      }
+      reap_stale_game_rooms: {
+        Args: { p_idle_minutes?: number }
+        Returns: {
+          children_released: number
+          requests_expired: number
+          rooms_reaped: number
+        }[]
+      }
       set_config: {
         Args: { setting: string; value: string }
         Returns: string
       }
+      submit_multiplayer_answer: {
+        Args: {
+          p_answer: string
+          p_is_correct: boolean
+          p_points: number
+          p_question_id: string
+          p_score_id: string
+        }
+        Returns: Database["public"]["Tables"]["multiplayer_game_scores"]["Row"][]
+      }
+      update_rematch_request: {
+        Args: {
+          p_path: string[]
+          p_request_id: string
+          p_room_id: string
+          p_value: Json
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,35 @@
+// Age groups - matches content tagged with an age range to a child's age group
+
+import { AgeGroup, AgeRange } from '@/types';
+
+// Ages covered by each group, as shown when creating a profile
+const AGE_GROUP_RANGES: Record<AgeGroup, AgeRange> = {
+  toddler: { min: 2, max: 3 },
+  preschool: { min: 4, max: 5 },
+  elementary: { min: 6, max: 8 },
+  tween: { min: 9, max: 12 }
+};
+
+export class AgeGroupFilter {
+  static isAgeGroup(value: unknown): value is AgeGroup {
+    return typeof value === 'string' && value in AGE_GROUP_RANGES;
+  }
+
+  static getRange(ageGroup: AgeGroup): AgeRange {
+    return AGE_GROUP_RANGES[ageGroup];
+  }
+
+  /**
+   * Content suits a group when its age range overlaps the group's ages
+   * Untagged content, or a child without a known age group, is always allowed
+   */
+  static isSuitable(ages: AgeRange | undefined, ageGroup: string | null | undefined): boolean {
+    if (!ages || !this.isAgeGroup(ageGroup)) return true;
+    const range = AGE_GROUP_RANGES[ageGroup];
+    return ages.min <= range.max && ages.max >= range.min;
+  }
+
+  static filter<T extends { ages?: AgeRange }>(items: T[], ageGroup: string | null | undefined): T[] {
+    return items.filter(item => this.isSuitable(item.ages, ageGroup));
+  }
+}
@@ -0,0 +1,124 @@
+// AI players - how simulated opponents answer: skill follows the game's difficulty (or the
+// parent's choice), personality shapes how fast and how carefully they answer and what they say
+
+import { AIFriend, AIPersonality } from '@/types/multiplayer';
+import { AISkillSetting } from '@/types';
+
+export type AISkill = 'easy' | 'medium' | 'hard';
+
+export interface AIAnswerPlan {
+  correct: boolean;
+  delayMs: number; // from the moment the question is shown
+  reaction: string | null; // a friendly line to show, or null to stay quiet
+}
+
+interface PersonalityTraits {
+  accuracy: number; // added to the skill's base accuracy
+  speed: number; // multiplies the skill's base delay; below 1 is faster
+  chattiness: number; // chance of saying something after an answer
+  correct: string[];
+  wrong: string[];
+  streak: string[]; // after three or more correct in a row
+}
+
+// Base accuracy and typical thinking time per skill level
+const SKILLS: Record<AISkill, { accuracy: number; delayMs: number }> = {
+  easy: { accuracy: 0.45, delayMs: 9000 },
+  medium: { accuracy: 0.65, delayMs: 7000 },
+  hard: { accuracy: 0.85, delayMs: 5000 }
+};
+
+const PERSONALITIES: Record<AIPersonality, PersonalityTraits> = {
+  logical: {
+    accuracy: 0.1,
+    speed: 1.25,
+    chattiness: 0.4,
+    correct: ['Calculated it! 🤖', 'Logic wins again.', 'That one computed nicely.'],
+    wrong: ['Hmm, my circuits got that wrong.', 'Recalculating... 🤖', 'Error! I will do better.'],
+    streak: ['My logic is on a roll!', 'Beep boop, another one!']
+  },
+  energetic: {
+    accuracy: 0,
+    speed: 0.8,
+    chattiness: 0.7,
+    correct: ['Woohoo! ⚡', 'Yes yes yes!', 'Boom! Got it!'],
+    wrong: ['Oops! Too excited! ⚡', 'Aww, so close!', 'Next one is mine!'],
+    streak: ['I am on FIRE! 🔥', 'Nobody can stop me now!']
+  },
+  calm: {
+    accuracy: 0.05,
+    speed: 1.4,
+    chattiness: 0.3,
+    correct: ['Nice and easy 🌙', 'I took my time on that one.', 'Peaceful and correct.'],
+    wrong: ["That's okay, we're learning 🌙", 'Oh well, deep breath.', 'Tricky one!'],
+    streak: ['Slow and steady 🌙', 'Feeling calm and clever.']
+  },
+  speedy: {
+    accuracy: -0.15,
+    speed: 0.45,
+    chattiness: 0.5,
+    correct: ['Zoom! First! 💨', 'Fast AND right!', 'Too quick for you!'],
+    wrong: ['Whoops, went too fast! 💨', 'Should have read that twice...', 'Speed bump!'],
+    streak: ["Can't catch me! 💨", 'Speed run!']
+  },
+  techy: {
+    accuracy: 0.05,
+    speed: 0.9,
+    chattiness: 0.5,
+    correct: ['Downloaded the answer 📱', 'Level up!', '100% signal!'],
+    wrong: ['Lag! That was lag! 📱', 'Need a software update...', 'Buffering...'],
+    streak: ['High score incoming! 📱', 'Combo x3!']
+  }
+};
+
+// Same names as the AI friends manage-game-rooms adds to rooms, plus the solo practice buddy
+const AI_FRIENDS: AIFriend[] = [
+  { name: 'Robo', avatar: '🤖', personality: 'logical' },
+  { name: 'Spark', avatar: '⚡', personality: 'energetic' },
+  { name: 'Luna', avatar: '🌙', personality: 'calm' },
+  { name: 'Dash', avatar: '💨', personality: 'speedy' },
+  { name: 'Pixel', avatar: '📱', personality: 'techy' },
+  { name: 'Vini', avatar: '🐵', personality: 'energetic' }
+];
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export class AIOpponent {
+  static getPersonality(name: string): AIPersonality {
+    return AI_FRIENDS.find(f => f.name === name)?.personality ?? 'calm';
+  }
+
+  /** 'auto' (or no parent setting) matches the AI to the game's difficulty */
+  static resolveSkill(setting: AISkillSetting | undefined, difficulty: string): AISkill {
+    if (setting && setting !== 'auto') return setting;
+    return difficulty in SKILLS ? (difficulty as AISkill) : 'medium';
+  }
+
+  /**
+   * Decides whether the AI gets the question right, how long it takes and what it says
+   * maxDelayMs keeps the answer inside the question's time limit
+   */
+  static planAnswer(
+    personality: AIPersonality,
+    skill: AISkill,
+    options: { streak?: number; maxDelayMs?: number } = {}
+  ): AIAnswerPlan {
+    const traits = PERSONALITIES[personality];
+    const base = SKILLS[skill];
+
+    const accuracy = Math.min(0.95, Math.max(0.1, base.accuracy + traits.accuracy));
+    const correct = Math.random() < accuracy;
+
+    // +/- 35% so AI players don't answer in lockstep
+    const delay = base.delayMs * traits.speed * (0.65 + Math.random() * 0.7);
+    const delayMs = Math.round(Math.max(800, Math.min(delay, options.maxDelayMs ?? Infinity)));
+
+    let reaction: string | null = null;
+    if (Math.random() < traits.chattiness) {
+      const onStreak = correct && (options.streak ?? 0) + 1 >= 3;
+      reaction = pick(onStreak ? traits.streak : correct ? traits.correct : traits.wrong);
+    }
+
+    return { correct, delayMs, reaction };
+  }
+}
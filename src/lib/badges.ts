@@ -0,0 +1,133 @@
+// Badge engine - evaluates the declarative badge catalogue against a child's progress
+
+import { Badge, BadgeCondition, BadgeProgress, BadgeRequirement, GameResult, Progress } from '@/types';
+import badgeCatalogue from '@/config/badges.json';
+
+export interface BadgeContext {
+  progress: Progress;
+  history: GameResult[];
+}
+
+interface Evaluation {
+  current: number;
+  target: number;
+  fraction: number; // 0-1
+  met: boolean;
+}
+
+const BADGES = badgeCatalogue as Badge[];
+
+const isComposite = (
+  requirement: BadgeRequirement
+): requirement is { type: 'all' | 'any'; conditions: BadgeRequirement[] } =>
+  requirement.type === 'all' || requirement.type === 'any';
+
+export class BadgeEngine {
+  static list(): Badge[] {
+    return BADGES;
+  }
+
+  static get(badgeId: string): Badge | undefined {
+    return BADGES.find(badge => badge.id === badgeId);
+  }
+
+  /**
+   * Current value of a single condition
+   * Per-theme and per-difficulty conditions are counted from the result history;
+   * everything else uses the aggregate counters, which also cover games played
+   * before the history log existed.
+   */
+  private static measure(condition: BadgeCondition, { progress, history }: BadgeContext): number {
+    if (condition.type === 'streak') {
+      return Math.max(progress.streak.longest, progress.streak.current);
+    }
+
+    if (condition.theme || condition.difficulty) {
+      const results = history.filter(result =>
+        (!condition.gameId || result.gameId === condition.gameId) &&
+        (!condition.theme || result.theme === condition.theme) &&
+        (!condition.difficulty || result.difficulty === condition.difficulty)
+      );
+
+      switch (condition.type) {
+        case 'games_played':
+          return results.length;
+        case 'total_correct':
+          return results.reduce((sum, result) => sum + result.correct, 0);
+        case 'stars_earned':
+          return results.reduce((sum, result) => sum + result.starsEarned, 0);
+      }
+    }
+
+    const stats = condition.gameId
+      ? [progress.perGame[condition.gameId]].filter(Boolean)
+      : Object.values(progress.perGame);
+
+    switch (condition.type) {
+      case 'games_played':
+        return stats.reduce((sum, s) => sum + s.played, 0);
+      case 'total_correct':
+        return stats.reduce((sum, s) => sum + s.correct, 0);
+      case 'stars_earned':
+        return condition.gameId ? stats.reduce((sum, s) => sum + s.stars, 0) : progress.stars;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Rules:
+   * - A condition reports its value (capped at the target)
+   * - 'all' reports how many of its conditions are met; its fraction is the average
+   * - 'any' reports whichever of its conditions is closest to being met
+   */
+  private static evaluate(requirement: BadgeRequirement, context: BadgeContext): Evaluation {
+    if (isComposite(requirement)) {
+      const parts = requirement.conditions.map(condition => this.evaluate(condition, context));
+      if (parts.length === 0) return { current: 0, target: 0, fraction: 0, met: false };
+
+      if (requirement.type === 'all') {
+        return {
+          current: parts.filter(part => part.met).length,
+          target: parts.length,
+          fraction: parts.reduce((sum, part) => sum + part.fraction, 0) / parts.length,
+          met: parts.every(part => part.met)
+        };
+      }
+
+      return parts.reduce((best, part) => (part.fraction > best.fraction ? part : best));
+    }
+
+    const value = this.measure(requirement, context);
+    return {
+      current: Math.min(value, requirement.value),
+      target: requirement.value,
+      fraction: requirement.value > 0 ? Math.min(1, value / requirement.value) : 1,
+      met: value >= requirement.value
+    };
+  }
+
+  /** Progress toward every badge. Badges already earned stay unlocked. */
+  static getProgress(context: BadgeContext, badges: Badge[] = BADGES): BadgeProgress[] {
+    return badges.map(badge => {
+      const evaluation = this.evaluate(badge.requirement, context);
+      const unlocked = context.progress.badges.includes(badge.id) || evaluation.met;
+
+      return {
+        badge,
+        unlocked,
+        current: unlocked ? evaluation.target : evaluation.current,
+        target: evaluation.target,
+        percent: unlocked ? 100 : Math.round(evaluation.fraction * 100)
+      };
+    });
+  }
+
+  /** Badges whose requirements are now met but aren't recorded on the progress yet */
+  static findNewlyUnlocked(context: BadgeContext, badges: Badge[] = BADGES): Badge[] {
+    return badges.filter(badge =>
+      !context.progress.badges.includes(badge.id) &&
+      this.evaluate(badge.requirement, context).met
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// Co-op crossword - every player in the room edits one shared grid. Edits to the same cell are
+// resolved last-writer-wins on the server clock (ties go to the lower child id), so every device
+// settles on the same letters whatever order the messages arrive in. Finished words are locked.
+
+import type { CrosswordGridCell, CrosswordWord } from '@/types';
+import type { CoopCellEdit } from '@/types/multiplayer';
+
+const PLAYER_COLORS = ['#3b82f6', '#ec4899', '#f59e0b', '#10b981', '#8b5cf6', '#ef4444', '#14b8a6', '#f97316'];
+
+const copyRows = (grid: CrosswordGridCell[][]) => grid.map(row => row.slice());
+
+export class CoopGrid {
+  static cellsOf(word: CrosswordWord): { row: number; col: number }[] {
+    return Array.from({ length: word.word.length }, (_, i) => ({
+      row: word.direction === 'across' ? word.startRow : word.startRow + i,
+      col: word.direction === 'across' ? word.startCol + i : word.startCol
+    }));
+  }
+
+  /** True if the edit should replace the current one; re-sending the same edit changes nothing */
+  static isNewer(edit: CoopCellEdit, current?: Pick<CoopCellEdit, 'at' | 'childId'>): boolean {
+    if (!current) return true;
+    if (edit.at !== current.at) return edit.at > current.at;
+    return edit.childId < current.childId;
+  }
+
+  /** A new grid with the edit applied, or null if the cell is locked or already has a newer edit */
+  static applyEdit(grid: CrosswordGridCell[][], edit: CoopCellEdit): CrosswordGridCell[][] | null {
+    const cell = grid[edit.row]?.[edit.col];
+    if (!cell || cell.isBlack || cell.solvedBy) return null;
+
+    const current = cell.editedBy !== undefined && cell.editedAt !== undefined
+      ? { childId: cell.editedBy, at: cell.editedAt }
+      : undefined;
+    if (!CoopGrid.isNewer(edit, current)) return null;
+
+    const next = copyRows(grid);
+    next[edit.row][edit.col] = { ...cell, userLetter: edit.letter, editedBy: edit.childId, editedAt: edit.at };
+    return next;
+  }
+
+  /** Fills in the word and locks its cells; a crossing cell keeps the child who locked it first */
+  static markSolved(grid: CrosswordGridCell[][], word: CrosswordWord, childId: string): CrosswordGridCell[][] {
+    const next = copyRows(grid);
+    CoopGrid.cellsOf(word).forEach(({ row, col }, i) => {
+      const cell = next[row]?.[col];
+      if (!cell) return;
+      next[row][col] = { ...cell, userLetter: word.word[i], solvedBy: cell.solvedBy ?? childId };
+    });
+    return next;
+  }
+
+  static isWordCorrect(grid: CrosswordGridCell[][], word: CrosswordWord): boolean {
+    return CoopGrid.cellsOf(word).every(({ row, col }, i) => grid[row]?.[col]?.userLetter === word.word[i]);
+  }
+
+  /** Same colour for a player on every device: picked by their place among the sorted ids */
+  static colorFor(childId: string, playerIds: string[]): string {
+    const index = [...playerIds].sort().indexOf(childId);
+    return PLAYER_COLORS[Math.max(index, 0) % PLAYER_COLORS.length];
+  }
+}
@@ -0,0 +1,119 @@
+// Adaptive difficulty - recommends a level per game from the child's recent results
+
+import { GameResult } from '@/types';
+
+export type DifficultyReason = 'pinned' | 'no_history' | 'step_up' | 'step_down' | 'steady';
+
+export interface DifficultyRecommendation {
+  difficulty: string;
+  reason: DifficultyReason;
+  accuracy: number | null; // 0-1 over the recent games at the current level
+  secondsPerQuestion: number | null;
+}
+
+export interface AnswerSample {
+  correct: boolean;
+  seconds: number;
+}
+
+// How many recent games at the current level are considered, and how many are needed to step up
+const RECENT_GAMES = 5;
+const MIN_GAMES_TO_STEP_UP = 3;
+
+const STEP_UP_ACCURACY = 0.85;
+const STEP_DOWN_ACCURACY = 0.5;
+
+// Mid-session adjustments look at the last few answers only
+const SESSION_WINDOW = 3;
+
+export class DifficultyAdvisor {
+  private static step(difficulties: string[], current: string, direction: 1 | -1): string {
+    const index = difficulties.indexOf(current);
+    if (index === -1) return difficulties[0] ?? current;
+    const next = Math.min(difficulties.length - 1, Math.max(0, index + direction));
+    return difficulties[next];
+  }
+
+  /**
+   * Recommends a difficulty for the next game
+   * Rules:
+   * - A parent's pinned difficulty always wins
+   * - With no history, start at `fallback`
+   * - Otherwise look at the last RECENT_GAMES games at the most recently played level:
+   *   - accuracy >= 85% over at least 3 games, and (if the game sets a target) answering
+   *     faster than the target time per question: step up
+   *   - accuracy < 50%: step down
+   *   - anything else: stay
+   */
+  static recommend(
+    gameId: string,
+    history: GameResult[],
+    options: {
+      difficulties: string[];
+      pinned?: string | null;
+      fallback?: string;
+      targetSecondsPerQuestion?: number;
+    }
+  ): DifficultyRecommendation {
+    const { difficulties, pinned, targetSecondsPerQuestion } = options;
+    const fallback = options.fallback && difficulties.includes(options.fallback) ? options.fallback : difficulties[0];
+
+    if (pinned && difficulties.includes(pinned)) {
+      return { difficulty: pinned, reason: 'pinned', accuracy: null, secondsPerQuestion: null };
+    }
+
+    const played = history
+      .filter(r => r.gameId === gameId && difficulties.includes(r.difficulty))
+      .sort((a, b) => new Date(b.endedAt).getTime() - new Date(a.endedAt).getTime());
+
+    if (played.length === 0) {
+      return { difficulty: fallback, reason: 'no_history', accuracy: null, secondsPerQuestion: null };
+    }
+
+    const current = played[0].difficulty;
+    const recent = played.filter(r => r.difficulty === current).slice(0, RECENT_GAMES);
+    const total = recent.reduce((sum, r) => sum + r.total, 0);
+    const accuracy = total > 0 ? recent.reduce((sum, r) => sum + r.correct, 0) / total : null;
+
+    const timed = recent.filter(r => typeof r.durationSeconds === 'number' && r.total > 0);
+    const secondsPerQuestion = timed.length > 0
+      ? timed.reduce((sum, r) => sum + r.durationSeconds / r.total, 0) / timed.length
+      : null;
+
+    const fastEnough = !targetSecondsPerQuestion || secondsPerQuestion === null ||
+      secondsPerQuestion <= targetSecondsPerQuestion;
+
+    if (accuracy !== null && accuracy >= STEP_UP_ACCURACY && recent.length >= MIN_GAMES_TO_STEP_UP && fastEnough) {
+      const next = this.step(difficulties, current, 1);
+      if (next !== current) return { difficulty: next, reason: 'step_up', accuracy, secondsPerQuestion };
+    }
+
+    if (accuracy !== null && accuracy < STEP_DOWN_ACCURACY) {
+      const next = this.step(difficulties, current, -1);
+      if (next !== current) return { difficulty: next, reason: 'step_down', accuracy, secondsPerQuestion };
+    }
+
+    return { difficulty: current, reason: 'steady', accuracy, secondsPerQuestion };
+  }
+
+  /**
+   * Mid-session adjustment from the last SESSION_WINDOW answers: all correct and
+   * fast steps up, at most one correct steps down. Returns the current level otherwise.
+   */
+  static adjustDuringSession(
+    current: string,
+    answers: AnswerSample[],
+    options: { difficulties: string[]; targetSecondsPerQuestion?: number }
+  ): string {
+    if (answers.length < SESSION_WINDOW) return current;
+
+    const window = answers.slice(-SESSION_WINDOW);
+    const correct = window.filter(a => a.correct).length;
+    const averageSeconds = window.reduce((sum, a) => sum + a.seconds, 0) / window.length;
+    const fastEnough = !options.targetSecondsPerQuestion || averageSeconds <= options.targetSecondsPerQuestion;
+
+    if (correct === window.length && fastEnough) return this.step(options.difficulties, current, 1);
+    if (correct <= 1) return this.step(options.difficulties, current, -1);
+    return current;
+  }
+}
@@ -0,0 +1,45 @@
+// Session clock - works out what every player in a multiplayer room should be seeing
+// from the server-owned session, so clients never keep their own game timers
+
+import { MultiplayerSession, MultiplayerSessionSnapshot } from '@/types';
+
+export class SessionClock {
+  /**
+   * Milliseconds of play since the first question opened, negative during the countdown
+   * Time spent paused doesn't count; while paused the clock stands still at pausedAt
+   */
+  static getElapsedMs(session: MultiplayerSession, now: number): number {
+    const { startsAt, pausedAt, pausedMs } = session.data;
+    const reference = pausedAt ? Date.parse(pausedAt) : now;
+    return reference - Date.parse(startsAt) - pausedMs;
+  }
+
+  /** now is server time, i.e. Date.now() corrected by the client's clock offset */
+  static getSnapshot(session: MultiplayerSession, now: number): MultiplayerSessionSnapshot {
+    const { questionIds, secondsPerQuestion } = session.data;
+    const perQuestionMs = secondsPerQuestion * 1000;
+    const elapsed = this.getElapsedMs(session, now);
+
+    const questionIndex = elapsed < 0
+      ? -1
+      : Math.min(questionIds.length, Math.floor(elapsed / perQuestionMs));
+    const timeUp = questionIndex >= questionIds.length;
+
+    let phase: MultiplayerSessionSnapshot['phase'];
+    if (session.state === 'finished' || timeUp) phase = 'finished';
+    else if (session.state === 'paused') phase = 'paused';
+    else phase = questionIndex < 0 ? 'countdown' : 'question';
+
+    const visibleIndex = timeUp ? questionIds.length - 1 : questionIndex;
+
+    return {
+      phase,
+      questionIndex: visibleIndex,
+      questionId: visibleIndex >= 0 ? questionIds[visibleIndex] ?? null : null,
+      countdownRemaining: elapsed < 0 ? Math.ceil(-elapsed / 1000) : 0,
+      secondsRemaining: elapsed < 0 || timeUp
+        ? (timeUp ? 0 : secondsPerQuestion)
+        : Math.ceil((perQuestionMs - (elapsed % perQuestionMs)) / 1000)
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// Report export utilities - CSV of raw game results for parents and teachers
+
+import { format, parseISO } from 'date-fns';
+import { ChildActivityReport } from '@/types';
+
+const CSV_COLUMNS = [
+  'date',
+  'time',
+  'game',
+  'difficulty',
+  'theme',
+  'correct',
+  'total',
+  'accuracy_percent',
+  'stars',
+  'duration_seconds'
+];
+
+// Quote fields containing separators, quotes or newlines (RFC 4180)
+const escapeCsv = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class ReportExporter {
+  /** One row per finished game, oldest first. Dates use the device's local timezone. */
+  static toCsv(report: ChildActivityReport, gameTitle: (gameId: string) => string = id => id): string {
+    const rows = [...report.results]
+      .sort((a, b) => a.endedAt.localeCompare(b.endedAt))
+      .map(result => {
+        const ended = parseISO(result.endedAt);
+        return [
+          format(ended, 'yyyy-MM-dd'),
+          format(ended, 'HH:mm'),
+          gameTitle(result.gameId),
+          result.difficulty,
+          result.theme ?? '',
+          result.correct,
+          result.total,
+          result.total > 0 ? Math.round((result.correct / result.total) * 100) : '',
+          result.starsEarned,
+          result.durationSeconds ?? ''
+        ];
+      });
+
+    return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+  }
+
+  static getFileName(report: ChildActivityReport, extension: string): string {
+    const name = report.childName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'child';
+    return `${name}-report-${format(parseISO(report.since), 'yyyy-MM-dd')}.${extension}`;
+  }
+
+  static download(fileName: string, content: string, mimeType: string): void {
+    // Prefix a BOM so spreadsheet apps read the file as UTF-8
+    const blob = new Blob(['\uFEFF', content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  static downloadCsv(report: ChildActivityReport, gameTitle?: (gameId: string) => string): void {
+    this.download(this.getFileName(report, 'csv'), this.toCsv(report, gameTitle), 'text/csv;charset=utf-8');
+  }
+}
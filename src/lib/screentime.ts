@@ -0,0 +1,54 @@
+// Screen time rules - decides when a ParentControl locks the app
+// Times are "HH:mm" strings in the device's local timezone.
+
+import { ParentControl, ScreenTimeLockReason } from '@/types';
+
+// Bedtime lasts until this time the next morning
+const WAKE_UP_TIME = '06:00';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export class ScreenTimeCalculator {
+  /** True when `now` falls in [start, end), wrapping past midnight if end < start */
+  static isBetween(now: Date, start: string, end: string): boolean {
+    const current = minutesOfDay(now);
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    return from <= to ? current >= from && current < to : current >= from || current < to;
+  }
+
+  static isBedtime(control: ParentControl, now = new Date()): boolean {
+    return control.bedTime.enabled && this.isBetween(now, control.bedTime.time, WAKE_UP_TIME);
+  }
+
+  /** Minutes left before bedtime starts, or null when bedtime is off or already here */
+  static minutesUntilBedtime(control: ParentControl, now = new Date()): number | null {
+    if (!control.bedTime.enabled || this.isBedtime(control, now)) return null;
+    const remaining = toMinutes(control.bedTime.time) - minutesOfDay(now);
+    return remaining >= 0 ? remaining : remaining + 24 * 60;
+  }
+
+  /**
+   * Why the app should be locked right now, if at all
+   * Bedtime wins over allowed hours, which win over the daily limit.
+   */
+  static getLockReason(
+    control: ParentControl | null,
+    usedMinutes: number,
+    now = new Date()
+  ): ScreenTimeLockReason | null {
+    if (!control) return null;
+    if (this.isBedtime(control, now)) return 'bedtime';
+
+    const { screenTime } = control;
+    if (!screenTime.enabled) return null;
+    if (!this.isBetween(now, screenTime.startTime, screenTime.endTime)) return 'outside_hours';
+    if (usedMinutes >= screenTime.dailyLimitMinutes) return 'daily_limit';
+    return null;
+  }
+}
@@ -9,6 +9,10 @@ const STORAGE_KEYS = {
   GAME_RESULTS: 'storyteller_game_results',
   PARENT_PROFILE: 'storyteller_parent_profile',
   PARENT_CONTROL: 'storyteller_parent_control',
+  SCREEN_TIME: 'storyteller_screen_time',
+  STORY_PROGRESS: 'storyteller_story_progress',
+  NARRATION_VOICE: 'storyteller_narration_voice',
+  DEVICE_ID: 'storyteller_device_id',
 } as const;
 
 export class StorageService {
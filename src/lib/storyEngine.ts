@@ -0,0 +1,130 @@
+// Story engine - walks a branching story (segments linked by choices), keeps the path the
+// reader took, and checks story graphs before they're shown to a child
+
+import type { InteractiveStory, StoryGraphIssue, StoryPath, StorySegment } from '@/types';
+
+const nextIds = (segment: StorySegment) => (segment.choices ?? []).map(choice => choice.nextSegmentId);
+
+export class StoryEngine {
+  static getSegment(story: InteractiveStory, segmentId: string): StorySegment | undefined {
+    return story.segments.find(segment => segment.id === segmentId);
+  }
+
+  static start(story: InteractiveStory): StoryPath {
+    return { storyId: story.id, segmentIds: [story.startSegmentId] };
+  }
+
+  static current(story: InteractiveStory, path: StoryPath): StorySegment | undefined {
+    return this.getSegment(story, path.segmentIds[path.segmentIds.length - 1]);
+  }
+
+  /** Follows one of the current segment's choices; throws if there is no such choice */
+  static choose(story: InteractiveStory, path: StoryPath, choiceIndex: number): StoryPath {
+    const segment = this.current(story, path);
+    const choice = segment?.choices?.[choiceIndex];
+    if (!segment || segment.isEnding || !choice) {
+      throw new Error(`No choice ${choiceIndex} at segment "${segment?.id ?? 'unknown'}"`);
+    }
+    if (!this.getSegment(story, choice.nextSegmentId)) {
+      throw new Error(`Choice leads to missing segment "${choice.nextSegmentId}"`);
+    }
+    return { ...path, segmentIds: [...path.segmentIds, choice.nextSegmentId] };
+  }
+
+  /** Undoes the last choice; the start segment stays */
+  static back(path: StoryPath): StoryPath {
+    return path.segmentIds.length > 1 ? { ...path, segmentIds: path.segmentIds.slice(0, -1) } : path;
+  }
+
+  static isFinished(story: InteractiveStory, path: StoryPath): boolean {
+    return !!this.current(story, path)?.isEnding;
+  }
+
+  static getEndings(story: InteractiveStory): StorySegment[] {
+    return story.segments.filter(segment => segment.isEnding);
+  }
+
+  /** A path loaded from storage still fits the story if every step follows a real choice */
+  static isValidPath(story: InteractiveStory, path: StoryPath): boolean {
+    if (path.storyId !== story.id || path.segmentIds[0] !== story.startSegmentId) return false;
+    return path.segmentIds.every((id, i) => {
+      const segment = this.getSegment(story, id);
+      if (!segment) return false;
+      if (i === 0) return true;
+      const previous = this.getSegment(story, path.segmentIds[i - 1]);
+      return !!previous && nextIds(previous).includes(id);
+    });
+  }
+
+  /** Everything wrong with the story's graph; an empty list means it can be played */
+  static validate(story: InteractiveStory): StoryGraphIssue[] {
+    const issues: StoryGraphIssue[] = [];
+    const byId = new Map<string, StorySegment>();
+
+    story.segments.forEach(segment => {
+      if (byId.has(segment.id)) {
+        issues.push({ type: 'duplicate-segment', segmentId: segment.id, message: `Segment "${segment.id}" is defined more than once` });
+      }
+      byId.set(segment.id, segment);
+    });
+
+    if (!byId.has(story.startSegmentId)) {
+      issues.push({ type: 'missing-start', message: `Start segment "${story.startSegmentId}" doesn't exist` });
+    }
+
+    story.segments.forEach(segment => {
+      nextIds(segment)
+        .filter(id => !byId.has(id))
+        .forEach(id => issues.push({
+          type: 'broken-link',
+          segmentId: segment.id,
+          message: `A choice in "${segment.id}" leads to missing segment "${id}"`
+        }));
+
+      if (!segment.isEnding && nextIds(segment).length === 0) {
+        issues.push({ type: 'dead-end', segmentId: segment.id, message: `"${segment.id}" isn't an ending but has no choices` });
+      }
+    });
+
+    // Forward from the start: what can a reader get to?
+    const reachable = new Set<string>();
+    const queue = byId.has(story.startSegmentId) ? [story.startSegmentId] : [];
+    while (queue.length) {
+      const id = queue.shift()!;
+      if (reachable.has(id)) continue;
+      reachable.add(id);
+      const segment = byId.get(id);
+      if (segment && !segment.isEnding) queue.push(...nextIds(segment).filter(next => byId.has(next)));
+    }
+
+    byId.forEach((_, id) => {
+      if (!reachable.has(id)) {
+        issues.push({ type: 'unreachable', segmentId: id, message: `No path from the start reaches "${id}"` });
+      }
+    });
+
+    // Backward from the endings: which segments can still finish the story?
+    const canFinish = new Set<string>();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      byId.forEach((segment, id) => {
+        if (canFinish.has(id)) return;
+        if (segment.isEnding || nextIds(segment).some(next => canFinish.has(next))) {
+          canFinish.add(id);
+          changed = true;
+        }
+      });
+    }
+
+    reachable.forEach(id => {
+      const segment = byId.get(id);
+      // Dead ends are already reported; this catches loops with no way out
+      if (segment && nextIds(segment).length > 0 && !canFinish.has(id)) {
+        issues.push({ type: 'no-ending', segmentId: id, message: `No ending can be reached from "${id}"` });
+      }
+    });
+
+    return issues;
+  }
+}
@@ -0,0 +1,75 @@
+// Story library - the ready-made stories from the content file, with the shelf details
+// (chapters, endings, reading time) worked out from each story's segments
+
+import type { InteractiveStory, StoryCatalogEntry } from '@/types';
+import { StoryEngine } from '@/lib/storyEngine';
+
+// Read-aloud pace for young listeners
+const WORDS_PER_MINUTE = 90;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export class StoryLibrary {
+  private static stories: Promise<InteractiveStory[]> | null = null;
+
+  /** Every story that passes validation; broken ones are logged and left off the shelf */
+  static load(): Promise<InteractiveStory[]> {
+    if (!this.stories) {
+      this.stories = import('@/config/stories.json')
+        .then(({ default: stories }) => (stories as InteractiveStory[]).filter(story => {
+          const issues = StoryEngine.validate(story);
+          if (issues.length) console.error(`Story "${story.id}" can't be played:`, issues);
+          return issues.length === 0;
+        }))
+        .catch(error => {
+          this.stories = null;
+          throw error;
+        });
+    }
+    return this.stories;
+  }
+
+  static async get(storyId: string): Promise<InteractiveStory | undefined> {
+    return (await this.load()).find(story => story.id === storyId);
+  }
+
+  /** Segment ids on the longest way through the story, start to ending */
+  static longestPath(story: InteractiveStory): string[] {
+    const walk = (id: string, seen: Set<string>): string[] => {
+      const segment = StoryEngine.getSegment(story, id);
+      if (!segment || segment.isEnding) return [id];
+      let best: string[] = [];
+      (segment.choices ?? []).forEach(choice => {
+        if (seen.has(choice.nextSegmentId)) return; // loops don't make a story longer
+        const rest = walk(choice.nextSegmentId, new Set(seen).add(choice.nextSegmentId));
+        if (rest.length > best.length) best = rest;
+      });
+      return [id, ...best];
+    };
+    return walk(story.startSegmentId, new Set([story.startSegmentId]));
+  }
+
+  static readingMinutes(story: InteractiveStory): number {
+    const words = this.longestPath(story)
+      .reduce((total, id) => total + wordCount(StoryEngine.getSegment(story, id)?.content ?? ''), 0);
+    return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+  }
+
+  static toCatalogEntry(story: InteractiveStory): StoryCatalogEntry {
+    return {
+      id: story.id,
+      title: story.title,
+      description: story.description ?? '',
+      icon: story.icon ?? '📖',
+      coverImageUrl: story.coverImageUrl ?? StoryEngine.getSegment(story, story.startSegmentId)?.imageUrl,
+      ages: story.ages,
+      chapters: this.longestPath(story).length,
+      endings: StoryEngine.getEndings(story).length,
+      readingMinutes: this.readingMinutes(story)
+    };
+  }
+
+  static async getCatalog(): Promise<StoryCatalogEntry[]> {
+    return (await this.load()).map(story => this.toCatalogEntry(story));
+  }
+}
@@ -0,0 +1,179 @@
+// Story paginator - turns a child's typed or dictated story into pages: whole sentences,
+// with their own punctuation, grouped into pages sized for the reader's age group
+
+import type { AgeGroup } from '@/types';
+import { AgeGroupFilter } from '@/lib/ageGroups';
+
+// Words a page aims for; younger readers get less on each page
+const WORDS_PER_PAGE: Record<AgeGroup, number> = {
+  toddler: 15,
+  preschool: 25,
+  elementary: 45,
+  tween: 70
+};
+
+const DEFAULT_WORDS_PER_PAGE = WORDS_PER_PAGE.elementary;
+
+// A full stop after these doesn't end the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'e.g', 'i.e', 'capt', 'lt', 'sgt'
+]);
+
+const OPENING_QUOTES = '"“‘«';
+const CLOSING = '"”’\')]»';
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Straight double quotes open and close alike, so they balance when there's an even number
+const quotesBalance = (text: string) =>
+  (text.match(/"/g) ?? []).length % 2 === 0 &&
+  (text.match(/“/g) ?? []).length === (text.match(/”/g) ?? []).length;
+
+export class StoryPaginator {
+  static wordsPerPage(ageGroup: string | null | undefined): number {
+    return AgeGroupFilter.isAgeGroup(ageGroup) ? WORDS_PER_PAGE[ageGroup] : DEFAULT_WORDS_PER_PAGE;
+  }
+
+  /** Paragraphs are separated by a blank line; single line breaks inside one are just spaces */
+  static splitParagraphs(text: string): string[] {
+    return text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Splits one paragraph into sentences, keeping each sentence's own punctuation.
+   * A sentence ends at . ! ? or … plus any closing quotes or brackets. Abbreviations, initials
+   * and decimals don't end one, and neither does punctuation inside a quote or one followed by
+   * a lowercase word after a quote or an ellipsis, so a line of dialogue stays with whoever said
+   * it. Dictation often comes without any punctuation, so very long runs are broken up too.
+   */
+  static splitSentences(paragraph: string, maxWords = DEFAULT_WORDS_PER_PAGE * 2): string[] {
+    const text = paragraph.replace(/\s+/g, ' ').trim();
+    const trackQuotes = quotesBalance(text);
+    const sentences: string[] = [];
+    let start = 0;
+    let inStraightQuote = false;
+    let curlyDepth = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') inStraightQuote = !inStraightQuote;
+      if (char === '“') curlyDepth++;
+      if (char === '”') curlyDepth = Math.max(0, curlyDepth - 1);
+      if (!'.!?…'.includes(char)) continue;
+
+      // Take the whole run of punctuation and whatever closes after it: ?!  ..."  !)
+      let end = i + 1;
+      while (end < text.length && '.!?…'.includes(text[end])) end++;
+      const trailing = text.slice(i, end);
+      const closeAt = end;
+      while (end < text.length && CLOSING.includes(text[end])) {
+        if (text[end] === '"') inStraightQuote = !inStraightQuote;
+        if (text[end] === '”') curlyDepth = Math.max(0, curlyDepth - 1);
+        end++;
+      }
+      i = end - 1;
+
+      if (end < text.length && text[end] !== ' ') continue; // 3.5, e.g, www.site
+      if (trackQuotes && (inStraightQuote || curlyDepth > 0)) continue;
+
+      const next = text.slice(end).trimStart();
+      const continues = end > closeAt || trailing === '...' || trailing === '…';
+      if (next && continues && !this.startsSentence(next)) continue; // "Wait!" she said.
+      if (trailing === '.' && this.isAbbreviation(text.slice(start, i))) continue;
+
+      sentences.push(text.slice(start, end).trim());
+      start = end;
+    }
+
+    const rest = text.slice(start).trim();
+    if (rest) sentences.push(rest);
+    return sentences.flatMap(sentence => this.splitRunOn(sentence, maxWords));
+  }
+
+  /**
+   * Pages of whole sentences, close to the age group's page size. A new paragraph starts a
+   * new page once the page has enough on it; a sentence longer than a page gets a page
+   * to itself rather than being cut; a short last page joins the one before.
+   */
+  static paginate(text: string, ageGroup?: string | null): string[] {
+    const target = this.wordsPerPage(ageGroup);
+    const pages: { text: string; words: number; newParagraph: boolean }[] = [];
+    let page = { text: '', words: 0, newParagraph: true };
+
+    const closePage = (newParagraph: boolean) => {
+      if (page.text) pages.push(page);
+      page = { text: '', words: 0, newParagraph };
+    };
+
+    this.splitParagraphs(text).forEach(paragraph => {
+      if (page.words >= target / 2) closePage(true);
+      let separator = page.text ? '\n\n' : '';
+
+      this.splitSentences(paragraph, Math.round(target * 1.5)).forEach(sentence => {
+        const words = wordCount(sentence);
+        if (page.text && page.words + words > target) {
+          closePage(separator === '\n\n');
+          separator = '';
+        }
+        page.text += separator + sentence;
+        page.words += words;
+        separator = ' ';
+      });
+    });
+    closePage(true);
+
+    if (pages.length > 1) {
+      const last = pages[pages.length - 1];
+      const previous = pages[pages.length - 2];
+      if (last.words < target / 3 && previous.words + last.words <= target * 1.5) {
+        pages.splice(-2, 2, {
+          text: `${previous.text}${last.newParagraph ? '\n\n' : ' '}${last.text}`,
+          words: previous.words + last.words,
+          newParagraph: previous.newParagraph
+        });
+      }
+    }
+
+    return pages.map(p => p.text);
+  }
+
+  /** Breaks a run-on longer than maxWords into even pieces, after a comma where there is one */
+  private static splitRunOn(sentence: string, maxWords: number): string[] {
+    const words = sentence.split(' ');
+    if (words.length <= maxWords) return [sentence];
+
+    const size = Math.ceil(words.length / Math.ceil(words.length / maxWords));
+    const pieces: string[] = [];
+    let from = 0;
+    while (words.length - from > maxWords) {
+      let cut = from + size;
+      for (let j = cut; j > from + size / 2; j--) {
+        if (/[,;:]$/.test(words[j - 1])) {
+          cut = j;
+          break;
+        }
+      }
+      pieces.push(words.slice(from, cut).join(' '));
+      from = cut;
+    }
+    pieces.push(words.slice(from).join(' '));
+    return pieces;
+  }
+
+  private static startsSentence(text: string): boolean {
+    let i = 0;
+    while (i < text.length && OPENING_QUOTES.includes(text[i])) i++;
+    const char = text[i];
+    return !!char && (/\d/.test(char) || (char !== char.toLowerCase() && char === char.toUpperCase()));
+  }
+
+  private static isAbbreviation(beforeDot: string): boolean {
+    const word = beforeDot.split(' ').pop() ?? '';
+    const bare = word.replace(new RegExp(`^[${OPENING_QUOTES}(]+`), '');
+    // Single capitals are initials: J. R. R. Tolkien
+    return ABBREVIATIONS.has(bare.toLowerCase()) || /^[A-Z]$/.test(bare);
+  }
+}
@@ -1,6 +1,8 @@
 // Streak calculation utilities
+// All day comparisons use the device's local timezone, so a game finished at
+// 11pm counts for that evening rather than the next UTC day.
 
-import { format, isToday, isYesterday, parseISO, differenceInDays } from 'date-fns';
+import { addDays, differenceInCalendarDays, format, isSameDay, parseISO, startOfDay, subDays } from 'date-fns';
 
 export interface StreakData {
   current: number;
@@ -8,62 +10,90 @@ export interface StreakData {
   lastPlayedISO: string | null;
 }
 
+export interface StreakCalendarDay {
+  date: string;
+  played: boolean;
+  frozen: boolean; // a streak-freeze day that wasn't played
+  isToday: boolean;
+}
+
 export class StreakCalculator {
+  /**
+   * True when every day strictly between `from` and `to` is a freeze weekday
+   * (0 = Sunday ... 6 = Saturday), i.e. the gap doesn't break the streak
+   */
+  private static isGapFrozen(from: Date, to: Date, freezeDays: number[]): boolean {
+    const gap = differenceInCalendarDays(to, from) - 1;
+    for (let i = 1; i <= gap; i++) {
+      if (!freezeDays.includes(addDays(startOfDay(from), i).getDay())) return false;
+    }
+    return true;
+  }
+
   /**
    * Updates streak based on the last played date
    * Rules:
    * - If played today: maintain current streak
-   * - If played yesterday: continue streak
-   * - If gap > 1 day: reset streak to 1
+   * - If played yesterday, or every missed day is a freeze day: continue streak
+   * - Otherwise: reset streak to 1
    * - Update longest if current > longest
    */
-  static updateStreak(currentStreak: StreakData): StreakData {
-    const now = new Date();
+  static updateStreak(
+    currentStreak: StreakData,
+    options: { playedAt?: Date; freezeDays?: number[] } = {}
+  ): StreakData {
+    const playedAt = options.playedAt ?? new Date();
+    const freezeDays = options.freezeDays ?? [];
     
     if (!currentStreak.lastPlayedISO) {
       // First time playing
       return {
         current: 1,
         longest: Math.max(1, currentStreak.longest),
-        lastPlayedISO: now.toISOString()
+        lastPlayedISO: playedAt.toISOString()
       };
     }
 
     const lastPlayed = parseISO(currentStreak.lastPlayedISO);
     
-    if (isToday(lastPlayed)) {
-      // Already played today, don't change streak
+    if (isSameDay(lastPlayed, playedAt) || playedAt < lastPlayed) {
+      // Already played that day (or a late upload of an older game), don't change streak
       return currentStreak;
     }
     
-    let newCurrent: number;
-    
-    if (isYesterday(lastPlayed)) {
-      // Continue the streak
-      newCurrent = currentStreak.current + 1;
-    } else {
-      // Gap > 1 day, reset streak
-      newCurrent = 1;
-    }
+    const newCurrent = this.isGapFrozen(lastPlayed, playedAt, freezeDays)
+      ? currentStreak.current + 1
+      : 1;
     
     return {
       current: newCurrent,
       longest: Math.max(newCurrent, currentStreak.longest),
-      lastPlayedISO: now.toISOString()
+      lastPlayedISO: playedAt.toISOString()
     };
   }
 
+  /**
+   * The streak as it stands today: a stored streak whose last play is older
+   * than yesterday (ignoring freeze days) has lapsed and counts as 0
+   */
+  static getCurrentStreak(streak: StreakData, freezeDays: number[] = [], today = new Date()): number {
+    if (!streak.lastPlayedISO) return 0;
+    const lastPlayed = parseISO(streak.lastPlayedISO);
+    if (isSameDay(lastPlayed, today)) return streak.current;
+    return this.isGapFrozen(lastPlayed, today, freezeDays) ? streak.current : 0;
+  }
+
   /**
    * Get streak calendar data for display
-   * Returns array of dates with play status
+   * Returns array of dates with play status, oldest first
    */
-  static getStreakCalendar(gameResults: Array<{ endedAt: string }>, days = 30): Array<{
-    date: string;
-    played: boolean;
-    isToday: boolean;
-  }> {
+  static getStreakCalendar(
+    gameResults: Array<{ endedAt: string }>,
+    days = 30,
+    freezeDays: number[] = []
+  ): StreakCalendarDay[] {
     const today = new Date();
-    const calendar: Array<{ date: string; played: boolean; isToday: boolean }> = [];
+    const calendar: StreakCalendarDay[] = [];
     
     // Get unique play dates
     const playDates = new Set(
@@ -72,13 +102,14 @@ export class StreakCalculator {
     
     // Generate calendar for last N days
     for (let i = days - 1; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(today.getDate() - i);
+      const date = subDays(today, i);
       const dateString = format(date, 'yyyy-MM-dd');
+      const played = playDates.has(dateString);
       
       calendar.push({
         date: dateString,
-        played: playDates.has(dateString),
+        played,
+        frozen: !played && freezeDays.includes(date.getDay()),
         isToday: i === 0
       });
     }
@@ -91,6 +122,6 @@ export class StreakCalculator {
    */
   static hasPlayedToday(lastPlayedISO: string | null): boolean {
     if (!lastPlayedISO) return false;
-    return isToday(parseISO(lastPlayedISO));
+    return isSameDay(parseISO(lastPlayedISO), new Date());
   }
-}
\ No newline at end of file
+}
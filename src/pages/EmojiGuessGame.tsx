@@ -1,29 +1,37 @@
-import React, { useState, useEffect, useContext } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { useProgress } from "../contexts/ProgressContext";
 import { useAppContext } from "../contexts/Auth0Context";
-import { useParams } from "react-router-dom";
-import puzzles from "../config/emoji-guess.json";
-
-interface EmojiGuessPuzzle {
-  id: string;
-  difficulty: string;
-  emojis: string;
-  answer: string;
-  hint: string;
-}
+import { useSearchParams } from "react-router-dom";
+import { useGameContent } from "../hooks/use-game-content";
+import { AgeGroupFilter } from "../lib/ageGroups";
+import { GameRegistry } from "../games";
+import TypedAnswerRace from "../components/Multiplayer/TypedAnswerRace";
+import type { EmojiGuessPuzzle } from "../types";
 
 const EmojiGuessGame: React.FC = () => {
-  const { difficulty = "easy" } = useParams();
+  const [searchParams] = useSearchParams();
+  const { selectedChild } = useAppContext();
+  const roomCode = searchParams.get("room")?.toUpperCase() || null;
   const [current, setCurrent] = useState(0);
   const [input, setInput] = useState("");
   const [showHint, setShowHint] = useState(false);
   const [score, setScore] = useState(0);
   const { updateGameResult } = useProgress();
-  const { selectedChild } = useAppContext();
+  // The dashboard passes the recommended (or parent-pinned) level; anything else gets the age default
+  const requestedDifficulty = searchParams.get("difficulty");
+  const difficulty = requestedDifficulty && GameRegistry.get("emoji-guess")?.difficulties.includes(requestedDifficulty)
+    ? requestedDifficulty
+    : GameRegistry.getDefaultDifficulty("emoji-guess", selectedChild?.age_group) ?? "easy";
+  const startedAtRef = useRef(Date.now());
+  const recordedRef = useRef(false);
 
-  const filtered: EmojiGuessPuzzle[] = puzzles.filter(p => p.difficulty === difficulty);
+  const puzzles = useGameContent<EmojiGuessPuzzle[]>("emoji-guess");
+  const filtered: EmojiGuessPuzzle[] = AgeGroupFilter.filter(
+    (puzzles ?? []).filter(p => p.difficulty === difficulty),
+    selectedChild?.age_group
+  );
   const puzzle = filtered[current];
 
   useEffect(() => {
@@ -32,23 +40,56 @@ const EmojiGuessGame: React.FC = () => {
   }, [current]);
 
   const handleSubmit = () => {
-    if (input.trim().toLowerCase() === puzzle.answer.toLowerCase() && selectedChild) {
+    if (input.trim().toLowerCase() === puzzle.answer.toLowerCase()) {
       setScore(s => s + 1);
-      updateGameResult({
-        gameId: "emoji-guess",
-        profileId: selectedChild.id,
-        difficulty: difficulty,
-        correct: 1,
-        total: filtered.length,
-        starsEarned: 1,
-        endedAt: new Date().toISOString()
-      });
       setCurrent(c => c + 1);
     }
   };
 
+  // Record the finished game in the child's progress once
+  const finished = !!puzzles && filtered.length > 0 && !puzzle;
+  useEffect(() => {
+    if (!finished || !selectedChild || recordedRef.current) return;
+    recordedRef.current = true;
+    updateGameResult({
+      gameId: "emoji-guess",
+      profileId: selectedChild.id,
+      difficulty,
+      correct: score,
+      total: filtered.length,
+      starsEarned: GameRegistry.calculateStars("emoji-guess", score, filtered.length),
+      durationSeconds: Math.round((Date.now() - startedAtRef.current) / 1000),
+      endedAt: new Date().toISOString()
+    });
+  }, [finished, selectedChild, difficulty, score, filtered.length, updateGameResult]);
+
+  const handlePlayAgain = () => {
+    setCurrent(0);
+    setScore(0);
+    startedAtRef.current = Date.now();
+    recordedRef.current = false;
+  };
+
+  // Rooms race head-to-head on the shared multiplayer framework
+  if (roomCode) {
+    return (
+      <TypedAnswerRace
+        gameId="emoji-guess"
+        title="Emoji Guess"
+        roomCode={roomCode}
+        puzzles={puzzles}
+        renderPrompt={puzzle => <div style={{ fontSize: "2rem" }}>{puzzle.emojis}</div>}
+        placeholder="Guess the word or phrase"
+      />
+    );
+  }
+
+  if (!puzzles) {
+    return <Card><p>Loading...</p></Card>;
+  }
+
   if (!puzzle) {
-    return <Card><h2>Game Over!</h2><p>Your score: {score}</p><Button onClick={() => setCurrent(0)}>Play Again</Button></Card>;
+    return <Card><h2>Game Over!</h2><p>Your score: {score}</p><Button onClick={handlePlayAgain}>Play Again</Button></Card>;
   }
 
   return (
@@ -64,6 +105,7 @@ const EmojiGuessGame: React.FC = () => {
       />
       <Button onClick={handleSubmit}>Submit</Button>
       <Button onClick={() => setShowHint(h => !h)} style={{ marginLeft: 8 }}>Hint</Button>
+      <Button onClick={() => setCurrent(c => c + 1)} variant="outline" style={{ marginLeft: 8 }}>Skip</Button>
       {showHint && <div style={{ marginTop: 8, color: "#888" }}>{puzzle.hint}</div>}
       <div style={{ marginTop: 16 }}>Score: {score}</div>
     </Card>
@@ -4,7 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAppContext } from "@/contexts/Auth0Context";
-import gamesConfig from "@/config/games.config.json";
+import { useProgress } from "@/contexts/ProgressContext";
+import { useParentControls } from "@/hooks/use-parent-controls";
+import { GameRegistry } from "@/games";
+import { DifficultyAdvisor, DifficultyRecommendation } from "@/lib/difficulty";
 import GameRoomModal from "@/components/Multiplayer/GameRoomModal";
 import FriendsPanel from "@/components/Multiplayer/FriendsPanel";
 import { AppHeader } from "@/components/Navigation/AppHeader";
@@ -14,12 +17,35 @@ import { supabase } from "@/integrations/supabase/client";
 const GameDashboard = () => {
   const navigate = useNavigate();
   const { selectedChild, childrenProfiles, setSelectedChild } = useAppContext();
+  const { gameHistory } = useProgress();
+  const { controls } = useParentControls();
   const [selectedDifficulties, setSelectedDifficulties] = useState<Record<string, string>>({});
   const [showMultiplayerModal, setShowMultiplayerModal] = useState(false);
   const [selectedGame, setSelectedGame] = useState<{ id: string; difficulty: string } | null>(null);
   const [isFriendsPanelExpanded, setIsFriendsPanelExpanded] = useState(true);
   const [pendingInvites, setPendingInvites] = useState<string[] | null>(null);
   const [inviteCount, setInviteCount] = useState(0);
+  // Difficulties with content suited to the child's age group, per game (null until loaded)
+  const [suitableDifficulties, setSuitableDifficulties] = useState<Record<string, string[]> | null>(null);
+  const ageGroup = selectedChild?.age_group;
+
+  useEffect(() => {
+    let cancelled = false;
+    const games = GameRegistry.list({ enabledOnly: true });
+
+    Promise.all(games.map(game => GameRegistry.getSuitableDifficulties(game.id, ageGroup)))
+      .then(lists => {
+        if (!cancelled) setSuitableDifficulties(Object.fromEntries(games.map((game, i) => [game.id, lists[i]])));
+      })
+      .catch(error => {
+        console.error('Failed to load game content for age filtering:', error);
+        if (!cancelled) setSuitableDifficulties(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ageGroup]);
 
   useEffect(() => {
     // Subscribe to real-time join request updates
@@ -63,10 +89,59 @@ const GameDashboard = () => {
     }
   };
 
-  const enabledGames = gamesConfig.filter(game => game.enabled);
+  // Until content has loaded, offer every difficulty rather than an empty dashboard
+  const getDifficulties = (gameId: string) =>
+    suitableDifficulties?.[gameId] ?? GameRegistry.get(gameId)?.difficulties ?? [];
+
+  const enabledGames = GameRegistry.list({ enabledOnly: true })
+    .filter(game => getDifficulties(game.id).length > 0);
+  const adaptiveDifficulty = controls?.difficulty?.adaptive ?? true;
+
+  // Pinned levels always apply; otherwise suggest one from recent results when adaptive is on
+  const recommendations: Record<string, DifficultyRecommendation | null> = Object.fromEntries(
+    enabledGames.map(game => {
+      const pinned = controls?.difficulty?.pinned?.[game.id];
+      if (!pinned && !adaptiveDifficulty) return [game.id, null];
+      return [game.id, DifficultyAdvisor.recommend(game.id, gameHistory, {
+        difficulties: getDifficulties(game.id),
+        pinned,
+        fallback: GameRegistry.getDefaultDifficulty(game.id, ageGroup),
+        targetSecondsPerQuestion: game.adaptive?.targetSecondsPerQuestion
+      })];
+    })
+  );
+
+  const getDifficulty = (gameId: string) => {
+    const options = getDifficulties(gameId);
+    const recommendation = recommendations[gameId];
+    if (recommendation?.reason === 'pinned') return recommendation.difficulty;
+
+    // A choice made for another child may not suit this one
+    const selected = selectedDifficulties[gameId];
+    if (selected && options.includes(selected)) return selected;
+    if (recommendation) return recommendation.difficulty;
+
+    const fallback = GameRegistry.getDefaultDifficulty(gameId, ageGroup);
+    return options.includes(fallback) ? fallback : options[0] ?? 'easy';
+  };
+
+  const getDifficultyHint = (gameId: string) => {
+    const recommendation = recommendations[gameId];
+    if (!recommendation) return null;
+    switch (recommendation.reason) {
+      case 'pinned':
+        return 'Set by your parent';
+      case 'step_up':
+        return `Ready for a challenge? We recommend ${recommendation.difficulty}!`;
+      case 'step_down':
+        return `We recommend ${recommendation.difficulty} for now`;
+      default:
+        return `Recommended: ${recommendation.difficulty}`;
+    }
+  };
 
   const handlePlayGame = (gameId: string, multiplayer = false) => {
-    const difficulty = selectedDifficulties[gameId] || 'easy';
+    const difficulty = getDifficulty(gameId);
     
     if (multiplayer) {
       setSelectedGame({ id: gameId, difficulty });
@@ -87,8 +162,7 @@ const GameDashboard = () => {
     // If no game selected, default to the first enabled game
     if (!selectedGame) {
       const firstGame = enabledGames[0];
-      const difficulty = (firstGame && selectedDifficulties[firstGame.id]) || 'easy';
-      if (firstGame) setSelectedGame({ id: firstGame.id, difficulty });
+      if (firstGame) setSelectedGame({ id: firstGame.id, difficulty: getDifficulty(firstGame.id) });
     }
     setShowMultiplayerModal(true);
   };
@@ -138,22 +212,28 @@ const GameDashboard = () => {
                         Difficulty Level
                       </label>
                       <Select
-                        value={selectedDifficulties[game.id] || 'easy'}
+                        value={getDifficulty(game.id)}
                         onValueChange={(value) => 
                           setSelectedDifficulties(prev => ({ ...prev, [game.id]: value }))
                         }
+                        disabled={recommendations[game.id]?.reason === 'pinned'}
                       >
                         <SelectTrigger className="w-full">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {game.difficulties.map((difficulty) => (
+                          {getDifficulties(game.id).map((difficulty) => (
                             <SelectItem key={difficulty} value={difficulty}>
                               <span className="capitalize">{difficulty}</span>
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {getDifficultyHint(game.id) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {getDifficultyHint(game.id)}
+                        </p>
+                      )}
                     </div>
                     {/* Game Action Buttons */}
                     <div className="space-y-2">
@@ -195,22 +275,28 @@ const GameDashboard = () => {
                         Difficulty Level
                       </label>
                       <Select
-                        value={selectedDifficulties[game.id] || 'easy'}
+                        value={getDifficulty(game.id)}
                         onValueChange={(value) => 
                           setSelectedDifficulties(prev => ({ ...prev, [game.id]: value }))
                         }
+                        disabled={recommendations[game.id]?.reason === 'pinned'}
                       >
                         <SelectTrigger className="w-full">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {game.difficulties.map((difficulty) => (
+                          {getDifficulties(game.id).map((difficulty) => (
                             <SelectItem key={difficulty} value={difficulty}>
                               <span className="capitalize">{difficulty}</span>
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {getDifficultyHint(game.id) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {getDifficultyHint(game.id)}
+                        </p>
+                      )}
                     </div>
                     {/* Game Action Buttons */}
                     <div className="space-y-2">
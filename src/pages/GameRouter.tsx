@@ -1,25 +1,29 @@
+import { Suspense } from "react";
 import { useParams } from "react-router-dom";
-import RiddleGame from "./games/RiddleGame";
-import CrosswordGame from "./games/CrosswordGame";
-import WordScrambleGame from "../pages/WordScrambleGame";
-import EmojiGuessGame from "../pages/EmojiGuessGame";
+import { GameRegistry } from "@/games";
 import NotFound from "./NotFound";
 
 const GameRouter = () => {
   const { gameId } = useParams();
+  const game = gameId ? GameRegistry.get(gameId) : undefined;
 
-  switch (gameId) {
-    case 'riddle':
-      return <RiddleGame />;
-    case 'crossword':
-      return <CrosswordGame />;
-    case 'word-scramble':
-      return <WordScrambleGame />;
-    case 'emoji-guess':
-      return <EmojiGuessGame />;
-    default:
-      return <NotFound />;
+  if (!game || !game.enabled) {
+    return <NotFound />;
   }
+
+  const GameComponent = game.component;
+
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="text-2xl font-fredoka">Loading... 🎮</div>
+        </div>
+      }
+    >
+      <GameComponent />
+    </Suspense>
+  );
 };
 
 export default GameRouter;
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAppContext } from '@/contexts/Auth0Context';
-import { Star, Gamepad2, BookOpen, User } from 'lucide-react';
+import { Star, Gamepad2, BookOpen, User, Shield } from 'lucide-react';
 import { AppHeader } from '@/components/Navigation/AppHeader';
 
 const ModeSelector = () => {
@@ -43,6 +43,15 @@ const ModeSelector = () => {
             >
               <User className="w-5 h-5" />
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => navigate('/parent')}
+              className="rounded-full"
+              aria-label="Parent dashboard"
+            >
+              <Shield className="w-5 h-5" />
+            </Button>
           </div>
         </div>
 
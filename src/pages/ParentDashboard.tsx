@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { AppHeader } from '@/components/Navigation/AppHeader';
+import ParentPinGate from '@/components/ParentPinGate';
+import WeeklyReport from '@/components/Parent/WeeklyReport';
+import ChildStories from '@/components/Parent/ChildStories';
+import { useAppAuth, useAppContext } from '@/contexts/Auth0Context';
+import { ParentReportService } from '@/services/ParentReportService';
+import { ReportExporter } from '@/lib/reports';
+import { GameRegistry } from '@/games';
+import { ChildActivityReport } from '@/types';
+import { Download, FileText } from 'lucide-react';
+
+const REPORT_WEEKS = 4;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const gameTitle = (gameId: string) => GameRegistry.get(gameId)?.title ?? gameId;
+
+const StatCard = ({ icon, label, value }: { icon: string; label: string; value: string | number }) => (
+  <Card className="bg-white/90 shadow-soft">
+    <CardContent className="pt-6 text-center">
+      <div className="text-3xl mb-1">{icon}</div>
+      <div className="text-2xl font-bold text-primary">{value}</div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+    </CardContent>
+  </Card>
+);
+
+const ChildReport = ({ child }: { child: { id: string; name: string; streak_freeze_days?: number[] } }) => {
+  const { user } = useAppAuth();
+  const [report, setReport] = useState<ChildActivityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [reportWeek, setReportWeek] = useState<string | null>(null);
+  const { id: childId, name: childName } = child;
+
+  useEffect(() => {
+    if (!user?.sub) return;
+
+    let cancelled = false;
+    setError(null);
+    ParentReportService.getReport(user.sub, { id: childId, name: childName }, REPORT_WEEKS)
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(err => {
+        console.error('Error loading parent report:', err);
+        if (!cancelled) setError('Could not load this report.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.sub, childId, childName, reloadKey]);
+
+  if (error) {
+    return (
+      <Card className="shadow-soft">
+        <CardContent className="py-8 text-center space-y-3">
+          <p className="text-muted-foreground">{error}</p>
+          <Button variant="outline" onClick={() => setReloadKey(key => key + 1)}>Try again</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!report) {
+    return <p className="text-center text-muted-foreground py-8">Loading report...</p>;
+  }
+
+  if (reportWeek) {
+    return (
+      <WeeklyReport
+        report={ParentReportService.getWeekReport(report, reportWeek)}
+        freezeDays={child.streak_freeze_days}
+        onBack={() => setReportWeek(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Since {format(parseISO(report.since), 'MMM d, yyyy')}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => ReportExporter.downloadCsv(report, gameTitle)}
+          className="flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Download CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <StatCard icon="⏱️" label="Time played" value={formatMinutes(report.minutesPlayed)} />
+        <StatCard icon="🎮" label="Games played" value={report.gamesPlayed} />
+        <StatCard icon="🧠" label="Riddle accuracy" value={formatPercent(report.riddleAccuracy)} />
+        <StatCard icon="⭐" label="Stars earned" value={report.starsEarned} />
+        <StatCard icon="✍️" label="Stories created" value={report.stories.length} />
+        <StatCard icon="📖" label="Stories read" value={report.storiesRead.length} />
+        <StatCard icon="🤝" label="Friends added" value={report.friendsAdded} />
+        <StatCard icon="🏠" label="Rooms joined" value={report.roomsJoined} />
+        <StatCard icon="🔥" label="Longest streak" value={`${report.progress?.streak.longest ?? 0} days`} />
+      </div>
+
+      <Card className="shadow-soft">
+        <CardHeader>
+          <CardTitle className="font-fredoka">Weekly Summary</CardTitle>
+          <CardDescription>Weeks start on Monday</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Week of</TableHead>
+                <TableHead className="text-right">Games</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+                <TableHead className="text-right">Stars</TableHead>
+                <TableHead className="text-right">Stories made</TableHead>
+                <TableHead className="text-right">Stories read</TableHead>
+                <TableHead className="text-right">Friends</TableHead>
+                <TableHead className="text-right">Rooms</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.weekly.map(week => (
+                <TableRow key={week.weekStart}>
+                  <TableCell>{format(parseISO(week.weekStart), 'MMM d')}</TableCell>
+                  <TableCell className="text-right">{week.gamesPlayed}</TableCell>
+                  <TableCell className="text-right">{formatMinutes(week.minutesPlayed)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(week.accuracy)}</TableCell>
+                  <TableCell className="text-right">{week.starsEarned}</TableCell>
+                  <TableCell className="text-right">{week.storiesCreated}</TableCell>
+                  <TableCell className="text-right">{week.storiesRead}</TableCell>
+                  <TableCell className="text-right">{week.friendsAdded}</TableCell>
+                  <TableCell className="text-right">{week.roomsJoined}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReportWeek(week.weekStart)}
+                      className="flex items-center gap-1"
+                    >
+                      <FileText className="w-4 h-4" />
+                      Report
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-soft">
+        <CardHeader>
+          <CardTitle className="font-fredoka">Games and Difficulty</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.byGame.length === 0 ? (
+            <p className="text-muted-foreground text-center">No games played in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Game</TableHead>
+                  <TableHead>Difficulty</TableHead>
+                  <TableHead className="text-right">Plays</TableHead>
+                  <TableHead className="text-right">Correct</TableHead>
+                  <TableHead className="text-right">Accuracy</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.byGame.map(row => (
+                  <TableRow key={`${row.gameId}-${row.difficulty}`}>
+                    <TableCell>{gameTitle(row.gameId)}</TableCell>
+                    <TableCell className="capitalize">{row.difficulty}</TableCell>
+                    <TableCell className="text-right">{row.plays}</TableCell>
+                    <TableCell className="text-right">{row.correct}/{row.total}</TableCell>
+                    <TableCell className="text-right">{formatPercent(row.accuracy)}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(row.minutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {user?.sub && <ChildStories auth0UserId={user.sub} childId={childId} />}
+    </div>
+  );
+};
+
+const ParentDashboard = () => {
+  const { childrenProfiles, selectedChild } = useAppContext();
+
+  return (
+    <ParentPinGate>
+      <div className="min-h-screen bg-gradient-to-br from-primary/20 to-secondary/20 print:bg-none print:bg-white">
+        <div className="print:hidden">
+          <AppHeader title="Parent Dashboard" />
+        </div>
+
+        <div className="container mx-auto px-4 py-6 max-w-5xl">
+          {childrenProfiles.length === 0 ? (
+            <p className="text-center text-muted-foreground">Add a child profile to see activity reports.</p>
+          ) : (
+            <Tabs defaultValue={selectedChild?.id ?? childrenProfiles[0].id}>
+              <TabsList className="mb-6 flex-wrap h-auto print:hidden">
+                {childrenProfiles.map(child => (
+                  <TabsTrigger key={child.id} value={child.id} className="font-fredoka">
+                    <span className="mr-2">{child.avatar || '👤'}</span>
+                    {child.name}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {childrenProfiles.map(child => (
+                <TabsContent key={child.id} value={child.id}>
+                  <ChildReport child={child} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </div>
+      </div>
+    </ParentPinGate>
+  );
+};
+
+export default ParentDashboard;
@@ -1,18 +1,32 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAppAuth, useAppContext } from '@/contexts/Auth0Context';
-import { Shield, Clock, Moon, ArrowRight } from 'lucide-react';
+import { useParentControls } from '@/hooks/use-parent-controls';
+import { ParentControlService } from '@/services/ParentControlService';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Shield, Clock, Moon, ArrowRight, Snowflake, KeyRound, Gauge } from 'lucide-react';
 import { AppHeader } from '@/components/Navigation/AppHeader';
+import { GameRegistry } from '@/games';
+import type { AISkillSetting } from '@/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Select value for "no pinned difficulty"
+const NOT_PINNED = 'auto';
 
 const ParentSetup = () => {
   const { user } = useAppAuth();
-  const { parentProfile, selectedChild } = useAppContext();
+  const { parentProfile, selectedChild, setSelectedChild, refreshProfiles } = useAppContext();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const { controls, hasPin, saveControls, setPin } = useParentControls();
   
   // Parent Profile State
   const [parentName, setParentName] = useState(parentProfile?.name || user?.name || '');
@@ -29,10 +43,109 @@ const ParentSetup = () => {
   const [bedTime, setBedTime] = useState('21:00');
   const [warningMinutes, setWarningMinutes] = useState(15);
 
-  const handleSave = () => {
-    // For now, we'll just navigate to modes since the parent profile
-    // is already created in the database via Auth0Context
-    // In a future version, we could store the control settings in the database
+  // Game Difficulty
+  const [adaptiveDifficulty, setAdaptiveDifficulty] = useState(true);
+  const [difficultyPins, setDifficultyPins] = useState<Record<string, string>>({});
+  const [aiSkill, setAiSkill] = useState<AISkillSetting>('auto');
+
+  // Parent PIN
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+
+  // Streak Freeze Days
+  const [streakFreezeDays, setStreakFreezeDays] = useState<number[]>(selectedChild?.streak_freeze_days ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleFreezeDay = (day: number) => {
+    setStreakFreezeDays(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  // Show the saved settings once they've loaded
+  useEffect(() => {
+    if (!controls) return;
+    setScreenTimeEnabled(controls.screenTime.enabled);
+    setDailyLimitMinutes(controls.screenTime.dailyLimitMinutes);
+    setStartTime(controls.screenTime.startTime);
+    setEndTime(controls.screenTime.endTime);
+    setBedTimeEnabled(controls.bedTime.enabled);
+    setBedTime(controls.bedTime.time);
+    setWarningMinutes(controls.bedTime.warningMinutes);
+    // Controls cached before difficulty settings existed won't have them
+    setAdaptiveDifficulty(controls.difficulty?.adaptive ?? true);
+    setDifficultyPins(controls.difficulty?.pinned ?? {});
+    setAiSkill(controls.aiOpponent?.skill ?? 'auto');
+  }, [controls]);
+
+  const setDifficultyPin = (gameId: string, value: string) => {
+    setDifficultyPins(prev => {
+      const { [gameId]: _previous, ...rest } = prev;
+      return value === NOT_PINNED ? rest : { ...rest, [gameId]: value };
+    });
+  };
+
+  const showError = (description: string) => {
+    toast({ title: "Couldn't save settings", description, variant: 'destructive' });
+  };
+
+  const handleSave = async () => {
+    if (newPin && !/^\d{4,8}$/.test(newPin)) {
+      showError('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (newPin !== confirmPin) {
+      showError("The PINs don't match.");
+      return;
+    }
+    if (hasPin && !currentPin) {
+      showError('Please enter your current parent PIN to save changes.');
+      return;
+    }
+    if ((screenTimeEnabled || bedTimeEnabled) && !hasPin && !newPin) {
+      showError('Please create a parent PIN so you can unlock the app when needed.');
+      return;
+    }
+
+    if (selectedChild && user?.sub) {
+      setIsSaving(true);
+      try {
+        if (newPin) {
+          await setPin(newPin, hasPin ? currentPin : undefined);
+        }
+
+        await saveControls({
+          ...(controls ?? ParentControlService.createDefault(selectedChild.id, user.sub)),
+          screenTime: { enabled: screenTimeEnabled, dailyLimitMinutes, startTime, endTime },
+          bedTime: { enabled: bedTimeEnabled, time: bedTime, warningMinutes },
+          difficulty: { adaptive: adaptiveDifficulty, pinned: difficultyPins },
+          aiOpponent: { skill: aiSkill }
+        }, newPin || currentPin || undefined);
+
+        const { data, error } = await supabase.functions.invoke('manage-profiles', {
+          body: {
+            action: 'update_child',
+            auth0_user_id: user.sub,
+            profile_data: { child_id: selectedChild.id, streak_freeze_days: streakFreezeDays }
+          }
+        });
+
+        if (error) throw error;
+
+        await refreshProfiles();
+        if (data?.data) setSelectedChild(data.data);
+      } catch (error) {
+        console.error('Error saving parent controls:', error);
+        showError(hasPin
+          ? 'Check your current PIN and your connection, then try again.'
+          : 'Please check your connection and try again.');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
     navigate('/modes');
   };
 
@@ -191,6 +304,160 @@ const ParentSetup = () => {
             </CardContent>
           </Card>
 
+          {/* Parent PIN */}
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="font-fredoka flex items-center gap-2">
+                <KeyRound className="w-5 h-5" />
+                Parent PIN
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {hasPin
+                  ? 'Enter your current PIN to save changes. Fill in a new PIN only to change it.'
+                  : 'Used to unlock the app and to change these settings later'}
+              </p>
+              {hasPin && (
+                <div className="space-y-2">
+                  <Label className="font-comic font-bold">Current PIN</Label>
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={currentPin}
+                    onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                    className="h-12 text-lg font-comic rounded-xl"
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="font-comic font-bold">New PIN</Label>
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                    placeholder="4-8 digits"
+                    maxLength={8}
+                    className="h-12 text-lg font-comic rounded-xl"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="font-comic font-bold">Confirm PIN</Label>
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={confirmPin}
+                    onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                    className="h-12 text-lg font-comic rounded-xl"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Game Difficulty */}
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="font-fredoka flex items-center gap-2">
+                <Gauge className="w-5 h-5" />
+                Game Difficulty
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="font-comic font-bold">Adaptive Difficulty</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Suggest easier or harder games based on how {selectedChild?.name} is doing
+                  </p>
+                </div>
+                <Switch
+                  checked={adaptiveDifficulty}
+                  onCheckedChange={setAdaptiveDifficulty}
+                />
+              </div>
+
+              {GameRegistry.list({ enabledOnly: true }).map(game => (
+                <div key={game.id} className="flex items-center justify-between gap-4">
+                  <Label className="font-comic font-bold">{game.title}</Label>
+                  <Select
+                    value={difficultyPins[game.id] ?? NOT_PINNED}
+                    onValueChange={(value) => setDifficultyPin(game.id, value)}
+                  >
+                    <SelectTrigger className="w-40 capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_PINNED}>
+                        {adaptiveDifficulty ? 'Adaptive' : 'Let child choose'}
+                      </SelectItem>
+                      {game.difficulties.map(level => (
+                        <SelectItem key={level} value={level} className="capitalize">
+                          {level}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label className="font-comic font-bold">AI Friend Toughness</Label>
+                  <p className="text-sm text-muted-foreground">
+                    How quick and sharp AI friends are when {selectedChild?.name} plays against them
+                  </p>
+                </div>
+                <Select value={aiSkill} onValueChange={(value) => setAiSkill(value as AISkillSetting)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Match the game</SelectItem>
+                    <SelectItem value="easy">Gentle</SelectItem>
+                    <SelectItem value="medium">Fair</SelectItem>
+                    <SelectItem value="hard">Tough</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Streak Freeze Days */}
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="font-fredoka flex items-center gap-2">
+                <Snowflake className="w-5 h-5" />
+                Streak Freeze Days
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Skipping a game on these days won't reset {selectedChild?.name}'s play streak
+              </p>
+              <div className="grid grid-cols-7 gap-2">
+                {WEEKDAYS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant={streakFreezeDays.includes(day) ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => toggleFreezeDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Action Buttons */}
           <div className="flex gap-4">
             <Button 
@@ -206,8 +473,9 @@ const ParentSetup = () => {
               size="lg"
               className="flex-1"
               onClick={handleSave}
+              disabled={isSaving}
             >
-              Save & Continue
+              {isSaving ? 'Saving...' : 'Save & Continue'}
               <ArrowRight className="w-4 h-4 ml-2" />
             </Button>
           </div>
@@ -5,74 +5,21 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useAppContext } from "@/contexts/Auth0Context";
 import { useProgress } from "@/contexts/ProgressContext";
-import { format, subDays, startOfDay, isSameDay } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { AppHeader } from "@/components/Navigation/AppHeader";
+import { StreakCalculator } from "@/lib/streak";
+import GameTrends from "@/components/Progress/GameTrends";
 
 const ProgressRewards = () => {
   const navigate = useNavigate();
   const { selectedChild } = useAppContext();
-  const { progress } = useProgress();
+  const { progress, gameHistory, getBadgeProgress } = useProgress();
 
-  // Generate calendar for current month (simplified)
-  const generateStreakCalendar = () => {
-    const today = new Date();
-    const days = [];
-    
-    for (let i = 29; i >= 0; i--) {
-      const date = subDays(today, i);
-      const wasPlayedToday = progress?.streak.lastPlayedISO && 
-        isSameDay(new Date(progress.streak.lastPlayedISO), date);
-      
-      days.push({
-        date,
-        played: wasPlayedToday || (i > 7 && Math.random() > 0.7), // Mock some previous days
-        isToday: isSameDay(date, today)
-      });
-    }
-    
-    return days;
-  };
+  const freezeDays = selectedChild?.streak_freeze_days ?? [];
+  const streakDays = StreakCalculator.getStreakCalendar(gameHistory, 30, freezeDays);
+  const currentStreak = progress ? StreakCalculator.getCurrentStreak(progress.streak, freezeDays) : 0;
 
-  const streakDays = generateStreakCalendar();
-
-  const badges = [
-    {
-      id: "riddle-master",
-      name: "Riddle Master",
-      description: "Solve 20 riddles correctly",
-      icon: "🧩",
-      unlocked: (progress?.perGame.riddle?.correct || 0) >= 20,
-      progress: Math.min((progress?.perGame.riddle?.correct || 0), 20),
-      target: 20
-    },
-    {
-      id: "word-wizard",
-      name: "Word Wizard",
-      description: "Complete word challenges",
-      icon: "✨",
-      unlocked: false,
-      progress: 0,
-      target: 15
-    },
-    {
-      id: "story-explorer",
-      name: "Story Explorer",
-      description: "Read 5 complete stories",
-      icon: "📚",
-      unlocked: false,
-      progress: 2,
-      target: 5
-    },
-    {
-      id: "streak-champion",
-      name: "Streak Champion",
-      description: "Play 7 days in a row",
-      icon: "🔥",
-      unlocked: (progress?.streak.current || 0) >= 7,
-      progress: progress?.streak.current || 0,
-      target: 7
-    }
-  ];
+  const badges = getBadgeProgress();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-accent/20 via-primary/20 to-secondary/20 p-4">
@@ -107,7 +54,7 @@ const ProgressRewards = () => {
             </CardHeader>
             <CardContent className="text-center">
               <div className="text-4xl font-bold text-primary mb-2">
-                {progress?.streak.current || 0} days
+                {currentStreak} days
               </div>
               <p className="text-sm text-muted-foreground">
                 Longest: {progress?.streak.longest || 0} days
@@ -142,28 +89,33 @@ const ProgressRewards = () => {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-10 gap-2 max-w-2xl mx-auto">
-              {streakDays.map((day, index) => (
+              {streakDays.map((day) => (
                 <div
-                  key={index}
+                  key={day.date}
                   className={`aspect-square rounded-lg flex items-center justify-center text-xs font-medium ${
                     day.played 
                       ? 'bg-primary text-white' 
-                      : 'bg-muted text-muted-foreground'
+                      : day.frozen
+                        ? 'bg-sky-100 text-sky-600'
+                        : 'bg-muted text-muted-foreground'
                   } ${
                     day.isToday ? 'ring-2 ring-primary ring-offset-2' : ''
                   }`}
-                  title={format(day.date, 'MMM d')}
+                  title={`${format(parseISO(day.date), 'MMM d')}${day.frozen ? ' (streak freeze)' : ''}`}
                 >
-                  {format(day.date, 'd')}
+                  {day.frozen ? '❄️' : format(parseISO(day.date), 'd')}
                 </div>
               ))}
             </div>
             <p className="text-center text-sm text-muted-foreground mt-4">
-              Green = Played that day • Today is highlighted
+              Green = Played that day • ❄️ = Streak freeze day • Today is highlighted
             </p>
           </CardContent>
         </Card>
 
+        {/* Per-game trends */}
+        <GameTrends />
+
         {/* Badges Gallery */}
         <Card className="bg-white/90 shadow-lg mb-8">
           <CardHeader>
@@ -176,11 +128,11 @@ const ProgressRewards = () => {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {badges.map((badge) => (
+              {badges.map(({ badge, unlocked, current, target, percent }) => (
                 <div
                   key={badge.id}
                   className={`p-4 rounded-lg border-2 transition-all ${
-                    badge.unlocked
+                    unlocked
                       ? 'bg-primary/10 border-primary/30 text-primary'
                       : 'bg-muted/50 border-muted text-muted-foreground'
                   }`}
@@ -188,10 +140,10 @@ const ProgressRewards = () => {
                   <div className="flex items-center gap-3 mb-2">
                     <span className="text-2xl">{badge.icon}</span>
                     <div className="flex-1">
-                      <h3 className="font-semibold">{badge.name}</h3>
+                      <h3 className="font-semibold">{badge.title}</h3>
                       <p className="text-sm opacity-80">{badge.description}</p>
                     </div>
-                    {badge.unlocked && (
+                    {unlocked && (
                       <Badge variant="secondary" className="bg-primary text-white">
                         Unlocked!
                       </Badge>
@@ -200,10 +152,10 @@ const ProgressRewards = () => {
                   <div className="space-y-1">
                     <div className="flex justify-between text-sm">
                       <span>Progress</span>
-                      <span>{badge.progress}/{badge.target}</span>
+                      <span>{current}/{target}</span>
                     </div>
                     <Progress 
-                      value={(badge.progress / badge.target) * 100} 
+                      value={percent} 
                       className="h-2"
                     />
                   </div>
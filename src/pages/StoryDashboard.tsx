@@ -4,59 +4,60 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { useAppContext } from "@/contexts/Auth0Context";
-import { useState, useRef } from "react";
+import { useAppAuth, useAppContext } from "@/contexts/Auth0Context";
+import { useState, useRef, useEffect } from "react";
 import { useToast } from "@/components/ui/use-toast";
 import { VoiceSelectionPanel } from "@/components/VoiceClone/VoiceSelectionPanel";
+import MyStoriesShelf from "@/components/Stories/MyStoriesShelf";
 import { AppHeader } from "@/components/Navigation/AppHeader";
+import { AgeGroupFilter } from "@/lib/ageGroups";
+import { StoryEngine } from "@/lib/storyEngine";
+import { StoryLibrary } from "@/lib/storyLibrary";
+import { StorageService } from "@/lib/storage";
+import { StoryProgressService } from "@/services/StoryProgressService";
+import { StoryService } from "@/services/StoryService";
+import { useStoryProgress } from "@/hooks/use-story-progress";
+import type { InteractiveStory, NarrationVoice } from "@/types";
 
 const StoryDashboard = () => {
   const navigate = useNavigate();
   const { selectedChild } = useAppContext();
+  const { user } = useAppAuth();
   const { toast } = useToast();
   const [isRecording, setIsRecording] = useState(false);
   const [storyText, setStoryText] = useState("");
+  const [storyTitle, setStoryTitle] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isVoicePanelExpanded, setIsVoicePanelExpanded] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<{ id: string; name: string; type: "default" | "cloned" } | undefined>();
+  // Remembered so the story viewer narrates in the same voice
+  const [selectedVoice, setSelectedVoice] = useState<NarrationVoice | undefined>(
+    () => StorageService.getItem<NarrationVoice>('NARRATION_VOICE') ?? undefined
+  );
   const [newVoiceName, setNewVoiceName] = useState("");
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [stories, setStories] = useState<InteractiveStory[] | null>(null);
+  const { stories: readingProgress } = useStoryProgress(selectedChild?.id ?? null);
+
+  useEffect(() => {
+    StoryLibrary.load()
+      .then(setStories)
+      .catch(error => {
+        console.error('Failed to load stories:', error);
+        setStories([]);
+      });
+  }, []);
 
-  const handleVoiceSelect = (voice: { id: string; name: string; type: "default" | "cloned" }) => {
-    setSelectedVoice(voice);
+  const handleVoiceSelect = (voice: NarrationVoice) => {
+    const { id, name, type } = voice;
+    setSelectedVoice({ id, name, type });
+    StorageService.setItem('NARRATION_VOICE', { id, name, type });
     toast({
       title: "Voice Selected",
       description: `Now using ${voice.name} for story narration`
     });
   };
 
-  const stories = [
-    {
-      id: "adventure-forest",
-      title: "The Magical Forest",
-      description: "Join Luna on her adventure through an enchanted forest",
-      icon: "🌲",
-      chapters: 5,
-      completed: false
-    },
-    {
-      id: "space-explorer",
-      title: "Space Explorer",
-      description: "Travel to distant planets and meet alien friends",
-      icon: "🚀",
-      chapters: 4,
-      completed: false
-    },
-    {
-      id: "underwater-kingdom",
-      title: "Underwater Kingdom",
-      description: "Dive deep and discover the secrets of the ocean",
-      icon: "🐠",
-      chapters: 6,
-      completed: false
-    }
-  ];
-
   const startVoiceRecording = () => {
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
       toast({
@@ -121,7 +122,7 @@ const StoryDashboard = () => {
     setIsListening(false);
   };
 
-  const generateStory = () => {
+  const generateStory = async () => {
     if (!storyText.trim()) {
       toast({
         title: "No Story",
@@ -131,8 +132,32 @@ const StoryDashboard = () => {
       return;
     }
 
-    // Navigate to story viewer with the story text
-    navigate('/story-viewer', { state: { storyText: storyText.trim() } });
+    if (!user?.sub || !selectedChild) {
+      navigate('/story-viewer', { state: { storyText: storyText.trim() } });
+      return;
+    }
+
+    // Save it to the child's shelf first, so the viewer can reload it and it can be read again later
+    setIsSaving(true);
+    try {
+      const saved = await StoryService.save(user.sub, selectedChild.id, {
+        title: storyTitle.trim() || StoryService.suggestTitle(storyText),
+        content: storyText.trim()
+      });
+      setStoryText("");
+      setStoryTitle("");
+      navigate(`/story-viewer?saved=${saved.id}`);
+    } catch (error) {
+      console.error('Failed to save story:', error);
+      toast({
+        title: "Couldn't save your story",
+        description: "You can still read it now, but it won't be on your shelf",
+        variant: "destructive"
+      });
+      navigate('/story-viewer', { state: { storyText: storyText.trim() } });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -220,6 +245,14 @@ const StoryDashboard = () => {
               </div>
             )}
 
+            <Input
+              placeholder="Give your story a title (optional)"
+              value={storyTitle}
+              onChange={(e) => setStoryTitle(e.target.value)}
+              maxLength={120}
+              className="text-base border-2 border-primary/20 focus:border-primary/40 bg-white/90"
+            />
+
             <Textarea
               placeholder="Your story will appear here as you speak, or you can type directly..."
               value={storyText}
@@ -229,7 +262,10 @@ const StoryDashboard = () => {
 
             <div className="flex gap-3 justify-center">
               <Button
-                onClick={() => setStoryText("")}
+                onClick={() => {
+                  setStoryText("");
+                  setStoryTitle("");
+                }}
                 variant="outline"
                 className="text-muted-foreground hover:bg-destructive/10 hover:text-destructive border-2"
               >
@@ -237,16 +273,20 @@ const StoryDashboard = () => {
               </Button>
               <Button
                 onClick={generateStory}
-                disabled={!storyText.trim()}
+                disabled={!storyText.trim() || isSaving}
                 className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-white shadow-lg transform hover:scale-105 transition-all duration-200"
                 size="lg"
               >
-                ✨ Generate Story
+                {isSaving ? 'Saving... 💾' : '✨ Generate Story'}
               </Button>
             </div>
           </CardContent>
         </Card>
 
+        {user?.sub && selectedChild && (
+          <MyStoriesShelf auth0UserId={user.sub} childId={selectedChild.id} />
+        )}
+
         {/* Pre-made Stories Section */}
         <div className="mb-6">
           <h2 className="text-3xl font-fredoka font-bold text-primary text-center mb-8 flex items-center justify-center gap-3">
@@ -254,34 +294,74 @@ const StoryDashboard = () => {
           </h2>
         </div>
 
+        {!stories && (
+          <p className="text-center text-muted-foreground">Loading stories... 📚</p>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {stories.map((story) => (
-            <Card key={story.id} className="bg-gradient-to-br from-white/95 to-secondary/10 shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 border-2 border-secondary/20 hover:border-secondary/40">
-              <CardHeader className="text-center pb-4">
-                <div className="text-6xl mb-4 drop-shadow-lg">{story.icon}</div>
-                <CardTitle className="text-2xl font-fredoka text-primary mb-2">
-                  {story.title}
-                </CardTitle>
-                <CardDescription className="text-muted-foreground text-base leading-relaxed">
-                  {story.description}
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="text-center p-3 bg-gradient-to-r from-accent/20 to-primary/20 rounded-lg border border-primary/20">
-                  <p className="text-sm font-medium text-primary">
-                    {story.chapters} chapters • {story.completed ? 'Completed ✅' : 'New Adventure 🌟'}
+          {AgeGroupFilter.filter(stories ?? [], selectedChild?.age_group).map((story) => {
+            const entry = StoryLibrary.toCatalogEntry(story);
+            const progress = readingProgress[story.id];
+            const completed = !!progress?.completedAt;
+            const resumePath = StoryProgressService.getResumePath(progress, story);
+            const lastChapter = resumePath ? StoryEngine.current(story, resumePath) : undefined;
+
+            let status = 'New Adventure 🌟';
+            if (lastChapter) status = `Chapter ${resumePath.segmentIds.length}: ${lastChapter.title}`;
+            else if (completed) status = `Completed ✅ • ${progress.endingsFound.length}/${entry.endings} endings`;
+
+            return (
+              <Card key={story.id} className="overflow-hidden bg-gradient-to-br from-white/95 to-secondary/10 shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 border-2 border-secondary/20 hover:border-secondary/40">
+                {entry.coverImageUrl && (
+                  <img src={entry.coverImageUrl} alt={entry.title} className="w-full h-36 object-cover" />
+                )}
+                <CardHeader className="text-center pb-4">
+                  <div className="text-5xl mb-2 drop-shadow-lg">{entry.icon}</div>
+                  <CardTitle className="text-2xl font-fredoka text-primary mb-2">
+                    {entry.title}
+                  </CardTitle>
+                  <CardDescription className="text-muted-foreground text-base leading-relaxed">
+                    {entry.description}
+                  </CardDescription>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.ages && `Ages ${entry.ages.min}-${entry.ages.max} • `}
+                    {entry.chapters} chapters • {entry.readingMinutes} min read • {entry.endings} endings
                   </p>
-                </div>
-                <Button 
-                  onClick={() => navigate('/story-viewer', { state: { storyId: story.id } })}
-                  className="w-full bg-gradient-to-r from-secondary to-secondary/90 hover:from-secondary/90 hover:to-secondary text-white shadow-lg transform hover:scale-105 transition-all duration-200"
-                  size="lg"
-                >
-                  {story.completed ? 'Read Again' : 'Start Reading'} 📖
-                </Button>
-              </CardContent>
-            </Card>
-          ))}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="text-center p-3 bg-gradient-to-r from-accent/20 to-primary/20 rounded-lg border border-primary/20">
+                    <p className="text-sm font-medium text-primary">{status}</p>
+                  </div>
+                  {resumePath ? (
+                    <div className="space-y-2">
+                      <Button
+                        onClick={() => navigate('/story-viewer', { state: { storyId: story.id, resume: true } })}
+                        className="w-full bg-gradient-to-r from-secondary to-secondary/90 hover:from-secondary/90 hover:to-secondary text-white shadow-lg transform hover:scale-105 transition-all duration-200"
+                        size="lg"
+                      >
+                        Continue Reading 📖
+                      </Button>
+                      <Button
+                        onClick={() => navigate('/story-viewer', { state: { storyId: story.id } })}
+                        variant="outline"
+                        className="w-full"
+                      >
+                        Start Over
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      onClick={() => navigate('/story-viewer', { state: { storyId: story.id } })}
+                      className="w-full bg-gradient-to-r from-secondary to-secondary/90 hover:from-secondary/90 hover:to-secondary text-white shadow-lg transform hover:scale-105 transition-all duration-200"
+                      size="lg"
+                    >
+                      {completed ? 'Read Again' : 'Start Reading'} 📖
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
          </div>
        </div>
       </div>
@@ -1,11 +1,22 @@
-import { useLocation, useNavigate } from "react-router-dom";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { useAppContext } from "@/contexts/Auth0Context";
-import { useState, useEffect } from "react";
+import { useAppAuth, useAppContext } from "@/contexts/Auth0Context";
+import { useState, useEffect, useMemo } from "react";
 import { useToast } from "@/components/ui/use-toast";
 import { AppHeader } from "@/components/Navigation/AppHeader";
+import NarrationControls, { NarrationSettings } from "@/components/Stories/NarrationControls";
+import { StoryEngine } from "@/lib/storyEngine";
+import { StoryLibrary } from "@/lib/storyLibrary";
+import { StoryPaginator } from "@/lib/storyPaginator";
+import { StorageService } from "@/lib/storage";
+import { StoryProgressService } from "@/services/StoryProgressService";
+import { StoryService } from "@/services/StoryService";
+import { useStoryProgress } from "@/hooks/use-story-progress";
+import { useNarration } from "@/hooks/use-narration";
+import type { InteractiveStory, NarrationVoice, StoryPath } from "@/types";
 
+// A flat page of a story typed or recorded by the child
 interface StorySegment {
   text: string;
   image?: string;
@@ -15,136 +26,327 @@ const StoryViewer = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { selectedChild } = useAppContext();
+  const { user } = useAppAuth();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
   const [currentSegment, setCurrentSegment] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [storySegments, setStorySegments] = useState<StorySegment[]>([]);
   const [isGeneratingImages, setIsGeneratingImages] = useState(false);
+  // Ready-made stories branch: the child picks what happens next
+  const [story, setStory] = useState<InteractiveStory | null>(null);
+  const [path, setPath] = useState<StoryPath | null>(null);
+  const [storyError, setStoryError] = useState(false);
+  const [savedTitle, setSavedTitle] = useState<string | null>(null);
+  const { stories: readingProgress, recordPath, toggleBookmark } = useStoryProgress(selectedChild?.id ?? null);
 
-  const storyText = location.state?.storyText;
+  // A story the child made is loaded from their shelf by id, so a refresh keeps it
+  const savedStoryId = searchParams.get('saved');
+  const auth0UserId = user?.sub ?? null;
+  const [savedText, setSavedText] = useState<string | null>(null);
+  // The voice picked on the story dashboard reads the pages, whichever kind of voice it is
+  const [voice] = useState(() => StorageService.getItem<NarrationVoice>('NARRATION_VOICE'));
+  const { narrator, status: narration } = useNarration(voice, auth0UserId);
+  const storyText = location.state?.storyText ?? savedText;
   const storyId = location.state?.storyId;
+  // "Continue reading" picks up the saved path; a bookmark opens the path it was made on
+  const resume = !!location.state?.resume;
+  const bookmarkPath: string[] | undefined = location.state?.segmentIds;
+  const childId = selectedChild?.id ?? null;
+  const ageGroup = selectedChild?.age_group;
+
+  useEffect(() => {
+    if (!savedStoryId || !auth0UserId || !childId) return;
+
+    let cancelled = false;
+    StoryService.get(auth0UserId, childId, savedStoryId)
+      .then(saved => {
+        if (cancelled) return;
+        if (!saved) {
+          setStoryError(true);
+          return;
+        }
+        setSavedTitle(saved.title);
+        setSavedText(saved.content);
+      })
+      .catch(error => {
+        console.error('Failed to load story:', error);
+        if (!cancelled) setStoryError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedStoryId, auth0UserId, childId]);
 
   useEffect(() => {
     if (!storyText && !storyId) {
-      navigate('/stories');
+      // A saved story is still on its way
+      if (!savedStoryId) navigate('/stories');
       return;
     }
 
     if (storyText) {
-      // Split user's story into segments
-      const sentences = storyText.split(/[.!?]+/).filter(s => s.trim().length > 0);
-      const segments = sentences.map(sentence => ({
-        text: sentence.trim() + '.',
+      // Whole sentences grouped into pages sized for the child's age group
+      const segments = StoryPaginator.paginate(storyText, ageGroup).map(text => ({
+        text,
         image: `https://picsum.photos/400/300?random=${Math.floor(Math.random() * 1000)}`
       }));
       setStorySegments(segments);
+      setCurrentSegment(0);
       setIsGeneratingImages(false);
     } else if (storyId) {
-      // Load pre-made story
-      const predefinedStories: Record<string, StorySegment[]> = {
-        "adventure-forest": [
-          {
-            text: "Once upon a time, Luna discovered a magical portal hidden behind an old oak tree.",
-            image: "https://picsum.photos/400/300?random=101"
-          },
-          {
-            text: "She stepped through and found herself in an enchanted forest filled with glowing flowers.",
-            image: "https://picsum.photos/400/300?random=102"
-          },
-          {
-            text: "A friendly fairy appeared and offered to guide her on an amazing adventure.",
-            image: "https://picsum.photos/400/300?random=103"
-          }
-        ],
-        "space-explorer": [
-          {
-            text: "Captain Alex zoomed through space in a shiny silver rocket ship.",
-            image: "https://picsum.photos/400/300?random=201"
-          },
-          {
-            text: "The first planet had purple skies and friendly aliens with big smiles.",
-            image: "https://picsum.photos/400/300?random=202"
-          },
-          {
-            text: "Together they discovered a crystal that could power the entire galaxy.",
-            image: "https://picsum.photos/400/300?random=203"
+      // Stories that fail validation never make it out of the library
+      StoryLibrary.get(storyId)
+        .then(found => {
+          if (!found) {
+            setStoryError(true);
+            return;
           }
-        ],
-        "underwater-kingdom": [
-          {
-            text: "Princess Marina dove deep into the ocean and discovered a hidden kingdom.",
-            image: "https://picsum.photos/400/300?random=301"
-          },
-          {
-            text: "The sea creatures welcomed her with a parade of colorful fish and dancing seahorses.",
-            image: "https://picsum.photos/400/300?random=302"
-          },
-          {
-            text: "She learned the ancient secret of speaking with all ocean life.",
-            image: "https://picsum.photos/400/300?random=303"
+          const saved = childId ? StoryProgressService.getCached(childId)[found.id] : undefined;
+          const marked: StoryPath | null = bookmarkPath ? { storyId: found.id, segmentIds: bookmarkPath } : null;
+          setStory(found);
+          if (marked && StoryEngine.isValidPath(found, marked)) {
+            setPath(marked);
+          } else {
+            setPath((resume && StoryProgressService.getResumePath(saved, found)) || StoryEngine.start(found));
           }
-        ]
-      };
-
-      setStorySegments(predefinedStories[storyId] || []);
+        })
+        .catch(error => {
+          console.error('Failed to load stories:', error);
+          setStoryError(true);
+        });
     }
-  }, [storyText, storyId, navigate]);
-
-  const speakText = (text: string) => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.8;
-      utterance.pitch = 1.1;
-      utterance.volume = 1;
-
-      utterance.onstart = () => setIsPlaying(true);
-      utterance.onend = () => {
-        setIsPlaying(false);
-        // Auto advance to next segment after a pause
-        setTimeout(() => {
-          if (currentSegment < storySegments.length - 1) {
-            setCurrentSegment(currentSegment + 1);
-          }
-        }, 1000);
-      };
-
-      speechSynthesis.speak(utterance);
-    } else {
-      toast({
-        title: "Not Supported",
-        description: "Text-to-speech is not supported in this browser",
-        variant: "destructive"
-      });
-    }
-  };
+    // Opened once per story; later progress changes shouldn't move the reader
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storyText, storyId, savedStoryId, ageGroup, navigate]);
 
-  const stopSpeaking = () => {
-    if ('speechSynthesis' in window) {
-      speechSynthesis.cancel();
-      setIsPlaying(false);
-    }
-  };
+  // Every step is saved, so the child can carry on from here next time
+  useEffect(() => {
+    if (story && path) recordPath(story, path);
+  }, [story, path, recordPath]);
 
+  const stopSpeaking = () => narrator.stop();
+
+  // Page turns go through the narrator, which keeps reading on the new page if it was reading
   const nextSegment = () => {
     if (currentSegment < storySegments.length - 1) {
-      stopSpeaking();
-      setCurrentSegment(currentSegment + 1);
+      narrator.seek(currentSegment + 1);
     }
   };
 
   const prevSegment = () => {
     if (currentSegment > 0) {
-      stopSpeaking();
-      setCurrentSegment(currentSegment - 1);
+      narrator.seek(currentSegment - 1);
     }
   };
 
-  const playCurrentSegment = () => {
-    if (storySegments[currentSegment]) {
-      speakText(storySegments[currentSegment].text);
-    }
+  const choose = (choiceIndex: number) => {
+    if (!story || !path) return;
+    stopSpeaking();
+    setPath(StoryEngine.choose(story, path, choiceIndex));
+  };
+
+  const goBack = () => {
+    if (!path) return;
+    stopSpeaking();
+    setPath(StoryEngine.back(path));
+  };
+
+  const restart = () => {
+    if (!story) return;
+    stopSpeaking();
+    setPath(StoryEngine.start(story));
+  };
+
+  const openBookmark = (segmentIds: string[]) => {
+    if (!story) return;
+    const marked: StoryPath = { storyId: story.id, segmentIds };
+    if (!StoryEngine.isValidPath(story, marked)) return;
+    stopSpeaking();
+    setPath(marked);
   };
 
+  const segment = story && path ? StoryEngine.current(story, path) : undefined;
+
+  // A child's story reads straight through, turning the pages; a branching one reads the
+  // segment on screen and waits for a choice
+  const narrationPages = useMemo(
+    () => (story ? (segment ? [segment.content] : []) : storySegments.map(page => page.text)),
+    [story, segment, storySegments]
+  );
+
+  useEffect(() => {
+    narrator.load(narrationPages, { continuous: !story });
+  }, [narrator, narrationPages, story]);
+
+  useEffect(() => {
+    if (!story) setCurrentSegment(narration.page);
+  }, [story, narration.page]);
+
+  useEffect(() => {
+    if (!narration.error) return;
+    toast({
+      title: "Couldn't read aloud",
+      description: narration.error,
+      variant: "destructive"
+    });
+  }, [narration.error, toast]);
+
+  if (storyError) {
+    return (
+      <>
+        <AppHeader title="Story Viewer" showBackButton />
+        <div className="min-h-screen bg-gradient-to-br from-secondary/20 via-accent/20 to-primary/20 p-4 flex items-center justify-center">
+          <Card className="bg-white/90 p-8">
+            <div className="text-center">
+              <div className="text-6xl mb-4">📕</div>
+              <h2 className="text-2xl font-fredoka font-bold text-primary mb-4">This story isn't ready yet</h2>
+              <Button onClick={() => navigate('/stories')} variant="outline">
+                Back to Stories
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </>
+    );
+  }
+
+  if (story && path && segment) {
+    const endings = StoryEngine.getEndings(story);
+    const pathTitles = path.segmentIds.map(id => StoryEngine.getSegment(story, id)?.title ?? id);
+    const progress = readingProgress[story.id];
+    const bookmarked = StoryProgressService.isBookmarked(progress, segment.id);
+    const bookmarks = (progress?.bookmarks ?? [])
+      .filter(bookmark => StoryEngine.isValidPath(story, { storyId: story.id, segmentIds: bookmark.segmentIds }));
+    const endingsFound = progress?.endingsFound.length ?? 0;
+
+    return (
+      <>
+        <AppHeader title="Story Viewer" showBackButton />
+        <div className="min-h-screen bg-gradient-to-br from-secondary/20 via-accent/20 to-primary/20 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-6">
+            <h1 className="text-3xl font-fredoka font-bold text-primary mb-2">
+              📚 {story.title}
+            </h1>
+            <p className="text-muted-foreground">
+              Chapter {path.segmentIds.length} · {endingsFound}/{endings.length} endings found
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Your path: {pathTitles.join(' → ')}
+            </p>
+            {bookmarks.length > 0 && (
+              <div className="flex gap-2 justify-center flex-wrap mt-3">
+                {bookmarks.map(bookmark => {
+                  const id = bookmark.segmentIds[bookmark.segmentIds.length - 1];
+                  return (
+                    <Button key={id} onClick={() => openBookmark(bookmark.segmentIds)} variant="outline" size="sm">
+                      🔖 {StoryEngine.getSegment(story, id)?.title ?? id}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <Card className="bg-white/95 shadow-xl mb-6">
+            <CardContent className="p-8">
+              {segment.imageUrl && (
+                <div className="text-center mb-6">
+                  <img
+                    src={segment.imageUrl}
+                    alt={segment.title}
+                    className="rounded-lg shadow-lg mx-auto max-w-full h-64 object-cover"
+                  />
+                </div>
+              )}
+
+              <div className="text-center mb-8">
+                <h2 className="text-2xl font-fredoka text-primary mb-3">{segment.title}</h2>
+                <p className="text-xl leading-relaxed text-foreground font-medium">
+                  {segment.content}
+                </p>
+              </div>
+
+              {!segment.isEnding && (
+                <div className="grid gap-3 mb-6">
+                  <p className="text-center font-semibold text-primary">What happens next?</p>
+                  {(segment.choices ?? []).map((choice, index) => (
+                    <Button
+                      key={`${choice.nextSegmentId}-${index}`}
+                      onClick={() => choose(index)}
+                      className="bg-secondary hover:bg-secondary/90 text-white whitespace-normal h-auto py-3"
+                      size="lg"
+                    >
+                      {choice.text}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-center gap-4 flex-wrap">
+                <Button
+                  onClick={goBack}
+                  disabled={path.segmentIds.length <= 1}
+                  variant="outline"
+                  size="lg"
+                >
+                  ⬅️ Go Back
+                </Button>
+
+                <Button
+                  onClick={() => toggleBookmark(path)}
+                  disabled={!childId}
+                  variant={bookmarked ? "secondary" : "outline"}
+                  size="lg"
+                >
+                  {bookmarked ? '🔖 Bookmarked' : '🔖 Bookmark'}
+                </Button>
+
+                <NarrationControls narrator={narrator} status={narration} onPlay={() => narrator.play(0)} />
+              </div>
+              <NarrationSettings narrator={narrator} status={narration} />
+            </CardContent>
+          </Card>
+
+          {segment.isEnding && (
+            <Card className="bg-gradient-to-r from-primary/10 to-secondary/10 shadow-lg">
+              <CardContent className="p-6 text-center">
+                <div className="text-4xl mb-4">🎉</div>
+                <h3 className="text-2xl font-fredoka font-bold text-primary mb-4">
+                  The End!
+                </h3>
+                <p className="text-muted-foreground mb-6">
+                  You found the "{segment.title}" ending.{' '}
+                  {endingsFound >= endings.length
+                    ? `That's all ${endings.length} endings, you're a true explorer!`
+                    : `You've found ${endingsFound} of ${endings.length} endings. Can you find the others?`}
+                </p>
+                <div className="flex gap-4 justify-center flex-wrap">
+                  <Button
+                    onClick={restart}
+                    variant="outline"
+                    size="lg"
+                  >
+                    🔀 Try Another Path
+                  </Button>
+                  <Button
+                    onClick={() => navigate('/stories')}
+                    className="bg-primary hover:bg-primary/90 text-white"
+                    size="lg"
+                  >
+                    📚 More Stories
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+        </div>
+      </>
+    );
+  }
+
   if (storySegments.length === 0) {
     return (
       <>
@@ -173,10 +375,10 @@ const StoryViewer = () => {
       <div className="max-w-4xl mx-auto">
         <div className="text-center mb-6">
           <h1 className="text-3xl font-fredoka font-bold text-primary mb-2">
-            📚 Story Time, {selectedChild?.name}!
+            📚 {savedTitle ?? `Story Time, ${selectedChild?.name}!`}
           </h1>
           <p className="text-muted-foreground">
-            Segment {currentSegment + 1} of {storySegments.length}
+            Page {currentSegment + 1} of {storySegments.length}
           </p>
         </div>
 
@@ -193,7 +395,7 @@ const StoryViewer = () => {
             )}
             
             <div className="text-center mb-8">
-              <p className="text-xl leading-relaxed text-foreground font-medium">
+              <p className="text-xl leading-relaxed text-foreground font-medium whitespace-pre-line">
                 {currentStory.text}
               </p>
             </div>
@@ -208,23 +410,11 @@ const StoryViewer = () => {
                 ⬅️ Previous
               </Button>
 
-              {!isPlaying ? (
-                <Button
-                  onClick={playCurrentSegment}
-                  className="bg-primary hover:bg-primary/90 text-white"
-                  size="lg"
-                >
-                  🔊 Read Aloud
-                </Button>
-              ) : (
-                <Button
-                  onClick={stopSpeaking}
-                  className="bg-red-500 hover:bg-red-600 text-white animate-pulse"
-                  size="lg"
-                >
-                  ⏹️ Stop Reading
-                </Button>
-              )}
+              <NarrationControls
+                narrator={narrator}
+                status={narration}
+                onPlay={() => narrator.play(currentSegment)}
+              />
 
               <Button
                 onClick={nextSegment}
@@ -235,6 +425,7 @@ const StoryViewer = () => {
                 Next ➡️
               </Button>
             </div>
+            <NarrationSettings narrator={narrator} status={narration} />
           </CardContent>
         </Card>
 
@@ -250,7 +441,7 @@ const StoryViewer = () => {
               </p>
               <div className="flex gap-4 justify-center flex-wrap">
                 <Button
-                  onClick={() => setCurrentSegment(0)}
+                  onClick={() => narrator.seek(0)}
                   variant="outline"
                   size="lg"
                 >
@@ -1,29 +1,37 @@
-import React, { useState, useEffect, useContext } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "../components/ui/button";
 import { Card } from "../components/ui/card";
 import { useProgress } from "../contexts/ProgressContext";
-import { useParams } from "react-router-dom";
+import { useSearchParams } from "react-router-dom";
 import { useAppContext } from "../contexts/Auth0Context";
-import puzzles from "../config/word-scramble.json";
-
-interface WordScramblePuzzle {
-  id: string;
-  difficulty: string;
-  scrambled: string;
-  answer: string;
-  hint: string;
-}
+import { useGameContent } from "../hooks/use-game-content";
+import { AgeGroupFilter } from "../lib/ageGroups";
+import { GameRegistry } from "../games";
+import TypedAnswerRace from "../components/Multiplayer/TypedAnswerRace";
+import type { WordScramblePuzzle } from "../types";
 
 const WordScrambleGame: React.FC = () => {
-  const { difficulty = "easy" } = useParams();
+  const [searchParams] = useSearchParams();
+  const roomCode = searchParams.get("room")?.toUpperCase() || null;
   const { selectedChild } = useAppContext();
   const [current, setCurrent] = useState(0);
   const [input, setInput] = useState("");
   const [showHint, setShowHint] = useState(false);
   const [score, setScore] = useState(0);
   const { updateGameResult } = useProgress();
+  // The dashboard passes the recommended (or parent-pinned) level; anything else gets the age default
+  const requestedDifficulty = searchParams.get("difficulty");
+  const difficulty = requestedDifficulty && GameRegistry.get("word-scramble")?.difficulties.includes(requestedDifficulty)
+    ? requestedDifficulty
+    : GameRegistry.getDefaultDifficulty("word-scramble", selectedChild?.age_group) ?? "easy";
+  const startedAtRef = useRef(Date.now());
+  const recordedRef = useRef(false);
 
-  const filtered: WordScramblePuzzle[] = puzzles.filter(p => p.difficulty === difficulty);
+  const puzzles = useGameContent<WordScramblePuzzle[]>("word-scramble");
+  const filtered: WordScramblePuzzle[] = AgeGroupFilter.filter(
+    (puzzles ?? []).filter(p => p.difficulty === difficulty),
+    selectedChild?.age_group
+  );
   const puzzle = filtered[current];
 
   useEffect(() => {
@@ -32,23 +40,56 @@ const WordScrambleGame: React.FC = () => {
   }, [current]);
 
   const handleSubmit = () => {
-    if (input.trim().toLowerCase() === puzzle.answer.toLowerCase() && selectedChild) {
+    if (input.trim().toLowerCase() === puzzle.answer.toLowerCase()) {
       setScore(s => s + 1);
-      updateGameResult({
-        gameId: "word-scramble",
-        profileId: selectedChild.id,
-        difficulty: difficulty,
-        correct: 1,
-        total: filtered.length,
-        starsEarned: 1,
-        endedAt: new Date().toISOString()
-      });
       setCurrent(c => c + 1);
     }
   };
 
+  // Record the finished game in the child's progress once
+  const finished = !!puzzles && filtered.length > 0 && !puzzle;
+  useEffect(() => {
+    if (!finished || !selectedChild || recordedRef.current) return;
+    recordedRef.current = true;
+    updateGameResult({
+      gameId: "word-scramble",
+      profileId: selectedChild.id,
+      difficulty,
+      correct: score,
+      total: filtered.length,
+      starsEarned: GameRegistry.calculateStars("word-scramble", score, filtered.length),
+      durationSeconds: Math.round((Date.now() - startedAtRef.current) / 1000),
+      endedAt: new Date().toISOString()
+    });
+  }, [finished, selectedChild, difficulty, score, filtered.length, updateGameResult]);
+
+  const handlePlayAgain = () => {
+    setCurrent(0);
+    setScore(0);
+    startedAtRef.current = Date.now();
+    recordedRef.current = false;
+  };
+
+  // Rooms race head-to-head on the shared multiplayer framework
+  if (roomCode) {
+    return (
+      <TypedAnswerRace
+        gameId="word-scramble"
+        title="Word Scramble"
+        roomCode={roomCode}
+        puzzles={puzzles}
+        renderPrompt={puzzle => <div style={{ fontSize: "2rem", letterSpacing: "0.5em" }}>{puzzle.scrambled}</div>}
+        placeholder="Unscramble the word"
+      />
+    );
+  }
+
+  if (!puzzles) {
+    return <Card><p>Loading...</p></Card>;
+  }
+
   if (!puzzle) {
-    return <Card><h2>Game Over!</h2><p>Your score: {score}</p><Button onClick={() => setCurrent(0)}>Play Again</Button></Card>;
+    return <Card><h2>Game Over!</h2><p>Your score: {score}</p><Button onClick={handlePlayAgain}>Play Again</Button></Card>;
   }
 
   return (
@@ -64,6 +105,7 @@ const WordScrambleGame: React.FC = () => {
       />
       <Button onClick={handleSubmit}>Submit</Button>
       <Button onClick={() => setShowHint(h => !h)} style={{ marginLeft: 8 }}>Hint</Button>
+      <Button onClick={() => setCurrent(c => c + 1)} variant="outline" style={{ marginLeft: 8 }}>Skip</Button>
       {showHint && <div style={{ marginTop: 8, color: "#888" }}>{puzzle.hint}</div>}
       <div style={{ marginTop: 16 }}>Score: {score}</div>
     </Card>
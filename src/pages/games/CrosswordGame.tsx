@@ -2,38 +2,30 @@ import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { useAppContext } from "@/contexts/Auth0Context";
 import { useProgress } from "@/contexts/ProgressContext";
 import { useToast } from '@/hooks/use-toast';
 import GameRoomPanel from "@/components/Multiplayer/GameRoomPanel";
+import RoomCountdown from "@/components/Multiplayer/RoomCountdown";
+import RoomResults from "@/components/Multiplayer/RoomResults";
+import RoomStandings from "@/components/Multiplayer/RoomStandings";
 import { AppHeader } from "@/components/Navigation/AppHeader";
-import crosswordsData from "@/config/crosswords.json";
-import type { CrosswordWord, CrosswordPuzzle, GameResult } from "@/types";
-import { supabase } from "@/integrations/supabase/client";
-
-type Player = {
-  id: string;
-  name: string;
-  avatar: string;
-  score: number;
-  correctWords?: number;
-  isAI?: boolean;
-  streak?: number;
-  scoreRowId?: string | number;
-};
+import { GameRegistry } from "@/games";
+import { useGameContent } from "@/hooks/use-game-content";
+import { useMultiplayerRoom } from "@/hooks/use-multiplayer-room";
+import { useCoopGrid } from "@/hooks/use-coop-grid";
+import { AgeGroupFilter } from "@/lib/ageGroups";
+import { CoopGrid } from "@/lib/coopGrid";
+import type { CrosswordPuzzle, CrosswordBank, CrosswordGridCell, GameResult } from "@/types";
+import type { CoopCellEdit, GameMode, RoomPlayer } from "@/types/multiplayer";
+import { GameRoomService } from "@/services/GameRoomService";
 
-type GamePhase = 'theme-select' | 'setup' | 'countdown' | 'playing' | 'scoreboard' | 'complete';
+// Solo games run on local timers; rooms render the phases of the server-owned session
+type GamePhase = 'theme-select' | 'countdown' | 'playing' | 'complete';
 
-type GridCell = {
-  letter: string;
-  userLetter: string;
-  isBlack: boolean;
-  number?: number;
-  wordIds: number[]; // IDs of words that pass through this cell
-};
+const POINTS_PER_WORD = 10;
 
 const CrosswordGame = () => {
   const navigate = useNavigate();
@@ -42,159 +34,100 @@ const CrosswordGame = () => {
   const { selectedChild } = useAppContext();
   const { updateGameResult } = useProgress();
   const { toast } = useToast();
-
-  const difficulty = searchParams.get('difficulty') || 'easy';
-  const paramRoom = searchParams.get('room')?.toUpperCase() || null;
-
-  const [roomCode, setRoomCode] = useState<string | null>(paramRoom);
-  const [players, _setPlayers] = useState<Player[]>([]);
-  const playersRef = useRef<Player[]>([]);
-  const setPlayersSafe = (next: Player[] | ((prev: Player[]) => Player[])) => {
-    const resolved = typeof next === 'function' ? (next as (p: Player[]) => Player[])(playersRef.current) : next;
-    playersRef.current = resolved;
-    _setPlayers(resolved);
+  const crosswordsData = useGameContent<CrosswordBank>('crossword') ?? {};
+
+  const roomCode = searchParams.get('room')?.toUpperCase() || null;
+  const childId = selectedChild?.id ?? null;
+
+  // Rooms: participants, scores, the host and the round itself come from useMultiplayerRoom
+  const {
+    room,
+    status: roomStatus,
+    players: roomPlayers,
+    isHost,
+    session,
+    snapshot,
+    answers,
+    claims,
+    latecomers,
+    dismissLatecomers,
+    getServerTime,
+    start,
+    markFinished,
+    submitAnswer
+  } = useMultiplayerRoom(roomCode, childId);
+
+  // Solo games keep the child's score locally, in the same shape as room players
+  const [soloPlayers, _setSoloPlayers] = useState<RoomPlayer[]>([]);
+  const soloPlayersRef = useRef<RoomPlayer[]>([]);
+  const setSoloPlayers = (next: RoomPlayer[] | ((prev: RoomPlayer[]) => RoomPlayer[])) => {
+    const resolved = typeof next === 'function' ? next(soloPlayersRef.current) : next;
+    soloPlayersRef.current = resolved;
+    _setSoloPlayers(resolved);
   };
+  const players = roomCode ? roomPlayers : soloPlayers;
+
+  const [soloCategory, setSoloCategory] = useState<string>('');
+  const soloDifficulty = searchParams.get('difficulty') || 'easy';
+  // Rooms play the running round's theme and level; between rounds, the room's current settings
+  const selectedCategory = session ? session.data.theme : room ? room.theme ?? '' : soloCategory;
+  const difficulty = session ? session.data.difficulty : room ? room.difficulty : soloDifficulty;
+  const isCoop = !!room && session?.data.mode === 'coop';
 
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [gamePhase, setGamePhase] = useState<GamePhase>('theme-select');
-  const [waitingForPlayers, setWaitingForPlayers] = useState(false);
+  let phase = gamePhase;
+  if (room) {
+    if (!session || !snapshot) phase = 'theme-select';
+    else if (snapshot.phase === 'finished') phase = 'complete';
+    else if (snapshot.phase === 'countdown') phase = 'countdown';
+    else phase = 'playing';
+  }
   const [gameTimer, setGameTimer] = useState(0);
-  const [finalPlayersSnapshot, setFinalPlayersSnapshot] = useState<Player[] | null>(null);
+  const timeLeft = room && snapshot ? snapshot.secondsRemaining : gameTimer;
+  const [finalPlayersSnapshot, setFinalPlayersSnapshot] = useState<RoomPlayer[] | null>(null);
   const [finalPlayerScore, setFinalPlayerScore] = useState<number | null>(null);
-  const [showNewPlayerDialog, setShowNewPlayerDialog] = useState(false);
-  const [newPlayerInfo, setNewPlayerInfo] = useState<Player | null>(null);
 
   const gameEndedRef = useRef(false);
-  const scoreboardPollRef = useRef<number | null>(null);
   const countdownTimerRef = useRef<number | null>(null);
   const fallbackTimeoutRef = useRef<number | null>(null);
   const gameTimerRef = useRef<number | null>(null);
+  const gameStartedAtRef = useRef<number | null>(null);
 
   const GAME_DURATION = 600; // 10 minutes for crosswords
 
-  const [isRoomCreator, setIsRoomCreator] = useState(false);
   const [pendingJoinRequests, setPendingJoinRequests] = useState(0);
-  const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
+  // Rooms: the round this child is done with (solved everything or gave up), waiting for the others
+  const [doneSessionId, setDoneSessionId] = useState<string | null>(null);
+  // Co-op: newest edit per cell and who finished each word, replayed whenever the grid is rebuilt
+  const coopEditsRef = useRef(new Map<string, CoopCellEdit>());
+  const coopSolvedRef = useRef(new Map<number, string>());
 
   const [countdown, setCountdown] = useState(3);
-  const [grid, setGrid] = useState<GridCell[][]>([]);
+  const [grid, _setGrid] = useState<CrosswordGridCell[][]>([]);
+  // Co-op edits arrive between renders, so reads go through the ref
+  const gridRef = useRef<CrosswordGridCell[][]>([]);
+  const setGrid = (next: CrosswordGridCell[][]) => {
+    gridRef.current = next;
+    _setGrid(next);
+  };
   const [selectedCell, setSelectedCell] = useState<{row: number, col: number} | null>(null);
   const [selectedWordId, setSelectedWordId] = useState<number | null>(null);
   const [selectedDirection, setSelectedDirection] = useState<'across' | 'down'>('across');
 
   useEffect(() => {
-    const param = searchParams.get('room')?.toUpperCase() || null;
-    setRoomCode(param);
-
-    if (param) {
-      loadRoomData(param);
-    } else {
-      const playerId = selectedChild?.id || 'player1';
-      const playerName = selectedChild?.name || 'Player 1';
-      const playerAvatar = selectedChild?.avatar || '👤';
-      setPlayersSafe([{ id: playerId, name: playerName, avatar: playerAvatar, score: 0, correctWords: 0, streak: 0 }]);
-    }
+    if (roomCode) return;
+    const playerId = selectedChild?.id || 'player1';
+    const playerName = selectedChild?.name || 'Player 1';
+    const playerAvatar = selectedChild?.avatar || '👤';
+    setSoloPlayers([{ id: playerId, name: playerName, avatar: playerAvatar, isAI: false, score: 0, answered: 0, streak: 0 }]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams, selectedChild]);
 
-  const loadRoomData = async (code: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', code)
-        .single();
-
-      if (error || !data) {
-        toast({ title: 'Room not found', description: 'Invalid room code', variant: 'destructive' });
-        navigate('/games');
-        return;
-      }
-
-      setCurrentRoomId(data.id);
-      setIsRoomCreator(data.host_child_id === selectedChild?.id);
-      
-      if ((data as any).selected_category) {
-        setSelectedCategory((data as any).selected_category);
-      }
-
-      await fetchRoomParticipants(data.id);
-
-      if (data.status === 'playing') {
-        setGamePhase('countdown');
-        startCountdown();
-      }
-    } catch (err) {
-      console.error('Failed to load room:', err);
-    }
-  };
-
-  const fetchRoomParticipants = async (roomId: string) => {
-    try {
-      const { data: participants } = await supabase
-        .from('room_participants')
-        .select('child_id, children_profiles(name, avatar)')
-        .eq('room_id', roomId);
-
-      if (participants) {
-        const playerList = participants.map((p: any) => ({
-          id: p.child_id,
-          name: p.children_profiles?.name || 'Player',
-          avatar: p.children_profiles?.avatar || '👤',
-          score: 0,
-          correctWords: 0,
-          streak: 0
-        }));
-        setPlayersSafe(playerList);
-      }
-    } catch (err) {
-      console.error('Failed to fetch participants:', err);
-    }
-  };
-
-  const fetchRoomScores = async (roomId: string) => {
-    try {
-      const { data } = await supabase
-        .from('multiplayer_game_scores')
-        .select('*')
-        .eq('room_id', roomId);
-
-      if (data) {
-        setPlayersSafe(prev => prev.map(p => {
-          const scoreData = data.find(s => s.child_id === p.id);
-          return scoreData ? { ...p, score: scoreData.score || 0, correctWords: scoreData.total_questions || 0 } : p;
-        }));
-      }
-    } catch (err) {
-      console.error('Failed to fetch scores:', err);
-    }
-  };
-
-  const initializeGameScores = async (roomId: string, playerList: Player[]) => {
-    try {
-      await supabase
-        .from('multiplayer_game_scores')
-        .delete()
-        .eq('room_id', roomId);
-
-      const scoreEntries = playerList.map(player => ({
-        room_id: roomId,
-        child_id: player.isAI ? null : player.id,
-        player_name: player.name,
-        player_avatar: player.avatar,
-        is_ai: player.isAI || false,
-        score: 0,
-        total_questions: 0
-      }));
-
-      await supabase
-        .from('multiplayer_game_scores')
-        .insert(scoreEntries);
-
-      await fetchRoomScores(roomId);
-    } catch (error) {
-      console.error('Error initializing game scores:', error);
-    }
-  };
+  useEffect(() => {
+    if (!roomCode || roomStatus !== 'not-found') return;
+    toast({ title: 'Room not found', description: 'Invalid room code', variant: 'destructive' });
+    navigate('/games');
+  }, [roomCode, roomStatus, navigate, toast]);
 
   const clearIntervalRef = (ref: React.MutableRefObject<number | null>) => {
     if (ref.current) {
@@ -202,7 +135,7 @@ const CrosswordGame = () => {
       ref.current = null;
     }
   };
-  
+
   const clearTimeoutRef = (ref: React.MutableRefObject<number | null>) => {
     if (ref.current) {
       try { window.clearTimeout(ref.current); } catch (e) { /* ignore */ }
@@ -210,27 +143,89 @@ const CrosswordGame = () => {
     }
   };
 
+  // Solo games only offer puzzles suited to the child's age; a room shares one puzzle
+  const getThemePuzzle = (theme: string): CrosswordPuzzle | null => {
+    const puzzle = crosswordsData[theme]?.[difficulty] as CrosswordPuzzle | undefined;
+    if (!puzzle) return null;
+    return roomCode || AgeGroupFilter.isSuitable(puzzle.ages, selectedChild?.age_group) ? puzzle : null;
+  };
+
   const getPuzzleData = (): CrosswordPuzzle | null => {
     if (!selectedCategory) return null;
-    const categoryData = (crosswordsData as any)[selectedCategory];
-    if (categoryData && categoryData[difficulty]) {
-      return categoryData[difficulty] as CrosswordPuzzle;
-    }
-    return null;
+    return getThemePuzzle(selectedCategory);
   };
 
   const puzzleData = getPuzzleData();
+  const totalWords = puzzleData?.words.length || 1;
+
+  // Rooms: words solved this round as the room last restored them (co-op: by anyone)
+  const solvedWordIds = isCoop
+    ? Object.keys(claims)
+    : Object.keys(answers).filter(id => answers[id].correct);
+  const me = players.find(p => p.id === (selectedChild?.id || 'player1'));
+  const waitingForOthers = !!session && phase === 'playing' && (
+    doneSessionId === session.id || (!isCoop && solvedWordIds.length >= totalWords)
+  );
+
+  // Rooms: a new round (or the same one after a refresh) starts from a clean grid
+  const sessionId = session?.id ?? null;
+  useEffect(() => {
+    coopEditsRef.current.clear();
+    coopSolvedRef.current.clear();
+    setSelectedCell(null);
+    setSelectedWordId(null);
+  }, [sessionId]);
 
   // Initialize grid when puzzle data changes
   useEffect(() => {
-    if (puzzleData && gamePhase === 'playing') {
+    if (puzzleData && phase === 'playing') {
       initializeGrid(puzzleData);
     }
-  }, [puzzleData, gamePhase]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [puzzleData, phase, sessionId]);
+
+  // Rooms: solved words restored after a refresh are filled back into a grid that's already built
+  const solvedKey = solvedWordIds.join(',');
+  useEffect(() => {
+    if (!puzzleData) return;
+    if (isCoop) {
+      Object.entries(claims).forEach(([wordId, solver]) => recordCoopSolved(Number(wordId), solver));
+      return;
+    }
+    if (!gridRef.current.length) return;
+    const next = gridRef.current.map(row => row.map(cell => ({ ...cell })));
+    puzzleData.words
+      .filter(word => solvedWordIds.includes(String(word.id)))
+      .forEach(word => CoopGrid.cellsOf(word).forEach(({ row, col }, i) => {
+        next[row][col].userLetter = word.word[i];
+      }));
+    setGrid(next);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [solvedKey, isCoop, puzzleData]);
+
+  // Rooms: tells the server this child is done (once per round); it ends the round once everyone is
+  const markedDoneRef = useRef<string | null>(null);
+  const markRoomFinished = async () => {
+    if (!session || markedDoneRef.current === session.id) return;
+    markedDoneRef.current = session.id;
+    try {
+      await markFinished(totalWords);
+    } catch (err) {
+      console.error('Failed to mark player finished:', err);
+      markedDoneRef.current = null;
+    }
+  };
+
+  // Rooms, race: a grid that's already complete (e.g. solved before a refresh) counts as done
+  useEffect(() => {
+    if (!session || isCoop || phase !== 'playing' || solvedWordIds.length < totalWords) return;
+    markRoomFinished();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, isCoop, phase, solvedKey, totalWords]);
 
   const initializeGrid = (puzzle: CrosswordPuzzle) => {
     const size = puzzle.gridSize;
-    const newGrid: GridCell[][] = Array(size).fill(null).map(() => 
+    const newGrid: CrosswordGridCell[][] = Array(size).fill(null).map(() =>
       Array(size).fill(null).map(() => ({
         letter: '',
         userLetter: '',
@@ -244,21 +239,101 @@ const CrosswordGame = () => {
       for (let i = 0; i < word.word.length; i++) {
         const row = word.direction === 'across' ? word.startRow : word.startRow + i;
         const col = word.direction === 'across' ? word.startCol + i : word.startCol;
-        
+
         if (row < size && col < size) {
           newGrid[row][col].letter = word.word[i];
           newGrid[row][col].isBlack = false;
           newGrid[row][col].wordIds.push(word.id);
-          
+
           // Add number to first cell of word
           if (i === 0) {
             newGrid[row][col].number = word.number;
           }
+          if (!isCoop && solvedWordIds.includes(String(word.id))) {
+            newGrid[row][col].userLetter = word.word[i];
+          }
         }
       }
     });
 
-    setGrid(newGrid);
+    let built = newGrid;
+    if (isCoop) {
+      coopEditsRef.current.forEach(edit => { built = CoopGrid.applyEdit(built, edit) ?? built; });
+      coopSolvedRef.current.forEach((childId, wordId) => {
+        const word = puzzle.words.find(w => w.id === wordId);
+        if (word) built = CoopGrid.markSolved(built, word, childId);
+      });
+    }
+
+    setGrid(built);
+  };
+
+  // Co-op: keeps the newest edit per cell and shows it if the cell isn't locked
+  const recordCoopEdit = (edit: CoopCellEdit) => {
+    const key = `${edit.row}:${edit.col}`;
+    if (!CoopGrid.isNewer(edit, coopEditsRef.current.get(key))) return;
+    coopEditsRef.current.set(key, edit);
+    const next = CoopGrid.applyEdit(gridRef.current, edit);
+    if (next) setGrid(next);
+  };
+
+  const recordCoopSolved = (wordId: number, childId: string) => {
+    if (coopSolvedRef.current.has(wordId)) return;
+    coopSolvedRef.current.set(wordId, childId);
+    const word = puzzleData?.words.find(w => w.id === wordId);
+    if (word && gridRef.current.length) setGrid(CoopGrid.markSolved(gridRef.current, word, childId));
+  };
+
+  const coopPlayer = selectedChild
+    ? { id: selectedChild.id, name: selectedChild.name, avatar: selectedChild.avatar || '👤' }
+    : null;
+  const { cursors, sendEdit, sendSolved, sendCursor } = useCoopGrid(
+    isCoop && snapshot?.phase !== 'finished' ? session?.id ?? null : null,
+    coopPlayer,
+    {
+      onEdit: recordCoopEdit,
+      onSolved: (wordId, childId) => {
+        recordCoopSolved(wordId, childId);
+        const word = puzzleData?.words.find(w => w.id === wordId);
+        const solver = players.find(p => p.id === childId);
+        if (word && solver) toast({ title: `🧩 ${solver.name} finished "${word.word}"` });
+      },
+      getEdits: () => Array.from(coopEditsRef.current.values())
+    }
+  );
+
+  useEffect(() => {
+    if (isCoop && selectedCell) sendCursor(selectedCell, selectedDirection);
+  }, [isCoop, selectedCell, selectedDirection, sendCursor]);
+
+  // Co-op: the local player's letter; false if the cell belongs to a finished word
+  const editCoopCell = (row: number, col: number, letter: string) => {
+    if (!selectedChild?.id || gridRef.current[row]?.[col]?.solvedBy) return false;
+    const edit: CoopCellEdit = { row, col, letter, childId: selectedChild.id, at: getServerTime() };
+    recordCoopEdit(edit);
+    sendEdit(edit);
+    return true;
+  };
+
+  // Co-op: whoever types the letter that finishes a word claims it; the server credits only the first claim
+  const claimCoopWords = async (row: number, col: number) => {
+    if (!puzzleData || !selectedChild?.id) return;
+
+    for (const wordId of gridRef.current[row][col].wordIds) {
+      const word = puzzleData.words.find(w => w.id === wordId);
+      if (!word || coopSolvedRef.current.has(word.id) || !CoopGrid.isWordCorrect(gridRef.current, word)) continue;
+
+      try {
+        const result = await submitAnswer(String(word.id), word.word);
+        if (result.accepted) {
+          recordCoopSolved(word.id, selectedChild.id);
+          sendSolved(word.id, selectedChild.id);
+          toast({ title: '✅ Correct!', description: `You completed "${word.word}" for the team!` });
+        }
+      } catch (err) {
+        console.error('Failed to claim word:', err);
+      }
+    }
   };
 
   const handleCellClick = (row: number, col: number) => {
@@ -287,7 +362,14 @@ const CrosswordGame = () => {
 
     const key = e.key.toUpperCase();
     
-    if (key === 'BACKSPACE') {
+    if (isCoop && key === 'BACKSPACE') {
+      editCoopCell(selectedCell.row, selectedCell.col, '');
+      moveToPreviousCell();
+    } else if (isCoop && key.length === 1 && /[A-Z]/.test(key)) {
+      // The server ends the round once every word is claimed
+      if (editCoopCell(selectedCell.row, selectedCell.col, key)) claimCoopWords(selectedCell.row, selectedCell.col);
+      moveToNextCell();
+    } else if (key === 'BACKSPACE') {
       // Clear current cell and move back
       const newGrid = [...grid];
       newGrid[selectedCell.row][selectedCell.col].userLetter = '';
@@ -307,11 +389,11 @@ const CrosswordGame = () => {
   };
 
   useEffect(() => {
-    if (gamePhase === 'playing') {
+    if (phase === 'playing' && !waitingForOthers) {
       window.addEventListener('keydown', handleKeyPress);
       return () => window.removeEventListener('keydown', handleKeyPress);
     }
-  }, [selectedCell, selectedDirection, grid, gamePhase]);
+  }, [selectedCell, selectedDirection, grid, phase, waitingForOthers, isCoop]);
 
   const moveToNextCell = () => {
     if (!selectedCell || !puzzleData) return;
@@ -401,7 +483,7 @@ const CrosswordGame = () => {
     if (!puzzleData) return;
 
     const cell = grid[row][col];
-    
+
     // Check all words that pass through this cell
     for (const wordId of cell.wordIds) {
       const word = puzzleData.words.find(w => w.id === wordId);
@@ -410,16 +492,18 @@ const CrosswordGame = () => {
       // Check if word is complete
       let isComplete = true;
       let isCorrect = true;
+      let entered = '';
 
       for (let i = 0; i < word.word.length; i++) {
         const r = word.direction === 'across' ? word.startRow : word.startRow + i;
         const c = word.direction === 'across' ? word.startCol + i : word.startCol;
-        
+
         const cellLetter = grid[r][c].userLetter;
         if (!cellLetter) {
           isComplete = false;
           break;
         }
+        entered += cellLetter;
         if (cellLetter !== word.word[i]) {
           isCorrect = false;
         }
@@ -427,20 +511,18 @@ const CrosswordGame = () => {
 
       if (isComplete && isCorrect) {
         // Word completed correctly!
-        const playerId = selectedChild?.id || 'player1';
-        
-        // Update local score
-        setPlayersSafe(prev => prev.map(p => 
-          p.id === playerId ? { 
-            ...p, 
-            score: p.score + 10,
-            correctWords: (p.correctWords || 0) + 1 
-          } : p
-        ));
-
-        // Update server score
-        if (currentRoomId) {
-          await updatePlayerScore(playerId, 10, 1);
+        if (room) {
+          // The server checks the word and updates the room's standings
+          try {
+            await submitAnswer(String(word.id), entered);
+          } catch (err) {
+            console.error('Failed to submit word:', err);
+          }
+        } else {
+          const playerId = selectedChild?.id || 'player1';
+          setSoloPlayers(prev => prev.map(p =>
+            p.id === playerId ? { ...p, score: p.score + POINTS_PER_WORD, answered: p.answered + 1 } : p
+          ));
         }
 
         toast({
@@ -477,31 +559,8 @@ const CrosswordGame = () => {
     }
   };
 
-  const updatePlayerScore = async (playerId: string, points: number, wordsCompleted: number) => {
-    if (!currentRoomId) return;
-
-    try {
-      const { data: existing } = await supabase
-        .from('multiplayer_game_scores')
-        .select('*')
-        .eq('room_id', currentRoomId)
-        .eq('child_id', playerId)
-        .single();
-
-      if (existing) {
-        await supabase
-          .from('multiplayer_game_scores')
-          .update({
-            score: (existing.score || 0) + points,
-            total_questions: (existing.total_questions || 0) + wordsCompleted
-          })
-          .eq('id', existing.id);
-      }
-    } catch (err) {
-      console.error('Failed to update score:', err);
-    }
-  };
 
+  // Solo only; rooms count down on the session clock
   const startCountdown = () => {
     if (gameEndedRef.current) return;
 
@@ -530,6 +589,7 @@ const CrosswordGame = () => {
     if (gameEndedRef.current) return;
 
     clearIntervalRef(gameTimerRef);
+    gameStartedAtRef.current = Date.now();
     setGameTimer(GAME_DURATION);
 
     const id = window.setInterval(() => {
@@ -546,123 +606,68 @@ const CrosswordGame = () => {
     gameTimerRef.current = id;
   };
 
-  const handlePlayerJoin = (player: Player) => {
-    setPlayersSafe(prev => {
-      if (prev.find(p => p.id === player.id)) return prev;
-      return [...prev, player];
-    });
-  };
-
   const handleJoinRequestUpdate = (count: number) => {
     setPendingJoinRequests(count);
   };
 
   const handleNewPlayerResponse = (restart: boolean) => {
-    setShowNewPlayerDialog(false);
-    setNewPlayerInfo(null);
-    if (restart && isRoomCreator) {
-      startGameAsHost();
-    }
+    dismissLatecomers();
+    if (restart) startGameAsHost({ restart: true });
   };
 
-  const humanPlayersCount = playersRef.current.filter(p => !p.isAI).length;
-  const canSelectTheme = !roomCode || (isRoomCreator && humanPlayersCount >= 2);
+  const canSelectTheme = !room || (isHost && players.length >= 2);
 
-  const handleThemeSelect = (theme: string) => {
-    if (roomCode && !isRoomCreator) {
-      toast({ title: 'Waiting for host', description: 'Only the room creator can select the theme', variant: 'default' });
-      return;
-    }
-
-    setSelectedCategory(theme);
-
-    if (roomCode && isRoomCreator) {
-      (async () => {
-        try {
-          await supabase
-            .from('game_rooms')
-            .update({ selected_category: theme } as any)
-            .eq('room_code', roomCode);
-        } catch (e) {
-          console.error('Failed to update room with selected theme', e);
-        }
-      })();
+  const handleModeSelect = async (mode: GameMode) => {
+    if (!room || !childId || !isHost) return;
+    try {
+      await GameRoomService.updateSettings(room.id, childId, { mode });
+    } catch (e) {
+      console.error('Failed to change the game mode', e);
+      toast({ title: "Couldn't change the game mode", variant: 'destructive' });
     }
   };
 
-  useEffect(() => {
-    if (!roomCode || isRoomCreator) return;
-
-    const channel = supabase
-      .channel(`game-room-${roomCode}`)
-      .on('postgres_changes', {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'game_rooms',
-        filter: `room_code=eq.${roomCode}`
-      }, (payload: any) => {
-        const newData = payload.new;
-        if (newData.status === 'playing' && gamePhase !== 'playing') {
-          setGamePhase('countdown');
-          startCountdown();
-        }
-        if (newData.selected_category && newData.selected_category !== selectedCategory) {
-          setSelectedCategory(newData.selected_category);
-        }
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomCode, isRoomCreator, gamePhase, selectedCategory]);
-
-  const startGameAsHost = async () => {
-    if (!roomCode || !currentRoomId) return;
-
-    try {
-      await initializeGameScores(currentRoomId, playersRef.current);
-    } catch (e) {
-      console.error('Failed to initialize scores before starting', e);
+  const handleThemeSelect = async (theme: string) => {
+    if (!roomCode) {
+      setSoloCategory(theme);
+      return;
     }
+    if (!isHost) {
+      toast({ title: 'Waiting for host', description: 'Only the room creator can select the theme', variant: 'default' });
+      return;
+    }
+    if (!room || !childId) return;
 
     try {
-      await supabase
-        .from('game_rooms')
-        .update({ status: 'playing' })
-        .eq('room_code', roomCode);
+      await GameRoomService.updateSettings(room.id, childId, { theme });
     } catch (e) {
-      console.error('Failed to set room status to playing', e);
+      console.error('Failed to update room with selected theme', e);
+      toast({ title: "Couldn't change the theme", variant: 'destructive' });
     }
+  };
 
+  // Host only: the server resets scores and opens a session everyone follows.
+  // restart abandons a round in progress, e.g. so a friend who just joined can play too.
+  const startGameAsHost = async (options: { restart?: boolean } = {}) => {
     try {
-      gameEndedRef.current = false;
-      clearIntervalRef(countdownTimerRef);
-      clearIntervalRef(gameTimerRef);
-      clearTimeoutRef(fallbackTimeoutRef);
-      clearIntervalRef(scoreboardPollRef);
-
-      setFinalPlayersSnapshot(null);
-      setFinalPlayerScore(null);
-      setSelectedCell(null);
-      setSelectedWordId(null);
-      setPlayersSafe(prev => prev.map(p => ({ ...p, score: 0, correctWords: 0, streak: 0 })));
+      await start(options);
     } catch (e) {
-      console.error('Failed to reset local state before host start:', e);
+      console.error('Failed to start the round', e);
+      toast({
+        title: 'Error',
+        description: e instanceof Error ? e.message : 'Failed to start the game. Please try again.',
+        variant: 'destructive'
+      });
     }
-
-    setGamePhase('countdown');
-    setWaitingForPlayers(false);
-    startCountdown();
   };
 
+  // Solo only; rooms start another round through RematchPanel
   const handlePlayAgain = async () => {
     try {
       gameEndedRef.current = false;
       clearIntervalRef(countdownTimerRef);
       clearIntervalRef(gameTimerRef);
       clearTimeoutRef(fallbackTimeoutRef);
-      clearIntervalRef(scoreboardPollRef);
 
       setFinalPlayersSnapshot(null);
       setFinalPlayerScore(null);
@@ -670,39 +675,13 @@ const CrosswordGame = () => {
       setSelectedCell(null);
       setSelectedWordId(null);
 
-      setPlayersSafe(prev => prev.map(p => ({ ...p, score: 0, correctWords: 0, streak: 0 })));
-
-      if (roomCode && currentRoomId) {
-        try {
-          await initializeGameScores(currentRoomId, playersRef.current);
-          
-          await supabase
-            .from('game_rooms')
-            .update({ status: 'playing' })
-            .eq('room_code', roomCode);
-
-          toast({ 
-            title: 'Restarting game...', 
-            description: 'Get ready for another round!'
-          });
-        } catch (e) {
-          console.error('Failed to reset multiplayer room:', e);
-          toast({ 
-            title: 'Error', 
-            description: 'Failed to restart the game. Please try again.',
-            variant: 'destructive'
-          });
-          return;
-        }
-      }
+      setSoloPlayers(prev => prev.map(p => ({ ...p, score: 0, answered: 0, streak: 0 })));
 
-      setGamePhase('countdown');
-      setWaitingForPlayers(false);
       startCountdown();
     } catch (e) {
       console.error('Failed to restart game:', e);
-      toast({ 
-        title: 'Error', 
+      toast({
+        title: 'Error',
         description: 'Failed to restart the game. Please try again.',
         variant: 'destructive'
       });
@@ -710,104 +689,46 @@ const CrosswordGame = () => {
   };
 
   const finishGame = async () => {
-    if (gameEndedRef.current) return;
-
-    const totalWords = puzzleData?.words.length || 1;
-    const playerId = selectedChild?.id || 'player1';
-
-    if (currentRoomId) {
-      try { await fetchRoomScores(currentRoomId); } catch (e) { /* ignore */ }
-
-      try {
-        const res = await supabase.functions.invoke('manage-game-rooms', {
-          body: {
-            action: 'mark_player_finished',
-            room_id: currentRoomId,
-            child_id: playerId,
-            total_questions: totalWords
-          }
-        });
-
-        const resp = res.data;
-        const allFinished = resp?.all_finished ?? false;
-
-        if (allFinished) {
-          await finalizeGame();
-          return;
-        }
-
-        setGamePhase('scoreboard');
-        gameEndedRef.current = true;
-
-        clearIntervalRef(scoreboardPollRef);
-        scoreboardPollRef.current = window.setInterval(async () => {
-          try {
-            await fetchRoomScores(currentRoomId);
-            const nowAll = (playersRef.current || players).every(p => (p.correctWords ?? 0) >= totalWords);
-            if (nowAll) {
-              clearIntervalRef(scoreboardPollRef);
-              await finalizeGameAfterWait();
-            }
-          } catch (e) { /* ignore */ }
-        }, 2000);
-
-        return;
-      } catch (err) {
-        console.error('mark_player_finished failed', err);
-        const allFinished = (playersRef.current || players).every(p => (p.correctWords ?? 0) >= totalWords);
-        if (!allFinished) {
-          setGamePhase('scoreboard');
-          gameEndedRef.current = true;
-          return;
-        }
-      }
+    // Rooms: done with this round (solved or gave up); the round ends once everyone is
+    if (session) {
+      setDoneSessionId(session.id);
+      await markRoomFinished();
+      return;
     }
+    if (room || gameEndedRef.current) return;
 
     await finalizeGame();
   };
 
-  const finalizeGameAfterWait = async () => {
-    await finalizeGame();
-  };
-
   const finalizeGame = async () => {
-    if (gameEndedRef.current !== true) {
-      gameEndedRef.current = true;
-    }
-
-    if (currentRoomId) {
-      try { await fetchRoomScores(currentRoomId); } catch (e) { /* ignore */ }
-    }
+    gameEndedRef.current = true;
 
-    const finalPlayers = (playersRef.current && playersRef.current.length) ? playersRef.current : players;
-    const playerScore = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'))?.score ?? 0;
+    const finalPlayers = soloPlayersRef.current;
+    const playerData = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'));
 
     setFinalPlayersSnapshot(finalPlayers);
-    setFinalPlayerScore(playerScore);
+    setFinalPlayerScore(playerData?.score ?? 0);
 
     setGamePhase('complete');
 
     clearIntervalRef(gameTimerRef);
-    clearIntervalRef(scoreboardPollRef);
-
-    if (!roomCode && puzzleData) {
-      const playerData = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'));
-      const correctWords = playerData?.correctWords || 0;
-      const totalWords = puzzleData.words.length;
-      const percentage = (correctWords / totalWords) * 100;
-      
-      let starsEarned = 1;
-      if (percentage >= 80) starsEarned = 3;
-      else if (percentage >= 60) starsEarned = 2;
+
+    // Only a selected child has history and progress to record into
+    if (puzzleData && selectedChild) {
+      const correctWords = playerData?.answered || 0;
+      const starsEarned = GameRegistry.calculateStars('crossword', correctWords, totalWords);
 
       const result: GameResult = {
         gameId: 'crossword',
-        profileId: selectedChild?.id || 'player1',
+        profileId: selectedChild.id,
         difficulty,
         correct: correctWords,
         total: totalWords,
         starsEarned,
         theme: selectedCategory,
+        durationSeconds: gameStartedAtRef.current
+          ? Math.round((Date.now() - gameStartedAtRef.current) / 1000)
+          : undefined,
         endedAt: new Date().toISOString()
       };
 
@@ -821,9 +742,6 @@ const CrosswordGame = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const safeCorrectWords = (player: Player) => player.correctWords ?? 0;
-  const visiblePlayers = playersRef.current.length ? playersRef.current : players;
-
   const Background3D = () => (
     <>
       <div className="crossword-3d-bg" aria-hidden>
@@ -842,9 +760,50 @@ const CrosswordGame = () => {
     </>
   );
 
-  // Theme Selection Phase
-  if (gamePhase === 'theme-select') {
-    const availableThemes = Object.keys(crosswordsData as any);
+  const themeImages: Record<string, string> = {
+    'Christmas': '/images/crossword-christmas.svg',
+    'Animals': '/images/crossword-animals.svg',
+    'Space': '/images/crossword-space.svg',
+    'Ocean': '/images/crossword-ocean.svg'
+  };
+
+  if (roomCode && (roomStatus !== 'ready' || !room)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Background3D />
+        <div className="text-2xl font-fredoka">Loading... 🧩</div>
+      </div>
+    );
+  }
+
+  // Rooms: the shared end-of-round screen, with the rematch offer
+  if (room && session && snapshot?.phase === 'finished' && childId) {
+    const myWords = me?.answered ?? 0;
+    const teamWords = players.reduce((sum, p) => sum + p.answered, 0);
+    return (
+      <RoomResults
+        roomId={room.id}
+        childId={childId}
+        childName={selectedChild?.name || 'Player'}
+        isHost={isHost}
+        players={players}
+        totalQuestions={totalWords}
+        starsEarned={GameRegistry.calculateStars('crossword', myWords, totalWords)}
+        themes={Object.keys(crosswordsData)}
+        difficulties={GameRegistry.get('crossword')?.difficulties ?? []}
+        feedback={isCoop ? `Team effort! ${teamWords}/${totalWords} words solved together, ${myWords} by you 🤝` : undefined}
+      />
+    );
+  }
+
+  if (room && session && snapshot?.phase === 'countdown') {
+    return <RoomCountdown title={`${session.data.theme} Crossword Puzzle`} seconds={snapshot.countdownRemaining} />;
+  }
+
+  // Theme Selection Phase: solo, or a room's lobby until the host starts a round
+  if (phase === 'theme-select') {
+    const roomMode = room?.mode ?? 'race';
+    const availableThemes = Object.keys(crosswordsData).filter(theme => getThemePuzzle(theme) !== null);
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/20 to-secondary/20">
         <Background3D />
@@ -860,13 +819,6 @@ const CrosswordGame = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {availableThemes.map((theme) => {
                   const isSelected = selectedCategory === theme;
-                  const themeImages: Record<string, string> = {
-                    'Christmas': '/images/crossword-christmas.svg',
-                    'Animals': '/images/crossword-animals.svg',
-                    'Space': '/images/crossword-space.svg',
-                    'Ocean': '/images/crossword-ocean.svg'
-                  };
-                  
                   return (
                     <Card
                       key={theme}
@@ -874,12 +826,12 @@ const CrosswordGame = () => {
                         isSelected ? 'ring-4 ring-green-400 shadow-xl' : 'hover:ring-2 hover:ring-primary/50'
                       } ${!canSelectTheme ? 'opacity-50 cursor-not-allowed' : ''}`}
                       onClick={() => canSelectTheme && handleThemeSelect(theme)}
-                      title={!canSelectTheme ? (roomCode && !isRoomCreator ? 'Waiting for host to select theme' : 'Waiting for player to join') : undefined}
+                      title={!canSelectTheme ? (room && !isHost ? 'Waiting for host to select theme' : 'Waiting for player to join') : undefined}
                     >
                       <CardContent className="p-4">
                         <div className="flex flex-col items-center space-y-3">
-                          <img 
-                            src={themeImages[theme]} 
+                          <img
+                            src={themeImages[theme]}
                             alt={`${theme} Crossword`}
                             className="w-full h-48 object-contain rounded-lg"
                           />
@@ -892,16 +844,13 @@ const CrosswordGame = () => {
                     </Card>
                   );
                 })}
-                
+
                 {/* Solo Play - Start Button */}
-                {!roomCode && selectedCategory && (
+                {!room && selectedCategory && (
                   <div className="col-span-full mt-4">
                     <div className="flex justify-center">
-                      <Button 
-                        onClick={() => {
-                          setGamePhase('countdown');
-                          startCountdown();
-                        }} 
+                      <Button
+                        onClick={startCountdown}
                         className="w-48 bg-primary hover:bg-primary/90"
                         size="lg"
                       >
@@ -910,25 +859,54 @@ const CrosswordGame = () => {
                     </div>
                   </div>
                 )}
-                
+
                 {/* Multiplayer - Waiting Messages */}
-                {roomCode && isRoomCreator && humanPlayersCount < 2 && (
+                {room && isHost && players.length < 2 && (
                   <div className="col-span-full text-center text-sm text-muted-foreground mt-3">
                     Waiting for the other player to join to select the theme…
                   </div>
                 )}
-                {roomCode && !isRoomCreator && !selectedCategory && (
+                {room && !isHost && !selectedCategory && (
                   <div className="col-span-full text-center text-sm text-muted-foreground mt-3">
                     Waiting for the host to select the theme and start the game…
                   </div>
                 )}
-                
+
+                {/* Multiplayer - Race or Co-op */}
+                {room && (
+                  <div className="col-span-full flex flex-col items-center gap-2 mt-3">
+                    {isHost ? (
+                      <div className="flex gap-2">
+                        <Button
+                          variant={roomMode === 'race' ? 'default' : 'outline'}
+                          onClick={() => handleModeSelect('race')}
+                        >
+                          🏁 Race
+                        </Button>
+                        <Button
+                          variant={roomMode === 'coop' ? 'default' : 'outline'}
+                          onClick={() => handleModeSelect('coop')}
+                        >
+                          🤝 Co-op
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary">{roomMode === 'coop' ? '🤝 Co-op' : '🏁 Race'}</Badge>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {roomMode === 'coop'
+                        ? 'Everyone fills the same grid together. Finish a word to score it!'
+                        : 'Everyone races to finish their own grid first.'}
+                    </p>
+                  </div>
+                )}
+
                 {/* Multiplayer - Start Button */}
-                {roomCode && selectedCategory && (
+                {room && selectedCategory && (
                   <div className="col-span-full mt-3">
-                    {isRoomCreator ? (
+                    {isHost ? (
                       <div className="flex justify-center">
-                        <Button onClick={startGameAsHost} className="w-48" size="lg">
+                        <Button onClick={() => startGameAsHost()} disabled={players.length < 2} className="w-48" size="lg">
                           Start Game ▶
                         </Button>
                       </div>
@@ -940,29 +918,38 @@ const CrosswordGame = () => {
                   </div>
                 )}
               </div>
+              {room && (
+                <div className="mt-6">
+                  <RoomStandings players={players} childId={childId} compact />
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
+        {room && (
+          <GameRoomPanel
+            roomCode={room.code}
+            gameId={gameId || 'crossword'}
+            players={players}
+            gameMode="multiplayer"
+            onJoinRequestUpdate={handleJoinRequestUpdate}
+            isHost={isHost}
+            selectedChildId={childId ?? undefined}
+          />
+        )}
       </div>
     );
   }
 
-  // Countdown Phase
-  if (gamePhase === 'countdown') {
-    const themeImages: Record<string, string> = {
-      'Christmas': '/images/crossword-christmas.svg',
-      'Animals': '/images/crossword-animals.svg',
-      'Space': '/images/crossword-space.svg',
-      'Ocean': '/images/crossword-ocean.svg'
-    };
-    
+  // Countdown Phase (solo; rooms use RoomCountdown above)
+  if (!room && phase === 'countdown') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4 flex items-center justify-center">
         <Background3D />
         <Card className="max-w-md mx-auto bg-white/90 shadow-xl">
           <CardContent className="text-center py-16">
-            <img 
-              src={themeImages[selectedCategory] || themeImages['Christmas']} 
+            <img
+              src={themeImages[selectedCategory] || themeImages['Christmas']}
               alt={`${selectedCategory} Crossword`}
               className="w-48 h-48 mx-auto mb-4 object-contain"
             />
@@ -979,143 +966,39 @@ const CrosswordGame = () => {
     );
   }
 
-  // Scoreboard Wait Phase
-  if (gamePhase === 'scoreboard') {
-    const totalWords = puzzleData?.words.length || 1;
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
-        <Background3D />
-        <Card className="max-w-lg mx-auto bg-white/90 shadow-xl">
-          <CardHeader className="text-center">
-            <div className="text-4xl mb-2">⏳</div>
-            <CardTitle className="text-2xl font-fredoka text-primary">Waiting for players to finish</CardTitle>
-            <p className="text-sm text-muted-foreground mt-2">We'll show the final scoreboard once everyone completes the crossword.</p>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-3">
-              {[...players].map((p) => (
-                <div key={p.id} className="flex items-center justify-between p-2 rounded-md bg-secondary/10">
-                  <div className="flex items-center gap-3">
-                    <Avatar className="w-8 h-8"><AvatarFallback className="text-lg">{p.avatar}</AvatarFallback></Avatar>
-                    <div>
-                      <div className="font-medium text-primary">{p.name}</div>
-                      <div className="text-xs text-muted-foreground">{safeCorrectWords(p)}/{totalWords} words</div>
-                    </div>
-                  </div>
-                  <div className="text-sm font-semibold">{p.score} pts</div>
-                </div>
-              ))}
-            </div>
-            <div className="flex justify-center">
-              <Button onClick={async () => {
-                if (!currentRoomId) return;
-                await fetchRoomScores(currentRoomId);
-                const totalW = puzzleData?.words.length || 1;
-                const all = (playersRef.current || players).every(pp => (pp.correctWords ?? 0) >= totalW);
-                if (all) {
-                  await finalizeGame();
-                } else {
-                  toast({ title: 'Not all players finished', description: 'Please wait for everyone to finish.' });
-                }
-              }}>
-                Refresh Status
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  // Game Complete Phase
-  if (gamePhase === 'complete') {
-    const finalPlayers = finalPlayersSnapshot ?? (playersRef.current.length ? playersRef.current : players);
-    const playerScore = finalPlayerScore ?? finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'))?.score ?? 0;
-    const totalWords = puzzleData?.words.length || 1;
-    const playerData = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'));
-    const correctWords = playerData?.correctWords || 0;
-    const percentage = (correctWords / totalWords) * 100;
-
-    let starsEarned = 1;
-    if (percentage >= 80) starsEarned = 3;
-    else if (percentage >= 60) starsEarned = 2;
-
-    const sortedPlayers = [...finalPlayers].sort((a, b) => b.score - a.score);
-    const highestScore = sortedPlayers.length ? sortedPlayers[0].score : 0;
-    const lowestScore = sortedPlayers.length ? sortedPlayers[sortedPlayers.length - 1].score : 0;
-    const winners = sortedPlayers.filter(p => p.score === highestScore);
-    const losers = sortedPlayers.filter(p => p.score === lowestScore);
-
-    const currentPlayerId = selectedChild?.id || 'player1';
-    const amIWinner = winners.some(w => w.id === currentPlayerId);
-    const amILoser = losers.some(l => l.id === currentPlayerId);
-    
-    let personalFeedback = 'Great effort!';
-    if (amIWinner) {
-      personalFeedback = winners.length === 1 ? 'You are the Winner! 🎉 Excellent work!' : 'You tied for 1st place! 🥳';
-    } else if (amILoser) {
-      personalFeedback = 'Keep practicing to improve! 💪';
-    } else {
-      personalFeedback = 'Nice job — keep solving to climb to the top!';
-    }
+  // Game Complete Phase (solo; rooms use RoomResults above)
+  if (!room && phase === 'complete') {
+    const finalPlayers = finalPlayersSnapshot ?? players;
+    const playerScore = finalPlayerScore ?? me?.score ?? 0;
+    const correctWords = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'))?.answered || 0;
+    const starsEarned = GameRegistry.calculateStars('crossword', correctWords, totalWords);
 
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
         <Background3D />
         <Card className="max-w-lg mx-auto bg-white/90 shadow-xl">
           <CardHeader className="text-center">
-            {amILoser ? (
-              <>
-                <div className="text-6xl mb-4">😢</div>
-                <CardTitle className="text-2xl font-fredoka text-primary">
-                  Better luck next time, {selectedChild?.name || 'Player'}.
-                </CardTitle>
-              </>
-            ) : (
-              <>
-                <div className="text-6xl mb-4">🎉</div>
-                <CardTitle className="text-2xl font-fredoka text-primary">
-                  Great Job, {selectedChild?.name || 'Player'}!
-                </CardTitle>
-              </>
-            )}
+            <div className="text-6xl mb-4">🎉</div>
+            <CardTitle className="text-2xl font-fredoka text-primary">
+              Great Job, {selectedChild?.name || 'Player'}!
+            </CardTitle>
             <div className="mt-2">
-              <div className={`inline-block px-3 py-1 rounded-full text-sm ${
-                amIWinner ? 'bg-green-100 text-green-800' : amILoser ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-50 text-blue-800'
-              }`}>
-                {personalFeedback}
+              <div className="inline-block px-3 py-1 rounded-full text-sm bg-blue-50 text-blue-800">
+                {correctWords >= totalWords ? 'You solved the whole puzzle! 🎉' : 'Great effort!'}
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6 text-center">
             <div className="space-y-4">
-              <p className="text-lg text-muted-foreground">Final Scoreboard:</p>
-              {sortedPlayers.map((player, index) => {
-                const isWinner = player.score === highestScore;
-                const isLoser = player.score === lowestScore;
-                return (
-                  <div
-                    key={player.id}
-                    className={`flex items-center justify-between rounded-lg p-3 transition-all ${
-                      isWinner ? 'bg-green-50 border-2 border-green-200' : isLoser ? 'bg-red-50 border border-red-100' : 'bg-secondary/10'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div className="text-xl">{isWinner ? '👑' : `${index + 1}.`}</div>
-                      <Avatar className="w-8 h-8">
-                        <AvatarFallback className="text-lg">{player.avatar}</AvatarFallback>
-                      </Avatar>
-                      <div className="text-left">
-                        <div className="font-medium text-primary">{player.name}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {safeCorrectWords(player)}/{totalWords} words completed
-                        </div>
-                      </div>
-                    </div>
-                    <span className="text-xl font-bold text-primary">{player.score} pts</span>
-                  </div>
-                );
-              })}
+              <div className="flex items-center justify-center space-x-3">
+                <Avatar className="w-10 h-10">
+                  <AvatarFallback className="text-xl">{selectedChild?.avatar || '👤'}</AvatarFallback>
+                </Avatar>
+                <div className="text-left">
+                  <div className="text-xl font-bold text-primary">{playerScore} pts</div>
+                  <div className="text-xs text-muted-foreground">{correctWords}/{totalWords} words completed</div>
+                </div>
+              </div>
 
               <div className="flex justify-center mt-4">
                 {Array.from({ length: 3 }, (_, i) => (
@@ -1132,7 +1015,7 @@ const CrosswordGame = () => {
                 className="w-full bg-primary hover:bg-primary/90"
                 size="lg"
               >
-                🔄 Play Again in Same Room
+                🔄 Play Again
               </Button>
               <Button
                 onClick={() => navigate('/games')}
@@ -1173,7 +1056,29 @@ const CrosswordGame = () => {
     );
   }
 
+  // Rooms: done with this round, waiting for everyone else (or the clock)
+  if (waitingForOthers) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
+        <Background3D />
+        <Card className="max-w-lg mx-auto bg-white/90 shadow-xl">
+          <CardHeader className="text-center">
+            <div className="text-4xl mb-2">⏳</div>
+            <CardTitle className="text-2xl font-fredoka text-primary">Waiting for players to finish</CardTitle>
+            <p className="text-sm text-muted-foreground mt-2">
+              We'll show the final scoreboard once everyone completes the crossword. ⏱️ {formatTime(timeLeft)}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <RoomStandings players={players} childId={childId} totalQuestions={totalWords} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const acrossWords = puzzleData.words.filter(w => w.direction === 'across');
+  const playerIds = players.map(p => p.id);
   const downWords = puzzleData.words.filter(w => w.direction === 'down');
 
   // Playing Phase - Main Crossword Grid
@@ -1182,7 +1087,7 @@ const CrosswordGame = () => {
       <Background3D />
 
       {/* Join Request Notification */}
-      {isRoomCreator && pendingJoinRequests > 0 && (
+      {isHost && pendingJoinRequests > 0 && (
         <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50">
           <Card className="bg-yellow-100 border-yellow-300 shadow-lg animate-pulse">
             <CardContent className="py-3 px-4">
@@ -1203,8 +1108,8 @@ const CrosswordGame = () => {
           <CardContent className="py-2 px-4">
             <div className="flex items-center space-x-2">
               <span className="text-xl">⏱️</span>
-              <span className={`text-lg font-bold ${gameTimer < 60 ? 'text-red-500' : 'text-primary'}`}>
-                {formatTime(gameTimer)}
+              <span className={`text-lg font-bold ${timeLeft < 60 ? 'text-red-500' : 'text-primary'}`}>
+                {formatTime(timeLeft)}
               </span>
             </div>
           </CardContent>
@@ -1217,31 +1122,25 @@ const CrosswordGame = () => {
           <CardHeader className="py-2 px-3">
             <CardTitle className="text-sm">Players</CardTitle>
           </CardHeader>
-          <CardContent className="py-2 px-3">
-            <div className="space-y-2 max-h-64 overflow-auto">
-              {[...visiblePlayers].sort((a, b) => b.score - a.score).map((player, idx) => (
-                <div key={player.id} className="flex items-center justify-between player-row">
-                  <div className="flex items-center space-x-2">
-                    <Avatar className="w-6 h-6">
-                      <AvatarFallback className="text-sm">{player.avatar}</AvatarFallback>
-                    </Avatar>
-                    <div className="flex flex-col">
-                      <span className="text-sm truncate">{idx === 0 ? `👑 ${player.name}` : player.name}</span>
-                      <span className="text-xs text-muted-foreground">{safeCorrectWords(player)} words</span>
-                    </div>
-                  </div>
-                  <div className="text-sm font-semibold text-primary">
-                    {player.score}
-                  </div>
-                </div>
-              ))} 
-            </div>
+          <CardContent className="py-2 px-3 max-h-64 overflow-auto">
+            <RoomStandings
+              players={players}
+              childId={childId}
+              totalQuestions={totalWords}
+              compact
+              marker={isCoop ? (player) => (
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: CoopGrid.colorFor(player.id, playerIds) }}
+                />
+              ) : undefined}
+            />
           </CardContent>
         </Card>
       </div>
 
-      {/* New Player Dialog */}
-      {showNewPlayerDialog && newPlayerInfo && (
+      {/* A friend joined mid-round: the host can start over so they play too */}
+      {isHost && latecomers.length > 0 && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <Card className="max-w-md mx-4">
             <CardHeader>
@@ -1249,7 +1148,7 @@ const CrosswordGame = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-muted-foreground">
-                <strong>{newPlayerInfo.name}</strong> wants to join the game.
+                <strong>{latecomers.map(p => p.name).join(', ')}</strong> wants to join the game.
               </p>
               <p className="text-sm text-muted-foreground">
                 Would you like to restart the game or continue playing?
@@ -1267,17 +1166,6 @@ const CrosswordGame = () => {
         </div>
       )}
 
-      {gamePhase !== 'playing' && (
-        <GameRoomPanel
-          roomCode={roomCode}
-          gameId={gameId || 'crossword'}
-          onPlayerJoin={handlePlayerJoin}
-          players={players}
-          gameMode={roomCode ? 'multiplayer' : 'single'}
-          onJoinRequestUpdate={handleJoinRequestUpdate}
-        />
-      )}
-
       {/* Main Game Area */}
       <div className="container mx-auto max-w-7xl">
         <div className="text-center mb-4 flex items-center justify-center gap-4">
@@ -1369,6 +1257,11 @@ const CrosswordGame = () => {
                     row.map((cell, colIndex) => {
                       const isSelected = selectedCell?.row === rowIndex && selectedCell?.col === colIndex;
                       const isInSelectedWord = selectedWordId && cell.wordIds.includes(selectedWordId);
+                      // Co-op: other players' cursors in their colours, finished words tinted by who finished them
+                      const cursorHere = isCoop ? cursors.find(c => c.row === rowIndex && c.col === colIndex) : undefined;
+                      const coopStyle: React.CSSProperties = {};
+                      if (cell.solvedBy) coopStyle.backgroundColor = `${CoopGrid.colorFor(cell.solvedBy, playerIds)}33`;
+                      if (cursorHere) coopStyle.boxShadow = `inset 0 0 0 3px ${CoopGrid.colorFor(cursorHere.childId, playerIds)}`;
                       
                       return (
                         <div
@@ -1385,9 +1278,14 @@ const CrosswordGame = () => {
                           style={{
                             aspectRatio: '1',
                             minWidth: '30px',
-                            minHeight: '30px'
+                            minHeight: '30px',
+                            ...coopStyle
                           }}
+                          title={cursorHere ? cursorHere.name : undefined}
                         >
+                          {cursorHere && (
+                            <span className="absolute -top-2 -right-2 text-xs leading-none">{cursorHere.avatar}</span>
+                          )}
                           {!cell.isBlack && cell.number && (
                             <span className="absolute top-0 left-0 text-[8px] font-normal text-gray-600 p-0.5">
                               {cell.number}
@@ -1403,6 +1301,7 @@ const CrosswordGame = () => {
 
               <div className="mt-4 text-center text-sm text-muted-foreground">
                 <p>Click a cell and type to fill in letters. Use arrow keys to navigate.</p>
+                {isCoop && <p className="mt-1">Co-op: you're all filling the same grid. Finished words lock in the finisher's colour.</p>}
                 <p className="mt-1">Click clues to highlight words on the grid.</p>
               </div>
 
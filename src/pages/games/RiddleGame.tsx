@@ -7,26 +7,25 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { useAppContext } from "@/contexts/Auth0Context";
 import { useProgress } from "@/contexts/ProgressContext";
+import { useParentControls } from "@/hooks/use-parent-controls";
 import { useToast } from '@/hooks/use-toast';
 import GameRoomPanel from "@/components/Multiplayer/GameRoomPanel";
+import RoomCountdown from "@/components/Multiplayer/RoomCountdown";
+import RoomResults from "@/components/Multiplayer/RoomResults";
+import RoomStandings from "@/components/Multiplayer/RoomStandings";
 import { AppHeader } from "@/components/Navigation/AppHeader";
-import riddlesData from "@/config/riddles.json";
-import type { Riddle, GameResult } from "@/types";
-import { supabase } from "@/integrations/supabase/client";
-
-// add attempts to Player type so we can show number of questions attempted during play
-type Player = {
-  id: string;
-  name: string;
-  avatar: string;
-  score: number;
-  attempts?: number;
-  isAI?: boolean;
-  streak?: number; // NEW
-  scoreRowId?: string | number;
-};
-
-type GamePhase = 'theme-select' | 'setup' | 'countdown' | 'playing' | 'scoreboard' | 'complete';
+import { GameRegistry } from "@/games";
+import { useGameContent } from "@/hooks/use-game-content";
+import { useMultiplayerRoom } from "@/hooks/use-multiplayer-room";
+import { DifficultyAdvisor, AnswerSample } from "@/lib/difficulty";
+import { AgeGroupFilter } from "@/lib/ageGroups";
+import { AIOpponent, AIAnswerPlan } from "@/lib/aiPlayers";
+import type { Riddle, RiddleBank } from "@/types";
+import type { RoomPlayer } from "@/types/multiplayer";
+import { GameRoomService } from "@/services/GameRoomService";
+
+// Solo games run on local timers; rooms render the phases of the server-owned session
+type GamePhase = 'theme-select' | 'countdown' | 'playing' | 'complete';
 
 const RiddleGame = () => {
   const navigate = useNavigate();
@@ -34,48 +33,70 @@ const RiddleGame = () => {
   const { gameId } = useParams();
   const { selectedChild } = useAppContext();
   const { updateGameResult } = useProgress();
+  const { controls } = useParentControls();
   const { toast } = useToast();
+  const riddlesData = useGameContent<RiddleBank>('riddle') ?? {};
 
   // Local UI / game state
-  const difficulty = searchParams.get('difficulty') || 'easy';
-  const paramRoom = searchParams.get('room')?.toUpperCase() || null;
-
-  const [roomCode, setRoomCode] = useState<string | null>(paramRoom);
-  const [players, _setPlayers] = useState<Player[]>([]);
-  const playersRef = useRef<Player[]>([]);
-  const setPlayersSafe = (next: Player[] | ((prev: Player[]) => Player[])) => {
+  const requestedDifficulty = searchParams.get('difficulty') || 'easy';
+  // Solo games may move up or down a level mid-session (adaptive difficulty)
+  const [difficulty, setDifficulty] = useState(requestedDifficulty);
+  const sessionAnswersRef = useRef<AnswerSample[]>([]);
+  const questionShownAtRef = useRef<number | null>(null);
+  const roomCode = searchParams.get('room')?.toUpperCase() || null;
+  const childId = selectedChild?.id ?? null;
+
+  // Rooms: participants, scores, the host and the round itself come from useMultiplayerRoom
+  const {
+    room,
+    status: roomStatus,
+    players: roomPlayers,
+    isHost,
+    session,
+    snapshot,
+    answers,
+    latecomers,
+    dismissLatecomers,
+    start,
+    pause,
+    resume,
+    submitAnswer
+  } = useMultiplayerRoom(roomCode, childId);
+  const isPaused = snapshot?.phase === 'paused';
+
+  // Solo games keep their players (the child and Vini) locally, in the same shape as room players
+  const [soloPlayers, _setSoloPlayers] = useState<RoomPlayer[]>([]);
+  const soloPlayersRef = useRef<RoomPlayer[]>([]);
+  const setSoloPlayers = (next: RoomPlayer[] | ((prev: RoomPlayer[]) => RoomPlayer[])) => {
     // functional or direct update supported
-    const resolved = typeof next === 'function' ? (next as (p: Player[]) => Player[])(playersRef.current) : next;
-    playersRef.current = resolved;
-    _setPlayers(resolved);
+    const resolved = typeof next === 'function' ? next(soloPlayersRef.current) : next;
+    soloPlayersRef.current = resolved;
+    _setSoloPlayers(resolved);
   };
+  const players = roomCode ? roomPlayers : soloPlayers;
 
   const [selectedCategory, setSelectedCategory] = useState<string>('Zoo Animals');
   const [gamePhase, setGamePhase] = useState<GamePhase>('theme-select');
-  const [waitingForPlayers, setWaitingForPlayers] = useState(false);
   const [currentRiddleIndex, setCurrentRiddleIndex] = useState(0);
   const [gameTimer, setGameTimer] = useState(0);
-  const [finalPlayersSnapshot, setFinalPlayersSnapshot] = useState<Player[] | null>(null);
+  const [finalPlayersSnapshot, setFinalPlayersSnapshot] = useState<RoomPlayer[] | null>(null);
   const [finalPlayerScore, setFinalPlayerScore] = useState<number | null>(null);
-  const [showNewPlayerDialog, setShowNewPlayerDialog] = useState(false);
-  const [newPlayerInfo, setNewPlayerInfo] = useState<Player | null>(null);
-  // (rematch / "play again" feature removed)
 
   const gameEndedRef = useRef(false);
-  const scoreboardPollRef = useRef<number | null>(null);
   const countdownTimerRef = useRef<number | null>(null);
   const fallbackTimeoutRef = useRef<number | null>(null);
   const gameTimerRef = useRef<number | null>(null);
+  const gameStartedAtRef = useRef<number | null>(null);
   const feedbackTimeoutRef = useRef<number | null>(null);
-  const [playerProgress, setPlayerProgress] = useState({});
-  const playerProgressRef = useRef({});
+  // Guards against recording the same solo game twice
+  const resultRecordedRef = useRef(false);
+  // Rooms: only rounds this child saw being played are recorded, and each only once
+  const playedSessionRef = useRef<string | null>(null);
+  const recordedSessionRef = useRef<string | null>(null);
 
   const GAME_DURATION = 300; // 5 minutes
 
-  // Room state
-  const [isRoomCreator, setIsRoomCreator] = useState(false);
   const [pendingJoinRequests, setPendingJoinRequests] = useState(0);
-  const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
 
   // UI states related to Q/A
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
@@ -85,233 +106,53 @@ const RiddleGame = () => {
   // NEW: transient feedback banner for answers
   const [feedbackBanner, setFeedbackBanner] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const feedbackTimerRef = useRef<number | null>(null);
+  // Friendly lines from AI players, plus their scheduled answers keyed by `${riddleId}:${name}`
+  const [aiReaction, setAiReaction] = useState<{ name: string; avatar: string; text: string } | null>(null);
+  const aiReactionTimerRef = useRef<number | null>(null);
+  const aiPendingRef = useRef<Map<string, number>>(new Map());
+  const aiAnsweredRef = useRef<Set<string>>(new Set());
 
   // NEW: confetti toggle state
   const [showConfetti, setShowConfetti] = useState(false);
   const confettiTimerRef = useRef<number | null>(null);
 
-  // Initialize room or single-player when params or selectedChild change
+  // Solo games start straight away; rooms wait in the lobby until the host starts a round
   useEffect(() => {
-    const param = searchParams.get('room')?.toUpperCase() || null;
-    setRoomCode(param);
+    if (roomCode) return;
 
-    if (param) {
-      // multiplayer mode: load participants from DB
-      loadRoomData(param);
-    } else {
-      // single player default setup (ensure attempts initialized)
-      const playerName = selectedChild?.name || 'Player';
-      setSelectedCategory('Zoo Animals');
-      const newPlayers: Player[] = [
-        {
-          id: selectedChild?.id || 'player1',
-          name: playerName,
-          avatar: selectedChild?.avatar || '👤',
-          score: 0,
-          attempts: 0,
-          streak: 0 // NEW
-        },
-        {
-          id: 'ai1',
-          name: 'Vini',
-          avatar: '🐵',
-          score: 0,
-          attempts: 0,
-          isAI: true,
-          streak: 0 // NEW
-        }
-      ];
-      setPlayersSafe(newPlayers);
-      // move to countdown mode
-      setGamePhase('countdown');
-      startCountdown();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchParams, selectedChild]);
-
-  const loadRoomData = async (roomCodeParam?: string | null) => {
-    const rc = roomCodeParam ?? roomCode;
-    if (!rc || !selectedChild) return;
-
-    try {
-      // Get room details
-      const { data: roomData } = await supabase
-        .from('game_rooms')
-        .select('*')
-        .eq('room_code', rc)
-        .single();
-
-      if (roomData) {
-        setCurrentRoomId(roomData.id);
-        setIsRoomCreator(roomData.host_child_id === selectedChild.id);
-
-        // Load room participants
-        const { data: participants } = await supabase
-          .from('room_participants')
-          .select('*')
-          .eq('room_id', roomData.id);
-
-        if (participants && participants.length) {
-          const playerList: Player[] = participants.map((p: any) => ({
-            id: p.child_id || p.id,
-            name: p.player_name || 'Player',
-            avatar: p.player_avatar || '👤',
-            score: 0,
-            attempts: 0,
-            isAI: !!p.is_ai,
-            streak: 0 // NEW
-          }));
-
-          setPlayersSafe(playerList);
-
-          // Multiplayer: when another human joins, do NOT auto-start the game.
-          const hasAI = playerList.some(p => p.isAI);
-          const humanCount = playerList.filter(p => !p.isAI).length;
-
-          if (hasAI && playerList.length === 1) {
-            // solo with AI: proceed to countdown
-            setGamePhase('countdown');
-            startCountdown();
-            await initializeGameScores(roomData.id, playerList);
-          } else if (playerList.length >= 2) {
-            // Two or more humans: show theme selection / waiting state until host chooses a theme
-            setWaitingForPlayers(false);
-            // If room already has a selected category and is already playing, follow it
-            if ((roomData as any).selected_category) {
-              setSelectedCategory((roomData as any).selected_category);
-            }
-            if (roomData.status === 'playing' && (roomData as any).selected_category) {
-              // If the server already marked the room as playing, start immediately
-              await initializeGameScores(roomData.id, playerList);
-              // Wait for DB-authoritative score reset (with fallback) before starting countdown
-              startRematchAfterDBReady(currentRoomId).catch((e) => {
-                console.error('Failed while waiting for DB reset for rematch:', e);
-                // ensure we at least start the countdown if something goes wrong
-                setGamePhase('countdown');
-                startCountdown();
-              });
-            } else {
-              // stay in theme-select so host can pick theme; guests will see waiting messages
-              setGamePhase('theme-select');
-            }
-
-            // Subscribe to participant changes to keep the player list in sync (but DO NOT auto-start)
-            const channel = supabase
-              .channel(`riddle-room-participants-${roomData.id}`)
-              .on('postgres_changes', { event: '*', schema: 'public', table: 'room_participants', filter: `room_id=eq.${roomData.id}` }, (payload) => {
-                const rec: any = payload.new || payload.old;
-                if (!rec) return;
-                const newPlayer: Player = {
-                  id: rec.child_id || rec.id,
-                  name: rec.player_name || 'Player',
-                  avatar: rec.player_avatar || '👤',
-                  score: 0,
-                  isAI: !!rec.is_ai
-                };
-                setPlayersSafe(prev => {
-                  const exists = prev.some(p => p.id === newPlayer.id);
-                  if (exists) return prev.map(p => p.id === newPlayer.id ? { ...p, ...newPlayer } : p);
-                  const next = [...prev, newPlayer];
-                  // when enough players arrive, clear waiting but do not auto-start
-                  if (next.some(p => p.isAI) || next.length >= 2) {
-                    setWaitingForPlayers(false);
-                  }
-                  return next;
-                });
-              })
-              .subscribe();
-
-            // cleanup subscription when leaving
-            const unsubscribe = () => {
-              try {
-                supabase.removeChannel(channel);
-              } catch (e) { /* ignore */ }
-            };
-            (window as any).__riddle_room_cleanup = unsubscribe;
-          } else {
-            // Wait for additional players to join
-            setWaitingForPlayers(true);
-            setGamePhase('theme-select');
-          }
-
-          // Initialize scores in database in background
-          initializeGameScores(roomData.id, playerList).catch((e) => {
-            console.error('Error initializing game scores:', e);
-          });
-        } else {
-          // No participants found, still start the game for the host (solo)
-          setPlayersSafe([{
-            id: selectedChild.id || 'player1',
-            name: selectedChild.name || 'Player',
-            avatar: selectedChild.avatar || '👤',
-            score: 0,
-            attempts: 0
-          }]);
-          setGamePhase('countdown');
-          startCountdown();
-        }
-      } else {
-        // If room not found, fallback to single player
-        const playerName = selectedChild?.name || 'Player';
-        setPlayersSafe([{
-          id: selectedChild?.id || 'player1',
-          name: playerName,
-          avatar: selectedChild?.avatar || '👤',
-          score: 0
-        }]);
-        setGamePhase('countdown');
-        startCountdown();
-      }
-    } catch (error) {
-      console.error('Error loading room data:', error);
-      // Fallback to single player
-      const playerName = selectedChild?.name || 'Player';
-      setPlayersSafe([{
+    const playerName = selectedChild?.name || 'Player';
+    setSelectedCategory('Zoo Animals');
+    setSoloPlayers([
+      {
         id: selectedChild?.id || 'player1',
         name: playerName,
         avatar: selectedChild?.avatar || '👤',
-        score: 0
-      }]);
-      setGamePhase('countdown');
-      startCountdown();
-    }
-  };
-
-  const initializeGameScores = async (roomId: string, playerList: Player[]) => {
-    try {
-      // Clear existing scores for this room
-      await supabase
-        .from('multiplayer_game_scores')
-        .delete()
-        .eq('room_id', roomId);
-
-      // Insert initial scores for all players
-      const scoreEntries = playerList.map(player => ({
-        room_id: roomId,
-        child_id: player.isAI ? null : player.id,
-        player_name: player.name,
-        player_avatar: player.avatar,
-        is_ai: player.isAI || false,
+        isAI: false,
         score: 0,
-        total_questions: 0
-      }));
-
-      const { data: insertData, error: insertError } = await supabase
-        .from('multiplayer_game_scores')
-        .insert(scoreEntries);
-
-      if (insertError) {
-        console.error('initializeGameScores insert error', insertError);
-      } else {
-        console.log('initializeGameScores inserted rows:', insertData);
+        answered: 0,
+        streak: 0
+      },
+      {
+        id: 'ai1',
+        name: 'Vini',
+        avatar: '🐵',
+        isAI: true,
+        score: 0,
+        answered: 0,
+        streak: 0
       }
+    ]);
+    // move to countdown mode
+    setGamePhase('countdown');
+    startCountdown();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, selectedChild]);
 
-      // immediately sync attempts/scores from DB (authoritative)
-      await fetchRoomScores(roomId);
-    } catch (error) {
-      console.error('Error initializing game scores:', error);
-    }
-  };
+  useEffect(() => {
+    if (!roomCode || roomStatus !== 'not-found') return;
+    toast({ title: 'Room not found', description: 'Invalid room code', variant: 'destructive' });
+    navigate('/games');
+  }, [roomCode, roomStatus, navigate, toast]);
 
   const clearIntervalRef = (ref: React.MutableRefObject<number | null>) => {
     if (ref.current) {
@@ -367,6 +208,10 @@ const RiddleGame = () => {
     // Clear any existing game timer
     clearIntervalRef(gameTimerRef);
 
+    resultRecordedRef.current = false;
+    gameStartedAtRef.current = Date.now();
+    sessionAnswersRef.current = [];
+    setDifficulty(requestedDifficulty);
     setGameTimer(GAME_DURATION);
     const id = window.setInterval(() => {
       setGameTimer(prev => {
@@ -384,7 +229,7 @@ const RiddleGame = () => {
 
   // Failsafe: ensure transition to playing when countdown completes (keeps UI consistent)
   useEffect(() => {
-    if (gamePhase === 'countdown' && countdown <= 0) {
+    if (!roomCode && gamePhase === 'countdown' && countdown <= 0) {
       setGamePhase('playing');
       startGameTimer();
     }
@@ -398,217 +243,221 @@ const RiddleGame = () => {
       clearTimeoutRef(fallbackTimeoutRef);
       clearIntervalRef(gameTimerRef);
       clearTimeoutRef(feedbackTimeoutRef);
-      clearIntervalRef(scoreboardPollRef);
-
-      // remove any supabase channel cleanup
-      const cleanup = (window as any).__riddle_room_cleanup;
-      if (typeof cleanup === 'function') {
-        try { cleanup(); } catch (e) { /* ignore */ }
-        delete (window as any).__riddle_room_cleanup;
-      }
     };
   }, []);
 
-  // Get riddles for selected category and difficulty
-  const getCategoryRiddles = (category: string) => {
-    const categoryData = (riddlesData as any)[category];
-    if (categoryData && categoryData[difficulty]) {
-      return categoryData[difficulty] as Riddle[];
+  // Get riddles for selected category and difficulty. Solo games only offer riddles
+  // suited to the child's age; a room shares one set so everyone sees the same questions.
+  const getCategoryRiddles = (category: string, level: string = difficulty) => {
+    const categoryData = riddlesData[category];
+    if (categoryData && categoryData[level]) {
+      const riddles = categoryData[level] as Riddle[];
+      return roomCode ? riddles : AgeGroupFilter.filter(riddles, selectedChild?.age_group);
     }
     return [];
   };
 
-  const gameRiddles = getCategoryRiddles(selectedCategory) || [];
+  // In a room the session fixes the theme, level and question order for everyone
+  const gameRiddles = session
+    ? session.data.questionIds
+        .map(id => (riddlesData[session.data.theme]?.[session.data.difficulty] ?? []).find(r => r.id === id))
+        .filter((r): r is Riddle => !!r)
+    : getCategoryRiddles(selectedCategory) || [];
   const currentRiddle = gameRiddles[currentRiddleIndex];
 
-  // Helper to ensure UI never shows attempts greater than the number of questions.
-  // Defensive behavior:
-  // - During active play, don't show attempts higher than the number of questions seen so far
-  //   (currentRiddleIndex + 1). This avoids flashes showing full completion from stale DB rows.
-  // - Outside of playing (scoreboard/complete), show the authoritative DB value up to the
-  //   total game length.
-  const safeAttempts = (p: Player) => {
-    const raw = p.attempts ?? 0;
-    const totalGameLen = Math.max(1, gameRiddles.length);
-    if (gamePhase === 'playing') {
-      // Only allow attempts up to the number of questions that have been presented so far
-      const maxVisible = Math.max(1, currentRiddleIndex + 1);
-      return Math.min(raw, maxVisible);
+  // Rooms: a new round (or the same one after a refresh) starts from a clean slate
+  const sessionId = session?.id ?? null;
+  useEffect(() => {
+    if (!session) return;
+    clearAITimers();
+    aiAnsweredRef.current.clear();
+    clearTimeoutRef(feedbackTimeoutRef);
+    setSelectedCategory(session.data.theme);
+    setDifficulty(session.data.difficulty);
+    setSelectedAnswer(null);
+    setShowFeedback(false);
+    gameStartedAtRef.current = Date.parse(session.data.startsAt);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  // Rooms: phase, question and timer all come from the session snapshot
+  useEffect(() => {
+    if (!session || !snapshot) return;
+
+    if (snapshot.phase === 'finished') {
+      setGamePhase('complete');
+      return;
+    }
+    if (snapshot.phase === 'countdown') {
+      setGamePhase('countdown');
+      return;
     }
-    // scoreboard/complete/etc: show up to the full game length
-    return Math.min(raw, totalGameLen);
-  };
 
-  const humanPlayersCount = players.filter(p => !p.isAI).length;
-  const hostCanSelectTheme = !!roomCode ? (isRoomCreator && humanPlayersCount >= 2) : true;
-  const canSelectTheme = hostCanSelectTheme;
-
-  // Use local transient players during active play to avoid flashes from DB sync
-  const visiblePlayers: Player[] = gamePhase === 'playing' ? (playersRef.current || players) : players;
-
-  const simulateAIAnswers = () => {
-    // Simulate AI players answering with random delays
-    const aiPlayers = playersRef.current.filter(p => p.isAI);
-    aiPlayers.forEach((aiPlayer, index) => {
-      const delay = (index + 1) * 1500 + Math.random() * 1000;
-      setTimeout(async () => {
-        const isCorrect = Math.random() > 0.4; // 60% chance correct
-        // Update AI streak/score/attempts locally
-        setPlayersSafe(prev => prev.map(p => {
-          if (p.id !== aiPlayer.id) return p;
-          const newStreak = isCorrect ? (p.streak ?? 0) + 1 : 0;
-          return { ...p, score: p.score + (isCorrect ? 1 : 0), attempts: (p.attempts ?? 0) + 1, streak: newStreak };
-        }));
-        // Update AI score in database for multiplayer
-        if (currentRoomId) {
-          await updateAIPlayerScore(aiPlayer.id, isCorrect ? 1 : 0);
-        }
-      }, delay);
+    playedSessionRef.current = session.id;
+    setGamePhase('playing');
+    setCurrentRiddleIndex(snapshot.questionIndex);
+    setGameTimer(snapshot.secondsRemaining);
+  }, [session, snapshot]);
+
+  // Rooms: each question takes one answer; the next one opens when the session moves on.
+  // A question answered before a refresh comes back locked with the answer that was given.
+  const previousAnswer = session && currentRiddle ? answers[currentRiddle.id]?.answer ?? null : null;
+  useEffect(() => {
+    if (!sessionId) return;
+    clearTimeoutRef(feedbackTimeoutRef);
+    setShowFeedback(previousAnswer !== null);
+    setSelectedAnswer(previousAnswer);
+  }, [sessionId, currentRiddleIndex, previousAnswer]);
+
+  const recordResult = (correct: number, total: number, durationSeconds?: number) => {
+    if (!selectedChild) return;
+    const starsEarned = GameRegistry.calculateStars('riddle', correct, total);
+    updateGameResult({
+      gameId: 'riddle',
+      profileId: selectedChild.id,
+      difficulty,
+      correct,
+      total,
+      starsEarned,
+      theme: selectedCategory,
+      durationSeconds,
+      endedAt: new Date().toISOString()
+    });
+
+    toast({
+      title: `Game Complete! ${starsEarned} ⭐`,
+      description: `You got ${correct}/${total} correct!`,
     });
   };
 
-  const updateAIPlayerScore = async (aiPlayerId: string, scoreIncrement: number) => {
-    if (!currentRoomId) return;
+  // Rooms: record the finished round in the child's progress once
+  const myRoomCorrect = Object.values(answers).filter(a => a.correct).length;
+  const roundFinished = snapshot?.phase === 'finished';
+  useEffect(() => {
+    if (!session || !roundFinished || !selectedChild) return;
+    if (playedSessionRef.current !== session.id || recordedSessionRef.current === session.id) return;
+    recordedSessionRef.current = session.id;
+    recordResult(
+      myRoomCorrect,
+      session.data.questionIds.length,
+      Math.round((Date.now() - Date.parse(session.data.startsAt) - session.data.pausedMs) / 1000)
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, roundFinished, selectedChild]);
 
-    try {
-      // Find the AI entry by name within this room (child_id null)
-      const aiPlayer = playersRef.current.find(p => p.id === aiPlayerId);
-      if (!aiPlayer) return;
-      const { data: currentScore } = await supabase
-        .from('multiplayer_game_scores')
-        .select('score, total_questions')
-        .eq('room_id', currentRoomId)
-        .eq('is_ai', true)
-        .eq('child_id', null)
-        .eq('player_name', aiPlayer.name)
-        .single();
-
-      if (currentScore) {
-        console.log('updateAIPlayerScore: updating AI row', { room: currentRoomId, player: aiPlayer.name, inc: scoreIncrement, prev: currentScore });
-        const { data: updData, error: updError } = await supabase
-          .from('multiplayer_game_scores')
-          .update({
-            score: currentScore.score + scoreIncrement,
-            total_questions: currentScore.total_questions + 1
-          })
-          .eq('room_id', currentRoomId)
-          .eq('is_ai', true)
-          .eq('child_id', null)
-          .eq('player_name', aiPlayer.name)
-          .select();
-        if (updError) console.error('updateAIPlayerScore update error', updError);
-        else console.log('updateAIPlayerScore update result', updData);
-        // sync local players from DB after updating
-        await fetchRoomScores(currentRoomId);
-      }
-    } catch (error) {
-      console.error('Error updating AI player score:', error);
+  // AI players answer each question on their own clock, whether or not the child has answered.
+  // Skill follows the difficulty (or the parent's setting); personality sets speed, accuracy and
+  // chatter. In rooms only the host's device plays them, so each AI answer is scored once.
+  useEffect(() => {
+    if (isPaused) {
+      clearAITimers(); // rescheduled when the game resumes
+      return;
     }
-  };
+    if (gamePhase !== 'playing' || !currentRiddle) return;
+    if (roomCode && !isHost) return;
 
-  // Fetch latest scores from DB and reconcile into local players state
-  const fetchRoomScores = async (roomId: string | null) => {
-    if (!roomId) return;
-    try {
-      const { data: rows, error, status } = await supabase
-        .from('multiplayer_game_scores')
-        .select('child_id, player_name, player_avatar, is_ai, score, total_questions')
-        .eq('room_id', roomId);
-
-      if (error) {
-        console.error('fetchRoomScores error', error, status);
-        return;
-      }
-      if (!rows) return;
-
-      console.log('fetchRoomScores:', roomId, rows.map((r: any) => ({ player_name: r.player_name, total_questions: r.total_questions, score: r.score })));
-
-      // Build authoritative player list from DB rows, mapping total_questions -> attempts
-      const nextPlayers: Player[] = rows.map((r: any) => ({
-        id: r.child_id ?? `ai-${r.player_name}`,
-        name: r.player_name,
-        avatar: r.player_avatar ?? '👤',
-        score: typeof r.score === 'number' ? r.score : 0,
-        attempts: typeof r.total_questions === 'number' ? r.total_questions : 0,
-        isAI: !!r.is_ai,
-        streak: 0, // DB doesn't track streaks — start at 0 on sync
-        scoreRowId: r.id
-      }));
-
-      setPlayersSafe(nextPlayers);
-    } catch (err) {
-      console.error('fetchRoomScores failed', err);
-    }
-  };
+    const riddle = currentRiddle;
+    const skill = AIOpponent.resolveSkill(controls?.aiOpponent?.skill, difficulty);
+    // Rooms: answer before the question closes, leaving time for the request to arrive
+    const maxDelayMs = snapshot ? Math.max(1000, snapshot.secondsRemaining * 1000 - 1500) : undefined;
 
-    // Wait for DB to reflect a reset of multiplayer_game_scores (attempts === 0 for all players)
-    // This reduces flashing stale attempt counts when a rematch is accepted.
-    const startRematchAfterDBReady = async (roomId: string | null, timeout = 2500) => {
-      if (!roomId) {
-        setGamePhase('countdown');
-        startCountdown();
-        return;
-      }
+    players.filter(p => p.isAI).forEach(aiPlayer => {
+      const key = `${riddle.id}:${aiPlayer.name}`;
+      if (aiAnsweredRef.current.has(key) || aiPendingRef.current.has(key)) return;
 
-      const deadline = Date.now() + timeout;
-      const pollInterval = 300;
-
-      while (Date.now() < deadline) {
-        try {
-          await fetchRoomScores(roomId);
-          const playersNow = playersRef.current || players;
-          const allZero = playersNow.length === 0 || playersNow.every(p => (p.attempts ?? 0) === 0);
-          if (allZero) {
-            setGamePhase('countdown');
-            startCountdown();
-            return;
-          }
-        } catch (e) {
-          // ignore and retry
-        }
-        // small delay before retrying
-        // eslint-disable-next-line no-await-in-loop
-        await new Promise(res => setTimeout(res, pollInterval));
-      }
+      const plan = AIOpponent.planAnswer(AIOpponent.getPersonality(aiPlayer.name), skill, {
+        streak: aiPlayer.streak,
+        maxDelayMs
+      });
+      aiPendingRef.current.set(key, window.setTimeout(() => {
+        aiPendingRef.current.delete(key);
+        aiAnsweredRef.current.add(key);
+        answerAsAI(aiPlayer, riddle, plan);
+      }, plan.delayMs));
+    });
+    // Pending answers for earlier questions still land, so no cleanup here
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gamePhase, isPaused, currentRiddle?.id, roomCode, isHost]);
 
-      // fallback: start countdown anyway
-      setGamePhase('countdown');
-      startCountdown();
-    };
+  useEffect(() => () => {
+    clearAITimers();
+    clearTimeoutRef(aiReactionTimerRef);
+  }, []);
 
-  const handlePlayerJoin = (newPlayer: any) => {
-    // Add new player if not already in the list
-    const exists = playersRef.current.find(p => p.id === newPlayer.id);
-    if (!exists && gamePhase === 'playing') {
-      // Show dialog asking if game should restart
-      setNewPlayerInfo({
-        id: newPlayer.id,
-        name: newPlayer.name,
-        avatar: newPlayer.avatar,
-        score: 0,
-        attempts: 0,
-        isAI: newPlayer.isAI
-      });
-      setShowNewPlayerDialog(true);
-    } else if (!exists) {
-      setPlayersSafe(prev => [...prev, {
-        id: newPlayer.id,
-        name: newPlayer.name,
-        avatar: newPlayer.avatar,
-        score: 0,
-        attempts: 0,
-        isAI: newPlayer.isAI
-      }]);
-    }
+  // Time each question from when it's shown
+  useEffect(() => {
+    if (gamePhase === 'playing') questionShownAtRef.current = Date.now();
+  }, [gamePhase, currentRiddleIndex]);
+
+  /**
+   * Moves a solo game up or down a level based on the last few answers.
+   * Skipped when a parent has pinned the difficulty or switched adaptive difficulty off;
+   * rooms never call it, since everyone shares the riddle set.
+   */
+  const adaptDifficulty = (isCorrect: boolean) => {
+    const shownAt = questionShownAtRef.current;
+    sessionAnswersRef.current.push({
+      correct: isCorrect,
+      seconds: shownAt ? (Date.now() - shownAt) / 1000 : 0
+    });
+
+    const adaptive = controls?.difficulty?.adaptive ?? true;
+    if (!adaptive || controls?.difficulty?.pinned?.riddle) return;
+
+    const game = GameRegistry.get('riddle');
+    if (!game) return;
+
+    const next = DifficultyAdvisor.adjustDuringSession(difficulty, sessionAnswersRef.current, {
+      difficulties: game.difficulties,
+      targetSecondsPerQuestion: game.adaptive?.targetSecondsPerQuestion
+    });
+    // Only switch if the new set has riddles left to play from this point
+    if (next === difficulty || getCategoryRiddles(selectedCategory, next).length <= currentRiddleIndex + 1) return;
+
+    sessionAnswersRef.current = [];
+    setDifficulty(next);
+    const harder = game.difficulties.indexOf(next) > game.difficulties.indexOf(difficulty);
+    toast({
+      title: harder ? 'Level up! 🚀' : 'Let\'s try some easier ones 🌱',
+      description: `Switching to ${next} riddles`,
+    });
   };
 
-  const handleNewPlayerResponse = (restart: boolean) => {
-    if (newPlayerInfo) {
-      setPlayersSafe(prev => [...prev, newPlayerInfo]);
-      // Rematch / "Play Again" logic removed — do not trigger a rematch when a new player joins
+  const clearAITimers = () => {
+    aiPendingRef.current.forEach(id => window.clearTimeout(id));
+    aiPendingRef.current.clear();
+  };
+
+  const showAIReaction = (aiPlayer: RoomPlayer, text: string) => {
+    clearTimeoutRef(aiReactionTimerRef);
+    setAiReaction({ name: aiPlayer.name, avatar: aiPlayer.avatar, text });
+    aiReactionTimerRef.current = window.setTimeout(() => setAiReaction(null), 2500);
+  };
+
+  const answerAsAI = async (aiPlayer: RoomPlayer, riddle: Riddle, plan: AIAnswerPlan) => {
+    if (gameEndedRef.current) return;
+    const wrongOptions = riddle.options.filter((_, i) => i !== riddle.correctAnswer);
+    const answer = plan.correct
+      ? riddle.options[riddle.correctAnswer]
+      : wrongOptions[Math.floor(Math.random() * wrongOptions.length)];
+    if (plan.reaction) showAIReaction(aiPlayer, plan.reaction);
+
+    // Rooms: the server scores the AI's answer like anyone else's
+    if (roomCode) {
+      try {
+        await submitAnswer(riddle.id, answer, aiPlayer.name);
+      } catch (error) {
+        console.error('AI answer failed:', error);
+      }
+      return;
     }
-    setShowNewPlayerDialog(false);
-    setNewPlayerInfo(null);
+
+    // Update AI streak/score/answered locally
+    setSoloPlayers(prev => prev.map(p => {
+      if (p.id !== aiPlayer.id) return p;
+      const newStreak = plan.correct ? p.streak + 1 : 0;
+      return { ...p, score: p.score + (plan.correct ? 1 : 0), answered: p.answered + 1, streak: newStreak };
+    }));
   };
 
   // KEYBOARD SHORTCUTS: A/B/C/D or 1-4 to select options
@@ -646,7 +495,7 @@ const RiddleGame = () => {
   };
 
   const handleAnswerSelect = async (answer: string) => {
-    if (showFeedback || gameEndedRef.current) return;
+    if (showFeedback || gameEndedRef.current || isPaused) return;
     if (!currentRiddle) return;
 
     setSelectedAnswer(answer);
@@ -656,23 +505,6 @@ const RiddleGame = () => {
     const correctText = currentRiddle.options[correctIdx];
     const isCorrect = answer === correctText;
 
-  const playerId = selectedChild?.id ?? 'player1';
-  console.log('handleAnswerSelect:', { playerId, answer, isCorrect, currentIndex: currentRiddleIndex, total: gameRiddles.length });
-    const baseIncrement = isCorrect ? 1 : 0;
-
-    // compute streak locally & update players
-    setPlayersSafe(prev => prev.map(p => {
-      if (p.id !== playerId) return p;
-      const prevStreak = p.streak ?? 0;
-      const newStreak = isCorrect ? prevStreak + 1 : 0;
-      return {
-        ...p,
-        score: p.score + baseIncrement,
-        attempts: (p.attempts ?? 0) + 1,
-        streak: newStreak
-      };
-    }));
-
     // Feedback & confetti
     if (isCorrect) {
       showTemporaryFeedback(`Correct! 🔥 Streak +1`, 'success');
@@ -681,18 +513,31 @@ const RiddleGame = () => {
       showTemporaryFeedback(`Oops — that's incorrect. 😕`, 'error');
     }
 
-    // Persist base score if multiplayer
-    if (currentRoomId) {
+    // Rooms: the server scores the answer, and the feedback stays up until the session
+    // opens the next question
+    if (roomCode) {
       try {
-        await updatePlayerScore(playerId, baseIncrement);
-        await fetchRoomScores(currentRoomId);
-      } catch (err) {
-        console.error('updatePlayerScore failed', err);
+        await submitAnswer(currentRiddle.id, answer);
+      } catch (error) {
+        console.error('Failed to submit answer:', error);
+        toast({ title: "Couldn't send your answer", variant: 'destructive' });
       }
+      return;
     }
 
-    // simulate AI answers (unchanged but AI now updates streak)
-    simulateAIAnswers();
+    // compute streak locally & update players
+    const playerId = selectedChild?.id ?? 'player1';
+    setSoloPlayers(prev => prev.map(p => {
+      if (p.id !== playerId) return p;
+      return {
+        ...p,
+        score: p.score + (isCorrect ? 1 : 0),
+        answered: p.answered + 1,
+        streak: isCorrect ? p.streak + 1 : 0
+      };
+    }));
+
+    adaptDifficulty(isCorrect);
 
     // store feedback timeout so finishGame can clear it
     clearTimeoutRef(feedbackTimeoutRef);
@@ -704,66 +549,6 @@ const RiddleGame = () => {
     }, 2000);
   };
 
-  const updatePlayerScore = async (playerId: string, scoreIncrement: number) => {
-    // Persist only; local state should be updated by caller via setPlayersSafe
-    if (!currentRoomId) return;
-    try {
-      // Find the player's DB row
-      const player = playersRef.current.find(p => p.id === playerId);
-      console.log('updatePlayerScore called', { room: currentRoomId, playerId, playerName: player?.name, inc: scoreIncrement });
-      if (!player) return;
-
-      // Attempt to get existing row
-      const { data: currentScore, error: curErr } = await supabase
-        .from('multiplayer_game_scores')
-        .select('score, total_questions')
-        .eq('room_id', currentRoomId)
-        .eq('player_name', player.name)
-        .eq('child_id', player.isAI ? null : playerId)
-        .maybeSingle();
-
-      if (curErr) console.error('updatePlayerScore fetch currentScore error', curErr);
-      else console.log('updatePlayerScore fetched currentScore', currentScore);
-
-      if (currentScore) {
-        const { data: updData, error: updErr } = await supabase
-          .from('multiplayer_game_scores')
-          .update({
-            score: currentScore.score + scoreIncrement,
-            total_questions: currentScore.total_questions + 1
-          })
-          .eq('room_id', currentRoomId)
-          .eq('player_name', player.name)
-          .eq('child_id', player.isAI ? null : playerId)
-          .select();
-        if (updErr) console.error('updatePlayerScore update error', updErr);
-        else console.log('updatePlayerScore update result', updData);
-        // refresh local copy after update
-        await fetchRoomScores(currentRoomId);
-      } else {
-        // If row missing, insert a row for this player
-        const { data: insData, error: insErr } = await supabase
-          .from('multiplayer_game_scores')
-          .insert([{ 
-            room_id: currentRoomId,
-            child_id: player.isAI ? null : playerId,
-            player_name: player.name,
-            player_avatar: player.avatar,
-            is_ai: player.isAI || false,
-            score: scoreIncrement,
-            total_questions: 1
-          }])
-          .select();
-        if (insErr) console.error('updatePlayerScore insert error', insErr);
-        else console.log('updatePlayerScore insert result', insData);
-        // and refresh
-        await fetchRoomScores(currentRoomId);
-      }
-    } catch (err) {
-      console.error('Failed to persist player score', err);
-    }
-  };
-
   const nextQuestion = () => {
     if (currentRiddleIndex < gameRiddles.length - 1) {
       setCurrentRiddleIndex(prev => prev + 1);
@@ -775,121 +560,14 @@ const RiddleGame = () => {
     }
   };
 
-  const finishGame = async () => {
-    if (gameEndedRef.current) return; // idempotent
-
-    const totalQuestions = Math.max(1, gameRiddles.length);
-    const playerId = selectedChild?.id || 'player1';
-
-    // Persist latest scores first
-    if (currentRoomId) {
-      try { await fetchRoomScores(currentRoomId); } catch (e) { /* ignore */ }
-
-      // Tell the server this player has finished their questions. The server will
-      // update a room-level player_progress and, if everyone finished, mark the room as finished.
-      try {
-        let res: any;
-        try {
-          res = await supabase.functions.invoke('manage-game-rooms', {
-            body: {
-              action: 'mark_player_finished',
-              room_id: currentRoomId,
-              child_id: playerId,
-              total_questions: totalQuestions
-            }
-          });
-        } catch (err: any) {
-          console.error('manage-game-rooms invoke threw', err);
-          // Try to read response body if present (helps surface server error message)
-          const resp = err?.response;
-          if (resp && typeof resp.text === 'function') {
-            try {
-              const txt = await resp.text();
-              console.error('manage-game-rooms response body (error):', txt);
-            } catch (e) { /* ignore */ }
-          }
-          throw err;
-        }
-
-        // Log full response for debugging (helps explain 400s)
-        try {
-          console.log('manage-game-rooms invoke response', res);
-          if (res?.error) {
-            console.error('manage-game-rooms invoke returned error', res.error);
-            const resp = res?.response;
-            if (resp && typeof resp.text === 'function') {
-              try {
-                const txt = await resp.text();
-                console.error('manage-game-rooms response body:', txt);
-              } catch (e) { /* ignore */ }
-            }
-          }
-        } catch (e) {
-          console.error('Failed to log manage-game-rooms response', e);
-        }
-
-        // res.data may include { all_finished: boolean }
-        const resp = res.data;
-        const allFinished = resp?.all_finished ?? false;
-
-        if (allFinished) {
-          // server decided everyone finished — finalize immediately
-          await finalizeGame();
-          return;
-        }
-
-        // Not everyone finished yet — show waiting scoreboard and rely on realtime updates
-        setGamePhase('scoreboard');
-        gameEndedRef.current = true;
-
-        // Fallback poll in case realtime misses the final update
-        clearIntervalRef(scoreboardPollRef);
-        scoreboardPollRef.current = window.setInterval(async () => {
-          try {
-            await fetchRoomScores(currentRoomId);
-            const nowAll = (playersRef.current || players).every(p => (p.attempts ?? 0) >= totalQuestions);
-            if (nowAll) {
-              clearIntervalRef(scoreboardPollRef);
-              await finalizeGameAfterWait();
-            }
-          } catch (e) { /* ignore */ }
-        }, 2000);
-
-        return;
-      } catch (err) {
-        console.error('mark_player_finished failed', err);
-        // fallback to previous behaviour
-        const allFinished = (playersRef.current || players).every(p => (p.attempts ?? 0) >= totalQuestions);
-        if (!allFinished) {
-          setGamePhase('scoreboard');
-          gameEndedRef.current = true;
-          return;
-        }
-      }
-    }
-
-    // Single-player or fallback: finalize immediately
-    await finalizeGame();
-  };
-
-  const finalizeGameAfterWait = async () => {
-    // Called when polling/realtime detects all players finished
-    await finalizeGame();
-  };
-
-  const finalizeGame = async () => {
-    if (gameEndedRef.current !== true) {
-      // ensure we mark ended
-      gameEndedRef.current = true;
-    }
-
-    // attempt to sync final DB scores before snapshotting
-    if (currentRoomId) {
-      try { await fetchRoomScores(currentRoomId); } catch (e) { /* ignore */ }
-    }
+  // Solo only: rooms finish when the session's clock runs out (see useMultiplayerRoom)
+  const finishGame = () => {
+    if (resultRecordedRef.current) return;
+    resultRecordedRef.current = true;
+    gameEndedRef.current = true;
 
     // compute and store a final snapshot before switching to complete phase
-    const finalPlayers = (playersRef.current && playersRef.current.length) ? playersRef.current : players;
+    const finalPlayers = soloPlayersRef.current;
     const playerScore = finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'))?.score ?? 0;
 
     // store snapshot into state so UI reads this stable copy
@@ -904,316 +582,90 @@ const RiddleGame = () => {
     clearIntervalRef(gameTimerRef);
     clearTimeoutRef(fallbackTimeoutRef);
     clearTimeoutRef(feedbackTimeoutRef);
-    clearIntervalRef(scoreboardPollRef);
-
-    // compute totals & persist using the snapshot
-    const totalQuestions = Math.max(1, currentRiddleIndex + 1);
-    const percentage = (playerScore / totalQuestions);
-    let starsEarned = 1;
-    if (percentage >= 0.8) starsEarned = 3;
-    else if (percentage >= 0.6) starsEarned = 2;
-
-    const gameResult: GameResult = {
-      gameId: 'riddle',
-      profileId: selectedChild?.id || '',
-      difficulty,
-      correct: playerScore,
-      total: totalQuestions,
-      starsEarned,
-      endedAt: new Date().toISOString()
-    };
-    updateGameResult(gameResult);
 
-    toast({
-      title: `Game Complete! ${starsEarned} ⭐`,
-      description: `You got ${playerScore}/${totalQuestions} correct!`,
-    });
+    recordResult(
+      playerScore,
+      Math.max(1, currentRiddleIndex + 1),
+      gameStartedAtRef.current ? Math.round((Date.now() - gameStartedAtRef.current) / 1000) : undefined
+    );
   };
 
-  // Rematch / "Play Again" feature removed: handlePlayAgain no longer exists
-
-  // Rematch accept/decline handlers removed
   const handleJoinRequestUpdate = (requestCount: number) => {
     setPendingJoinRequests(requestCount);
   };
 
-  // Rematch / "play again" tracking removed
-
-  // Cleanup any temporary room subscriptions created by loadRoomData
-  useEffect(() => {
-    return () => {
-      const cleanup = (window as any).__riddle_room_cleanup;
-      if (typeof cleanup === 'function') {
-        try { cleanup(); } catch (e) { /* ignore */ }
-        delete (window as any).__riddle_room_cleanup;
-      }
-    };
-  }, []);
-
-  const handleThemeSelect = (theme: string) => {
-    // If this is a multiplayer room, only the room creator may select the theme
-    if (roomCode && !isRoomCreator) {
-      toast({ title: 'Waiting for host', description: 'Only the room creator can select the theme', variant: 'default' });
+  // Rooms: the host picks the theme for everyone before starting a round
+  const handleThemeSelect = async (theme: string) => {
+    if (!roomCode) {
+      setSelectedCategory(theme);
       return;
     }
-
-    setSelectedCategory(theme);
-
-    if (roomCode && isRoomCreator) {
-      // Persist selection to the room so other participants receive it via realtime
-      (async () => {
-        try {
-          // Persist only the selected category; don't mark as playing yet — host will start the game explicitly
-          await supabase
-            .from('game_rooms')
-            .update({ selected_category: theme } as any)
-            .eq('room_code', roomCode);
-        } catch (e) {
-          console.error('Failed to update room with selected theme', e);
-        }
-      })();
+    if (!isHost) {
+      toast({ title: 'Waiting for host', description: 'Only the room creator can select the theme', variant: 'default' });
+      return;
     }
-    // remain in theme-select until host explicitly starts the game
-  };
-
-  // Subscribe to game_rooms updates so invited players learn when the host starts
-  useEffect(() => {
-    // subscribe to game_rooms updates by room code when available, otherwise by room id
-    const filterBy = roomCode ? `room_code=eq.${roomCode}` : (currentRoomId ? `id=eq.${currentRoomId}` : null);
-    if (!filterBy) return;
-
-    const channelName = `game-room-updates-${roomCode ?? currentRoomId}`;
-
-    console.log('subscribing to game_rooms updates with filter', filterBy, 'channelName', channelName);
-    const channel = supabase
-      .channel(channelName)
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'game_rooms', filter: filterBy }, (payload) => {
-        const rec: any = payload.new;
-        if (!rec) return;
-
-        // If host selected a category, apply it locally even if status isn't 'playing' yet
-        if (rec.selected_category) {
-          setSelectedCategory(rec.selected_category);
-          setWaitingForPlayers(false);
-        }
-
-        // Sync player progress if present
-        if (rec.player_progress) {
-          setPlayerProgress(rec.player_progress);
-          playerProgressRef.current = rec.player_progress;
-        }
-
-              // Only transition to countdown when server sets status='playing'
-            if (rec.status === 'playing') {
-              // (rematch / play-again gating removed)
-              // Rematch / new game started on server: ensure local state is fully reset
-              try {
-                // clear any running timers to avoid leftover timers from previous game
-                gameEndedRef.current = false;
-                clearIntervalRef(countdownTimerRef);
-                clearIntervalRef(gameTimerRef);
-                clearTimeoutRef(fallbackTimeoutRef);
-                clearTimeoutRef(feedbackTimeoutRef);
-                clearIntervalRef(scoreboardPollRef);
-
-                // reset question index and transient UI state
-                setCurrentRiddleIndex(0);
-                setSelectedAnswer(null);
-                setShowFeedback(false);
-                setFinalPlayersSnapshot(null);
-                setFinalPlayerScore(null);
-
-                // reset local player scores/attempts/streaks optimistically; DB will send authoritative values
-                setPlayersSafe(prev => prev.map(p => ({ ...p, score: 0, attempts: 0, streak: 0 })));
-              } catch (e) {
-                console.error('Error resetting local state for rematch:', e);
-              }
-
-              setGamePhase('countdown');
-              startCountdown();
-            }
-
-        // If server marks room finished (all players finished), finalize locally
-        if (rec.status === 'finished') {
-          // ensure we snapshot latest scores and move to complete
-          finalizeGame().catch((e) => console.error('Failed to finalize on room finished update', e));
-        }
-
-        /* rematch / "play again" realtime handling removed */
-      })
-      .subscribe();
-
-    return () => { try { supabase.removeChannel(channel); } catch (e) { /* ignore */ } };
-  }, [roomCode, currentRoomId, selectedChild?.id]);
-
-  // Poll fallback: some clients have occasionally missed the realtime 'game_rooms'
-  // update for play_again_request. To make delivery more resilient, poll the
-  // room row a few times shortly after joining/loading the room and when the
-  // component mounts. This is low-cost and only runs for a short window.
-  // Poll fallback for play_again_request removed
-
-  // Sync multiplayer scores in realtime so everyone sees updated scores as answers are recorded
-  useEffect(() => {
-    if (!currentRoomId) return;
-
-    const channel = supabase
-      .channel(`multiplayer-scores-${currentRoomId}`)
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'multiplayer_game_scores', filter: `room_id=eq.${currentRoomId}` },
-        (payload) => {
-          try {
-            // Prefer incremental updates based on the changed row to avoid overwriting
-            // other players' local state when one player's row changes.
-            const newRow: any = payload.new;
-            const oldRow: any = payload.old;
-
-            if (newRow) {
-              const id = newRow.child_id ?? `ai-${newRow.player_name}`;
-              const updatedPlayer: Player = {
-                id,
-                name: newRow.player_name,
-                avatar: newRow.player_avatar ?? '👤',
-                score: typeof newRow.score === 'number' ? newRow.score : 0,
-                attempts: typeof newRow.total_questions === 'number' ? newRow.total_questions : 0,
-                isAI: !!newRow.is_ai,
-                streak: 0
-              };
-
-              setPlayersSafe(prev => {
-                const exists = prev.some(p => p.id === id);
-                if (exists) {
-                  return prev.map(p => p.id === id ? { ...p, score: updatedPlayer.score, attempts: updatedPlayer.attempts } : p);
-                }
-                // If not present, append (new participant)
-                return [...prev, updatedPlayer];
-              });
-              return;
-            }
-
-            if (oldRow && payload.eventType === 'DELETE') {
-              const id = oldRow.child_id ?? `ai-${oldRow.player_name}`;
-              setPlayersSafe(prev => prev.filter(p => p.id !== id));
-              return;
-            }
-
-            // Fallback: when payload isn't structured as expected, do a full refresh
-            fetchRoomScores(currentRoomId).catch(() => { /* ignore */ });
-          } catch (e) {
-            // If anything goes wrong parsing the payload, fallback to full refresh
-            fetchRoomScores(currentRoomId).catch(() => { /* ignore */ });
-          }
-        }
-      )
-      .subscribe();
-
-    return () => { supabase.removeChannel(channel); };
-  }, [currentRoomId]);
-
-  // Host explicit start handler: persist 'playing' status and kick off countdown
-  const startGameAsHost = async () => {
-    if (!roomCode || !currentRoomId) return;
+    if (!room || !childId) return;
 
     try {
-      // Ensure initial scores exist for participants
-      await initializeGameScores(currentRoomId, playersRef.current);
+      await GameRoomService.updateSettings(room.id, childId, { theme });
     } catch (e) {
-      console.error('Failed to initialize scores before starting', e);
+      console.error('Failed to update room with selected theme', e);
+      toast({ title: "Couldn't change the theme", variant: 'destructive' });
     }
+  };
 
+  // Host only: the server resets scores and opens a session everyone follows.
+  // restart abandons a round in progress, e.g. so a friend who just joined can play too.
+  const startGameAsHost = async (options: { restart?: boolean } = {}) => {
     try {
-      await supabase
-        .from('game_rooms')
-        .update({ status: 'playing' })
-        .eq('room_code', roomCode);
+      await start(options);
     } catch (e) {
-      console.error('Failed to set room status to playing', e);
+      console.error('Failed to start the game', e);
+      toast({
+        title: 'Error',
+        description: e instanceof Error ? e.message : 'Failed to start the game. Please try again.',
+        variant: 'destructive'
+      });
     }
+  };
 
-    // Local optimistic transition while realtime notifies others
+  const togglePause = async () => {
     try {
-      // reset transient state locally so host sees a fresh countdown/game
-      gameEndedRef.current = false;
-      clearIntervalRef(countdownTimerRef);
-      clearIntervalRef(gameTimerRef);
-      clearTimeoutRef(fallbackTimeoutRef);
-      clearTimeoutRef(feedbackTimeoutRef);
-      clearIntervalRef(scoreboardPollRef);
-
-      setCurrentRiddleIndex(0);
-      setSelectedAnswer(null);
-      setShowFeedback(false);
-      setFinalPlayersSnapshot(null);
-      setFinalPlayerScore(null);
-      setPlayersSafe(prev => prev.map(p => ({ ...p, score: 0, attempts: 0, streak: 0 })));
+      await (isPaused ? resume() : pause());
     } catch (e) {
-      console.error('Failed to reset local state before host start:', e);
+      console.error('Failed to pause or resume the game', e);
     }
+  };
 
-    setGamePhase('countdown');
-    setWaitingForPlayers(false);
-    startCountdown();
+  const handleNewPlayerResponse = (restart: boolean) => {
+    dismissLatecomers();
+    if (restart) startGameAsHost({ restart: true });
   };
 
-  const handlePlayAgain = async () => {
-    // Reset game state and restart in the same room
-    try {
-      // Reset timers and intervals
-      gameEndedRef.current = false;
-      clearIntervalRef(countdownTimerRef);
-      clearIntervalRef(gameTimerRef);
-      clearTimeoutRef(fallbackTimeoutRef);
-      clearTimeoutRef(feedbackTimeoutRef);
-      clearIntervalRef(scoreboardPollRef);
+  // Solo only; rooms start another round through RematchPanel
+  const handlePlayAgain = () => {
+    // Reset timers and intervals
+    gameEndedRef.current = false;
+    clearAITimers();
+    aiAnsweredRef.current.clear();
+    clearIntervalRef(countdownTimerRef);
+    clearIntervalRef(gameTimerRef);
+    clearTimeoutRef(fallbackTimeoutRef);
+    clearTimeoutRef(feedbackTimeoutRef);
 
-      // Reset game state
-      setCurrentRiddleIndex(0);
-      setSelectedAnswer(null);
-      setShowFeedback(false);
-      setFinalPlayersSnapshot(null);
-      setFinalPlayerScore(null);
-      setGameTimer(0);
-
-      // Reset player scores
-      setPlayersSafe(prev => prev.map(p => ({ ...p, score: 0, attempts: 0, streak: 0 })));
-
-      if (roomCode && currentRoomId) {
-        // Multiplayer mode: reinitialize scores and update room status
-        try {
-          await initializeGameScores(currentRoomId, playersRef.current);
-          
-          await supabase
-            .from('game_rooms')
-            .update({ status: 'playing' })
-            .eq('room_code', roomCode);
-
-          toast({ 
-            title: 'Restarting game...', 
-            description: 'Get ready for another round!'
-          });
-        } catch (e) {
-          console.error('Failed to reset multiplayer room:', e);
-          toast({ 
-            title: 'Error', 
-            description: 'Failed to restart the game. Please try again.',
-            variant: 'destructive'
-          });
-          return;
-        }
-      }
+    // Reset game state
+    setCurrentRiddleIndex(0);
+    setSelectedAnswer(null);
+    setShowFeedback(false);
+    setFinalPlayersSnapshot(null);
+    setFinalPlayerScore(null);
+    setGameTimer(0);
 
-      // Go back to theme selection or countdown
-      setGamePhase('countdown');
-      setWaitingForPlayers(false);
-      startCountdown();
-    } catch (e) {
-      console.error('Failed to restart game:', e);
-      toast({ 
-        title: 'Error', 
-        description: 'Failed to restart the game. Please try again.',
-        variant: 'destructive'
-      });
-    }
+    // Reset player scores
+    setSoloPlayers(prev => prev.map(p => ({ ...p, score: 0, answered: 0, streak: 0 })));
+
+    setGamePhase('countdown');
+    startCountdown();
   };
 
   const formatTime = (seconds: number) => {
@@ -1290,9 +742,42 @@ const RiddleGame = () => {
     </>
   );
 
-  // Theme Selection Phase
-  if (gamePhase === 'theme-select') {
-    const availableThemes = Object.keys(riddlesData as any);
+  if (roomCode && (roomStatus !== 'ready' || !room)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Background3D />
+        <div className="text-2xl font-fredoka">Loading... 🎮</div>
+      </div>
+    );
+  }
+
+  // Rooms: the shared end-of-round screen, with the rematch offer
+  if (room && session && snapshot?.phase === 'finished' && childId) {
+    return (
+      <RoomResults
+        roomId={room.id}
+        childId={childId}
+        childName={selectedChild?.name || 'Player'}
+        isHost={isHost}
+        players={players}
+        totalQuestions={session.data.questionIds.length}
+        starsEarned={GameRegistry.calculateStars('riddle', myRoomCorrect, session.data.questionIds.length)}
+        themes={Object.keys(riddlesData)}
+        difficulties={GameRegistry.get('riddle')?.difficulties ?? []}
+      />
+    );
+  }
+
+  if (room && session && snapshot?.phase === 'countdown') {
+    return <RoomCountdown title={`${session.data.theme} Riddle Challenge`} seconds={snapshot.countdownRemaining} />;
+  }
+
+  // Theme Selection Phase: solo, or a room's lobby until the host starts a round
+  if (room ? !session || !snapshot : gamePhase === 'theme-select') {
+    const themeLevel = room ? room.difficulty : difficulty;
+    const chosenTheme = room ? room.theme : selectedCategory;
+    const canSelectTheme = !room || (isHost && players.length >= 2);
+    const availableThemes = Object.keys(riddlesData).filter(theme => getCategoryRiddles(theme, themeLevel).length > 0);
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/20 to-secondary/20">
         <Background3D /> {/* <-- added */}
@@ -1307,7 +792,7 @@ const RiddleGame = () => {
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {availableThemes.map((theme) => {
-                  const isSelected = selectedCategory === theme;
+                  const isSelected = chosenTheme === theme;
                   return (
                     <Button
                       key={theme}
@@ -1315,7 +800,7 @@ const RiddleGame = () => {
                       className={`h-24 text-lg font-medium ${isSelected ? 'ring-2 ring-green-400 shadow-md' : ''}`}
                       variant={isSelected ? 'default' : 'outline'}
                       disabled={!canSelectTheme}
-                      title={!canSelectTheme ? (roomCode && !isRoomCreator ? 'Waiting for host to select theme' : 'Waiting for player to join') : undefined}
+                      title={!canSelectTheme ? (room && !isHost ? 'Waiting for host to select theme' : 'Waiting for player to join') : undefined}
                     >
                       {theme === 'Zoo Animals' && '🦁 '}
                       {theme === 'Ocean Friends' && '🐋 '}
@@ -1326,24 +811,24 @@ const RiddleGame = () => {
                     </Button>
                   );
                 })}
-                {/* Host waiting hint: host can't select until another human joins */}
-                {roomCode && isRoomCreator && humanPlayersCount < 2 && (
+                {/* Host waiting hint: host can't select until someone else joins */}
+                {room && isHost && players.length < 2 && (
                   <div className="text-center text-sm text-muted-foreground mt-3">
                     Waiting for the other player to join to select the theme…
                   </div>
                 )}
                 {/* Invited player hint: waiting for host selection */}
-                {roomCode && !isRoomCreator && !selectedCategory && (
+                {room && !isHost && !chosenTheme && (
                   <div className="text-center text-sm text-muted-foreground mt-3">
                     Waiting for the host to select the theme and start the game…
                   </div>
                 )}
                 {/* If a theme is already selected, show Start for host, waiting message for guests */}
-                {roomCode && selectedCategory && (
+                {room && chosenTheme && (
                   <div className="w-full mt-3">
-                    {isRoomCreator ? (
+                    {isHost ? (
                       <div className="flex justify-center">
-                        <Button onClick={startGameAsHost} className="w-48">
+                        <Button onClick={() => startGameAsHost()} disabled={players.length < 2} className="w-48">
                           Start Game ▶
                         </Button>
                       </div>
@@ -1355,15 +840,31 @@ const RiddleGame = () => {
                   </div>
                 )}
               </div>
+              {room && (
+                <div className="mt-6">
+                  <RoomStandings players={players} childId={childId} compact />
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
+        {room && (
+          <GameRoomPanel
+            roomCode={room.code}
+            gameId={gameId || 'riddle'}
+            players={players}
+            gameMode="multiplayer"
+            onJoinRequestUpdate={handleJoinRequestUpdate}
+            isHost={isHost}
+            selectedChildId={childId ?? undefined}
+          />
+        )}
       </div>
     );
   }
 
-  // Countdown Phase
-  if (gamePhase === 'countdown') {
+  // Countdown Phase (solo; rooms use RoomCountdown above)
+  if (!room && gamePhase === 'countdown') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4 flex items-center justify-center">
         <Background3D /> {/* <-- added */}
@@ -1387,66 +888,12 @@ const RiddleGame = () => {
     );
   }
 
-      // Scoreboard Wait Phase (multiplayer) — show a waiting scoreboard until everyone has attempted all questions
-      if (gamePhase === 'scoreboard') {
-        const totalQuestions = Math.max(1, gameRiddles.length);
-        return (
-          <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
-            <Background3D />
-            <Card className="max-w-lg mx-auto bg-white/90 shadow-xl">
-              <CardHeader className="text-center">
-                <div className="text-4xl mb-2">⏳</div>
-                <CardTitle className="text-2xl font-fredoka text-primary">Waiting for players to finish</CardTitle>
-                <p className="text-sm text-muted-foreground mt-2">We'll show the final scoreboard once everyone has attempted all {totalQuestions} questions.</p>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                        <div className="space-y-3">
-                          {[...players].map((p) => (
-                            <div key={p.id} className="flex items-center justify-between p-2 rounded-md bg-secondary/10">
-                              <div className="flex items-center gap-3">
-                                <Avatar className="w-8 h-8"><AvatarFallback className="text-lg">{p.avatar}</AvatarFallback></Avatar>
-                                <div>
-                                  <div className="font-medium text-primary">{p.name}</div>
-                                  <div className="text-xs text-muted-foreground">{safeAttempts(p)}/{totalQuestions} attempted</div>
-                                </div>
-                              </div>
-                              <div className="text-sm font-semibold">{p.score}</div>
-                            </div>
-                          ))}
-                </div>
-                <div className="flex justify-center">
-                  <Button onClick={async () => {
-                    // allow manual force finalize for host in case of stuck state
-                    if (!currentRoomId) return;
-                    // fetch latest and check; if all finished, finalize
-                    await fetchRoomScores(currentRoomId);
-                    const totalQ = Math.max(1, gameRiddles.length);
-                    const all = (playersRef.current || players).every(pp => (pp.attempts ?? 0) >= totalQ);
-                    if (all) {
-                      await finalizeGame();
-                    } else {
-                      toast({ title: 'Not all players finished', description: 'Please wait for everyone to finish their attempts.' });
-                    }
-                  }}>
-                    Refresh Status
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        );
-      }
-
-  // Game Complete Phase — render using the stable snapshot (finalPlayersSnapshot)
-  if (gamePhase === 'complete') {
-    const finalPlayers = finalPlayersSnapshot ?? (playersRef.current.length ? playersRef.current : players);
+  // Game Complete Phase (solo) — render using the stable snapshot (finalPlayersSnapshot)
+  if (!room && gamePhase === 'complete') {
+    const finalPlayers = finalPlayersSnapshot ?? soloPlayers;
     const playerScore = finalPlayerScore ?? finalPlayers.find(p => p.id === (selectedChild?.id || 'player1'))?.score ?? 0;
     const totalQuestions = Math.max(1, currentRiddleIndex + 1);
-    const percentage = (playerScore / totalQuestions) * 100;
-
-    let starsEarned = 1;
-    if (percentage >= 80) starsEarned = 3;
-    else if (percentage >= 60) starsEarned = 2;
+    const starsEarned = GameRegistry.calculateStars('riddle', playerScore, totalQuestions);
 
     // Determine winners/losers
     const sortedPlayers = [...finalPlayers].sort((a, b) => b.score - a.score);
@@ -1495,7 +942,7 @@ const RiddleGame = () => {
                }`}>
                  {personalFeedback}
                </div>
- 
+
                {/* NEW: If player finished last, show a friendly participation badge CTA */}
                {amILoser && (
                  <div className="mt-2 flex items-center justify-center space-x-2">
@@ -1513,6 +960,7 @@ const RiddleGame = () => {
               {sortedPlayers.map((player, index) => {
                 const isWinner = player.score === highestScore;
                 const isLoser = player.score === lowestScore;
+                const answered = Math.min(player.answered, Math.max(1, gameRiddles.length));
                 return (
                   <div
                     key={player.id}
@@ -1534,12 +982,12 @@ const RiddleGame = () => {
                         <div className="text-xs text-muted-foreground">
                           <div className="w-40">
                             <Progress
-                              value={Math.min(100, ((safeAttempts(player)) / Math.max(1, gameRiddles.length)) * 100)}
+                              value={Math.min(100, (answered / Math.max(1, gameRiddles.length)) * 100)}
                               className="h-2 rounded-full"
                             />
                           </div>
                           <div className="mt-1">
-                            <span className="text-xs">{safeAttempts(player)}/{Math.max(1, gameRiddles.length)}</span>
+                            <span className="text-xs">{answered}/{Math.max(1, gameRiddles.length)}</span>
                             {isWinner && <span className="ml-2 text-sm text-green-700">Winner</span>}
                             {isLoser && <span className="ml-2 text-sm text-red-700">Needs practice</span>}
                           </div>
@@ -1612,7 +1060,7 @@ const RiddleGame = () => {
     <div className="min-h-screen bg-gradient-to-br from-primary/20 via-secondary/20 to-accent/20 p-4">
       <Background3D /> {/* <-- added */}
       {/* Join Request Notification Banner */}
-      {isRoomCreator && pendingJoinRequests > 0 && (
+      {isHost && pendingJoinRequests > 0 && (
         <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50">
           <Card className="bg-yellow-100 border-yellow-300 shadow-lg animate-pulse">
             <CardContent className="py-3 px-4">
@@ -1627,75 +1075,55 @@ const RiddleGame = () => {
         </div>
       )}
 
-      {/* Waiting for other player banner */}
-      {waitingForPlayers && (
-        <div className="fixed top-20 left-1/2 transform -translate-x-1/2 z-50">
-          <Card className="bg-blue-50 border-blue-200 shadow-lg">
-            <CardContent className="py-3 px-4">
-              <div className="flex items-center space-x-2">
-                <span className="text-blue-600 text-lg">⏳</span>
-                <span className="text-blue-800 font-medium">Waiting for the other player to join…</span>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-
       {/* Game Timer */}
       <div className="fixed top-4 left-4 z-50">
         <Card className="bg-white/95 shadow-lg">
           <CardContent className="py-2 px-4">
             <div className="flex items-center space-x-2">
               <span className="text-xl">⏱️</span>
-              <span className={`text-lg font-bold ${gameTimer < 60 ? 'text-red-500' : 'text-primary'}`}>
+              {/* Rooms time each question; solo games time the whole round */}
+              <span className={`text-lg font-bold ${gameTimer < (session ? 5 : 60) ? 'text-red-500' : 'text-primary'}`}>
                 {formatTime(gameTimer)}
               </span>
+              {session && isHost && (
+                <Button size="sm" variant="outline" onClick={togglePause} className="ml-2">
+                  {isPaused ? '▶ Resume' : '⏸ Pause'}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Scoreboard Panel (visible during play: names/avatars shown, show attempts realtime) */}
+      {/* Paused by the host: everyone's timer stops until they resume */}
+      {isPaused && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-40">
+          <Card className="max-w-sm mx-4 bg-white/95 shadow-xl">
+            <CardContent className="text-center py-8">
+              <div className="text-5xl mb-3">⏸️</div>
+              <p className="text-lg font-semibold text-primary">Game paused</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {isHost ? 'Press Resume when everyone is ready' : 'Waiting for the host to resume…'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Scoreboard Panel (visible during play: names/avatars shown, show answers realtime) */}
       <div className="fixed top-20 right-4 z-50 w-72">
         <Card className="bg-white/95 shadow-lg">
           <CardHeader className="py-2 px-3">
             <CardTitle className="text-sm">Players</CardTitle>
           </CardHeader>
-          <CardContent className="py-2 px-3">
-            <div className="space-y-2 max-h-64 overflow-auto">
-              {[...visiblePlayers].sort((a, b) => (b.attempts ?? 0) - (a.attempts ?? 0)).map((player, idx) => (
-                <div key={player.id} className="flex items-center justify-between player-row">
-                  <div className="flex items-center space-x-2">
-                    <Avatar className="w-6 h-6">
-                      <AvatarFallback className="text-sm">{player.avatar}</AvatarFallback>
-                    </Avatar>
-                    <div className="flex items-center">
-                      <span className="text-sm truncate">{idx === 0 ? `👑 ${player.name}` : player.name}</span>
-                      {/* NEW: streak on scoreboard */}
-                      {player.streak ? <span className="streak-badge ml-2">🔥 {player.streak}</span> : null}
-                    </div>
-                  </div>
-                  {/* Visualize attempts as a small progress bar (attempts / total questions) */}
-                  <div className="flex flex-col items-end">
-                    <div className="w-24">
-                      <Progress
-                        value={Math.min(100, ((safeAttempts(player)) / Math.max(1, gameRiddles.length)) * 100)}
-                        className="h-2 rounded-full"
-                      />
-                    </div>
-                    <div className="text-xs font-semibold text-primary mt-1">
-                      {safeAttempts(player)}/{Math.max(1, gameRiddles.length)}
-                    </div>
-                  </div>
-                </div>
-              ))} 
-            </div>
+          <CardContent className="py-2 px-3 max-h-64 overflow-auto">
+            <RoomStandings players={players} childId={childId} totalQuestions={gameRiddles.length} compact />
           </CardContent>
         </Card>
       </div>
 
-      {/* New Player Join Dialog */}
-      {showNewPlayerDialog && newPlayerInfo && (
+      {/* A friend joined mid-round: the host can start over so they play too */}
+      {isHost && latecomers.length > 0 && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <Card className="max-w-md mx-4">
             <CardHeader>
@@ -1703,7 +1131,7 @@ const RiddleGame = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-muted-foreground">
-                <strong>{newPlayerInfo.name}</strong> wants to join the game.
+                <strong>{latecomers.map(p => p.name).join(', ')}</strong> wants to join the game.
               </p>
               <p className="text-sm text-muted-foreground">
                 Would you like to restart the game or continue playing?
@@ -1721,18 +1149,6 @@ const RiddleGame = () => {
         </div>
       )}
 
-
-      {gamePhase !== 'playing' && (
-        <GameRoomPanel
-          roomCode={roomCode}
-          gameId={gameId || 'riddle'}
-          onPlayerJoin={handlePlayerJoin}
-          players={players}
-          gameMode={roomCode ? 'multiplayer' : 'single'}
-          onJoinRequestUpdate={handleJoinRequestUpdate}
-        />
-      )}
-
       <div className="max-w-md mx-auto">
         <Card className="bg-white/90 shadow-xl">
           <CardHeader className="text-center">
@@ -1767,7 +1183,7 @@ const RiddleGame = () => {
               <div className="flex justify-center">
                 <div className="keyboard-hint">Press A/B/C/D or 1-4 to answer</div>
               </div>
-              
+
             </div>
 
             <div className="space-y-3">
@@ -1802,7 +1218,6 @@ const RiddleGame = () => {
 
             {/* Game Control Buttons */}
             <div className="flex justify-center space-x-3 mt-6">
-              {/* Restart Game control removed (rematch feature deleted) */}
               <Button
                 onClick={() => navigate('/games')}
                 variant="outline"
@@ -1816,6 +1231,12 @@ const RiddleGame = () => {
         </Card>
       </div>
 
+      {aiReaction && (
+        <div className="fixed bottom-6 left-6 z-50 flex items-center gap-2 px-4 py-2 rounded-2xl bg-white/90 shadow-lg text-sm">
+          <span className="text-xl">{aiReaction.avatar}</span>
+          <span><span className="font-bold">{aiReaction.name}:</span> {aiReaction.text}</span>
+        </div>
+      )}
       {feedbackBanner && <div className={`fixed top-28 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-md ${feedbackBanner.type === 'success' ? 'bg-green-100 text-green-800' : feedbackBanner.type === 'error' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>{feedbackBanner.message}</div>}
       <Confetti />
     </div>
@@ -0,0 +1,156 @@
+// Game history - append-only log of every finished game, cached locally and
+// uploaded to the game_results table through the manage-progress edge function
+
+import { format, parseISO, startOfWeek } from 'date-fns';
+import { GameResult, GameHistoryFilters, GameTrendPoint } from '@/types';
+import { StorageService } from '@/lib/storage';
+import { supabase } from '@/integrations/supabase/client';
+
+type HistoryCache = Record<string, {
+  results: GameResult[];
+  pendingIds: string[]; // recorded locally but not yet uploaded
+}>;
+
+// Keep localStorage bounded; older results remain on the server
+const MAX_CACHED_RESULTS = 500;
+
+const byEndedAtDesc = (a: GameResult, b: GameResult) =>
+  new Date(b.endedAt).getTime() - new Date(a.endedAt).getTime();
+
+export class GameHistoryService {
+  private static readCache(): HistoryCache {
+    const saved = StorageService.getItem<HistoryCache>('GAME_RESULTS');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  }
+
+  private static writeEntry(childId: string, results: GameResult[], pendingIds: string[]): void {
+    const all = this.readCache();
+    const pending = new Set(pendingIds);
+    // Never drop a result that hasn't reached the server yet
+    const trimmed = [...results]
+      .sort(byEndedAtDesc)
+      .filter((result, index) => index < MAX_CACHED_RESULTS || pending.has(result.id));
+    all[childId] = { results: trimmed, pendingIds };
+    StorageService.setItem('GAME_RESULTS', all);
+  }
+
+  static getCached(childId: string): GameResult[] {
+    return this.readCache()[childId]?.results ?? [];
+  }
+
+  /** Appends a result to the log. Returns the stored result (with its id). */
+  static record(result: GameResult): GameResult {
+    const stored: GameResult = { ...result, id: result.id ?? crypto.randomUUID() };
+    const entry = this.readCache()[stored.profileId] ?? { results: [], pendingIds: [] };
+
+    this.writeEntry(stored.profileId, [stored, ...entry.results], [...entry.pendingIds, stored.id]);
+    this.flush(stored.profileId).catch(error => console.error('Failed to upload game results:', error));
+
+    return stored;
+  }
+
+  /** Uploads any results that haven't reached the server yet */
+  static async flush(childId: string): Promise<void> {
+    const entry = this.readCache()[childId];
+    if (!entry || entry.pendingIds.length === 0) return;
+
+    const pending = entry.results.filter(r => entry.pendingIds.includes(r.id));
+    const { error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'record_results', child_id: childId, results: pending }
+    });
+    if (error) throw error;
+
+    // Re-read: more results may have been recorded while uploading
+    const latest = this.readCache()[childId] ?? { results: [], pendingIds: [] };
+    const uploaded = new Set(pending.map(r => r.id));
+    this.writeEntry(childId, latest.results, latest.pendingIds.filter(id => !uploaded.has(id)));
+  }
+
+  static async fetchRemote(childId: string, filters: GameHistoryFilters = {}): Promise<GameResult[]> {
+    const { data, error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'get_results', child_id: childId, filters }
+    });
+    if (error) throw error;
+    return (data?.data as GameResult[]) ?? [];
+  }
+
+  /**
+   * Loads a child's history: uploads pending results, then merges the server
+   * log with the local cache by id. Falls back to the cache when offline.
+   */
+  static async load(childId: string): Promise<GameResult[]> {
+    try {
+      await this.flush(childId);
+      const remote = await this.fetchRemote(childId);
+      const entry = this.readCache()[childId] ?? { results: [], pendingIds: [] };
+      const merged = new Map<string, GameResult>();
+      [...remote, ...entry.results].forEach(r => merged.set(r.id, r));
+      this.writeEntry(childId, Array.from(merged.values()), entry.pendingIds);
+      return this.getCached(childId);
+    } catch (error) {
+      console.error('Failed to load game history, using local cache:', error);
+      return this.getCached(childId);
+    }
+  }
+
+  static filter(results: GameResult[], filters: GameHistoryFilters = {}): GameResult[] {
+    const since = filters.since ? new Date(filters.since).getTime() : null;
+    const until = filters.until ? new Date(filters.until).getTime() : null;
+
+    const filtered = results
+      .filter(r => !filters.gameId || r.gameId === filters.gameId)
+      .filter(r => !filters.difficulty || r.difficulty === filters.difficulty)
+      .filter(r => since === null || new Date(r.endedAt).getTime() >= since)
+      .filter(r => until === null || new Date(r.endedAt).getTime() <= until)
+      .sort(byEndedAtDesc);
+
+    return filters.limit ? filtered.slice(0, filters.limit) : filtered;
+  }
+
+  /**
+   * Groups results per day or week, game and difficulty, oldest period first
+   * Periods use the device's local timezone
+   */
+  static getTrends(results: GameResult[], groupBy: 'day' | 'week' = 'day'): GameTrendPoint[] {
+    const groups = new Map<string, GameTrendPoint & { durations: number[] }>();
+
+    results.forEach(result => {
+      const ended = parseISO(result.endedAt);
+      const periodDate = groupBy === 'week' ? startOfWeek(ended, { weekStartsOn: 1 }) : ended;
+      const period = format(periodDate, 'yyyy-MM-dd');
+      const key = `${period}|${result.gameId}|${result.difficulty}`;
+
+      const group = groups.get(key) ?? {
+        period,
+        gameId: result.gameId,
+        difficulty: result.difficulty,
+        plays: 0,
+        correct: 0,
+        total: 0,
+        accuracy: 0,
+        stars: 0,
+        averageDurationSeconds: null,
+        totalDurationSeconds: 0,
+        durations: []
+      };
+
+      group.plays += 1;
+      group.correct += result.correct;
+      group.total += result.total;
+      group.stars += result.starsEarned;
+      if (typeof result.durationSeconds === 'number') group.durations.push(result.durationSeconds);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values())
+      .map(({ durations, ...point }) => ({
+        ...point,
+        accuracy: point.total > 0 ? point.correct / point.total : 0,
+        averageDurationSeconds: durations.length
+          ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+          : null,
+        totalDurationSeconds: durations.reduce((sum, d) => sum + d, 0)
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period) || a.gameId.localeCompare(b.gameId));
+  }
+}
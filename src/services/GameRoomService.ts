@@ -0,0 +1,113 @@
+// Game rooms - host hand-off, rematches and room settings through the manage-game-rooms edge function,
+// plus the read-only room and participant lookups every multiplayer game starts from
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { GameMode, RematchRequest, RoomInfo, RoomPlayer } from '@/types/multiplayer';
+
+export interface HostClaim {
+  migrated: boolean;
+  host_child_id: string; // the host after the claim, changed or not
+}
+
+export interface RoomSettings {
+  selected_category: string | null;
+  difficulty: string;
+  game_mode: GameMode;
+}
+
+export class GameRoomService {
+  static toRoomInfo(row: Tables<'game_rooms'>): RoomInfo {
+    return {
+      id: row.id,
+      code: row.room_code,
+      gameId: row.game_id,
+      hostChildId: row.host_child_id,
+      difficulty: row.difficulty,
+      theme: row.selected_category ?? null,
+      mode: row.game_mode === 'coop' ? 'coop' : 'race'
+    };
+  }
+
+  /** The room behind a ?room= code, or null if there is no such room */
+  static async getByCode(roomCode: string): Promise<RoomInfo | null> {
+    const { data, error } = await supabase
+      .from('game_rooms')
+      .select('*')
+      .eq('room_code', roomCode.toUpperCase())
+      .maybeSingle();
+    if (error) throw error;
+    return data ? this.toRoomInfo(data) : null;
+  }
+
+  /** Everyone in the room, in the order they joined, with zeroed scores */
+  static async getParticipants(roomId: string): Promise<RoomPlayer[]> {
+    const { data, error } = await supabase
+      .from('room_participants')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('joined_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(p => ({
+      id: p.child_id ?? `ai-${p.player_name}`,
+      name: p.player_name || 'Player',
+      avatar: p.player_avatar || '👤',
+      isAI: !!p.is_ai,
+      score: 0,
+      answered: 0,
+      streak: 0
+    }));
+  }
+
+  private static async invoke<T>(action: string, body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action, ...body }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? `Failed to ${action.replace(/_/g, ' ')}`);
+    return data.data as T;
+  }
+
+  /**
+   * Asks the server to replace a host that has disconnected. The server checks the host's
+   * heartbeat and picks the longest-present online player, who may not be the caller.
+   */
+  static async claimHost(roomId: string, childId: string): Promise<HostClaim> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action: 'claim_host', room_id: roomId, child_id: childId }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? 'Failed to claim host');
+    return data.data as HostClaim;
+  }
+
+  /** Offers everyone in the room another round. If an offer is already open, accepts it instead. */
+  static requestRematch(roomId: string, childId: string) {
+    return this.invoke<RematchRequest | null>('request_rematch', { room_id: roomId, child_id: childId });
+  }
+
+  /** Declining also takes the child out of the room */
+  static respondToRematch(roomId: string, childId: string, requestId: string, accept: boolean) {
+    return this.invoke<RematchRequest | null>('respond_rematch', {
+      room_id: roomId,
+      child_id: childId,
+      request_id: requestId,
+      accept
+    });
+  }
+
+  /** Host only, between rounds */
+  static updateSettings(
+    roomId: string,
+    childId: string,
+    settings: { theme?: string; difficulty?: string; mode?: GameMode }
+  ) {
+    return this.invoke<RoomSettings>('update_room_settings', {
+      room_id: roomId,
+      child_id: childId,
+      selected_category: settings.theme ?? null,
+      difficulty: settings.difficulty ?? null,
+      game_mode: settings.mode ?? null
+    });
+  }
+}
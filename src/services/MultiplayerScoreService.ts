@@ -0,0 +1,94 @@
+// Multiplayer scores - answers are scored by the manage-game-rooms edge function,
+// which owns the multiplayer_game_scores rows; clients only read them
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RoomPlayer } from '@/types/multiplayer';
+
+export type MultiplayerScoreRow = Tables<'multiplayer_game_scores'>;
+
+export interface AnswerSubmission {
+  accepted: boolean; // false if this player had already answered the question (co-op: someone already finished the word)
+  correct: boolean;
+  player: MultiplayerScoreRow | null;
+  standings: MultiplayerScoreRow[]; // highest score first
+}
+
+export interface PlayerRoundState {
+  player: MultiplayerScoreRow | null; // null if no round has started in the room yet
+  answers: Pick<Tables<'multiplayer_answers'>, 'question_id' | 'answer' | 'is_correct'>[]; // oldest first
+  standings: MultiplayerScoreRow[];
+  claims: Pick<Tables<'coop_word_claims'>, 'question_id' | 'child_id'>[]; // co-op: finished words and who finished them
+}
+
+export class MultiplayerScoreService {
+  /** Every score row in the room, highest score first */
+  static async getStandings(roomId: string): Promise<MultiplayerScoreRow[]> {
+    const { data, error } = await supabase
+      .from('multiplayer_game_scores')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('score', { ascending: false });
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  /** Puts the round's scores on the room's players; players without a row keep theirs */
+  static applyStandings(players: RoomPlayer[], rows: MultiplayerScoreRow[]): RoomPlayer[] {
+    return players.map(player => {
+      const row = rows.find(r => (r.child_id ?? `ai-${r.player_name}`) === player.id);
+      return row
+        ? { ...player, score: row.score ?? 0, answered: row.total_questions ?? 0, streak: row.streak ?? 0 }
+        : player;
+    });
+  }
+
+  /** Zeroes every participant's score for a new round (host only, not while a round is running) */
+  static async resetScores(roomId: string, childId: string): Promise<MultiplayerScoreRow[]> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action: 'reset_scores', room_id: roomId, child_id: childId }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? 'Failed to reset scores');
+    return (data.data as MultiplayerScoreRow[]) ?? [];
+  }
+
+  /**
+   * Loads a returning player's score and answers for the current round, without resetting anything
+   * Use it after a refresh or reconnect to put the player back where they were
+   */
+  static async getPlayerState(roomId: string, childId: string): Promise<PlayerRoundState> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action: 'get_player_state', room_id: roomId, child_id: childId }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? 'Failed to load player state');
+    return data.data as PlayerRoundState;
+  }
+
+  /**
+   * Submits an answer for the child, or (host only) for an AI player in the room
+   * questionId is the riddle id or the crossword word id
+   */
+  static async submitAnswer(options: {
+    roomId: string;
+    childId: string;
+    questionId: string | number;
+    answer: string;
+    aiPlayerName?: string;
+  }): Promise<AnswerSubmission> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: {
+        action: 'submit_answer',
+        room_id: options.roomId,
+        child_id: options.childId,
+        question_id: String(options.questionId),
+        answer: options.answer,
+        ai_player_name: options.aiPlayerName ?? null
+      }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? 'Failed to submit answer');
+    return data.data as AnswerSubmission;
+  }
+}
@@ -0,0 +1,74 @@
+// Multiplayer sessions - the manage-game-rooms edge function owns the
+// multiplayer_game_sessions rows; clients start, pause and read them through it
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { MultiplayerSession, MultiplayerSessionData, MultiplayerSessionState } from '@/types';
+import type { MultiplayerScoreRow } from '@/services/MultiplayerScoreService';
+
+export interface SessionResponse {
+  session: MultiplayerSession | null;
+  serverTime: string; // lets clients correct for their own clock being off
+}
+
+export class MultiplayerSessionService {
+  /** Maps a row delivered by realtime to the shape the edge function returns */
+  static fromRow(row: Tables<'multiplayer_game_sessions'>): MultiplayerSession {
+    return {
+      id: row.id,
+      roomId: row.room_id,
+      state: row.game_state as MultiplayerSessionState,
+      data: row.game_data as unknown as MultiplayerSessionData,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static async invoke<T>(action: string, roomId: string, childId: string, extra: Record<string, unknown> = {}): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action, room_id: roomId, child_id: childId, ...extra }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? `Failed to ${action.replace('_', ' ')}`);
+    return data.data as T;
+  }
+
+  /**
+   * Host only. Resets scores and opens a new round after the countdown. Refused while a
+   * round is running unless restart is set, which abandons that round for everyone.
+   */
+  static start(roomId: string, childId: string, options: { restart?: boolean } = {}) {
+    return this.invoke<SessionResponse & { standings: MultiplayerScoreRow[] }>(
+      'start_session', roomId, childId, { restart: !!options.restart }
+    );
+  }
+
+  static get(roomId: string, childId: string) {
+    return this.invoke<SessionResponse>('get_session', roomId, childId);
+  }
+
+  static pause(roomId: string, childId: string) {
+    return this.invoke<SessionResponse>('pause_session', roomId, childId);
+  }
+
+  static resume(roomId: string, childId: string) {
+    return this.invoke<SessionResponse>('resume_session', roomId, childId);
+  }
+
+  /**
+   * Marks the child as done with the round's questions. Returns true if that made everyone
+   * done, in which case the server has already finished the session.
+   */
+  static async markPlayerFinished(roomId: string, childId: string, totalQuestions: number): Promise<boolean> {
+    const { data, error } = await supabase.functions.invoke('manage-game-rooms', {
+      body: { action: 'mark_player_finished', room_id: roomId, child_id: childId, total_questions: totalQuestions }
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error ?? 'Failed to mark player finished');
+    return !!data.all_finished;
+  }
+
+  /** The host can end a round early; anyone can close it once the last question is over */
+  static finish(roomId: string, childId: string) {
+    return this.invoke<SessionResponse>('finish_session', roomId, childId);
+  }
+}
@@ -0,0 +1,379 @@
+// Narration Service - reads story pages aloud; the voice behind it is swappable
+
+import { NarrationVoice } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+export type NarrationState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface NarrationStatus {
+  state: NarrationState;
+  page: number;
+  rate: number;
+  pitch: number;
+  error: string | null;
+}
+
+export interface NarrationProvider {
+  readonly name: 'browser' | 'cloned' | 'silent';
+  readonly supportsPitch: boolean;
+  /** Replaces the pages and stops; continuous playback carries on to the next page by itself */
+  load(pages: string[], options?: { continuous?: boolean }): void;
+  /** Starts the given page (default: the current one), or resumes it if it was paused */
+  play(page?: number): Promise<void>;
+  pause(): void;
+  stop(): void;
+  /** Moves to a page; keeps reading there if it was reading */
+  seek(page: number): void;
+  setRate(rate: number): void;
+  setPitch(pitch: number): void;
+  getStatus(): NarrationStatus;
+  subscribe(listener: (status: NarrationStatus) => void): () => void;
+  dispose(): void;
+}
+
+// Pause between pages when reading straight through
+const PAGE_GAP_MS = 1000;
+
+// Built-in voices are the browser's voice, tuned; the silent one only turns the pages
+const DEFAULT_VOICE_SETTINGS: Record<string, { rate: number; pitch: number }> = {
+  v1: { rate: 0.8, pitch: 0.9 }, // Adult Male
+  v2: { rate: 0.8, pitch: 1.1 }, // Adult Female
+  v3: { rate: 0.9, pitch: 1.4 }, // Child
+  v4: { rate: 0.7, pitch: 0.8 } // Elderly
+};
+
+export const SILENT_VOICE_ID = 'silent';
+
+abstract class BaseNarrator implements NarrationProvider {
+  abstract readonly name: 'browser' | 'cloned' | 'silent';
+  abstract readonly supportsPitch: boolean;
+
+  protected pages: string[] = [];
+  protected rate: number;
+  protected pitch: number;
+  private page = 0;
+  private state: NarrationState = 'idle';
+  private error: string | null = null;
+  private continuous = true;
+  private pageStarted = false;
+  private advanceTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(status: NarrationStatus) => void>();
+  // Bumped whenever playback is interrupted, so callbacks from an abandoned page are ignored
+  private run = 0;
+
+  constructor(settings: { rate: number; pitch: number } = { rate: 0.8, pitch: 1.1 }) {
+    this.rate = settings.rate;
+    this.pitch = settings.pitch;
+  }
+
+  /** Starts reading the text; resolves once it's playing. Call pageEnded(run) when it's done */
+  protected abstract startPage(text: string, index: number, run: number): Promise<void>;
+  protected abstract pausePage(): void;
+  protected abstract resumePage(): void;
+  protected abstract stopPage(): void;
+  /** Rate or pitch changed; by default it applies from the next page */
+  protected applySettings(): void {}
+
+  load(pages: string[], options: { continuous?: boolean } = {}): void {
+    this.halt();
+    this.pages = pages;
+    this.page = 0;
+    this.continuous = options.continuous ?? true;
+    this.setState('idle');
+  }
+
+  async play(page = this.page): Promise<void> {
+    if (this.pages.length === 0) return;
+    const target = Math.min(Math.max(0, page), this.pages.length - 1);
+
+    if (this.state === 'paused' && this.pageStarted && target === this.page) {
+      this.resumePage();
+      this.setState('playing');
+      return;
+    }
+
+    this.halt();
+    this.page = target;
+    const run = this.run;
+    this.error = null;
+    this.setState('loading');
+
+    try {
+      await this.startPage(this.pages[target], target, run);
+      if (run !== this.run) return;
+      this.pageStarted = true;
+      this.setState('playing');
+    } catch (error) {
+      this.failed(run, error);
+    }
+  }
+
+  pause(): void {
+    if (this.state !== 'playing' && this.state !== 'loading') return;
+    if (this.advanceTimer) {
+      // Between pages: resuming starts the next one
+      this.halt();
+      this.page = Math.min(this.page + 1, this.pages.length - 1);
+    } else if (this.state === 'loading') {
+      // Not started yet: resuming starts the page over
+      this.halt();
+    } else {
+      this.pausePage();
+    }
+    this.setState('paused');
+  }
+
+  stop(): void {
+    this.halt();
+    this.setState('idle');
+  }
+
+  seek(page: number): void {
+    const wasReading = this.state === 'playing' || this.state === 'loading';
+    this.halt();
+    this.page = Math.min(Math.max(0, page), Math.max(0, this.pages.length - 1));
+    if (wasReading) {
+      void this.play(this.page);
+    } else {
+      this.setState('idle');
+    }
+  }
+
+  setRate(rate: number): void {
+    this.rate = rate;
+    this.applySettings();
+    this.emit();
+  }
+
+  setPitch(pitch: number): void {
+    this.pitch = pitch;
+    this.applySettings();
+    this.emit();
+  }
+
+  getStatus(): NarrationStatus {
+    return { state: this.state, page: this.page, rate: this.rate, pitch: this.pitch, error: this.error };
+  }
+
+  subscribe(listener: (status: NarrationStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  dispose(): void {
+    this.halt();
+    this.listeners.clear();
+  }
+
+  protected pageEnded(run: number): void {
+    if (run !== this.run) return;
+    this.pageStarted = false;
+    if (!this.continuous || this.page >= this.pages.length - 1) {
+      this.setState('idle');
+      return;
+    }
+    this.advanceTimer = setTimeout(() => {
+      this.advanceTimer = null;
+      void this.play(this.page + 1);
+    }, PAGE_GAP_MS);
+  }
+
+  protected failed(run: number, error: unknown): void {
+    if (run !== this.run) return;
+    console.error(`Narration (${this.name}) failed:`, error);
+    this.halt();
+    this.error = error instanceof Error ? error.message : String(error);
+    this.setState('idle');
+  }
+
+  private halt(): void {
+    this.run++;
+    if (this.advanceTimer) clearTimeout(this.advanceTimer);
+    this.advanceTimer = null;
+    this.pageStarted = false;
+    this.stopPage();
+  }
+
+  private setState(state: NarrationState): void {
+    this.state = state;
+    this.emit();
+  }
+
+  private emit(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// The browser's own text-to-speech
+export class BrowserSpeechNarrator extends BaseNarrator {
+  readonly name = 'browser';
+  readonly supportsPitch = true;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  protected async startPage(text: string, _index: number, run: number): Promise<void> {
+    if (!BrowserSpeechNarrator.isSupported()) {
+      throw new Error('Text-to-speech is not supported in this browser');
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.rate;
+    utterance.pitch = this.pitch;
+    utterance.volume = 1;
+    utterance.onend = () => this.pageEnded(run);
+    utterance.onerror = (event) => {
+      // Cancelling on stop or seek reports as an error too
+      if (event.error === 'interrupted' || event.error === 'canceled') return;
+      this.failed(run, new Error(`Speech failed: ${event.error}`));
+    };
+    speechSynthesis.speak(utterance);
+  }
+
+  protected pausePage(): void {
+    if (BrowserSpeechNarrator.isSupported()) speechSynthesis.pause();
+  }
+
+  protected resumePage(): void {
+    if (BrowserSpeechNarrator.isSupported()) speechSynthesis.resume();
+  }
+
+  protected stopPage(): void {
+    if (BrowserSpeechNarrator.isSupported()) speechSynthesis.cancel();
+  }
+}
+
+// A cloned voice: each page is rendered by the voice-clone edge function and played as audio.
+// Audio keeps the voice's own pitch, so only the rate can be changed.
+export class ClonedVoiceNarrator extends BaseNarrator {
+  readonly name = 'cloned';
+  readonly supportsPitch = false;
+
+  private audio: HTMLAudioElement | null = null;
+  // page index -> audio as a data URL; pages are fetched once and the next one ahead of time
+  private clips = new Map<number, Promise<string>>();
+
+  constructor(private voiceId: string, private auth0UserId: string, settings?: { rate: number; pitch: number }) {
+    super(settings);
+  }
+
+  load(pages: string[], options?: { continuous?: boolean }): void {
+    this.clips.clear();
+    super.load(pages, options);
+  }
+
+  private fetchClip(index: number): Promise<string> {
+    const cached = this.clips.get(index);
+    if (cached) return cached;
+
+    const clip = supabase.functions
+      .invoke('voice-clone', {
+        body: {
+          action: 'generate_story_audio',
+          auth0_user_id: this.auth0UserId,
+          story_text: this.pages[index],
+          voice_id: this.voiceId
+        }
+      })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        if (!data?.audio_content) throw new Error(data?.error || 'No audio was returned');
+        return `data:audio/mpeg;base64,${data.audio_content}`;
+      });
+    // A failed page can be tried again
+    clip.catch(() => this.clips.delete(index));
+    this.clips.set(index, clip);
+    return clip;
+  }
+
+  protected async startPage(_text: string, index: number, run: number): Promise<void> {
+    const src = await this.fetchClip(index);
+    if (index + 1 < this.pages.length) this.fetchClip(index + 1).catch(() => undefined);
+
+    const audio = new Audio(src);
+    audio.playbackRate = this.rate;
+    audio.onended = () => this.pageEnded(run);
+    audio.onerror = () => this.failed(run, new Error('The narration audio could not be played'));
+    this.audio = audio;
+    await audio.play();
+  }
+
+  protected pausePage(): void {
+    this.audio?.pause();
+  }
+
+  protected resumePage(): void {
+    this.audio?.play().catch(error => console.error('Failed to resume narration:', error));
+  }
+
+  protected stopPage(): void {
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.onerror = null;
+      this.audio.pause();
+    }
+    this.audio = null;
+  }
+
+  protected applySettings(): void {
+    if (this.audio) this.audio.playbackRate = this.rate;
+  }
+}
+
+// No sound: each page "plays" for as long as it takes to read it, then the next one comes.
+// For children reading along on their own, and for testing page turns without audio.
+export class SilentNarrator extends BaseNarrator {
+  readonly name = 'silent';
+  readonly supportsPitch = false;
+
+  private static readonly WORDS_PER_MINUTE = 120;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private remainingMs = 0;
+  private startedAt = 0;
+  private pageRun = 0;
+
+  protected async startPage(text: string, _index: number, run: number): Promise<void> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    this.pageRun = run;
+    this.remainingMs = (words / (SilentNarrator.WORDS_PER_MINUTE * this.rate)) * 60_000;
+    this.startTimer();
+  }
+
+  private startTimer(): void {
+    const run = this.pageRun;
+    this.startedAt = Date.now();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pageEnded(run);
+    }, this.remainingMs);
+  }
+
+  protected pausePage(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.remainingMs = Math.max(0, this.remainingMs - (Date.now() - this.startedAt));
+  }
+
+  protected resumePage(): void {
+    this.startTimer();
+  }
+
+  protected stopPage(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+export class NarrationService {
+  /**
+   * The narrator for the chosen voice. Cloned voices need the parent's account to render
+   * audio; without one, or with no voice chosen, the browser voice reads instead.
+   */
+  static create(voice: NarrationVoice | null | undefined, auth0UserId?: string | null): NarrationProvider {
+    if (voice?.id === SILENT_VOICE_ID) return new SilentNarrator();
+    if (voice?.type === 'cloned' && auth0UserId) return new ClonedVoiceNarrator(voice.id, auth0UserId);
+    return new BrowserSpeechNarrator(voice ? DEFAULT_VOICE_SETTINGS[voice.id] : undefined);
+  }
+}
@@ -0,0 +1,190 @@
+// Parent controls - per-child screen time settings, the parent PIN and daily usage tracking
+
+import { format } from 'date-fns';
+import { ParentControl, PinVerification } from '@/types';
+import { StorageService } from '@/lib/storage';
+import { supabase } from '@/integrations/supabase/client';
+
+type ControlsCache = Record<string, ParentControl>;
+
+// Per child: today's total across devices as far as this device knows, and the seconds this
+// device hasn't reported to the server yet, per local day. Days are dropped once reported.
+type UsageEntry = { date: string; seconds: number; unreported: Record<string, number> };
+type UsageCache = Record<string, UsageEntry>;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export class ParentControlService {
+  static createDefault(childId: string, userId: string): ParentControl {
+    const now = new Date().toISOString();
+    return {
+      id: '',
+      userId,
+      childProfileId: childId,
+      screenTime: { dailyLimitMinutes: 120, startTime: '09:00', endTime: '20:00', enabled: false },
+      bedTime: { time: '21:00', enabled: false, warningMinutes: 15 },
+      difficulty: { adaptive: true, pinned: {} },
+      aiOpponent: { skill: 'auto' },
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private static readCache(): ControlsCache {
+    const saved = StorageService.getItem<ControlsCache>('PARENT_CONTROL');
+    return saved && typeof saved === 'object' && !('childProfileId' in saved) ? saved : {};
+  }
+
+  static getCached(childId: string): ParentControl | null {
+    return this.readCache()[childId] ?? null;
+  }
+
+  static cache(control: ParentControl): void {
+    const all = this.readCache();
+    all[control.childProfileId] = control;
+    StorageService.setItem('PARENT_CONTROL', all);
+  }
+
+  /** Fetches the child's controls; falls back to the cached copy when offline */
+  static async fetch(auth0UserId: string, childId: string): Promise<ParentControl | null> {
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-parent-controls', {
+        body: { action: 'get_controls', auth0_user_id: auth0UserId, child_id: childId }
+      });
+      if (error) throw error;
+
+      const control = (data?.data as ParentControl) ?? null;
+      if (control) this.cache(control);
+      return control;
+    } catch (error) {
+      console.error('Failed to fetch parent controls, using local cache:', error);
+      return this.getCached(childId);
+    }
+  }
+
+  /** Saves the child's controls. Once a parent PIN exists the server requires it. */
+  static async save(auth0UserId: string, control: ParentControl, pin?: string): Promise<ParentControl> {
+    const { data, error } = await supabase.functions.invoke('manage-parent-controls', {
+      body: {
+        action: 'save_controls',
+        auth0_user_id: auth0UserId,
+        child_id: control.childProfileId,
+        controls: {
+          screenTime: control.screenTime,
+          bedTime: control.bedTime,
+          difficulty: control.difficulty,
+          aiOpponent: control.aiOpponent
+        },
+        pin
+      }
+    });
+    if (error) throw error;
+
+    const saved = data.data as ParentControl;
+    this.cache(saved);
+    return saved;
+  }
+
+  static async hasPin(auth0UserId: string): Promise<boolean> {
+    const { data, error } = await supabase.functions.invoke('manage-parent-controls', {
+      body: { action: 'get_pin_status', auth0_user_id: auth0UserId }
+    });
+    if (error) throw error;
+    return !!data?.data?.hasPin;
+  }
+
+  /** Sets or changes the parent PIN. Changing it requires the current PIN. */
+  static async setPin(auth0UserId: string, pin: string, currentPin?: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('manage-parent-controls', {
+      body: { action: 'set_pin', auth0_user_id: auth0UserId, pin, current_pin: currentPin }
+    });
+    if (error) throw error;
+  }
+
+  static async verifyPin(auth0UserId: string, pin: string): Promise<PinVerification> {
+    const { data, error } = await supabase.functions.invoke('manage-parent-controls', {
+      body: { action: 'verify_pin', auth0_user_id: auth0UserId, pin }
+    });
+    if (error) throw error;
+    return data.data as PinVerification;
+  }
+
+  private static readUsage(): UsageCache {
+    return StorageService.getItem<UsageCache>('SCREEN_TIME') ?? {};
+  }
+
+  private static writeUsage(childId: string, entry: UsageEntry): void {
+    const all = this.readUsage();
+    all[childId] = entry;
+    StorageService.setItem('SCREEN_TIME', all);
+  }
+
+  private static readEntry(childId: string): UsageEntry {
+    const entry = this.readUsage()[childId];
+    return entry?.date === today()
+      ? { ...entry, unreported: { ...entry.unreported } }
+      : { date: today(), seconds: 0, unreported: { ...entry?.unreported } };
+  }
+
+  /** Seconds the child has used the app today, on every device as far as this one knows */
+  static getUsageSeconds(childId: string): number {
+    return this.readEntry(childId).seconds;
+  }
+
+  /** Counts time on this device; the next syncUsage reports it to the server */
+  static addUsage(childId: string, seconds: number): number {
+    const entry = this.readEntry(childId);
+    entry.seconds += seconds;
+    entry.unreported[entry.date] = (entry.unreported[entry.date] ?? 0) + seconds;
+    this.writeUsage(childId, entry);
+    return entry.seconds;
+  }
+
+  /**
+   * Reports this device's unreported seconds and takes the day's total for the child from the
+   * server, so a second tablet or cleared site data doesn't start a fresh allowance. Offline,
+   * the local count is used and reported later.
+   */
+  static async syncUsage(auth0UserId: string, childId: string): Promise<number> {
+    try {
+      const entry = this.readEntry(childId);
+      const day = entry.date;
+
+      for (const [date, seconds] of Object.entries(entry.unreported)) {
+        if (date === day || seconds <= 0) continue;
+        await this.reportUsage(auth0UserId, childId, date, seconds);
+        const reported = this.readEntry(childId);
+        delete reported.unreported[date];
+        this.writeUsage(childId, reported);
+      }
+      const sent = entry.unreported[day] ?? 0;
+      const total = await this.reportUsage(auth0UserId, childId, day, sent);
+
+      // Time counted while the request was in flight is still unreported
+      const latest = this.readEntry(childId);
+      const unreported = Math.max(0, (latest.unreported[day] ?? 0) - sent);
+      const updated: UsageEntry = {
+        date: latest.date,
+        seconds: latest.date === day ? total + unreported : latest.seconds,
+        unreported: { ...latest.unreported }
+      };
+      delete updated.unreported[day];
+      if (unreported > 0) updated.unreported[day] = unreported;
+      this.writeUsage(childId, updated);
+      return updated.seconds;
+    } catch (error) {
+      console.error('Failed to sync screen time, using local count:', error);
+      return this.getUsageSeconds(childId);
+    }
+  }
+
+  private static async reportUsage(auth0UserId: string, childId: string, date: string, seconds: number): Promise<number> {
+    const { data, error } = await supabase.functions.invoke('manage-parent-controls', {
+      body: seconds > 0
+        ? { action: 'add_usage', auth0_user_id: auth0UserId, child_id: childId, date, seconds }
+        : { action: 'get_usage', auth0_user_id: auth0UserId, child_id: childId, date }
+    });
+    if (error) throw error;
+    return Number(data?.data?.seconds) || 0;
+  }
+}
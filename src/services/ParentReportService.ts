@@ -0,0 +1,151 @@
+// Parent reports - per-child activity summaries built from the parent-reports edge function
+
+import { addWeeks, eachWeekOfInterval, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { ChildActivity, ChildActivityReport, GameTrendPoint, WeeklySummary } from '@/types';
+import { GameHistoryService } from '@/services/GameHistoryService';
+import { StoryLibrary } from '@/lib/storyLibrary';
+import { supabase } from '@/integrations/supabase/client';
+
+// Weeks start on Monday, matching GameHistoryService.getTrends
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const weekOf = (iso: string) => format(startOfWeek(parseISO(iso), WEEK_OPTIONS), 'yyyy-MM-dd');
+
+const totalsOf = (points: GameTrendPoint[]) => {
+  const correct = points.reduce((sum, p) => sum + p.correct, 0);
+  const total = points.reduce((sum, p) => sum + p.total, 0);
+  return {
+    plays: points.reduce((sum, p) => sum + p.plays, 0),
+    correct,
+    total,
+    accuracy: total > 0 ? correct / total : null,
+    stars: points.reduce((sum, p) => sum + p.stars, 0),
+    minutes: Math.round(points.reduce((sum, p) => sum + p.totalDurationSeconds, 0) / 60)
+  };
+};
+
+export class ParentReportService {
+  /** Start of the reporting window: the Monday `weeks - 1` weeks before this one */
+  static getReportStart(weeks = 4, now = new Date()): Date {
+    return startOfWeek(subWeeks(now, weeks - 1), WEEK_OPTIONS);
+  }
+
+  static async fetchActivity(auth0UserId: string, childId: string, since: Date): Promise<ChildActivity> {
+    const { data, error } = await supabase.functions.invoke('parent-reports', {
+      body: { action: 'get_activity', auth0_user_id: auth0UserId, child_id: childId, since: since.toISOString() }
+    });
+    if (error) throw error;
+
+    // The server only knows story ids; titles come from the story catalogue
+    const activity = data.data as ChildActivity;
+    const library = await StoryLibrary.load();
+    return {
+      ...activity,
+      screenTime: activity.screenTime ?? [],
+      storiesRead: (activity.storiesRead ?? []).map(read => ({
+        ...read,
+        title: library.find(story => story.id === read.storyId)?.title ?? read.storyId
+      }))
+    };
+  }
+
+  /**
+   * Summarises raw activity between `since` and `until`. Time played is the
+   * child's tracked screen time; the per-game breakdown uses recorded game
+   * durations, so games without one count as 0 minutes there.
+   */
+  static buildReport(
+    child: { id: string; name: string },
+    activity: ChildActivity,
+    since: Date,
+    until = new Date()
+  ): ChildActivityReport {
+    const inWindow = (iso: string) => {
+      const time = parseISO(iso).getTime();
+      return time >= since.getTime() && time <= until.getTime();
+    };
+    // Games go through the same history queries as the child's progress page
+    const results = GameHistoryService.filter(activity.results, {
+      since: since.toISOString(),
+      until: until.toISOString()
+    });
+    const trends = GameHistoryService.getTrends(results, 'week');
+    const stories = activity.stories.filter(s => inWindow(s.createdAt));
+    const storiesRead = activity.storiesRead.filter(s => inWindow(s.lastReadAt));
+    const friendsAdded = activity.friends.filter(f => inWindow(f.addedAt));
+    const screenTime = activity.screenTime.filter(day => inWindow(day.date));
+    const minutesOf = (days: ChildActivity['screenTime']) =>
+      Math.round(days.reduce((sum, day) => sum + day.seconds, 0) / 60);
+    const rooms = new Map<string, string>();
+    activity.multiplayerScores
+      .filter(s => inWindow(s.playedAt))
+      .forEach(s => rooms.set(s.roomId, s.playedAt));
+
+    const byGameMap = new Map<string, GameTrendPoint[]>();
+    trends.forEach(point => {
+      const key = `${point.gameId}|${point.difficulty}`;
+      byGameMap.set(key, [...(byGameMap.get(key) ?? []), point]);
+    });
+    const byGame = Array.from(byGameMap.values()).map(points => {
+      const { plays, correct, total, accuracy, minutes } = totalsOf(points);
+      return { gameId: points[0].gameId, difficulty: points[0].difficulty, plays, correct, total, accuracy: accuracy ?? 0, minutes };
+    });
+
+    const weekly: WeeklySummary[] = eachWeekOfInterval({ start: since, end: until }, WEEK_OPTIONS).map(week => {
+      const weekStart = format(week, 'yyyy-MM-dd');
+      const games = totalsOf(trends.filter(point => point.period === weekStart));
+      return {
+        weekStart,
+        gamesPlayed: games.plays,
+        minutesPlayed: minutesOf(screenTime.filter(day => weekOf(day.date) === weekStart)),
+        starsEarned: games.stars,
+        accuracy: games.accuracy,
+        storiesCreated: stories.filter(s => weekOf(s.createdAt) === weekStart).length,
+        storiesRead: storiesRead.filter(s => weekOf(s.lastReadAt) === weekStart).length,
+        friendsAdded: friendsAdded.filter(f => weekOf(f.addedAt) === weekStart).length,
+        roomsJoined: Array.from(rooms.values()).filter(playedAt => weekOf(playedAt) === weekStart).length
+      };
+    });
+
+    const overall = totalsOf(trends);
+
+    return {
+      childId: child.id,
+      childName: child.name,
+      since: since.toISOString(),
+      until: until.toISOString(),
+      generatedAt: new Date().toISOString(),
+      activity,
+      progress: activity.progress,
+      results,
+      minutesPlayed: minutesOf(screenTime),
+      gamesPlayed: overall.plays,
+      starsEarned: overall.stars,
+      riddleAccuracy: totalsOf(trends.filter(point => point.gameId === 'riddle')).accuracy,
+      byGame: byGame.sort((a, b) => b.plays - a.plays),
+      stories,
+      storiesRead,
+      friendsAdded: friendsAdded.length,
+      totalFriends: activity.friends.length,
+      roomsJoined: rooms.size,
+      weekly: weekly.reverse()
+    };
+  }
+
+  /** Narrows a report to the week starting on `weekStart` ("yyyy-MM-dd", a Monday) */
+  static getWeekReport(report: ChildActivityReport, weekStart: string): ChildActivityReport {
+    const start = parseISO(weekStart);
+    const end = new Date(addWeeks(start, 1).getTime() - 1);
+    return this.buildReport({ id: report.childId, name: report.childName }, report.activity, start, end);
+  }
+
+  static async getReport(
+    auth0UserId: string,
+    child: { id: string; name: string },
+    weeks = 4
+  ): Promise<ChildActivityReport> {
+    const since = this.getReportStart(weeks);
+    const activity = await this.fetchActivity(auth0UserId, child.id, since);
+    return this.buildReport(child, activity, since);
+  }
+}
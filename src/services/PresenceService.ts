@@ -0,0 +1,43 @@
+// Presence - each open tab joins a Supabase Realtime Presence channel for the selected child
+// and sends a last_seen_at heartbeat, so friends lists show who is actually here right now
+
+import { supabase } from '@/integrations/supabase/client';
+import type { FriendStatus } from '@/types/multiplayer';
+
+export const PRESENCE_CHANNEL = 'child-presence';
+
+// Matches the manage-friends online window (90s), which allows a few missed heartbeats
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export interface PresenceMeta {
+  child_id: string;
+  online_at: string;
+}
+
+export class PresenceService {
+  /** Records that the child still has a tab open */
+  static async heartbeat(childId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('manage-profiles', {
+      body: { action: 'heartbeat', child_id: childId, profile_data: {} }
+    });
+    if (error) throw error;
+  }
+
+  /** Child ids with at least one open tab, from a channel's presence state */
+  static getOnlineChildIds(state: Record<string, PresenceMeta[]>): Set<string> {
+    const ids = new Set<string>();
+    Object.values(state).forEach(metas => metas.forEach(meta => {
+      if (meta.child_id) ids.add(meta.child_id);
+    }));
+    return ids;
+  }
+
+  /**
+   * Live status: a child with an open tab is online, or in-game while they're in a room.
+   * Without a tab they're offline, whatever the room or heartbeat columns say.
+   */
+  static deriveStatus(isPresent: boolean, roomId?: string | null): FriendStatus {
+    if (!isPresent) return 'offline';
+    return roomId ? 'in-game' : 'online';
+  }
+}
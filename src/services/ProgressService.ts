@@ -0,0 +1,217 @@
+// Progress persistence - local cache first, synced with the manage-progress edge function
+
+import { DeviceCounters, GameResult, Progress } from '@/types';
+import { StorageService } from '@/lib/storage';
+import { supabase } from '@/integrations/supabase/client';
+
+type ProgressCache = Record<string, Progress>;
+
+// Counters saved before they were kept per device are carried as one bucket of their own
+const LEGACY_DEVICE = 'legacy';
+
+const latestISO = (a: string | null | undefined, b: string | null | undefined) => {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+export class ProgressService {
+  static createEmpty(childId: string): Progress {
+    return {
+      profileId: childId,
+      stars: 0,
+      badges: [],
+      streak: { current: 0, longest: 0, lastPlayedISO: null },
+      perGame: {}
+    };
+  }
+
+  /**
+   * Reads the per-child cache. Older builds stored a single Progress object
+   * under the same key; that shape is migrated into the map on first read.
+   */
+  private static readCache(): ProgressCache {
+    const saved = StorageService.getItem<ProgressCache | Progress>('PROGRESS');
+    if (!saved) return {};
+    if (typeof (saved as Progress).profileId === 'string') {
+      const legacy = saved as Progress;
+      return { [legacy.profileId]: legacy };
+    }
+    return saved as ProgressCache;
+  }
+
+  static getCached(childId: string): Progress | null {
+    return this.readCache()[childId] ?? null;
+  }
+
+  static cache(progress: Progress): void {
+    const all = this.readCache();
+    all[progress.profileId] = progress;
+    StorageService.setItem('PROGRESS', all);
+  }
+
+  /** This browser's id, made on first use; its counters are kept apart from other devices' */
+  static getDeviceId(): string {
+    const saved = StorageService.getItem<string>('DEVICE_ID');
+    if (saved) return saved;
+    const id = crypto.randomUUID();
+    StorageService.setItem('DEVICE_ID', id);
+    return id;
+  }
+
+  private static devicesOf(progress: Progress): Record<string, DeviceCounters> {
+    if (progress.devices && Object.keys(progress.devices).length > 0) return progress.devices;
+    const perGame: DeviceCounters['perGame'] = {};
+    Object.entries(progress.perGame).forEach(([gameId, stats]) => {
+      perGame[gameId] = { played: stats.played, correct: stats.correct, stars: stats.stars };
+    });
+    return progress.stars > 0 || Object.keys(perGame).length > 0
+      ? { [LEGACY_DEVICE]: { stars: progress.stars, perGame } }
+      : {};
+  }
+
+  /** Totals are the sum of every device's counters; lastPlayedISO is kept from the copy given */
+  private static withTotals(
+    progress: Progress,
+    devices: Record<string, DeviceCounters>,
+    lastPlayed: Record<string, string | null>
+  ): Progress {
+    const perGame: Progress['perGame'] = {};
+    let stars = 0;
+
+    Object.values(devices).forEach(device => {
+      stars += device.stars;
+      Object.entries(device.perGame).forEach(([gameId, counts]) => {
+        const total = perGame[gameId] ?? { played: 0, correct: 0, stars: 0, lastPlayedISO: lastPlayed[gameId] ?? null };
+        total.played += counts.played;
+        total.correct += counts.correct;
+        total.stars += counts.stars;
+        perGame[gameId] = total;
+      });
+    });
+
+    return { ...progress, stars, perGame, devices };
+  }
+
+  /** Counts a finished game on this device and recomputes the totals */
+  static addResult(progress: Progress, result: Pick<GameResult, 'gameId' | 'correct' | 'starsEarned' | 'endedAt'>): Progress {
+    const deviceId = this.getDeviceId();
+    const devices = { ...this.devicesOf(progress) };
+    const device = devices[deviceId] ?? { stars: 0, perGame: {} };
+    const counts = device.perGame[result.gameId] ?? { played: 0, correct: 0, stars: 0 };
+
+    devices[deviceId] = {
+      stars: device.stars + result.starsEarned,
+      perGame: {
+        ...device.perGame,
+        [result.gameId]: {
+          played: counts.played + 1,
+          correct: counts.correct + result.correct,
+          stars: counts.stars + result.starsEarned
+        }
+      }
+    };
+
+    const lastPlayed: Record<string, string | null> = {};
+    Object.entries(progress.perGame).forEach(([gameId, stats]) => {
+      lastPlayed[gameId] = stats.lastPlayedISO;
+    });
+    lastPlayed[result.gameId] = latestISO(lastPlayed[result.gameId], result.endedAt);
+
+    return this.withTotals(progress, devices, lastPlayed);
+  }
+
+  /**
+   * Merges two copies of the same child's progress
+   * Rules:
+   * - Each device only grows its own counters, so per device keep the larger of each;
+   *   the totals are then the sum over devices. Stars earned on two tablets at once both
+   *   count, and merging the same copy twice never double-counts.
+   * - Badges are unioned
+   * - The streak from whichever copy played most recently wins; longest is the max
+   * Keep in sync with mergeProgress in the manage-progress edge function.
+   */
+  static merge(local: Progress, remote: Progress): Progress {
+    const a = this.devicesOf(local);
+    const b = this.devicesOf(remote);
+    const devices: Record<string, DeviceCounters> = {};
+
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(deviceId => {
+      const x = a[deviceId] ?? { stars: 0, perGame: {} };
+      const y = b[deviceId] ?? { stars: 0, perGame: {} };
+      const perGame: DeviceCounters['perGame'] = {};
+      new Set([...Object.keys(x.perGame), ...Object.keys(y.perGame)]).forEach(gameId => {
+        perGame[gameId] = {
+          played: Math.max(x.perGame[gameId]?.played ?? 0, y.perGame[gameId]?.played ?? 0),
+          correct: Math.max(x.perGame[gameId]?.correct ?? 0, y.perGame[gameId]?.correct ?? 0),
+          stars: Math.max(x.perGame[gameId]?.stars ?? 0, y.perGame[gameId]?.stars ?? 0)
+        };
+      });
+      devices[deviceId] = { stars: Math.max(x.stars, y.stars), perGame };
+    });
+
+    const lastPlayed: Record<string, string | null> = {};
+    new Set([...Object.keys(local.perGame), ...Object.keys(remote.perGame)]).forEach(gameId => {
+      lastPlayed[gameId] = latestISO(local.perGame[gameId]?.lastPlayedISO, remote.perGame[gameId]?.lastPlayedISO);
+    });
+
+    const localLast = local.streak.lastPlayedISO;
+    const remoteLast = remote.streak.lastPlayedISO;
+    const newerStreak = latestISO(localLast, remoteLast) === localLast ? local.streak : remote.streak;
+
+    return this.withTotals({
+      profileId: local.profileId,
+      stars: 0,
+      badges: Array.from(new Set([...local.badges, ...remote.badges])),
+      streak: {
+        current: newerStreak.current,
+        longest: Math.max(local.streak.longest, remote.streak.longest),
+        lastPlayedISO: latestISO(localLast, remoteLast)
+      },
+      perGame: {},
+      updatedAt: latestISO(local.updatedAt, remote.updatedAt) ?? undefined
+    }, devices, lastPlayed);
+  }
+
+  static async fetchRemote(childId: string): Promise<Progress | null> {
+    const { data, error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'get_progress', child_id: childId }
+    });
+    if (error) throw error;
+    return (data?.data as Progress) ?? null;
+  }
+
+  /** Pushes the local copy; the server merges it with its own and returns the result */
+  static async pushRemote(progress: Progress): Promise<Progress | null> {
+    const { data, error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'save_progress', child_id: progress.profileId, progress }
+    });
+    if (error) throw error;
+    return (data?.data as Progress) ?? null;
+  }
+
+  /**
+   * Offline-first sync: merge the cached copy with the server copy, push the
+   * merged result back and cache what the server returns. Falls back to the
+   * cached copy when the server can't be reached.
+   */
+  static async sync(childId: string): Promise<Progress> {
+    const local = this.getCached(childId) ?? this.createEmpty(childId);
+
+    try {
+      const remote = await this.fetchRemote(childId);
+      const merged = remote ? this.merge(local, remote) : local;
+      const saved = await this.pushRemote(merged);
+      // Results recorded while the request was in flight are already in the cache
+      const latest = this.getCached(childId) ?? merged;
+      const result = saved ? this.merge(latest, saved) : this.merge(latest, merged);
+      this.cache(result);
+      return result;
+    } catch (error) {
+      console.error('Failed to sync progress, using local cache:', error);
+      const cached = this.getCached(childId);
+      if (!cached) this.cache(local);
+      return cached ?? local;
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// Story reading progress - local cache first, synced with the manage-progress edge function
+
+import type { InteractiveStory, StoryPath, StoryReadingProgress } from '@/types';
+import { StorageService } from '@/lib/storage';
+import { StoryEngine } from '@/lib/storyEngine';
+import { supabase } from '@/integrations/supabase/client';
+
+// child id -> story id -> progress
+type StoryProgressCache = Record<string, Record<string, StoryReadingProgress>>;
+
+const latestISO = (a: string | null | undefined, b: string | null | undefined) => {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+const earliestISO = (a: string | null, b: string | null) => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a).getTime() <= new Date(b).getTime() ? a : b;
+};
+
+export class StoryProgressService {
+  static createEmpty(storyId: string): StoryReadingProgress {
+    return {
+      storyId,
+      lastPath: [],
+      endingsFound: [],
+      bookmarks: [],
+      completedAt: null,
+      lastReadAt: new Date().toISOString()
+    };
+  }
+
+  private static readCache(): StoryProgressCache {
+    return StorageService.getItem<StoryProgressCache>('STORY_PROGRESS') ?? {};
+  }
+
+  static getCached(childId: string): Record<string, StoryReadingProgress> {
+    return this.readCache()[childId] ?? {};
+  }
+
+  static cache(childId: string, stories: Record<string, StoryReadingProgress>): void {
+    const all = this.readCache();
+    all[childId] = stories;
+    StorageService.setItem('STORY_PROGRESS', all);
+  }
+
+  /**
+   * Merges two copies of a child's progress in one story
+   * Rules:
+   * - Endings found are unioned and the story stays completed from the first time it was
+   * - The last-read path and bookmarks come from whichever copy was read most recently
+   * Keep in sync with mergeStoryProgress in the manage-progress edge function.
+   */
+  static merge(local: StoryReadingProgress, remote: StoryReadingProgress): StoryReadingProgress {
+    const newer = latestISO(local.lastReadAt, remote.lastReadAt) === local.lastReadAt ? local : remote;
+    return {
+      storyId: local.storyId,
+      lastPath: newer.lastPath,
+      endingsFound: Array.from(new Set([...local.endingsFound, ...remote.endingsFound])),
+      bookmarks: newer.bookmarks,
+      completedAt: earliestISO(local.completedAt, remote.completedAt),
+      lastReadAt: newer.lastReadAt
+    };
+  }
+
+  static mergeAll(
+    local: Record<string, StoryReadingProgress>,
+    remote: Record<string, StoryReadingProgress>
+  ): Record<string, StoryReadingProgress> {
+    const merged: Record<string, StoryReadingProgress> = { ...remote };
+    Object.values(local).forEach(progress => {
+      const other = remote[progress.storyId];
+      merged[progress.storyId] = other ? this.merge(progress, other) : progress;
+    });
+    return merged;
+  }
+
+  /** The child read up to the end of this path: remember it, and any ending it reached */
+  static recordPath(progress: StoryReadingProgress, story: InteractiveStory, path: StoryPath): StoryReadingProgress {
+    const now = new Date().toISOString();
+    const segment = StoryEngine.current(story, path);
+    const reachedEnding = !!segment?.isEnding;
+    return {
+      ...progress,
+      lastPath: path.segmentIds,
+      endingsFound: reachedEnding && !progress.endingsFound.includes(segment.id)
+        ? [...progress.endingsFound, segment.id]
+        : progress.endingsFound,
+      completedAt: progress.completedAt ?? (reachedEnding ? now : null),
+      lastReadAt: now
+    };
+  }
+
+  static isBookmarked(progress: StoryReadingProgress | undefined, segmentId: string): boolean {
+    return !!progress?.bookmarks.some(bookmark => bookmark.segmentIds[bookmark.segmentIds.length - 1] === segmentId);
+  }
+
+  /** Adds or removes a bookmark on the chapter at the end of the path */
+  static toggleBookmark(progress: StoryReadingProgress, path: StoryPath): StoryReadingProgress {
+    const segmentId = path.segmentIds[path.segmentIds.length - 1];
+    const now = new Date().toISOString();
+    const bookmarks = this.isBookmarked(progress, segmentId)
+      ? progress.bookmarks.filter(bookmark => bookmark.segmentIds[bookmark.segmentIds.length - 1] !== segmentId)
+      : [...progress.bookmarks, { segmentIds: path.segmentIds, createdAt: now }];
+    return { ...progress, bookmarks, lastReadAt: now };
+  }
+
+  /** The saved path to pick up from, if the story still has it and it isn't finished */
+  static getResumePath(progress: StoryReadingProgress | undefined, story: InteractiveStory): StoryPath | null {
+    if (!progress || progress.lastPath.length === 0) return null;
+    const path: StoryPath = { storyId: story.id, segmentIds: progress.lastPath };
+    if (!StoryEngine.isValidPath(story, path) || StoryEngine.isFinished(story, path)) return null;
+    return path;
+  }
+
+  static async fetchRemote(childId: string): Promise<StoryReadingProgress[]> {
+    const { data, error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'get_story_progress', child_id: childId }
+    });
+    if (error) throw error;
+    return (data?.data as StoryReadingProgress[]) ?? [];
+  }
+
+  /** Pushes the local copies; the server merges them with its own and returns the result */
+  static async pushRemote(childId: string, stories: StoryReadingProgress[]): Promise<StoryReadingProgress[]> {
+    const { data, error } = await supabase.functions.invoke('manage-progress', {
+      body: { action: 'save_story_progress', child_id: childId, stories }
+    });
+    if (error) throw error;
+    return (data?.data as StoryReadingProgress[]) ?? [];
+  }
+
+  /**
+   * Offline-first sync, the same way as ProgressService.sync: merge the cached copies with
+   * the server's, push the result back and cache what the server returns. Falls back to
+   * the cache when the server can't be reached.
+   */
+  static async sync(childId: string): Promise<Record<string, StoryReadingProgress>> {
+    const local = this.getCached(childId);
+
+    try {
+      const remote = await this.fetchRemote(childId);
+      const merged = this.mergeAll(local, Object.fromEntries(remote.map(p => [p.storyId, p])));
+      const saved = await this.pushRemote(childId, Object.values(merged));
+      // Reading done while the request was in flight is already in the cache
+      const result = this.mergeAll(this.getCached(childId), Object.fromEntries(saved.map(p => [p.storyId, p])));
+      this.cache(childId, result);
+      return result;
+    } catch (error) {
+      console.error('Failed to sync story progress, using local cache:', error);
+      return local;
+    }
+  }
+}
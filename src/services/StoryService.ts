@@ -0,0 +1,52 @@
+// Stories children make - saved per child through the manage-stories edge function
+
+import type { SavedStory } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+const TITLE_WORDS = 6;
+
+export class StoryService {
+  static async list(auth0UserId: string, childId: string): Promise<SavedStory[]> {
+    const { data, error } = await supabase.functions.invoke('manage-stories', {
+      body: { action: 'list_stories', auth0_user_id: auth0UserId, child_id: childId }
+    });
+    if (error) throw error;
+    return (data?.data as SavedStory[]) ?? [];
+  }
+
+  static async get(auth0UserId: string, childId: string, storyId: string): Promise<SavedStory | null> {
+    const { data, error } = await supabase.functions.invoke('manage-stories', {
+      body: { action: 'get_story', auth0_user_id: auth0UserId, child_id: childId, story_id: storyId }
+    });
+    if (error) throw error;
+    return (data?.data as SavedStory) ?? null;
+  }
+
+  /** Creates the story, or updates it when an id is given (editing and renaming both go through here) */
+  static async save(
+    auth0UserId: string,
+    childId: string,
+    story: { id?: string; title: string; content: string }
+  ): Promise<SavedStory> {
+    const { data, error } = await supabase.functions.invoke('manage-stories', {
+      body: { action: 'save_story', auth0_user_id: auth0UserId, child_id: childId, story }
+    });
+    if (error) throw error;
+    return data.data as SavedStory;
+  }
+
+  static async remove(auth0UserId: string, childId: string, storyId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('manage-stories', {
+      body: { action: 'delete_story', auth0_user_id: auth0UserId, child_id: childId, story_id: storyId }
+    });
+    if (error) throw error;
+  }
+
+  /** A starting title from the story's first few words, for when the child didn't give one */
+  static suggestTitle(content: string): string {
+    const words = content.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return 'My Story';
+    const title = words.slice(0, TITLE_WORDS).join(' ').replace(/[.,!?;:]+$/, '');
+    return words.length > TITLE_WORDS ? `${title}…` : title;
+  }
+}
@@ -8,11 +8,19 @@ export interface User {
   hasParentProfile?: boolean;
 }
 
+export type AgeGroup = 'toddler' | 'preschool' | 'elementary' | 'tween';
+
+/** Inclusive range of ages (in years) a piece of content is written for */
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
 export interface ChildProfile {
   id: string;
   userId: string;
   name: string;
-  ageGroup: 'toddler' | 'preschool' | 'elementary' | 'tween';
+  ageGroup: AgeGroup;
   avatar: string;
   createdAt: string;
   updatedAt: string;
@@ -27,6 +35,9 @@ export interface ParentProfile {
   updatedAt: string;
 }
 
+// 'auto' matches AI friends to the game's difficulty
+export type AISkillSetting = 'auto' | 'easy' | 'medium' | 'hard';
+
 export interface ParentControl {
   id: string;
   userId: string;
@@ -42,17 +53,31 @@ export interface ParentControl {
     enabled: boolean;
     warningMinutes: number; // minutes before bedtime to show warning
   };
+  difficulty: {
+    adaptive: boolean;
+    pinned: Record<string, string>; // gameId -> difficulty fixed by the parent
+  };
+  aiOpponent: {
+    skill: AISkillSetting;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+export type ScreenTimeLockReason = 'daily_limit' | 'outside_hours' | 'bedtime';
+
+export interface PinVerification {
+  valid: boolean;
+  reason?: 'no_pin' | 'incorrect' | 'locked';
+  lockedUntil?: string | null;
+}
+
 export interface GameConfig {
   id: string;
   title: string;
   icon: string;
   enabled: boolean;
   difficulties: string[];
-  dataSource: string;
   scoring: {
     correct: number;
     streakBonus?: number;
@@ -62,6 +87,7 @@ export interface GameConfig {
 }
 
 export interface GameResult {
+  id?: string; // assigned when the result is recorded in the history log
   gameId: string;
   profileId: string;
   difficulty: string;
@@ -69,9 +95,103 @@ export interface GameResult {
   total: number;
   starsEarned: number;
   theme?: string;
+  durationSeconds?: number;
   endedAt: string;
 }
 
+export interface GameHistoryFilters {
+  gameId?: string;
+  difficulty?: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, inclusive
+  limit?: number;
+}
+
+export interface GameTrendPoint {
+  period: string; // "yyyy-MM-dd" (day) or the Monday of the week
+  gameId: string;
+  difficulty: string;
+  plays: number;
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1
+  stars: number;
+  averageDurationSeconds: number | null;
+  totalDurationSeconds: number; // games without a recorded duration add 0
+}
+
+// Parent reports
+export interface ChildActivity {
+  progress: Progress | null;
+  results: GameResult[];
+  stories: Array<{ id: string; title: string; createdAt: string }>;
+  // Ready-made stories the child has read. Only the latest read of each story is kept.
+  storiesRead: Array<{
+    storyId: string;
+    title: string;
+    lastReadAt: string;
+    completedAt: string | null;
+    endingsFound: number;
+  }>;
+  friends: Array<{ id: string; friendId: string; addedAt: string }>;
+  multiplayerScores: Array<{ roomId: string; score: number; totalQuestions: number; playedAt: string }>;
+  // Time the app was in use each day (games, stories and everything else), "yyyy-MM-dd" local dates
+  screenTime: Array<{ date: string; seconds: number }>;
+}
+
+export interface WeeklySummary {
+  weekStart: string; // Monday, "yyyy-MM-dd"
+  gamesPlayed: number;
+  minutesPlayed: number;
+  starsEarned: number;
+  accuracy: number | null; // 0-1, null when no questions were answered
+  storiesCreated: number;
+  storiesRead: number;
+  friendsAdded: number;
+  roomsJoined: number;
+}
+
+export interface ChildActivityReport {
+  childId: string;
+  childName: string;
+  since: string;
+  until: string;
+  generatedAt: string;
+  activity: ChildActivity; // unfiltered, so narrower reports can be derived
+  progress: Progress | null;
+  results: GameResult[];
+  minutesPlayed: number;
+  gamesPlayed: number;
+  starsEarned: number;
+  riddleAccuracy: number | null;
+  byGame: Array<{
+    gameId: string;
+    difficulty: string;
+    plays: number;
+    correct: number;
+    total: number;
+    accuracy: number;
+    minutes: number; // recorded game durations only
+  }>;
+  stories: ChildActivity['stories'];
+  storiesRead: ChildActivity['storiesRead'];
+  friendsAdded: number;
+  totalFriends: number;
+  roomsJoined: number;
+  weekly: WeeklySummary[];
+}
+
+// What one device has added to a child's counters. Each device only ever grows its own
+// entry, so copies merge by taking the larger value per device and summing across devices.
+export interface DeviceCounters {
+  stars: number;
+  perGame: Record<string, {
+    played: number;
+    correct: number;
+    stars: number;
+  }>;
+}
+
 export interface Progress {
   profileId: string;
   stars: number;
@@ -87,18 +207,44 @@ export interface Progress {
     stars: number;
     lastPlayedISO: string | null;
   }>;
+  // Keyed by device id; stars and perGame counters are the sum of these
+  devices?: Record<string, DeviceCounters>;
+  updatedAt?: string;
 }
 
+export type BadgeMetric = 'total_correct' | 'streak' | 'games_played' | 'stars_earned';
+
+/**
+ * A single threshold. gameId, theme and difficulty narrow which results count;
+ * streak conditions always use the child's longest daily streak.
+ */
+export interface BadgeCondition {
+  type: BadgeMetric;
+  gameId?: string;
+  theme?: string;
+  difficulty?: string;
+  value: number;
+}
+
+export type BadgeRequirement =
+  | BadgeCondition
+  | { type: 'all'; conditions: BadgeRequirement[] }
+  | { type: 'any'; conditions: BadgeRequirement[] };
+
 export interface Badge {
   id: string;
   title: string;
   description: string;
   icon: string;
-  requirement: {
-    type: 'total_correct' | 'streak' | 'games_played' | 'stars_earned';
-    gameId?: string;
-    value: number;
-  };
+  requirement: BadgeRequirement;
+}
+
+export interface BadgeProgress {
+  badge: Badge;
+  unlocked: boolean;
+  current: number;
+  target: number;
+  percent: number; // 0-100
 }
 
 // Game-specific types
@@ -109,6 +255,7 @@ export interface RiddleQuestion {
   correctAnswer: number;
   theme: string;
   difficulty: string;
+  ages?: AgeRange;
   hint?: string;
 }
 
@@ -125,10 +272,96 @@ export interface CrosswordWord {
 }
 
 export interface CrosswordPuzzle {
+  ages?: AgeRange;
   gridSize: number;
   words: CrosswordWord[];
 }
 
+export interface CrosswordGridCell {
+  letter: string;
+  userLetter: string;
+  isBlack: boolean;
+  number?: number;
+  wordIds: number[]; // IDs of words that pass through this cell
+  // Co-op only
+  editedBy?: string; // child whose edit is showing
+  editedAt?: number; // server time of that edit
+  solvedBy?: string; // child who finished a word through this cell; the cell is locked
+}
+
+export interface WordScramblePuzzle {
+  id: string;
+  difficulty: string;
+  ages?: AgeRange;
+  scrambled: string;
+  answer: string;
+  hint: string;
+}
+
+export interface EmojiGuessPuzzle {
+  id: string;
+  difficulty: string;
+  ages?: AgeRange;
+  emojis: string;
+  answer: string;
+  hint: string;
+}
+
+// Content banks as stored in src/config, keyed by theme then difficulty
+export type RiddleBank = Record<string, Record<string, Riddle[]>>;
+export type CrosswordBank = Record<string, Record<string, CrosswordPuzzle>>;
+
+// Multiplayer sessions - written by the manage-game-rooms edge function, rendered by every client
+export type MultiplayerSessionState = 'active' | 'paused' | 'finished';
+
+export interface MultiplayerSessionData {
+  gameId: string;
+  theme: string;
+  difficulty: string;
+  questionIds: string[]; // the order every player sees; one 'grid' round for crosswords
+  countdownSeconds: number;
+  secondsPerQuestion: number;
+  startsAt: string; // when the first question opens (end of the countdown)
+  pausedAt: string | null;
+  pausedMs: number; // total time spent paused so far
+  finishedAt: string | null;
+  mode?: 'race' | 'coop'; // co-op: one shared crossword grid, each word credited to whoever finishes it
+}
+
+export interface MultiplayerSession {
+  id: string;
+  roomId: string;
+  state: MultiplayerSessionState;
+  data: MultiplayerSessionData;
+  updatedAt: string;
+}
+
+export interface MultiplayerSessionSnapshot {
+  phase: 'countdown' | 'question' | 'paused' | 'finished';
+  questionIndex: number; // -1 during the countdown
+  questionId: string | null;
+  countdownRemaining: number; // whole seconds
+  secondsRemaining: number; // whole seconds left on the current question
+}
+
+// A voice stories can be read aloud in: a built-in one, or one cloned from a recording
+export interface NarrationVoice {
+  id: string;
+  name: string;
+  type: 'default' | 'cloned';
+}
+
+// A story a child typed or dictated, kept on their "My Stories" shelf
+export interface SavedStory {
+  id: string;
+  childId: string;
+  title: string;
+  content: string;
+  audioUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface StorySegment {
   id: string;
   title: string;
@@ -141,6 +374,67 @@ export interface StorySegment {
   isEnding: boolean;
 }
 
+// A branching story: segments are nodes, choices are edges, endings are where it stops
+export interface InteractiveStory {
+  id: string;
+  title: string;
+  description?: string;
+  icon?: string;
+  coverImageUrl?: string;
+  ages?: AgeRange;
+  startSegmentId: string;
+  segments: StorySegment[];
+}
+
+// What the story shelf shows; chapters and reading time are worked out from the segments
+export interface StoryCatalogEntry {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  coverImageUrl?: string;
+  ages?: AgeRange;
+  chapters: number; // segments on the longest read-through
+  endings: number;
+  readingMinutes: number;
+}
+
+// Where a reader has been in an interactive story, start segment first
+export interface StoryPath {
+  storyId: string;
+  segmentIds: string[];
+}
+
+// A chapter the child marked to come back to, with the path that leads there
+export interface StoryBookmark {
+  segmentIds: string[];
+  createdAt: string;
+}
+
+// One child's reading of one ready-made story
+export interface StoryReadingProgress {
+  storyId: string;
+  lastPath: string[]; // segment ids of the last-read path, start first
+  endingsFound: string[];
+  bookmarks: StoryBookmark[];
+  completedAt: string | null; // first time any ending was reached
+  lastReadAt: string;
+}
+
+export type StoryGraphIssueType =
+  | 'missing-start'
+  | 'duplicate-segment'
+  | 'broken-link' // a choice points at a segment that doesn't exist
+  | 'dead-end' // not an ending, but there's nowhere to go
+  | 'unreachable' // no path from the start leads here
+  | 'no-ending'; // every path from here loops forever
+
+export interface StoryGraphIssue {
+  type: StoryGraphIssueType;
+  segmentId?: string;
+  message: string;
+}
+
 // Auth types
 export interface AuthState {
   user: User | null;
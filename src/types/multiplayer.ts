@@ -1,8 +1,10 @@
+export type FriendStatus = 'online' | 'offline' | 'in-game';
+
 export interface Friend {
   id: string;
   name: string;
   avatar: string;
-  status: 'online' | 'offline' | 'in-game';
+  status: FriendStatus;
   child_id: string;
 }
 
@@ -45,8 +47,65 @@ export interface MultiplayerGameSession {
   updated_at: string;
 }
 
+export type RematchStatus = 'pending' | 'started' | 'cancelled';
+
+// game_rooms.play_again_request, managed by the manage-game-rooms edge function
+export interface RematchRequest {
+  id: string;
+  requestedBy: string; // child id
+  requestedByName: string;
+  requestedAt: string;
+  expiresAt: string;
+  status: RematchStatus;
+  responses: Record<string, 'accepted' | 'declined'>; // child id -> response
+}
+
+export type AIPersonality = 'logical' | 'energetic' | 'calm' | 'speedy' | 'techy';
+
 export interface AIFriend {
   name: string;
   avatar: string;
-  personality: string;
-}
\ No newline at end of file
+  personality: AIPersonality;
+}
+// game_rooms.game_mode: race to finish your own copy, or fill one shared grid together (crossword only)
+export type GameMode = 'race' | 'coop';
+
+// Co-op crossword realtime messages (see useCoopGrid)
+export interface CoopCellEdit {
+  row: number;
+  col: number;
+  letter: string; // '' clears the cell
+  childId: string;
+  at: number; // server time in ms
+}
+
+export interface CoopCursor {
+  childId: string;
+  name: string;
+  avatar: string;
+  row: number;
+  col: number;
+  direction: 'across' | 'down';
+}
+
+// A room as the multiplayer game framework sees it (see useMultiplayerRoom)
+export interface RoomInfo {
+  id: string;
+  code: string;
+  gameId: string;
+  hostChildId: string;
+  difficulty: string;
+  theme: string | null; // games without themes leave it empty
+  mode: GameMode;
+}
+
+// A room participant with their score for the current round
+export interface RoomPlayer {
+  id: string; // child id, or `ai-<name>` for AI players
+  name: string;
+  avatar: string;
+  isAI: boolean;
+  score: number;
+  answered: number; // questions answered this round, right or wrong
+  streak: number;
+}
@@ -6,6 +6,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Open tabs send a heartbeat every 30 seconds; allow a few to go missing before showing offline
+const ONLINE_WINDOW_MS = 90 * 1000;
+
+// Server-side fallback for friend status. Clients refine it with live Realtime Presence.
+const deriveStatus = (child: { room_id?: string | null; last_seen_at?: string | null } | null) => {
+  const lastSeen = child?.last_seen_at ? Date.parse(child.last_seen_at) : 0;
+  if (Date.now() - lastSeen > ONLINE_WINDOW_MS) return 'offline';
+  return child?.room_id ? 'in-game' : 'online';
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -98,8 +108,8 @@ serve(async (req) => {
             status,
             requester_id,
             addressee_id,
-            requester:children_profiles!friends_requester_id_fkey(id, name, avatar, room_id),
-            addressee:children_profiles!friends_addressee_id_fkey(id, name, avatar, room_id)
+            requester:children_profiles!friends_requester_id_fkey(id, name, avatar, room_id, last_seen_at),
+            addressee:children_profiles!friends_addressee_id_fkey(id, name, avatar, room_id, last_seen_at)
           `)
           .or(`requester_id.eq.${child_id},addressee_id.eq.${child_id}`)
           .eq('status', 'accepted');
@@ -114,8 +124,9 @@ serve(async (req) => {
             child_id: friendData?.id,
             name: friendData?.name,
             avatar: friendData?.avatar,
-            status: friendData?.room_id ? 'in-game' : 'online',
-            room_id: friendData?.room_id
+            status: deriveStatus(friendData),
+            room_id: friendData?.room_id,
+            last_seen_at: friendData?.last_seen_at
           };
         }) || [];
 
@@ -186,7 +197,7 @@ serve(async (req) => {
 
         const { data: specificFriends, error: specificFriendsError } = await supabase
           .from('children_profiles')
-          .select('id, name, avatar, room_id')
+          .select('id, name, avatar, room_id, last_seen_at')
           .in('id', friend_ids);
 
         if (specificFriendsError) throw specificFriendsError;
@@ -194,7 +205,7 @@ serve(async (req) => {
         const friendsWithStatus = specificFriends?.map(friend => ({
           ...friend,
           child_id: friend.id,
-          status: friend.room_id ? 'in-game' : 'online'
+          status: deriveStatus(friend)
         })) || [];
 
         return new Response(
@@ -206,15 +217,13 @@ serve(async (req) => {
         // List all children across all parents (service role bypasses RLS)
         const { data: allChildren, error: listError } = await supabase
           .from('children_profiles')
-          .select('id, name, avatar, updated_at, is_online, last_seen_at, room_id')
+          .select('id, name, avatar, updated_at, last_seen_at, room_id')
           .neq('id', child_id)
-          .order('is_online', { ascending: false })
           .order('last_seen_at', { ascending: false });
 
-        // Transform children data to include status based on room_id
         const childrenWithStatus = allChildren?.map(child => ({
           ...child,
-          status: child.room_id ? 'in-game' : (child.is_online ? 'online' : 'offline')
+          status: deriveStatus(child)
         })) || [];
 
         return new Response(
@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+// Server copies of the question banks in src/config (edge functions only bundle files
+// under supabase/functions). Answers are checked against these. Generated by
+// `npm run sync:banks`; `npm run lint` and `npm run build` fail when they're out of date.
+import riddleBank from '../_shared/riddles.json' with { type: 'json' };
+import crosswordBank from '../_shared/crosswords.json' with { type: 'json' };
+import wordScrambleBank from '../_shared/word-scramble.json' with { type: 'json' };
+import emojiGuessBank from '../_shared/emoji-guess.json' with { type: 'json' };
 
 // Deno runtime global (keep typed as any for compatibility in editors)
 declare const Deno: any;
@@ -22,6 +29,457 @@ function generateRoomCode(): string {
   return Math.random().toString(36).substring(2, 8).toUpperCase();
 }
 
+// Points for a correct answer, matching what each game shows locally
+const POINTS_PER_CORRECT_ANSWER: Record<string, number> = {
+  riddle: 1,
+  crossword: 10,
+  'word-scramble': 2,
+  'emoji-guess': 2
+};
+
+type RiddleBankJson = Record<string, Record<string, Array<{ id: string; options: string[]; correctAnswer: number }>>>;
+type CrosswordBankJson = Record<string, Record<string, { words: Array<{ id: number; word: string }> }>>;
+// Word Scramble and Emoji Guess have no themes: one list, tagged by difficulty
+type TypedAnswerBankJson = Array<{ id: string; difficulty: string; answer: string }>;
+
+const TYPED_ANSWER_BANKS: Record<string, TypedAnswerBankJson> = {
+  'word-scramble': wordScrambleBank as TypedAnswerBankJson,
+  'emoji-guess': emojiGuessBank as TypedAnswerBankJson
+};
+
+// The expected answer to a question in the room's game, theme and difficulty, or null if it isn't part of it
+function getExpectedAnswer(gameId: string, theme: string, difficulty: string, questionId: string): string | null {
+  if (gameId === 'riddle') {
+    const riddle = (riddleBank as RiddleBankJson)[theme]?.[difficulty]?.find(r => r.id === questionId);
+    return riddle ? riddle.options[riddle.correctAnswer] : null;
+  }
+  if (gameId === 'crossword') {
+    const word = (crosswordBank as CrosswordBankJson)[theme]?.[difficulty]?.words.find(w => String(w.id) === questionId);
+    return word ? word.word : null;
+  }
+  if (TYPED_ANSWER_BANKS[gameId]) {
+    const puzzle = TYPED_ANSWER_BANKS[gameId].find(p => p.id === questionId && p.difficulty === difficulty);
+    return puzzle ? puzzle.answer : null;
+  }
+  return null;
+}
+
+const normalizeAnswer = (answer: string) => answer.trim().replace(/\s+/g, ' ').toUpperCase();
+
+// Matches the reap_stale_game_rooms default; the scheduled reaper cleans these up, but requests
+// that touch a stale room treat it as gone straight away
+const ROOM_IDLE_MINUTES = 30;
+
+type RoomTimestamps = { expires_at?: string | null; last_activity_at?: string | null; updated_at?: string | null };
+
+function isRoomStale(room: RoomTimestamps): boolean {
+  const now = Date.now();
+  if (room.expires_at && Date.parse(room.expires_at) < now) return true;
+  const lastActivity = Math.max(
+    room.last_activity_at ? Date.parse(room.last_activity_at) : 0,
+    room.updated_at ? Date.parse(room.updated_at) : 0
+  );
+  return lastActivity > 0 && now - lastActivity > ROOM_IDLE_MINUTES * 60 * 1000;
+}
+
+// A host whose last heartbeat (manage-profiles) is older than this can be replaced
+const HOST_TIMEOUT_MS = 90 * 1000;
+
+// Games that run as a synchronized session: everyone gets the same question at the same time.
+// singleRound games have one timed round covering every question (the whole crossword grid).
+const SESSION_TIMING: Record<string, { countdownSeconds: number; secondsPerQuestion: number; singleRound?: boolean }> = {
+  riddle: { countdownSeconds: 3, secondsPerQuestion: 20 },
+  crossword: { countdownSeconds: 3, secondsPerQuestion: 600, singleRound: true },
+  'word-scramble': { countdownSeconds: 3, secondsPerQuestion: 30 },
+  'emoji-guess': { countdownSeconds: 3, secondsPerQuestion: 30 }
+};
+
+// A rematch offer stays open this long; after that anyone can make a new one
+const REMATCH_TIMEOUT_MS = 60 * 1000;
+
+// Stored in game_rooms.play_again_request
+type RematchRequest = {
+  id: string;
+  requestedBy: string;
+  requestedByName: string;
+  requestedAt: string;
+  expiresAt: string;
+  status: 'pending' | 'started' | 'cancelled';
+  responses: Record<string, 'accepted' | 'declined'>; // child id -> response
+};
+
+const isRematchOpen = (request: RematchRequest | null | undefined): request is RematchRequest =>
+  !!request && request.status === 'pending' && Date.parse(request.expiresAt) > Date.now();
+
+// Answers that arrive just after a deadline still count (network latency)
+const ANSWER_GRACE_MS = 1500;
+
+type SessionData = {
+  gameId: string;
+  theme: string;
+  difficulty: string;
+  questionIds: string[];
+  countdownSeconds: number;
+  secondsPerQuestion: number;
+  startsAt: string; // when the first question opens, i.e. the end of the countdown
+  pausedAt: string | null;
+  pausedMs: number;
+  finishedAt: string | null;
+  mode?: 'race' | 'coop'; // co-op: one shared grid, each word credited to whoever finishes it
+};
+
+// Games whose rooms can play together on one board instead of racing
+const COOP_GAMES = ['crossword'];
+
+type SessionRow = {
+  id: string;
+  room_id: string;
+  game_state: 'active' | 'paused' | 'finished';
+  game_data: SessionData;
+  updated_at: string;
+};
+
+const toSession = (row: SessionRow) => ({
+  id: row.id,
+  roomId: row.room_id,
+  state: row.game_state,
+  data: row.game_data,
+  updatedAt: row.updated_at
+});
+
+// Index of the open question at `now`: -1 during the countdown, questionIds.length once time is up
+function getQuestionIndex(data: SessionData, now: number): number {
+  const reference = data.pausedAt ? Date.parse(data.pausedAt) : now;
+  const elapsed = reference - Date.parse(data.startsAt) - data.pausedMs;
+  if (elapsed < 0) return -1;
+  return Math.min(data.questionIds.length, Math.floor(elapsed / (data.secondsPerQuestion * 1000)));
+}
+
+function getQuestionIds(gameId: string, theme: string, difficulty: string): string[] {
+  if (gameId === 'riddle') {
+    return ((riddleBank as RiddleBankJson)[theme]?.[difficulty] ?? []).map(r => r.id);
+  }
+  if (gameId === 'crossword') {
+    return (crosswordBank as CrosswordBankJson)[theme]?.[difficulty] ? ['grid'] : [];
+  }
+  if (TYPED_ANSWER_BANKS[gameId]) {
+    return TYPED_ANSWER_BANKS[gameId].filter(p => p.difficulty === difficulty).map(p => p.id);
+  }
+  return [];
+}
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+/**
+ * Clears a child's room link if the room is gone or stale.
+ * Returns true if the child is now free to create or join a room.
+ */
+async function releaseStaleRoomLink(client: ServiceClient, childId: string, roomId: string): Promise<boolean> {
+  const { data: linkedRoom } = await client
+    .from('game_rooms')
+    .select('id, expires_at, last_activity_at, updated_at')
+    .eq('id', roomId)
+    .maybeSingle();
+
+  if (linkedRoom && !isRoomStale(linkedRoom as RoomTimestamps)) return false;
+
+  await client
+    .from('children_profiles')
+    .update({ room_id: null })
+    .eq('id', childId);
+  return true;
+}
+
+// One zeroed score row per participant. Old answers are removed along with the old rows.
+async function resetRoomScores(client: ServiceClient, roomId: string) {
+  const { data: roomParticipants } = await client
+    .from('room_participants')
+    .select('child_id, player_name, player_avatar, is_ai')
+    .eq('room_id', roomId);
+
+  const participantRows = (roomParticipants || []) as Array<{
+    child_id: string | null; player_name: string; player_avatar: string | null; is_ai: boolean;
+  }>;
+
+  await client
+    .from('multiplayer_game_scores')
+    .delete()
+    .eq('room_id', roomId);
+
+  const { data: standings, error } = await client
+    .from('multiplayer_game_scores')
+    .insert(participantRows.map(p => ({
+      room_id: roomId,
+      child_id: p.is_ai ? null : p.child_id,
+      player_name: p.player_name,
+      player_avatar: p.player_avatar,
+      is_ai: p.is_ai,
+      score: 0,
+      total_questions: 0,
+      streak: 0
+    })))
+    .select();
+
+  if (error) throw error;
+  return standings ?? [];
+}
+
+/**
+ * Hands the room to the longest-present human participant other than the outgoing host.
+ * With requireOnline, candidates must have sent a recent heartbeat.
+ * Returns the new host's child id, or null if nobody can take over.
+ */
+async function migrateHost(
+  client: ServiceClient,
+  roomId: string,
+  outgoingHostId: string,
+  { requireOnline = false } = {}
+): Promise<string | null> {
+  const { data: candidates } = await client
+    .from('room_participants')
+    .select('child_id, joined_at')
+    .eq('room_id', roomId)
+    .eq('is_ai', false)
+    .not('child_id', 'is', null)
+    .neq('child_id', outgoingHostId)
+    .order('joined_at', { ascending: true });
+
+  let successors = ((candidates || []) as Array<{ child_id: string }>).map(c => c.child_id);
+
+  if (requireOnline && successors.length > 0) {
+    const { data: profiles } = await client
+      .from('children_profiles')
+      .select('id, last_seen_at')
+      .in('id', successors);
+    const online = new Set(((profiles || []) as Array<{ id: string; last_seen_at: string | null }>)
+      .filter(p => p.last_seen_at && Date.now() - Date.parse(p.last_seen_at) <= HOST_TIMEOUT_MS)
+      .map(p => p.id));
+    successors = successors.filter(id => online.has(id));
+  }
+
+  const nextHostId = successors[0] ?? null;
+  if (!nextHostId) return null;
+
+  // Only move the room if the outgoing host still holds it, so concurrent claims agree
+  const { data: moved } = await client
+    .from('game_rooms')
+    .update({ host_child_id: nextHostId, updated_at: new Date().toISOString() })
+    .eq('id', roomId)
+    .eq('host_child_id', outgoingHostId)
+    .select('id');
+
+  return moved && moved.length > 0 ? nextHostId : null;
+}
+
+/**
+ * Takes a child out of a room. A leaving host hands the room to the longest-present human;
+ * if nobody can take over, the remaining players are released and the room is deleted.
+ */
+async function removeParticipant(client: ServiceClient, roomId: string, childId: string) {
+  const { error: leaveError } = await client
+    .from('room_participants')
+    .delete()
+    .eq('room_id', roomId)
+    .eq('child_id', childId);
+
+  if (leaveError) throw leaveError;
+
+  // Set player as not in room
+  await client
+    .from('children_profiles')
+    .update({ room_id: null } as any)
+    .eq('id', childId);
+
+  // Get updated room info
+  const { data: updatedRoom } = await client
+    .from('game_rooms')
+    .select('*')
+    .eq('id', roomId)
+    .single();
+
+  if (!updatedRoom) return;
+
+  const newPlayerCount = updatedRoom.current_players - 1;
+  // Clients follow a host change via realtime
+  const newHostId = updatedRoom.host_child_id === childId && newPlayerCount > 0
+    ? await migrateHost(client, roomId, childId)
+    : null;
+
+  if (newPlayerCount <= 0 || (updatedRoom.host_child_id === childId && !newHostId)) {
+    // Nobody left to host: release any remaining participants, then delete the room
+    const { data: remainingParticipants } = await client
+      .from('room_participants')
+      .select('child_id')
+      .eq('room_id', roomId)
+      .not('child_id', 'is', null);
+
+    if (remainingParticipants && remainingParticipants.length > 0) {
+      const participantIds = remainingParticipants.map((p: any) => p.child_id);
+      await client
+        .from('children_profiles')
+        .update({ room_id: null } as any)
+        .in('id', participantIds);
+    }
+
+    await client
+      .from('game_rooms')
+      .delete()
+      .eq('id', roomId);
+  } else {
+    // Update player count
+    await client
+      .from('game_rooms')
+      .update({ current_players: newPlayerCount })
+      .eq('id', roomId);
+  }
+}
+
+type SessionRoom = {
+  id: string;
+  game_id: string;
+  difficulty: string;
+  selected_category: string | null;
+  game_mode?: string | null;
+};
+
+// Fresh scores, a fresh session and a countdown every client renders from the same startsAt
+async function startSession(client: ServiceClient, room: SessionRoom) {
+  const timing = SESSION_TIMING[room.game_id];
+  if (!timing) throw new Error(`${room.game_id} does not support synchronized sessions`);
+
+  const theme = room.selected_category ?? '';
+  const questionIds = getQuestionIds(room.game_id, theme, room.difficulty);
+  if (questionIds.length === 0) throw new Error('No questions available for this theme');
+
+  const standings = await resetRoomScores(client, room.id);
+
+  await client
+    .from('multiplayer_game_sessions')
+    .delete()
+    .eq('room_id', room.id);
+
+  const gameData: SessionData = {
+    gameId: room.game_id,
+    theme,
+    difficulty: room.difficulty,
+    questionIds,
+    countdownSeconds: timing.countdownSeconds,
+    secondsPerQuestion: timing.secondsPerQuestion,
+    startsAt: new Date(Date.now() + timing.countdownSeconds * 1000).toISOString(),
+    pausedAt: null,
+    pausedMs: 0,
+    finishedAt: null,
+    mode: room.game_mode === 'coop' && COOP_GAMES.includes(room.game_id) ? 'coop' : 'race'
+  };
+
+  const { data: session, error } = await client
+    .from('multiplayer_game_sessions')
+    .insert({ room_id: room.id, game_state: 'active', game_data: gameData })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await client
+    .from('game_rooms')
+    .update({ status: 'playing', player_progress: {}, updated_at: new Date().toISOString() })
+    .eq('id', room.id);
+
+  return { session: session as SessionRow, standings };
+}
+
+// Co-op: once every word in the grid has been claimed, the round is over for everyone
+async function finishSolvedCoopGrid(client: ServiceClient, session: SessionRow) {
+  const { gameId, theme, difficulty } = session.game_data;
+  const totalWords = gameId === 'crossword'
+    ? (crosswordBank as CrosswordBankJson)[theme]?.[difficulty]?.words.length ?? 0
+    : 0;
+
+  const { count } = await client
+    .from('coop_word_claims')
+    .select('question_id', { count: 'exact', head: true })
+    .eq('room_id', session.room_id);
+
+  if (!totalWords || (count ?? 0) < totalWords) return;
+
+  const now = new Date().toISOString();
+  await client
+    .from('multiplayer_game_sessions')
+    .update({ game_state: 'finished', game_data: { ...session.game_data, finishedAt: now }, updated_at: now })
+    .eq('id', session.id)
+    .neq('game_state', 'finished');
+
+  await client
+    .from('game_rooms')
+    .update({ status: 'finished', updated_at: now })
+    .eq('id', session.room_id);
+}
+
+// True while a synchronized round is counting down or has questions left to answer
+const isSessionRunning = (session: SessionRow | null) =>
+  !!session && session.game_state !== 'finished' && getQuestionIndex(session.game_data, Date.now()) < session.game_data.questionIds.length;
+
+// Changes one field of an open rematch request in a single statement, so simultaneous
+// responses can't overwrite each other. Returns null if the request is no longer open.
+async function updateRematch(client: ServiceClient, roomId: string, requestId: string, path: string[], value: unknown) {
+  const { data, error } = await client.rpc('update_rematch_request', {
+    p_room_id: roomId,
+    p_request_id: requestId,
+    p_path: path,
+    p_value: value
+  });
+  if (error) throw error;
+  return (data as RematchRequest | null) ?? null;
+}
+
+/**
+ * Starts the rematch once every human still in the room has accepted (players who declined
+ * have left by then), or cancels it when nobody is left to play against.
+ * Returns the request as it now stands.
+ */
+async function settleRematch(client: ServiceClient, roomId: string): Promise<RematchRequest | null> {
+  const { data: room } = await client
+    .from('game_rooms')
+    .select('id, game_id, difficulty, selected_category, game_mode, play_again_request')
+    .eq('id', roomId)
+    .maybeSingle();
+
+  if (!room) return null;
+  const request = room.play_again_request as RematchRequest | null;
+  if (!isRematchOpen(request)) return request;
+
+  const { data: participants } = await client
+    .from('room_participants')
+    .select('child_id, is_ai')
+    .eq('room_id', roomId);
+
+  const rows = (participants || []) as Array<{ child_id: string | null; is_ai: boolean }>;
+  const humans = rows.filter(p => !p.is_ai && p.child_id).map(p => p.child_id as string);
+
+  let status: RematchRequest['status'];
+  if (rows.length < 2) status = 'cancelled';
+  else if (humans.every(id => request.responses[id] === 'accepted')) status = 'started';
+  else return request;
+
+  // Only the caller that moves the request on starts the round, so it starts once
+  const settled = await updateRematch(client, roomId, request.id, ['status'], status);
+  if (!settled) return request;
+
+  if (status === 'started') await startSession(client, room);
+  return settled;
+}
+
+async function getLatestSession(client: ServiceClient, roomId: string): Promise<SessionRow | null> {
+  const { data } = await client
+    .from('multiplayer_game_sessions')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as SessionRow | null) ?? null;
+}
+
 serve(async (req: any) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -91,7 +549,7 @@ serve(async (req: any) => {
           .eq('id', child_id)
           .single();
 
-        if (userProfile?.room_id) {
+        if (userProfile?.room_id && !(await releaseStaleRoomLink(supabaseServiceRole, child_id, userProfile.room_id))) {
           return new Response(
             JSON.stringify({ 
               success: false, 
@@ -182,7 +640,7 @@ serve(async (req: any) => {
           .eq('id', child_id)
           .single();
 
-        if (joiningUserProfile?.room_id) {
+        if (joiningUserProfile?.room_id && !(await releaseStaleRoomLink(supabaseServiceRole, child_id, joiningUserProfile.room_id))) {
           return new Response(
             JSON.stringify({ 
               success: false, 
@@ -200,7 +658,7 @@ serve(async (req: any) => {
           .eq('status', 'waiting')
           .single();
 
-        if (findError || !room) {
+        if (findError || !room || isRoomStale(room)) {
           return new Response(
             JSON.stringify({ success: false, error: 'Room not found or not available' }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -250,60 +708,7 @@ serve(async (req: any) => {
         );
 
       case 'leave_room':
-        // Remove player from room
-        const { error: leaveError } = await supabase
-          .from('room_participants')
-          .delete()
-          .eq('room_id', room_id)
-          .eq('child_id', child_id);
-
-        if (leaveError) throw leaveError;
-
-        // Set player as not in room
-        await supabase
-          .from('children_profiles')
-          .update({ room_id: null } as any)
-          .eq('id', child_id);
-
-        // Get updated room info
-        const { data: updatedRoom } = await supabase
-          .from('game_rooms')
-          .select('*')
-          .eq('id', room_id)
-          .single();
-
-        if (updatedRoom) {
-          const newPlayerCount = updatedRoom.current_players - 1;
-          
-          if (newPlayerCount <= 0 || updatedRoom.host_child_id === child_id) {
-            // Delete room if empty or host left
-            await supabase
-              .from('game_rooms')
-              .delete()
-              .eq('id', room_id);
-            
-            // Set all remaining participants as not in room
-            const { data: remainingParticipants } = await supabase
-              .from('room_participants')
-              .select('child_id')
-              .eq('room_id', room_id)
-              .not('child_id', 'is', null);
-
-            if (remainingParticipants && remainingParticipants.length > 0) {
-              const participantIds = remainingParticipants.map((p: any) => p.child_id);
-              await supabase
-                .from('children_profiles')
-                .update({ room_id: null } as any)
-                .in('id', participantIds);
-            }
-          } else {
-            // Update player count
-            await supabase
-              .from('game_rooms')
-              .update({ current_players: newPlayerCount })
-              .eq('id', room_id);
-          }
-        }
+        await removeParticipant(supabaseServiceRole, room_id, child_id);
 
         return new Response(
           JSON.stringify({ success: true }),
@@ -441,6 +846,21 @@ serve(async (req: any) => {
           );
         }
 
+        {
+          // The current host answers requests to join (this follows the host if it migrates).
+          // Invitations from invite_friends carry a room_id and are answered by the invitee.
+          const { data: requestRoom } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('host_child_id')
+            .eq('room_code', joinRequest.room_code)
+            .maybeSingle();
+
+          const isInvitee = !!joinRequest.room_id && joinRequest.child_id === child_id;
+          if (requestRoom && requestRoom.host_child_id !== child_id && !isInvitee) {
+            throw new Error('Only the host can answer join requests');
+          }
+        }
+
         // Update request status
         await supabase
           .from('join_requests')
@@ -527,8 +947,8 @@ serve(async (req: any) => {
           .eq('id', childProfile.room_id)
           .single();
 
-        if (roomFetchError || !currentRoomData) {
-          // Room no longer exists, clear the room_id
+        if (roomFetchError || !currentRoomData || isRoomStale(currentRoomData)) {
+          // Room no longer exists or was abandoned, clear the room_id
           await supabase
             .from('children_profiles')
             .update({ room_id: null } as any)
@@ -624,13 +1044,563 @@ serve(async (req: any) => {
               .from('game_rooms')
               .update({ status: 'finished', updated_at: now })
               .eq('id', room_id);
+
+            // Everyone solved it before the clock ran out; end the round for rejoining players too
+            const session = await getLatestSession(supabaseServiceRole, room_id);
+            if (session && session.game_state !== 'finished') {
+              await supabaseServiceRole
+                .from('multiplayer_game_sessions')
+                .update({ game_state: 'finished', game_data: { ...session.game_data, finishedAt: now }, updated_at: now })
+                .eq('id', session.id);
+            }
             allFinished = true;
           }
 
           return new Response(JSON.stringify({ success: true, all_finished: allFinished }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
 
+      case 'reset_scores':
+        // Starts a round with one zeroed score row per participant. Old answers go with the old rows.
+        // Only the host can do this, and never while a synchronized round is still running,
+        // so a player reloading the page can't wipe everyone's progress.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+          if (room.host_child_id !== child_id) throw new Error('Only the host can reset scores');
+
+          if (isSessionRunning(await getLatestSession(supabaseServiceRole, room_id))) {
+            throw new Error('A game is in progress in this room');
+          }
+
+          const standings = await resetRoomScores(supabaseServiceRole, room_id);
+
+          return new Response(
+            JSON.stringify({ success: true, data: standings }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'submit_answer':
+        // Checks an answer against the server's copy of the question, then updates score,
+        // attempts and streak in one statement so simultaneous answers can't overwrite each other.
+        // The host also submits the answers its device simulates for AI players.
+        {
+          const question_id = bodyJson?.question_id ?? bodyJson?.questionId ?? null;
+          const answer = bodyJson?.answer ?? null;
+          const ai_player_name = bodyJson?.ai_player_name ?? bodyJson?.aiPlayerName ?? null;
+
+          if (!room_id || !child_id || question_id === null || typeof answer !== 'string') {
+            throw new Error('room_id, child_id, question_id and answer are required');
+          }
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, game_id, difficulty, selected_category, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('id')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+          if (ai_player_name && room.host_child_id !== child_id) {
+            throw new Error('Only the host can submit answers for AI players');
+          }
+
+          const expected = getExpectedAnswer(room.game_id, room.selected_category ?? '', room.difficulty, String(question_id));
+          if (expected === null) throw new Error('That question is not part of this game');
+
+          // Synchronized games only take answers for the open question
+          const timing = SESSION_TIMING[room.game_id];
+          const session = timing ? await getLatestSession(supabaseServiceRole, room_id) : null;
+          if (timing && session) {
+            if (session.game_state !== 'active') throw new Error('The game is not running');
+            const position = timing.singleRound ? 0 : session.game_data.questionIds.indexOf(String(question_id));
+            const now = Date.now();
+            const earliest = getQuestionIndex(session.game_data, now - ANSWER_GRACE_MS);
+            const latest = getQuestionIndex(session.game_data, now);
+            if (position < Math.max(earliest, 0) || position > latest) {
+              throw new Error('That question is closed');
+            }
+          }
+          const isCorrect = normalizeAnswer(answer) === normalizeAnswer(expected);
+          const coop = session?.game_data.mode === 'coop';
+
+          let scoreQuery = supabaseServiceRole
+            .from('multiplayer_game_scores')
+            .select('id')
+            .eq('room_id', room_id);
+          scoreQuery = ai_player_name
+            ? scoreQuery.eq('is_ai', true).eq('player_name', ai_player_name)
+            : scoreQuery.eq('child_id', child_id);
+          const { data: scoreRow } = await scoreQuery.maybeSingle();
+
+          if (!scoreRow) throw new Error('No score entry for this player. Has the game started?');
+
+          // Co-op: the shared grid keeps changing, so a wrong word isn't recorded against anyone,
+          // and a right one is credited only to the first player to finish it
+          let updatedRows: unknown[] | null = null;
+          if (coop) {
+            if (isCorrect) {
+              const { data, error: claimError } = await supabaseServiceRole
+                .rpc('claim_coop_word', {
+                  p_score_id: scoreRow.id,
+                  p_question_id: String(question_id),
+                  p_answer: answer,
+                  p_points: POINTS_PER_CORRECT_ANSWER[room.game_id] ?? 1
+                });
+
+              if (claimError) throw claimError;
+              updatedRows = data;
+              if (session && (data || []).length > 0) await finishSolvedCoopGrid(supabaseServiceRole, session);
+            }
+          } else {
+            const { data, error: submitError } = await supabaseServiceRole
+              .rpc('submit_multiplayer_answer', {
+                p_score_id: scoreRow.id,
+                p_question_id: String(question_id),
+                p_answer: answer,
+                p_is_correct: isCorrect,
+                p_points: POINTS_PER_CORRECT_ANSWER[room.game_id] ?? 1
+              });
+
+            if (submitError) throw submitError;
+            updatedRows = data;
+          }
+
+          const { data: standings } = await supabaseServiceRole
+            .from('multiplayer_game_scores')
+            .select('*')
+            .eq('room_id', room_id)
+            .order('score', { ascending: false });
+
+          const updated = (updatedRows || [])[0] ?? null;
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              data: {
+                // false when this player had already answered the question (co-op: when anyone had
+                // already finished the word, or the word was wrong); nothing was changed
+                accepted: updated !== null,
+                correct: isCorrect,
+                player: updated,
+                standings: standings ?? []
+              }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'request_rematch':
+        // Any player can offer a rematch once the round is over. Asking while someone
+        // else's offer is open counts as accepting it.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('player_name')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+
+          if (isSessionRunning(await getLatestSession(supabaseServiceRole, room_id))) {
+            throw new Error('Finish this game before asking for a rematch');
+          }
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, play_again_request')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+
+          const existing = room.play_again_request as RematchRequest | null;
+          if (isRematchOpen(existing)) {
+            await updateRematch(supabaseServiceRole, room_id, existing.id, ['responses', child_id], 'accepted');
+          } else {
+            const now = Date.now();
+            const request: RematchRequest = {
+              id: crypto.randomUUID(),
+              requestedBy: child_id,
+              requestedByName: participant.player_name,
+              requestedAt: new Date(now).toISOString(),
+              expiresAt: new Date(now + REMATCH_TIMEOUT_MS).toISOString(),
+              status: 'pending',
+              responses: { [child_id]: 'accepted' }
+            };
+
+            await supabaseServiceRole
+              .from('game_rooms')
+              .update({ play_again_request: request, updated_at: new Date(now).toISOString() })
+              .eq('id', room_id);
+          }
+
+          const request = await settleRematch(supabaseServiceRole, room_id);
+
+          return new Response(
+            JSON.stringify({ success: true, data: request }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'respond_rematch':
+        // Accepting keeps the player in the room for the next round; declining takes them
+        // out of it, like leave_room. The round starts once every remaining player has accepted.
+        {
+          const accept = bodyJson?.accept === true;
+          if (!room_id || !child_id || !request_id) throw new Error('room_id, child_id and request_id are required');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('id')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+
+          const updated = await updateRematch(
+            supabaseServiceRole, room_id, String(request_id), ['responses', child_id], accept ? 'accepted' : 'declined'
+          );
+          if (!updated || !isRematchOpen(updated)) throw new Error('That rematch is no longer open');
+
+          if (!accept) await removeParticipant(supabaseServiceRole, room_id, child_id);
+
+          const request = await settleRematch(supabaseServiceRole, room_id);
+
+          return new Response(
+            JSON.stringify({ success: true, data: request }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'update_room_settings':
+        // Between rounds the host can switch the theme, difficulty or (co-op games) the mode
+        {
+          const selected_category = bodyJson?.selected_category ?? null;
+          const game_mode = bodyJson?.game_mode ?? null;
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, game_id, difficulty, selected_category, game_mode, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+          if (room.host_child_id !== child_id) throw new Error('Only the host can change the game settings');
+
+          if (isSessionRunning(await getLatestSession(supabaseServiceRole, room_id))) {
+            throw new Error('Wait for this game to end before changing the settings');
+          }
+
+          const settings = {
+            selected_category: selected_category ?? room.selected_category,
+            difficulty: difficulty ?? room.difficulty,
+            game_mode: game_mode ?? room.game_mode
+          };
+
+          if (!['easy', 'medium', 'hard'].includes(settings.difficulty)) throw new Error('Unknown difficulty');
+          if (settings.game_mode === 'coop' && !COOP_GAMES.includes(room.game_id)) {
+            throw new Error(`${room.game_id} can't be played in co-op`);
+          }
+          if (!['race', 'coop'].includes(settings.game_mode)) throw new Error('Unknown game mode');
+          if (settings.selected_category && getQuestionIds(room.game_id, settings.selected_category, settings.difficulty).length === 0) {
+            throw new Error('That theme has nothing to play at this difficulty');
+          }
+
+          await supabaseServiceRole
+            .from('game_rooms')
+            .update({ ...settings, updated_at: new Date().toISOString() })
+            .eq('id', room_id);
+
+          return new Response(
+            JSON.stringify({ success: true, data: settings }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'get_player_state':
+        // A returning participant (page refresh, dropped connection) picks the round back up:
+        // their own score row and answers, plus everyone's standings. Nothing is reset; a player
+        // who arrived after the round started gets a zeroed row of their own.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('child_id, player_name, player_avatar')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+
+          let { data: player } = await supabaseServiceRole
+            .from('multiplayer_game_scores')
+            .select('*')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          const session = await getLatestSession(supabaseServiceRole, room_id);
+          if (!player && session && session.game_state !== 'finished') {
+            const { data: inserted, error: insertError } = await supabaseServiceRole
+              .from('multiplayer_game_scores')
+              .insert({
+                room_id,
+                child_id,
+                player_name: participant.player_name,
+                player_avatar: participant.player_avatar,
+                is_ai: false,
+                score: 0,
+                total_questions: 0,
+                streak: 0
+              })
+              .select()
+              .single();
+
+            // Another tab of the same player may have created the row first
+            if (insertError && insertError.code !== '23505') throw insertError;
+            player = inserted ?? (await supabaseServiceRole
+              .from('multiplayer_game_scores')
+              .select('*')
+              .eq('room_id', room_id)
+              .eq('child_id', child_id)
+              .maybeSingle()).data;
+          }
+
+          const { data: answers } = player
+            ? await supabaseServiceRole
+              .from('multiplayer_answers')
+              .select('question_id, answer, is_correct')
+              .eq('score_id', player.id)
+              .order('created_at', { ascending: true })
+            : { data: [] };
+
+          const { data: standings } = await supabaseServiceRole
+            .from('multiplayer_game_scores')
+            .select('*')
+            .eq('room_id', room_id)
+            .order('score', { ascending: false });
+
+          // Co-op: every finished word in the shared grid and who finished it
+          const { data: claims } = session?.game_data.mode === 'coop'
+            ? await supabaseServiceRole
+              .from('coop_word_claims')
+              .select('question_id, child_id')
+              .eq('room_id', room_id)
+            : { data: [] };
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              data: { player: player ?? null, answers: answers ?? [], standings: standings ?? [], claims: claims ?? [] }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'start_session':
+        // Host starts a synchronized round: fresh scores, a fresh session, and a countdown
+        // every client renders from the same startsAt. Like reset_scores it refuses while a
+        // round is running, so a host refreshing a start button can't wipe everyone's score;
+        // abandoning the running round takes an explicit restart: true.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+          const restart = bodyJson?.restart === true;
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, game_id, difficulty, selected_category, game_mode, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+          if (room.host_child_id !== child_id) throw new Error('Only the host can start the game');
+
+          if (!restart && isSessionRunning(await getLatestSession(supabaseServiceRole, room_id))) {
+            throw new Error('A game is in progress in this room');
+          }
+
+          const { session, standings } = await startSession(supabaseServiceRole, room);
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              data: { session: toSession(session), standings, serverTime: new Date().toISOString() }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'get_session':
+      case 'pause_session':
+      case 'resume_session':
+      case 'finish_session':
+        // Everyone in the room can read the session. The host pauses and resumes;
+        // finishing is also open to any player once the last question has closed.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('id')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+
+          let session = await getLatestSession(supabaseServiceRole, room_id);
+          const isHost = room.host_child_id === child_id;
+          const now = Date.now();
+
+          if (action !== 'get_session') {
+            if (!session) throw new Error('No game is running in this room');
+            const data = { ...session.game_data };
+            let nextState = session.game_state;
+
+            if (action === 'pause_session') {
+              if (!isHost) throw new Error('Only the host can pause the game');
+              if (session.game_state !== 'active') throw new Error('The game is not running');
+              data.pausedAt = new Date(now).toISOString();
+              nextState = 'paused';
+            } else if (action === 'resume_session') {
+              if (!isHost) throw new Error('Only the host can resume the game');
+              if (session.game_state !== 'paused' || !data.pausedAt) throw new Error('The game is not paused');
+              data.pausedMs += now - Date.parse(data.pausedAt);
+              data.pausedAt = null;
+              nextState = 'active';
+            } else {
+              const timeUp = session.game_state === 'active' && getQuestionIndex(data, now) >= data.questionIds.length;
+              if (!isHost && !timeUp) throw new Error('Only the host can end the game early');
+              if (session.game_state !== 'finished') {
+                data.finishedAt = new Date(now).toISOString();
+                nextState = 'finished';
+              }
+            }
+
+            if (nextState !== session.game_state) {
+              const { data: updated, error: updateError } = await supabaseServiceRole
+                .from('multiplayer_game_sessions')
+                .update({ game_state: nextState, game_data: data, updated_at: new Date(now).toISOString() })
+                .eq('id', session.id)
+                .select()
+                .single();
+
+              if (updateError) throw updateError;
+              session = updated as SessionRow;
+
+              if (nextState === 'finished') {
+                await supabaseServiceRole
+                  .from('game_rooms')
+                  .update({ status: 'finished', updated_at: new Date(now).toISOString() })
+                  .eq('id', room_id);
+              }
+            }
+          }
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              data: { session: session ? toSession(session) : null, serverTime: new Date().toISOString() }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+      case 'claim_host':
+        // Called by a participant whose client no longer sees the host online. The server
+        // only migrates once the host's heartbeat has lapsed, and picks the successor itself.
+        {
+          if (!room_id || !child_id) throw new Error('room_id and child_id are required');
+
+          const { data: room } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('id, host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (!room) throw new Error('Room not found');
+
+          const { data: participant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('id')
+            .eq('room_id', room_id)
+            .eq('child_id', child_id)
+            .maybeSingle();
+
+          if (!participant) throw new Error('You are not in this room');
+
+          const { data: host } = await supabaseServiceRole
+            .from('children_profiles')
+            .select('last_seen_at')
+            .eq('id', room.host_child_id)
+            .maybeSingle();
+
+          const { data: hostParticipant } = await supabaseServiceRole
+            .from('room_participants')
+            .select('id')
+            .eq('room_id', room_id)
+            .eq('child_id', room.host_child_id)
+            .maybeSingle();
+
+          const hostLastSeen = host?.last_seen_at ? Date.parse(host.last_seen_at) : 0;
+          const hostGone = !hostParticipant || Date.now() - hostLastSeen > HOST_TIMEOUT_MS;
+
+          const newHostId = hostGone
+            ? await migrateHost(supabaseServiceRole, room_id, room.host_child_id, { requireOnline: true })
+            : null;
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              data: { migrated: newHostId !== null, host_child_id: newHostId ?? room.host_child_id }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
       case 'close_room':
+        {
+          const { data: roomToClose } = await supabaseServiceRole
+            .from('game_rooms')
+            .select('host_child_id')
+            .eq('id', room_id)
+            .maybeSingle();
+
+          if (roomToClose && roomToClose.host_child_id !== child_id) {
+            throw new Error('Only the host can close the room');
+          }
+        }
+
         // When host closes the room, set all participants' room_id to null
         const { data: allRoomParticipants } = await supabase
           .from('room_participants')
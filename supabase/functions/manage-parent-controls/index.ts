@@ -0,0 +1,356 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+// Deno runtime global
+declare const Deno: { env: { get(key: string): string | undefined } };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// After this many wrong PINs, verification is refused for PIN_LOCKOUT_MINUTES
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 5;
+
+type ControlsPayload = {
+  screenTime: { dailyLimitMinutes: number; startTime: string; endTime: string; enabled: boolean };
+  bedTime: { time: string; enabled: boolean; warningMinutes: number };
+  difficulty?: { adaptive: boolean; pinned: Record<string, string> };
+  aiOpponent?: { skill: string };
+};
+
+type ControlsRow = {
+  id: string;
+  child_id: string;
+  screen_time_enabled: boolean;
+  daily_limit_minutes: number;
+  start_time: string;
+  end_time: string;
+  bedtime_enabled: boolean;
+  bedtime: string;
+  warning_minutes: number;
+  adaptive_difficulty: boolean;
+  difficulty_pins: Record<string, string>;
+  ai_skill: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const rowToControls = (row: ControlsRow, userId: string) => ({
+  id: row.id,
+  userId,
+  childProfileId: row.child_id,
+  screenTime: {
+    dailyLimitMinutes: row.daily_limit_minutes,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    enabled: row.screen_time_enabled,
+  },
+  bedTime: {
+    time: row.bedtime,
+    enabled: row.bedtime_enabled,
+    warningMinutes: row.warning_minutes,
+  },
+  difficulty: {
+    adaptive: row.adaptive_difficulty ?? true,
+    pinned: row.difficulty_pins ?? {},
+  },
+  aiOpponent: {
+    skill: row.ai_skill ?? 'auto',
+  },
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const isValidTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// Keeps only well-formed gameId -> difficulty entries
+const sanitizePins = (pins: unknown): Record<string, string> => {
+  if (!pins || typeof pins !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(pins as Record<string, unknown>)
+      .filter(([gameId, difficulty]) => gameId && typeof difficulty === 'string' && DIFFICULTIES.includes(difficulty))
+  ) as Record<string, string>;
+};
+
+// 'auto' matches AI opponents to the game's difficulty
+const AI_SKILLS = ['auto', ...DIFFICULTIES];
+
+const isValidPin = (value: unknown) => typeof value === 'string' && /^\d{4,8}$/.test(value);
+
+// Usage days are the device's local date
+const isValidDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// A device reports at most a day's worth of seconds at once
+const MAX_USAGE_SECONDS = 24 * 60 * 60;
+
+// PINs are salted with the parent id so equal PINs never share a hash
+async function hashPin(parentId: string, pin: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${parentId}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!authToken) {
+      throw new Error('No authorization token provided');
+    }
+
+    const { action, auth0_user_id, child_id, controls, pin, current_pin, date, seconds } = await req.json();
+
+    console.log('manage-parent-controls: Received request:', { action, child_id });
+
+    if (!auth0_user_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'auth0_user_id required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: parent, error: parentError } = await supabase
+      .from('parent_profiles')
+      .select('id')
+      .eq('auth0_user_id', auth0_user_id)
+      .maybeSingle();
+
+    if (parentError) throw parentError;
+    if (!parent) throw new Error('Parent profile not found');
+
+    // Controls can only be read or changed for the parent's own children
+    const assertOwnChild = async () => {
+      if (!child_id) throw new Error('child_id required');
+      const { data: child, error } = await supabase
+        .from('children_profiles')
+        .select('id')
+        .eq('id', child_id)
+        .eq('parent_id', parent.id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!child) throw new Error('Child not found for this parent');
+    };
+
+    // Checks a PIN against the stored hash, counting failures towards a lockout
+    const checkPin = async (candidate: unknown) => {
+      const { data: row, error } = await supabase
+        .from('parent_pins')
+        .select('*')
+        .eq('parent_id', parent.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!row) return { valid: false, reason: 'no_pin' };
+
+      if (row.locked_until && new Date(row.locked_until).getTime() > Date.now()) {
+        return { valid: false, reason: 'locked', lockedUntil: row.locked_until };
+      }
+
+      const valid = row.pin_hash === await hashPin(parent.id, String(candidate ?? ''));
+      const failedAttempts = valid ? 0 : row.failed_attempts + 1;
+      const lockedUntil = failedAttempts >= MAX_PIN_ATTEMPTS
+        ? new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000).toISOString()
+        : null;
+
+      const { error: updateError } = await supabase
+        .from('parent_pins')
+        .update({ failed_attempts: lockedUntil ? 0 : failedAttempts, locked_until: lockedUntil })
+        .eq('parent_id', parent.id);
+
+      if (updateError) throw updateError;
+
+      return valid
+        ? { valid: true }
+        : { valid: false, reason: lockedUntil ? 'locked' : 'incorrect', lockedUntil };
+    };
+
+    switch (action) {
+      case 'get_controls': {
+        await assertOwnChild();
+
+        const { data: row, error } = await supabase
+          .from('parent_controls')
+          .select('*')
+          .eq('child_id', child_id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: row ? rowToControls(row, auth0_user_id) : null }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'save_controls': {
+        await assertOwnChild();
+
+        // Once a PIN exists, only someone who knows it can loosen or change the limits
+        const pinCheck = await checkPin(pin);
+        if (!pinCheck.valid && pinCheck.reason !== 'no_pin') {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Parent PIN is incorrect', data: pinCheck }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const incoming = controls as ControlsPayload;
+        if (
+          !incoming?.screenTime || !incoming?.bedTime ||
+          !isValidTime(incoming.screenTime.startTime) ||
+          !isValidTime(incoming.screenTime.endTime) ||
+          !isValidTime(incoming.bedTime.time)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Invalid controls' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: saved, error } = await supabase
+          .from('parent_controls')
+          .upsert({
+            child_id,
+            screen_time_enabled: !!incoming.screenTime.enabled,
+            daily_limit_minutes: Math.max(1, Math.round(Number(incoming.screenTime.dailyLimitMinutes) || 120)),
+            start_time: incoming.screenTime.startTime,
+            end_time: incoming.screenTime.endTime,
+            bedtime_enabled: !!incoming.bedTime.enabled,
+            bedtime: incoming.bedTime.time,
+            warning_minutes: Math.max(0, Math.round(Number(incoming.bedTime.warningMinutes) || 0)),
+            adaptive_difficulty: incoming.difficulty ? !!incoming.difficulty.adaptive : true,
+            difficulty_pins: sanitizePins(incoming.difficulty?.pinned),
+            ai_skill: AI_SKILLS.includes(String(incoming.aiOpponent?.skill)) ? incoming.aiOpponent?.skill : 'auto',
+          }, { onConflict: 'child_id' })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: rowToControls(saved, auth0_user_id) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_usage': {
+        await assertOwnChild();
+        if (!isValidDate(date)) throw new Error('date required');
+
+        const { data: row, error } = await supabase
+          .from('screen_time_usage')
+          .select('seconds')
+          .eq('child_id', child_id)
+          .eq('usage_date', date)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: { date, seconds: row?.seconds ?? 0 } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'add_usage': {
+        await assertOwnChild();
+        if (!isValidDate(date)) throw new Error('date required');
+
+        // Devices send the seconds they haven't reported yet; the total is kept per child per day
+        const { data: total, error } = await supabase.rpc('add_screen_time_usage', {
+          p_child_id: child_id,
+          p_usage_date: date,
+          p_seconds: Math.min(MAX_USAGE_SECONDS, Math.max(0, Math.round(Number(seconds) || 0))),
+        });
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: { date, seconds: total ?? 0 } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_pin_status': {
+        const { data: row, error } = await supabase
+          .from('parent_pins')
+          .select('parent_id')
+          .eq('parent_id', parent.id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: { hasPin: !!row } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'set_pin': {
+        if (!isValidPin(pin)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'PIN must be 4 to 8 digits' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Changing an existing PIN requires the current one
+        const pinCheck = await checkPin(current_pin);
+        if (!pinCheck.valid && pinCheck.reason !== 'no_pin') {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Current PIN is incorrect' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase
+          .from('parent_pins')
+          .upsert({
+            parent_id: parent.id,
+            pin_hash: await hashPin(parent.id, pin),
+            failed_attempts: 0,
+            locked_until: null,
+          }, { onConflict: 'parent_id' });
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'verify_pin': {
+        return new Response(
+          JSON.stringify({ success: true, data: await checkPin(pin) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Error in manage-parent-controls function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
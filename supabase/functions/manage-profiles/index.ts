@@ -158,14 +158,11 @@ serve(async (req) => {
       });
     }
 
-    if (action === 'set_child_online_status') {
-      // Update child's online status
+    if (action === 'heartbeat') {
+      // Sent periodically by every open tab; friends lists treat a recent heartbeat as online
       const { data: statusUpdate, error: statusError } = await supabaseClient
         .from('children_profiles')
-        .update({ 
-          is_online: profile_data.is_online,
-          last_seen_at: new Date().toISOString()
-        })
+        .update({ last_seen_at: new Date().toISOString() })
         .eq('id', child_id)
         .select()
         .single();
@@ -0,0 +1,444 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+// Deno runtime global
+declare const Deno: { env: { get(key: string): string | undefined } };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type GameStats = {
+  played: number;
+  correct: number;
+  stars: number;
+  lastPlayedISO: string | null;
+};
+
+type DeviceCounters = {
+  stars: number;
+  perGame: Record<string, { played: number; correct: number; stars: number }>;
+};
+
+type ProgressPayload = {
+  profileId: string;
+  stars: number;
+  badges: string[];
+  streak: { current: number; longest: number; lastPlayedISO: string | null };
+  perGame: Record<string, GameStats>;
+  devices?: Record<string, DeviceCounters>;
+  updatedAt?: string;
+};
+
+type ProgressRow = {
+  child_id: string;
+  stars: number | null;
+  badges: string[] | null;
+  streak: ProgressPayload['streak'] | null;
+  per_game: Record<string, GameStats> | null;
+  device_counters: Record<string, DeviceCounters> | null;
+  updated_at: string;
+};
+
+// Counters saved before they were kept per device are carried as one bucket of their own
+const LEGACY_DEVICE = 'legacy';
+
+type ResultPayload = {
+  id: string;
+  gameId: string;
+  profileId?: string;
+  difficulty: string;
+  theme?: string;
+  correct: number;
+  total: number;
+  starsEarned: number;
+  durationSeconds?: number;
+  endedAt: string;
+};
+
+type ResultRow = {
+  id: string;
+  child_id: string;
+  game_id: string;
+  difficulty: string;
+  theme: string | null;
+  correct: number;
+  total: number;
+  stars_earned: number;
+  duration_seconds: number | null;
+  ended_at: string;
+};
+
+type StoryBookmark = { segmentIds: string[]; createdAt: string };
+
+type StoryProgressPayload = {
+  storyId: string;
+  lastPath: string[];
+  endingsFound: string[];
+  bookmarks: StoryBookmark[];
+  completedAt: string | null;
+  lastReadAt: string;
+};
+
+type StoryProgressRow = {
+  child_id: string;
+  story_id: string;
+  last_path: string[] | null;
+  endings_found: string[] | null;
+  bookmarks: StoryBookmark[] | null;
+  completed_at: string | null;
+  last_read_at: string;
+};
+
+const latestISO = (a: string | null | undefined, b: string | null | undefined) => {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+function devicesOf(progress: ProgressPayload): Record<string, DeviceCounters> {
+  if (progress.devices && Object.keys(progress.devices).length > 0) return progress.devices;
+  const perGame: DeviceCounters['perGame'] = {};
+  Object.entries(progress.perGame || {}).forEach(([gameId, stats]) => {
+    perGame[gameId] = { played: stats.played ?? 0, correct: stats.correct ?? 0, stars: stats.stars ?? 0 };
+  });
+  return (progress.stars ?? 0) > 0 || Object.keys(perGame).length > 0
+    ? { [LEGACY_DEVICE]: { stars: progress.stars ?? 0, perGame } }
+    : {};
+}
+
+// Each device only grows its own counters, so per device the merge keeps the larger value and
+// the totals are the sum over devices. Stars earned offline on two tablets at once both count,
+// and replaying a device's cache can never double-count them.
+// Keep in sync with ProgressService.merge on the client.
+function mergeProgress(local: ProgressPayload, remote: ProgressPayload): ProgressPayload {
+  const a = devicesOf(local);
+  const b = devicesOf(remote);
+  const devices: Record<string, DeviceCounters> = {};
+
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach((deviceId) => {
+    const x = a[deviceId] ?? { stars: 0, perGame: {} };
+    const y = b[deviceId] ?? { stars: 0, perGame: {} };
+    const perGame: DeviceCounters['perGame'] = {};
+    new Set([...Object.keys(x.perGame || {}), ...Object.keys(y.perGame || {})]).forEach((gameId) => {
+      perGame[gameId] = {
+        played: Math.max(x.perGame?.[gameId]?.played ?? 0, y.perGame?.[gameId]?.played ?? 0),
+        correct: Math.max(x.perGame?.[gameId]?.correct ?? 0, y.perGame?.[gameId]?.correct ?? 0),
+        stars: Math.max(x.perGame?.[gameId]?.stars ?? 0, y.perGame?.[gameId]?.stars ?? 0),
+      };
+    });
+    devices[deviceId] = { stars: Math.max(x.stars ?? 0, y.stars ?? 0), perGame };
+  });
+
+  const perGame: Record<string, GameStats> = {};
+  let stars = 0;
+  Object.values(devices).forEach((device) => {
+    stars += device.stars;
+    Object.entries(device.perGame).forEach(([gameId, counts]) => {
+      const total = perGame[gameId] ?? {
+        played: 0,
+        correct: 0,
+        stars: 0,
+        lastPlayedISO: latestISO(local.perGame?.[gameId]?.lastPlayedISO, remote.perGame?.[gameId]?.lastPlayedISO),
+      };
+      total.played += counts.played;
+      total.correct += counts.correct;
+      total.stars += counts.stars;
+      perGame[gameId] = total;
+    });
+  });
+
+  const localLast = local.streak?.lastPlayedISO ?? null;
+  const remoteLast = remote.streak?.lastPlayedISO ?? null;
+  const newerStreak = latestISO(localLast, remoteLast) === localLast ? local.streak : remote.streak;
+
+  return {
+    profileId: remote.profileId || local.profileId,
+    stars,
+    badges: Array.from(new Set([...(local.badges || []), ...(remote.badges || [])])),
+    streak: {
+      current: newerStreak?.current ?? 0,
+      longest: Math.max(local.streak?.longest ?? 0, remote.streak?.longest ?? 0),
+      lastPlayedISO: latestISO(localLast, remoteLast),
+    },
+    perGame,
+    devices,
+    updatedAt: latestISO(local.updatedAt, remote.updatedAt) ?? undefined,
+  };
+}
+
+const earliestISO = (a: string | null | undefined, b: string | null | undefined) => {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return new Date(a).getTime() <= new Date(b).getTime() ? a : b;
+};
+
+// Endings are unioned and a story stays completed from the first time it was;
+// the last-read path and bookmarks come from whichever copy was read most recently.
+// Keep in sync with StoryProgressService.merge on the client.
+function mergeStoryProgress(local: StoryProgressPayload, remote: StoryProgressPayload): StoryProgressPayload {
+  const newer = latestISO(local.lastReadAt, remote.lastReadAt) === local.lastReadAt ? local : remote;
+  return {
+    storyId: local.storyId,
+    lastPath: newer.lastPath || [],
+    endingsFound: Array.from(new Set([...(local.endingsFound || []), ...(remote.endingsFound || [])])),
+    bookmarks: newer.bookmarks || [],
+    completedAt: earliestISO(local.completedAt, remote.completedAt),
+    lastReadAt: newer.lastReadAt,
+  };
+}
+
+const rowToStoryProgress = (row: StoryProgressRow): StoryProgressPayload => ({
+  storyId: row.story_id,
+  lastPath: row.last_path ?? [],
+  endingsFound: row.endings_found ?? [],
+  bookmarks: row.bookmarks ?? [],
+  completedAt: row.completed_at,
+  lastReadAt: row.last_read_at,
+});
+
+const rowToProgress = (row: ProgressRow): ProgressPayload => ({
+  profileId: row.child_id,
+  stars: row.stars ?? 0,
+  badges: row.badges ?? [],
+  streak: row.streak ?? { current: 0, longest: 0, lastPlayedISO: null },
+  perGame: row.per_game ?? {},
+  devices: row.device_counters ?? undefined,
+  updatedAt: row.updated_at,
+});
+
+const resultToRow = (childId: string, result: ResultPayload): ResultRow => ({
+  id: result.id,
+  child_id: childId,
+  game_id: result.gameId,
+  difficulty: result.difficulty,
+  theme: result.theme ?? null,
+  correct: result.correct ?? 0,
+  total: result.total ?? 0,
+  stars_earned: result.starsEarned ?? 0,
+  duration_seconds: result.durationSeconds ?? null,
+  ended_at: result.endedAt,
+});
+
+const rowToResult = (row: ResultRow): ResultPayload => ({
+  id: row.id,
+  gameId: row.game_id,
+  profileId: row.child_id,
+  difficulty: row.difficulty,
+  theme: row.theme ?? undefined,
+  correct: row.correct,
+  total: row.total,
+  starsEarned: row.stars_earned,
+  durationSeconds: row.duration_seconds ?? undefined,
+  endedAt: row.ended_at,
+});
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!authToken) {
+      throw new Error('No authorization token provided');
+    }
+
+    const { action, child_id, progress, results, filters, stories } = await req.json();
+
+    console.log('manage-progress: Received request:', { action, child_id });
+
+    if (!child_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'child_id required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'get_progress': {
+        const { data: row, error } = await supabase
+          .from('child_progress')
+          .select('*')
+          .eq('child_id', child_id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: row ? rowToProgress(row) : null }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'save_progress': {
+        if (!progress) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'progress required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Merge with whatever another device may have written since this client last synced
+        const { data: existing, error: fetchError } = await supabase
+          .from('child_progress')
+          .select('*')
+          .eq('child_id', child_id)
+          .maybeSingle();
+
+        if (fetchError) throw fetchError;
+
+        const incoming: ProgressPayload = { ...progress, profileId: child_id };
+        const merged = existing ? mergeProgress(incoming, rowToProgress(existing)) : incoming;
+
+        const { data: saved, error: saveError } = await supabase
+          .from('child_progress')
+          .upsert({
+            child_id,
+            stars: merged.stars,
+            badges: merged.badges,
+            streak: merged.streak,
+            per_game: merged.perGame,
+            device_counters: devicesOf(merged),
+          }, { onConflict: 'child_id' })
+          .select()
+          .single();
+
+        if (saveError) throw saveError;
+
+        return new Response(
+          JSON.stringify({ success: true, data: rowToProgress(saved) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'record_results': {
+        // Append-only: rows already uploaded (same id) are skipped, never overwritten
+        const rows = (Array.isArray(results) ? (results as ResultPayload[]) : [])
+          .filter((r) => r?.id && r?.gameId && r?.endedAt)
+          .map((r) => resultToRow(child_id, r));
+
+        if (rows.length === 0) {
+          return new Response(
+            JSON.stringify({ success: true, recorded: 0 }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: recordError } = await supabase
+          .from('game_results')
+          .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+        if (recordError) throw recordError;
+
+        return new Response(
+          JSON.stringify({ success: true, recorded: rows.length }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_results': {
+        let query = supabase
+          .from('game_results')
+          .select('*')
+          .eq('child_id', child_id)
+          .order('ended_at', { ascending: false })
+          .limit(Math.min(Number(filters?.limit) || 500, 1000));
+
+        if (filters?.gameId) query = query.eq('game_id', filters.gameId);
+        if (filters?.difficulty) query = query.eq('difficulty', filters.difficulty);
+        if (filters?.since) query = query.gte('ended_at', filters.since);
+        if (filters?.until) query = query.lte('ended_at', filters.until);
+
+        const { data: rows, error: resultsError } = await query;
+
+        if (resultsError) throw resultsError;
+
+        return new Response(
+          JSON.stringify({ success: true, data: (rows || []).map(rowToResult) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_story_progress': {
+        const { data: rows, error } = await supabase
+          .from('story_progress')
+          .select('*')
+          .eq('child_id', child_id);
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: (rows || []).map(rowToStoryProgress) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'save_story_progress': {
+        const incoming = (Array.isArray(stories) ? (stories as StoryProgressPayload[]) : [])
+          .filter((s) => s?.storyId && s?.lastReadAt);
+
+        const { data: existingRows, error: fetchError } = await supabase
+          .from('story_progress')
+          .select('*')
+          .eq('child_id', child_id);
+
+        if (fetchError) throw fetchError;
+
+        const existing = new Map((existingRows || []).map((row: StoryProgressRow) => [row.story_id, rowToStoryProgress(row)]));
+        const rows = incoming.map((story) => {
+          const current = existing.get(story.storyId);
+          const merged = current ? mergeStoryProgress(story, current) : story;
+          return {
+            child_id,
+            story_id: merged.storyId,
+            last_path: merged.lastPath,
+            endings_found: merged.endingsFound,
+            bookmarks: merged.bookmarks,
+            completed_at: merged.completedAt,
+            last_read_at: merged.lastReadAt,
+          };
+        });
+
+        if (rows.length > 0) {
+          const { error: saveError } = await supabase
+            .from('story_progress')
+            .upsert(rows, { onConflict: 'child_id,story_id' });
+
+          if (saveError) throw saveError;
+        }
+
+        const { data: saved, error: savedError } = await supabase
+          .from('story_progress')
+          .select('*')
+          .eq('child_id', child_id);
+
+        if (savedError) throw savedError;
+
+        return new Response(
+          JSON.stringify({ success: true, data: (saved || []).map(rowToStoryProgress) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Error in manage-progress function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,195 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+// Deno runtime global (only the part this function uses)
+declare const Deno: { env: { get(key: string): string | undefined } };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_CONTENT_LENGTH = 20000;
+
+type StoryRow = {
+  id: string;
+  child_id: string;
+  title: string;
+  content: string;
+  audio_url: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const rowToStory = (row: StoryRow) => ({
+  id: row.id,
+  childId: row.child_id,
+  title: row.title,
+  content: row.content,
+  audioUrl: row.audio_url ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!authToken) {
+      throw new Error('No authorization token provided');
+    }
+
+    const { action, auth0_user_id, child_id, story_id, story } = await req.json();
+
+    console.log('manage-stories: Received request:', { action, child_id, story_id });
+
+    if (!auth0_user_id || !child_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'auth0_user_id and child_id required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Stories belong to a child, and only that child's parent account can reach them
+    const { data: parent, error: parentError } = await supabase
+      .from('parent_profiles')
+      .select('id')
+      .eq('auth0_user_id', auth0_user_id)
+      .maybeSingle();
+
+    if (parentError) throw parentError;
+    if (!parent) throw new Error('Parent profile not found');
+
+    const { data: child, error: childError } = await supabase
+      .from('children_profiles')
+      .select('id')
+      .eq('id', child_id)
+      .eq('parent_id', parent.id)
+      .maybeSingle();
+
+    if (childError) throw childError;
+    if (!child) throw new Error('Child not found for this parent');
+
+    switch (action) {
+      case 'list_stories': {
+        const { data: rows, error } = await supabase
+          .from('generated_stories')
+          .select('*')
+          .eq('child_id', child_id)
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: (rows || []).map(rowToStory) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'get_story': {
+        if (!story_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'story_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: row, error } = await supabase
+          .from('generated_stories')
+          .select('*')
+          .eq('id', story_id)
+          .eq('child_id', child_id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true, data: row ? rowToStory(row) : null }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'save_story': {
+        const title = String(story?.title ?? '').trim().slice(0, MAX_TITLE_LENGTH);
+        const content = String(story?.content ?? '').trim();
+        if (!title || !content) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'title and content required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        if (content.length > MAX_CONTENT_LENGTH) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Story is too long' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // No id means a new story; otherwise it's an edit or a rename of one of this child's
+        const query = story?.id
+          ? supabase
+              .from('generated_stories')
+              .update({ title, content })
+              .eq('id', story.id)
+              .eq('child_id', child_id)
+          : supabase
+              .from('generated_stories')
+              .insert({ child_id, title, content });
+
+        const { data: saved, error } = await query.select().maybeSingle();
+
+        if (error) throw error;
+        if (!saved) throw new Error('Story not found');
+
+        return new Response(
+          JSON.stringify({ success: true, data: rowToStory(saved) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delete_story': {
+        if (!story_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'story_id required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase
+          .from('generated_stories')
+          .delete()
+          .eq('id', story_id)
+          .eq('child_id', child_id);
+
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Error in manage-stories function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+// Deno runtime global
+declare const Deno: { env: { get(key: string): string | undefined } };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reports cover at most this many results per child
+const MAX_RESULTS = 2000;
+
+type ScreenTimeRow = {
+  usage_date: string;
+  seconds: number;
+};
+
+type StoryReadingRow = {
+  story_id: string;
+  endings_found: string[] | null;
+  completed_at: string | null;
+  last_read_at: string;
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!authToken) {
+      throw new Error('No authorization token provided');
+    }
+
+    const { action, auth0_user_id, child_id, since } = await req.json();
+
+    console.log('parent-reports: Received request:', { action, child_id, since });
+
+    if (!auth0_user_id || !child_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'auth0_user_id and child_id required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Parents can only see reports for their own children
+    const { data: parent, error: parentError } = await supabase
+      .from('parent_profiles')
+      .select('id')
+      .eq('auth0_user_id', auth0_user_id)
+      .maybeSingle();
+
+    if (parentError) throw parentError;
+    if (!parent) throw new Error('Parent profile not found');
+
+    const { data: child, error: childError } = await supabase
+      .from('children_profiles')
+      .select('id')
+      .eq('id', child_id)
+      .eq('parent_id', parent.id)
+      .maybeSingle();
+
+    if (childError) throw childError;
+    if (!child) throw new Error('Child not found for this parent');
+
+    const sinceISO = since ? new Date(since).toISOString() : new Date(0).toISOString();
+
+    switch (action) {
+      case 'get_activity': {
+        const [progressRes, resultsRes, storiesRes, readingRes, friendsRes, scoresRes, usageRes] = await Promise.all([
+          supabase
+            .from('child_progress')
+            .select('*')
+            .eq('child_id', child_id)
+            .maybeSingle(),
+          supabase
+            .from('game_results')
+            .select('*')
+            .eq('child_id', child_id)
+            .gte('ended_at', sinceISO)
+            .order('ended_at', { ascending: false })
+            .limit(MAX_RESULTS),
+          supabase
+            .from('generated_stories')
+            .select('id, title, created_at')
+            .eq('child_id', child_id)
+            .gte('created_at', sinceISO)
+            .order('created_at', { ascending: false }),
+          // Only the latest read of each story is kept, so it shows up in the week it was last read
+          supabase
+            .from('story_progress')
+            .select('story_id, endings_found, completed_at, last_read_at')
+            .eq('child_id', child_id)
+            .gte('last_read_at', sinceISO)
+            .order('last_read_at', { ascending: false }),
+          supabase
+            .from('friends')
+            .select('id, requester_id, addressee_id, status, updated_at')
+            .or(`requester_id.eq.${child_id},addressee_id.eq.${child_id}`)
+            .eq('status', 'accepted'),
+          supabase
+            .from('multiplayer_game_scores')
+            .select('room_id, score, total_questions, created_at')
+            .eq('child_id', child_id)
+            .gte('created_at', sinceISO)
+            .order('created_at', { ascending: false }),
+          // Usage is kept per local day; the UTC date of `since` is never later than the child's day
+          supabase
+            .from('screen_time_usage')
+            .select('usage_date, seconds')
+            .eq('child_id', child_id)
+            .gte('usage_date', sinceISO.slice(0, 10))
+            .order('usage_date', { ascending: false }),
+        ]);
+
+        for (const res of [progressRes, resultsRes, storiesRes, readingRes, friendsRes, scoresRes, usageRes]) {
+          if (res.error) throw res.error;
+        }
+
+        const progressRow = progressRes.data;
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            data: {
+              progress: progressRow ? {
+                profileId: progressRow.child_id,
+                stars: progressRow.stars,
+                badges: progressRow.badges ?? [],
+                streak: progressRow.streak,
+                perGame: progressRow.per_game ?? {},
+                updatedAt: progressRow.updated_at,
+              } : null,
+              results: (resultsRes.data || []).map((row) => ({
+                id: row.id,
+                gameId: row.game_id,
+                profileId: row.child_id,
+                difficulty: row.difficulty,
+                theme: row.theme ?? undefined,
+                correct: row.correct,
+                total: row.total,
+                starsEarned: row.stars_earned,
+                durationSeconds: row.duration_seconds ?? undefined,
+                endedAt: row.ended_at,
+              })),
+              stories: (storiesRes.data || []).map((row) => ({
+                id: row.id,
+                title: row.title,
+                createdAt: row.created_at,
+              })),
+              storiesRead: (readingRes.data || []).map((row: StoryReadingRow) => ({
+                storyId: row.story_id,
+                lastReadAt: row.last_read_at,
+                completedAt: row.completed_at,
+                endingsFound: (row.endings_found ?? []).length,
+              })),
+              // Accepted friendships, dated by when they were accepted
+              friends: (friendsRes.data || []).map((row) => ({
+                id: row.id,
+                friendId: row.requester_id === child_id ? row.addressee_id : row.requester_id,
+                addedAt: row.updated_at,
+              })),
+              multiplayerScores: (scoresRes.data || []).map((row) => ({
+                roomId: row.room_id,
+                score: row.score,
+                totalQuestions: row.total_questions,
+                playedAt: row.created_at,
+              })),
+              screenTime: (usageRes.data || []).map((row: ScreenTimeRow) => ({
+                date: row.usage_date,
+                seconds: row.seconds,
+              })),
+            },
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Error in parent-reports function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -13,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { action, auth0_user_id, child_id, audio_data, file_name } = await req.json();
+    const { action, auth0_user_id, child_id, audio_data, file_name, story_text, voice_id } = await req.json();
 
     if (!auth0_user_id) {
       throw new Error("Auth0 user ID is required");
@@ -116,8 +116,7 @@ serve(async (req) => {
     }
 
     if (action === 'generate_story_audio') {
-      const { story_text, voice_id } = await req.json();
-
+      // The body was already read above; reading it again throws
       if (!story_text || !voice_id) {
         throw new Error("Story text and voice ID are required");
       }
@@ -0,0 +1,39 @@
+-- Server-side copy of each child's progress (stars, badges, streak, per-game stats)
+-- Written by the manage-progress edge function, which merges it with the device's local cache
+CREATE TABLE IF NOT EXISTS public.child_progress (
+  child_id UUID NOT NULL PRIMARY KEY REFERENCES public.children_profiles(id) ON DELETE CASCADE,
+  stars INTEGER NOT NULL DEFAULT 0,
+  badges TEXT[] NOT NULL DEFAULT '{}',
+  streak JSONB NOT NULL DEFAULT '{"current": 0, "longest": 0, "lastPlayedISO": null}'::jsonb,
+  per_game JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.child_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view progress for their children"
+ON public.child_progress
+FOR SELECT
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE POLICY "Parents can manage progress for their children"
+ON public.child_progress
+FOR ALL
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE TRIGGER update_child_progress_updated_at
+BEFORE UPDATE ON public.child_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
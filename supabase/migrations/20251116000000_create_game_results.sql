@@ -0,0 +1,42 @@
+-- Append-only log of every finished game, used for history, trends and parent reports
+-- ids are generated on the device so retried uploads from an offline tablet are idempotent
+CREATE TABLE IF NOT EXISTS public.game_results (
+  id UUID NOT NULL PRIMARY KEY,
+  child_id UUID NOT NULL REFERENCES public.children_profiles(id) ON DELETE CASCADE,
+  game_id TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  theme TEXT,
+  correct INTEGER NOT NULL DEFAULT 0,
+  total INTEGER NOT NULL DEFAULT 0,
+  stars_earned INTEGER NOT NULL DEFAULT 0,
+  duration_seconds INTEGER,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_results_child_ended_at ON public.game_results(child_id, ended_at DESC);
+CREATE INDEX IF NOT EXISTS idx_game_results_child_game ON public.game_results(child_id, game_id, difficulty);
+
+-- Enable Row Level Security
+ALTER TABLE public.game_results ENABLE ROW LEVEL SECURITY;
+
+-- Only SELECT and INSERT policies: results are never updated or deleted
+CREATE POLICY "Parents can view game results for their children"
+ON public.game_results
+FOR SELECT
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE POLICY "Parents can record game results for their children"
+ON public.game_results
+FOR INSERT
+WITH CHECK (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
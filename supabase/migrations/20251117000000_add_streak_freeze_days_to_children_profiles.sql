@@ -0,0 +1,7 @@
+-- Weekdays (0 = Sunday ... 6 = Saturday) a child can skip without losing their play streak
+ALTER TABLE public.children_profiles
+ADD COLUMN IF NOT EXISTS streak_freeze_days SMALLINT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.children_profiles
+ADD CONSTRAINT children_profiles_streak_freeze_days_valid
+CHECK (streak_freeze_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
@@ -0,0 +1,61 @@
+-- Screen time and bedtime limits for each child, enforced by the app on every device
+CREATE TABLE IF NOT EXISTS public.parent_controls (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  child_id UUID NOT NULL UNIQUE REFERENCES public.children_profiles(id) ON DELETE CASCADE,
+  screen_time_enabled BOOLEAN NOT NULL DEFAULT false,
+  daily_limit_minutes INTEGER NOT NULL DEFAULT 120 CHECK (daily_limit_minutes > 0),
+  start_time TEXT NOT NULL DEFAULT '09:00',
+  end_time TEXT NOT NULL DEFAULT '20:00',
+  bedtime_enabled BOOLEAN NOT NULL DEFAULT false,
+  bedtime TEXT NOT NULL DEFAULT '21:00',
+  warning_minutes INTEGER NOT NULL DEFAULT 15 CHECK (warning_minutes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.parent_controls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view controls for their children"
+ON public.parent_controls
+FOR SELECT
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE POLICY "Parents can manage controls for their children"
+ON public.parent_controls
+FOR ALL
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE TRIGGER update_parent_controls_updated_at
+BEFORE UPDATE ON public.parent_controls
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Parent PIN used to override a lock screen. Kept out of parent_profiles so the
+-- hash is never returned to the app; only the manage-parent-controls function reads it.
+CREATE TABLE IF NOT EXISTS public.parent_pins (
+  parent_id UUID NOT NULL PRIMARY KEY REFERENCES public.parent_profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- RLS with no policies: only the service role can read or write PINs
+ALTER TABLE public.parent_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_parent_pins_updated_at
+BEFORE UPDATE ON public.parent_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
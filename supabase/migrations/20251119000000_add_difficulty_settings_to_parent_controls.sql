@@ -0,0 +1,7 @@
+-- Adaptive difficulty settings per child
+-- difficulty_pins maps a game id to the difficulty a parent has fixed for it, e.g. {"riddle": "easy"}
+ALTER TABLE public.parent_controls
+ADD COLUMN IF NOT EXISTS adaptive_difficulty BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.parent_controls
+ADD COLUMN IF NOT EXISTS difficulty_pins JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,63 @@
+-- Server-authoritative multiplayer scoring: answers go through the manage-game-rooms
+-- submit_answer action, which validates them and updates scores in a single statement
+
+ALTER TABLE public.multiplayer_game_scores
+ADD COLUMN IF NOT EXISTS streak INTEGER NOT NULL DEFAULT 0;
+
+-- One row per answered question, so a player can't score the same question twice
+CREATE TABLE IF NOT EXISTS public.multiplayer_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id UUID NOT NULL,
+  score_id UUID NOT NULL REFERENCES public.multiplayer_game_scores(id) ON DELETE CASCADE,
+  question_id TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (score_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_multiplayer_answers_room
+ON public.multiplayer_answers (room_id);
+
+-- Only the edge function (service role) reads or writes answers
+ALTER TABLE public.multiplayer_answers ENABLE ROW LEVEL SECURITY;
+
+-- Scores are now written by the edge function only; clients keep read access
+DROP POLICY IF EXISTS "Users can create and update scores for their children" ON public.multiplayer_game_scores;
+
+-- Records an answer and bumps score, attempts and streak atomically.
+-- Returns the updated score row, or nothing if the question was already answered.
+CREATE OR REPLACE FUNCTION public.submit_multiplayer_answer(
+  p_score_id UUID,
+  p_question_id TEXT,
+  p_answer TEXT,
+  p_is_correct BOOLEAN,
+  p_points INTEGER
+)
+RETURNS SETOF public.multiplayer_game_scores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO multiplayer_answers (room_id, score_id, question_id, answer, is_correct)
+  SELECT s.room_id, s.id, p_question_id, p_answer, p_is_correct
+  FROM multiplayer_game_scores s
+  WHERE s.id = p_score_id
+  ON CONFLICT (score_id, question_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE multiplayer_game_scores
+  SET score = score + CASE WHEN p_is_correct THEN p_points ELSE 0 END,
+      total_questions = total_questions + 1,
+      streak = CASE WHEN p_is_correct THEN streak + 1 ELSE 0 END
+  WHERE id = p_score_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_multiplayer_answer(UUID, TEXT, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
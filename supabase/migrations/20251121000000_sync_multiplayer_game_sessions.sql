@@ -0,0 +1,35 @@
+-- Server-owned multiplayer sessions: the manage-game-rooms function writes one session per
+-- room (countdown start, question order, per-question timing, pause/resume) and clients
+-- render from it, so everyone in a room sees the same question at the same moment
+
+CREATE INDEX IF NOT EXISTS idx_multiplayer_game_sessions_room
+ON public.multiplayer_game_sessions (room_id);
+
+-- Sessions are written by the edge function only; clients keep read access
+DROP POLICY IF EXISTS "Users can view and manage their game sessions" ON public.multiplayer_game_sessions;
+
+CREATE POLICY "Users can view sessions for their rooms"
+ON public.multiplayer_game_sessions
+FOR SELECT
+USING (
+  room_id IN (
+    SELECT gr.id FROM game_rooms gr
+    WHERE gr.host_child_id IN (
+      SELECT c.id FROM children_profiles c
+      JOIN parent_profiles p ON c.parent_id = p.id
+      WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+    )
+  ) OR
+  room_id IN (
+    SELECT rp.room_id FROM room_participants rp
+    WHERE rp.child_id IN (
+      SELECT c.id FROM children_profiles c
+      JOIN parent_profiles p ON c.parent_id = p.id
+      WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+    )
+  )
+);
+
+-- Enable realtime so clients hear about starts, pauses and finishes
+ALTER TABLE public.multiplayer_game_sessions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.multiplayer_game_sessions;
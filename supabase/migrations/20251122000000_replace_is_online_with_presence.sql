@@ -0,0 +1,9 @@
+-- Online status now comes from Supabase Realtime Presence (one entry per open tab) plus a
+-- last_seen_at heartbeat; the is_online flag went stale whenever a tab closed without logging out
+DROP INDEX IF EXISTS public.idx_children_profiles_online_status;
+
+ALTER TABLE public.children_profiles
+DROP COLUMN IF EXISTS is_online;
+
+CREATE INDEX IF NOT EXISTS idx_children_profiles_last_seen
+ON public.children_profiles (last_seen_at DESC);
@@ -0,0 +1,121 @@
+-- Room expiry: rooms whose host closed the browser without leave_room/close_room used to live
+-- forever and keep their players "in a room". Every room now has a hard expiry and an idle
+-- timeout, and a scheduled reaper finishes stale rooms and releases their players.
+
+ALTER TABLE public.game_rooms
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '3 hours'),
+ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_game_rooms_expiry
+ON public.game_rooms (status, expires_at, last_activity_at);
+
+ALTER TABLE public.join_requests
+DROP CONSTRAINT IF EXISTS join_requests_status_check;
+
+ALTER TABLE public.join_requests
+ADD CONSTRAINT join_requests_status_check CHECK (status IN ('pending', 'approved', 'denied', 'expired'));
+
+-- Players joining, leaving, answering or the session changing all count as activity.
+-- Only bumps once a minute so answers don't flood game_rooms realtime subscribers.
+CREATE OR REPLACE FUNCTION public.touch_game_room_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id UUID;
+BEGIN
+  v_room_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.room_id ELSE NEW.room_id END;
+
+  UPDATE game_rooms
+  SET last_activity_at = now()
+  WHERE id = v_room_id
+    AND last_activity_at < now() - interval '1 minute';
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_room_on_participants ON public.room_participants;
+CREATE TRIGGER touch_room_on_participants
+AFTER INSERT OR DELETE ON public.room_participants
+FOR EACH ROW EXECUTE FUNCTION public.touch_game_room_activity();
+
+DROP TRIGGER IF EXISTS touch_room_on_answers ON public.multiplayer_answers;
+CREATE TRIGGER touch_room_on_answers
+AFTER INSERT ON public.multiplayer_answers
+FOR EACH ROW EXECUTE FUNCTION public.touch_game_room_activity();
+
+DROP TRIGGER IF EXISTS touch_room_on_sessions ON public.multiplayer_game_sessions;
+CREATE TRIGGER touch_room_on_sessions
+AFTER INSERT OR UPDATE ON public.multiplayer_game_sessions
+FOR EACH ROW EXECUTE FUNCTION public.touch_game_room_activity();
+
+-- Finishes rooms that are past their expiry or idle for p_idle_minutes, removes their
+-- participants, clears children's room links and expires pending join requests.
+-- Also clears links to rooms that no longer exist and join requests left pending too long.
+CREATE OR REPLACE FUNCTION public.reap_stale_game_rooms(p_idle_minutes INTEGER DEFAULT 30)
+RETURNS TABLE (rooms_reaped INTEGER, children_released INTEGER, requests_expired INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cutoff TIMESTAMP WITH TIME ZONE := now() - make_interval(mins => p_idle_minutes);
+  v_stale UUID[];
+BEGIN
+  SELECT coalesce(array_agg(id), '{}') INTO v_stale
+  FROM game_rooms gr
+  WHERE (gr.expires_at < now() OR greatest(gr.last_activity_at, gr.updated_at) < v_cutoff)
+    -- skip rooms an earlier run already cleaned up
+    AND (
+      gr.status <> 'finished'
+      OR EXISTS (SELECT 1 FROM room_participants rp WHERE rp.room_id = gr.id)
+      OR EXISTS (SELECT 1 FROM children_profiles c WHERE c.room_id = gr.id)
+    );
+
+  UPDATE game_rooms
+  SET status = 'finished'
+  WHERE id = ANY (v_stale) AND status <> 'finished';
+
+  UPDATE multiplayer_game_sessions
+  SET game_state = 'finished'
+  WHERE room_id = ANY (v_stale) AND game_state <> 'finished';
+
+  DELETE FROM room_participants WHERE room_id = ANY (v_stale);
+  rooms_reaped := coalesce(array_length(v_stale, 1), 0);
+
+  UPDATE children_profiles
+  SET room_id = NULL, in_room = false
+  WHERE room_id = ANY (v_stale)
+     OR (room_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM game_rooms gr WHERE gr.id = children_profiles.room_id));
+  GET DIAGNOSTICS children_released = ROW_COUNT;
+
+  UPDATE join_requests
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND (
+      room_id = ANY (v_stale)
+      OR room_code IN (SELECT room_code FROM game_rooms WHERE id = ANY (v_stale))
+      OR created_at < v_cutoff
+    );
+  GET DIAGNOSTICS requests_expired = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reap_stale_game_rooms(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Run the reaper every 5 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('reap-stale-game-rooms')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'reap-stale-game-rooms');
+
+SELECT cron.schedule(
+  'reap-stale-game-rooms',
+  '*/5 * * * *',
+  $$ SELECT public.reap_stale_game_rooms(); $$
+);
@@ -0,0 +1,13 @@
+-- Rejoining players get their own score row back (or a fresh one) from get_player_state.
+-- One row per child per room, so two tabs rejoining at once can't create duplicates.
+
+DELETE FROM public.multiplayer_game_scores s
+USING public.multiplayer_game_scores newer
+WHERE s.child_id IS NOT NULL
+  AND s.room_id = newer.room_id
+  AND s.child_id = newer.child_id
+  AND (s.created_at, s.id) < (newer.created_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_multiplayer_game_scores_room_child
+ON public.multiplayer_game_scores (room_id, child_id)
+WHERE child_id IS NOT NULL;
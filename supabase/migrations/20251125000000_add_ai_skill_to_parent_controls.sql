@@ -0,0 +1,5 @@
+-- How tough AI friends are for this child: 'auto' follows the game's difficulty,
+-- otherwise 'easy', 'medium' or 'hard' regardless of the level being played
+ALTER TABLE public.parent_controls
+ADD COLUMN IF NOT EXISTS ai_skill TEXT NOT NULL DEFAULT 'auto'
+CHECK (ai_skill IN ('auto', 'easy', 'medium', 'hard'));
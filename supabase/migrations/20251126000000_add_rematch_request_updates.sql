@@ -0,0 +1,25 @@
+-- Rematch offers live in game_rooms.play_again_request:
+-- {id, requestedBy, requestedByName, requestedAt, expiresAt, status, responses: {child_id: 'accepted' | 'declined'}}
+-- Players answer at the same time, so responses and status changes are applied with jsonb_set
+-- in one statement, and only while that request is still pending. Returns NULL otherwise.
+CREATE OR REPLACE FUNCTION public.update_rematch_request(
+  p_room_id UUID,
+  p_request_id TEXT,
+  p_path TEXT[],
+  p_value JSONB
+)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE game_rooms
+  SET play_again_request = jsonb_set(play_again_request, p_path, p_value),
+      updated_at = now()
+  WHERE id = p_room_id
+    AND play_again_request->>'id' = p_request_id
+    AND play_again_request->>'status' = 'pending'
+  RETURNING play_again_request;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_rematch_request(UUID, TEXT, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,56 @@
+-- Co-op crossword: everyone in the room fills one shared grid. Cell edits travel over realtime
+-- broadcast; only finished words reach the server, and each word is credited to the first
+-- player to complete it.
+
+ALTER TABLE public.game_rooms
+ADD COLUMN IF NOT EXISTS game_mode TEXT NOT NULL DEFAULT 'race';
+
+ALTER TABLE public.game_rooms
+DROP CONSTRAINT IF EXISTS game_rooms_game_mode_check;
+
+ALTER TABLE public.game_rooms
+ADD CONSTRAINT game_rooms_game_mode_check CHECK (game_mode IN ('race', 'coop'));
+
+-- One row per finished word. Removed with the score rows when a new round starts.
+CREATE TABLE IF NOT EXISTS public.coop_word_claims (
+  room_id UUID NOT NULL,
+  question_id TEXT NOT NULL,
+  score_id UUID NOT NULL REFERENCES public.multiplayer_game_scores(id) ON DELETE CASCADE,
+  child_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, question_id)
+);
+
+-- Only the edge function (service role) reads or writes claims
+ALTER TABLE public.coop_word_claims ENABLE ROW LEVEL SECURITY;
+
+-- Claims a word for the player and records it as a correct answer.
+-- Returns the updated score row, or nothing if someone already finished the word.
+CREATE OR REPLACE FUNCTION public.claim_coop_word(
+  p_score_id UUID,
+  p_question_id TEXT,
+  p_answer TEXT,
+  p_points INTEGER
+)
+RETURNS SETOF public.multiplayer_game_scores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO coop_word_claims (room_id, question_id, score_id, child_id)
+  SELECT s.room_id, p_question_id, s.id, s.child_id
+  FROM multiplayer_game_scores s
+  WHERE s.id = p_score_id
+  ON CONFLICT (room_id, question_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM submit_multiplayer_answer(p_score_id, p_question_id, p_answer, true, p_points);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_coop_word(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
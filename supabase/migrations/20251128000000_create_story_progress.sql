@@ -0,0 +1,43 @@
+-- Each child's reading of the ready-made stories: where they got to, the endings they found
+-- and their bookmarks. Written by the manage-progress edge function, which merges it with
+-- the device's local cache
+CREATE TABLE IF NOT EXISTS public.story_progress (
+  child_id UUID NOT NULL REFERENCES public.children_profiles(id) ON DELETE CASCADE,
+  story_id TEXT NOT NULL,
+  last_path TEXT[] NOT NULL DEFAULT '{}',
+  endings_found TEXT[] NOT NULL DEFAULT '{}',
+  bookmarks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (child_id, story_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.story_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view story progress for their children"
+ON public.story_progress
+FOR SELECT
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE POLICY "Parents can manage story progress for their children"
+ON public.story_progress
+FOR ALL
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE TRIGGER update_story_progress_updated_at
+BEFORE UPDATE ON public.story_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Children can reopen, edit, rename and delete the stories they made.
+-- Writes go through the manage-stories edge function; updated_at orders the "My Stories" shelf
+ALTER TABLE public.generated_stories
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.generated_stories SET updated_at = created_at;
+
+CREATE INDEX IF NOT EXISTS generated_stories_child_id_updated_at_idx
+ON public.generated_stories (child_id, updated_at DESC);
+
+CREATE POLICY "Parents can update stories for their children"
+ON public.generated_stories
+FOR UPDATE
+USING (child_id IN (
+  SELECT c.id FROM public.children_profiles c
+  JOIN public.parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE POLICY "Parents can delete stories for their children"
+ON public.generated_stories
+FOR DELETE
+USING (child_id IN (
+  SELECT c.id FROM public.children_profiles c
+  JOIN public.parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE TRIGGER update_generated_stories_updated_at
+BEFORE UPDATE ON public.generated_stories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
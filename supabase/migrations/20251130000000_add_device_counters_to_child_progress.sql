@@ -0,0 +1,5 @@
+-- Stars and per-game counters kept per device, so copies from tablets played at the same time
+-- add up instead of the larger one winning. The stars and per_game totals are their sum.
+-- Rows saved before this are treated as a single "legacy" device until they're next merged.
+ALTER TABLE public.child_progress
+ADD COLUMN IF NOT EXISTS device_counters JSONB NOT NULL DEFAULT '{}'::jsonb;
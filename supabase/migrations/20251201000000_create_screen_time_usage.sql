@@ -0,0 +1,56 @@
+-- Seconds each child has used the app per day, summed across every device, so the daily
+-- limit follows the child rather than the tablet. The day is the device's local date.
+-- Written by the manage-parent-controls edge function; devices keep a copy for offline use.
+CREATE TABLE IF NOT EXISTS public.screen_time_usage (
+  child_id UUID NOT NULL REFERENCES public.children_profiles(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL,
+  seconds INTEGER NOT NULL DEFAULT 0 CHECK (seconds >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (child_id, usage_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.screen_time_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view screen time usage for their children"
+ON public.screen_time_usage
+FOR SELECT
+USING (child_id IN (
+  SELECT c.id
+  FROM children_profiles c
+  JOIN parent_profiles p ON c.parent_id = p.id
+  WHERE p.auth0_user_id = current_setting('app.current_auth0_user_id', true)
+));
+
+CREATE TRIGGER update_screen_time_usage_updated_at
+BEFORE UPDATE ON public.screen_time_usage
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Adds a device's unsynced seconds to the day's total atomically, so two tablets reporting
+-- at once both count. Returns the new total.
+CREATE OR REPLACE FUNCTION public.add_screen_time_usage(
+  p_child_id UUID,
+  p_usage_date DATE,
+  p_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  INSERT INTO screen_time_usage (child_id, usage_date, seconds)
+  VALUES (p_child_id, p_usage_date, GREATEST(p_seconds, 0))
+  ON CONFLICT (child_id, usage_date)
+  DO UPDATE SET seconds = screen_time_usage.seconds + GREATEST(EXCLUDED.seconds, 0)
+  RETURNING seconds INTO total;
+
+  RETURN total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_screen_time_usage(UUID, DATE, INTEGER) FROM PUBLIC, anon, authenticated;